@@ -54,7 +54,7 @@ export class OpenAIAdapter extends BaseModelAdapter {
       // Responses API uses { reasoning: { effort } }, Chat Completions uses { reasoning_effort }
       if (request.input) {
         // Responses API format (detected by presence of 'input' instead of 'messages')
-        request.reasoning = { effort };
+        request.reasoning = { ...request.reasoning, effort };
         log(`[OpenAIAdapter] Mapped budget ${budget_tokens} -> reasoning.effort: ${effort} (Responses API)`);
       } else {
         // Chat Completions API format
@@ -0,0 +1,543 @@
+/**
+ * Auth Command
+ *
+ * Implements `claudish auth`, one place to manage the credentials of every
+ * provider (API keys and OAuth logins), kept in the credential store:
+ * - claudish auth status: Which providers have credentials, and where from
+ * - claudish auth login [provider] [--key <key>] [--no-browser]: Save an API key, or run an OAuth login
+ * - claudish auth logout <provider>: Remove a provider's credentials
+ * - claudish auth list: Names of the stored credentials
+ * - claudish auth store [file|encrypted|keyring]: Show or switch the backend
+ * - claudish auth accounts [provider] [--strategy <s>] [--pin <account>]: Accounts and how one is picked
+ *
+ * Providers are given by name (openai, gemini-codeassist) or by the
+ * environment variable of their key (OPENAI_API_KEY). OpenRouter and Gemini
+ * Code Assist take several accounts (--account <name>, see auth/accounts.ts).
+ */
+
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { password, select } from "@inquirer/prompts";
+import {
+  ACCOUNT_STRATEGIES,
+  DEFAULT_ACCOUNT,
+  accountCredentialName,
+  getAccountsConfig,
+  isAccountStrategy,
+  isValidAccountName,
+  listAccounts,
+  setAccountsConfig,
+} from "./auth/accounts.js";
+import {
+  CREDENTIAL_STORE_KINDS,
+  createCredentialStore,
+  getApiKey,
+  getCredentialStore,
+  isCredentialStoreKind,
+  isCredentialStoreLocked,
+  setCredentialPassphrase,
+  setCredentialStoreKind,
+} from "./auth/credential-store.js";
+import { GeminiOAuth, listGeminiAccounts } from "./auth/gemini-oauth.js";
+import { KimiOAuth, hasKimiOAuthCredentials } from "./auth/kimi-oauth.js";
+import type { OAuthLoginOptions } from "./auth/oauth-login.js";
+import { getVertexConfig } from "./auth/vertex-auth.js";
+import { maskCredential } from "./logger.js";
+import { type ApiKeyProvider, getApiKeyProviders } from "./providers/provider-resolver.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const CYAN = "\x1b[36m";
+
+/**
+ * A provider that logs in through a browser or device code instead of an API key
+ */
+interface OAuthProvider {
+  name: string;
+  displayName: string;
+  isLoggedIn(): boolean;
+  login(options: OAuthLoginOptions, account: string): Promise<void>;
+  logout(account: string): Promise<void>;
+}
+
+const OAUTH_PROVIDERS: OAuthProvider[] = [
+  {
+    name: "gemini-codeassist",
+    displayName: "Gemini Code Assist",
+    isLoggedIn: () => GeminiOAuth.getInstance().hasCredentials(),
+    login: (options, account) => GeminiOAuth.getInstance(account).login(options),
+    logout: (account) => GeminiOAuth.getInstance(account).logout(),
+  },
+  {
+    name: "kimi-coding",
+    displayName: "Kimi Coding",
+    isLoggedIn: hasKimiOAuthCredentials,
+    login: (options) => KimiOAuth.getInstance().login(options),
+    logout: () => KimiOAuth.getInstance().logout(),
+  },
+];
+
+/** Providers whose requests can be spread over several accounts */
+const ACCOUNT_PROVIDERS = ["openrouter", "gemini-codeassist"];
+
+type AuthProvider =
+  | { type: "api-key"; provider: ApiKeyProvider }
+  | { type: "oauth"; provider: OAuthProvider };
+
+/**
+ * Find a provider by name or by the environment variable of its key
+ */
+function findAuthProvider(nameOrEnvVar: string): AuthProvider | undefined {
+  const wanted = nameOrEnvVar.toLowerCase();
+  const oauth = OAUTH_PROVIDERS.find((p) => p.name === wanted);
+  if (oauth) return { type: "oauth", provider: oauth };
+  const apiKey = getApiKeyProviders().find(
+    (p) =>
+      p.name.toLowerCase() === wanted ||
+      p.envVar.toLowerCase() === wanted ||
+      p.aliases.some((alias) => alias.toLowerCase() === wanted)
+  );
+  return apiKey ? { type: "api-key", provider: apiKey } : undefined;
+}
+
+/**
+ * Ask for the passphrase of the encrypted store if it's needed and there is a
+ * terminal to ask on (otherwise stored keys are skipped and a log line explains why)
+ */
+export async function unlockCredentialStore(): Promise<void> {
+  if (!isCredentialStoreLocked() || !process.stdin.isTTY) return;
+  setCredentialPassphrase(
+    await password({ message: "Passphrase for the claudish credential store:", mask: "*" })
+  );
+  // Fail early on a wrong passphrase
+  getCredentialStore().list();
+}
+
+/**
+ * Read an API key from --key, stdin (when piped) or a prompt
+ */
+async function readApiKey(provider: ApiKeyProvider, key: string | undefined): Promise<string> {
+  if (key) return key.trim();
+  if (!process.stdin.isTTY) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString("utf-8").trim();
+  }
+  if (provider.url) console.log(`Get your key from: ${provider.url}`);
+  return password({
+    message: `${provider.description} (${provider.envVar}):`,
+    mask: "*",
+    validate: (value) => (value.trim() ? true : "API key cannot be empty"),
+  });
+}
+
+/**
+ * Let the user pick a provider to log in to
+ */
+async function selectProvider(): Promise<AuthProvider> {
+  const choices = [
+    ...getApiKeyProviders().map((provider) => ({
+      name: `${provider.displayName} ${DIM}(${provider.envVar})${RESET}`,
+      value: { type: "api-key", provider } as AuthProvider,
+    })),
+    ...OAUTH_PROVIDERS.map((provider) => ({
+      name: `${provider.displayName} ${DIM}(OAuth login)${RESET}`,
+      value: { type: "oauth", provider } as AuthProvider,
+    })),
+  ];
+  return select({ message: "Log in to which provider?", choices, pageSize: 15 });
+}
+
+interface LoginArgs {
+  name?: string;
+  key?: string;
+  account: string;
+  options: OAuthLoginOptions;
+}
+
+/**
+ * Parse `claudish auth login|logout` arguments
+ */
+function parseLoginArgs(args: string[]): LoginArgs {
+  const parsed: LoginArgs = { account: DEFAULT_ACCOUNT, options: {} };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--key") parsed.key = args[++i];
+    else if (arg === "--account") parsed.account = args[++i] || "";
+    else if (arg === "--no-browser" || arg === "--device") parsed.options.noBrowser = true;
+    else parsed.name = arg;
+  }
+  if (!isValidAccountName(parsed.account)) {
+    console.error("--account needs a name of letters, digits, - and _");
+    process.exit(1);
+  }
+  return parsed;
+}
+
+/**
+ * Exit unless the provider can use a named account
+ */
+function checkAccountSupport(target: AuthProvider, account: string): void {
+  if (account === DEFAULT_ACCOUNT || ACCOUNT_PROVIDERS.includes(target.provider.name)) return;
+  console.error(
+    `${target.provider.displayName} has a single account; --account works with: ${ACCOUNT_PROVIDERS.join(", ")}`
+  );
+  process.exit(1);
+}
+
+/**
+ * " (account work)" for named accounts
+ */
+function accountSuffix(account: string): string {
+  return account === DEFAULT_ACCOUNT ? "" : ` (account ${account})`;
+}
+
+async function loginCommand(args: string[]): Promise<void> {
+  const { name, key, account, options } = parseLoginArgs(args);
+
+  const target = name ? findAuthProvider(name) : await selectProvider();
+  if (!target) {
+    console.error(`Unknown provider: ${name}. Run 'claudish auth status' to see all providers.`);
+    process.exit(1);
+  }
+  checkAccountSupport(target, account);
+
+  if (target.type === "oauth") {
+    await target.provider.login(options, account);
+    console.log(
+      `\n${GREEN}✓${RESET} Logged in to ${target.provider.displayName}${accountSuffix(account)}`
+    );
+    return;
+  }
+
+  const { provider } = target;
+  const value = await readApiKey(provider, key);
+  if (!value) {
+    console.error("No API key given");
+    process.exit(1);
+  }
+  const store = getCredentialStore();
+  const credentialName = accountCredentialName(provider.envVar, account);
+  store.set(credentialName, value);
+  console.log(
+    `${GREEN}✓${RESET} Saved ${credentialName} ${DIM}(${maskCredential(value)})${RESET} to the ${store.kind} store`
+  );
+  if (account === DEFAULT_ACCOUNT && process.env[provider.envVar]) {
+    console.log(
+      `${YELLOW}Note:${RESET} ${provider.envVar} is also set in the environment, which takes precedence`
+    );
+  }
+}
+
+async function logoutCommand(args: string[]): Promise<void> {
+  const { name, account } = parseLoginArgs(args);
+  const target = name ? findAuthProvider(name) : undefined;
+  if (!target) {
+    console.error(name ? `Unknown provider: ${name}` : "Usage: claudish auth logout <provider>");
+    process.exit(1);
+  }
+  checkAccountSupport(target, account);
+
+  if (target.type === "oauth") {
+    await target.provider.logout(account);
+    console.log(
+      `${GREEN}✓${RESET} Logged out of ${target.provider.displayName}${accountSuffix(account)}`
+    );
+    return;
+  }
+
+  const { envVar } = target.provider;
+  const credentialName = accountCredentialName(envVar, account);
+  if (getCredentialStore().delete(credentialName)) {
+    console.log(
+      `${GREEN}✓${RESET} Removed ${credentialName} from the ${getCredentialStore().kind} store`
+    );
+  } else {
+    console.log(`${DIM}${credentialName} was not stored${RESET}`);
+  }
+  if (account === DEFAULT_ACCOUNT && process.env[envVar]) {
+    console.log(`${YELLOW}Note:${RESET} ${envVar} is still set in the environment`);
+  }
+}
+
+/**
+ * Where a provider's API key comes from
+ */
+function describeApiKey(provider: ApiKeyProvider): string {
+  const store = getCredentialStore();
+  for (const envVar of [provider.envVar, ...provider.aliases]) {
+    const fromEnv = process.env[envVar];
+    const stored = fromEnv ? undefined : store.get(envVar);
+    const value = fromEnv || stored;
+    if (value) {
+      const source = fromEnv ? "environment" : "stored";
+      return `${GREEN}${source}${RESET} ${DIM}${envVar} ${maskCredential(value)}${RESET}`;
+    }
+  }
+  return `${DIM}not set${RESET}`;
+}
+
+function statusCommand(): void {
+  const store = getCredentialStore();
+  console.log(
+    `\n${BOLD}Credential store:${RESET} ${store.kind} ${DIM}(${store.location})${RESET}\n`
+  );
+
+  const rows: [string, string][] = [
+    ...getApiKeyProviders().map((p): [string, string] => [p.displayName, describeApiKey(p)]),
+    ...OAUTH_PROVIDERS.map((p): [string, string] => [
+      p.displayName,
+      p.isLoggedIn()
+        ? `${GREEN}logged in${RESET} ${DIM}(OAuth)${RESET}`
+        : `${DIM}not logged in${RESET}`,
+    ]),
+  ];
+
+  // Vertex AI OAuth mode uses gcloud Application Default Credentials
+  const vertex = getVertexConfig();
+  const hasAdc = existsSync(join(homedir(), ".config/gcloud/application_default_credentials.json"));
+  rows.push([
+    "Vertex AI (OAuth)",
+    vertex && hasAdc
+      ? `${GREEN}gcloud${RESET} ${DIM}project ${vertex.projectId}${RESET}`
+      : `${DIM}not configured (VERTEX_PROJECT + gcloud auth application-default login)${RESET}`,
+  ]);
+
+  const width = Math.max(...rows.map(([name]) => name.length));
+  for (const [name, status] of rows) {
+    console.log(`  ${name.padEnd(width)}  ${status}`);
+  }
+  console.log("");
+  const extra = ACCOUNT_PROVIDERS.filter((p) => providerAccounts(p).length > 1);
+  if (extra.length > 0) {
+    console.log(
+      `${DIM}Several accounts set up for ${extra.join(", ")}: claudish auth accounts${RESET}\n`
+    );
+  }
+}
+
+function listCommand(): void {
+  const store = getCredentialStore();
+  const names = store.list();
+  if (names.length === 0) {
+    console.log(`No stored credentials ${DIM}(${store.location})${RESET}`);
+    return;
+  }
+  for (const name of names) console.log(name);
+}
+
+/**
+ * Show the backend, or move every credential to another one
+ */
+async function storeCommand(kind: string | undefined): Promise<void> {
+  const current = getCredentialStore();
+  if (!kind) {
+    console.log(`${current.kind} ${DIM}(${current.location})${RESET}`);
+    return;
+  }
+  if (!isCredentialStoreKind(kind)) {
+    console.error(`Credential store must be one of: ${CREDENTIAL_STORE_KINDS.join(", ")}`);
+    process.exit(1);
+  }
+  if (kind === current.kind) {
+    console.log(`Already using the ${kind} store`);
+    return;
+  }
+
+  let passphrase: string | undefined;
+  if (kind === "encrypted") {
+    passphrase = process.env.CLAUDISH_CREDENTIALS_PASSPHRASE || (await askNewPassphrase());
+  }
+  const next = createCredentialStore(kind, { passphrase });
+
+  const names = current.list();
+  for (const name of names) {
+    const value = current.get(name);
+    if (value !== undefined) next.set(name, value);
+  }
+  for (const name of names) current.delete(name);
+
+  setCredentialStoreKind(kind);
+  if (passphrase) setCredentialPassphrase(passphrase);
+  console.log(
+    `${GREEN}✓${RESET} Moved ${names.length} credential(s) to the ${kind} store ${DIM}(${next.location})${RESET}`
+  );
+  if (kind === "encrypted" && !process.env.CLAUDISH_CREDENTIALS_PASSPHRASE) {
+    console.log(
+      `${DIM}claudish asks for the passphrase on start; set CLAUDISH_CREDENTIALS_PASSPHRASE to skip the prompt${RESET}`
+    );
+  }
+}
+
+async function askNewPassphrase(): Promise<string> {
+  const first = await password({
+    message: "New passphrase for the credential store:",
+    mask: "*",
+    validate: (value) => (value.length >= 8 ? true : "Use at least 8 characters"),
+  });
+  await password({
+    message: "Repeat the passphrase:",
+    mask: "*",
+    validate: (value) => (value === first ? true : "Passphrases don't match"),
+  });
+  return first;
+}
+
+/**
+ * Main auth command
+ */
+export async function authCommand(args: string[]): Promise<void> {
+  const [subcommand = "status", ...rest] = args;
+  if (subcommand === "--help" || subcommand === "-h" || subcommand === "help") {
+    printAuthHelp();
+    return;
+  }
+
+  try {
+    await unlockCredentialStore();
+    switch (subcommand) {
+      case "status":
+        return statusCommand();
+      case "login":
+        return await loginCommand(rest);
+      case "logout":
+        return await logoutCommand(rest);
+      case "list":
+        return listCommand();
+      case "store":
+        return await storeCommand(rest[0]);
+      case "accounts":
+        return accountsCommand(rest);
+      default:
+        console.error(`Unknown auth command: ${subcommand}`);
+        printAuthHelp();
+        process.exit(1);
+    }
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+}
+
+/**
+ * Accounts set up for a provider in ACCOUNT_PROVIDERS
+ */
+function providerAccounts(provider: string): string[] {
+  if (provider === "gemini-codeassist") return listGeminiAccounts();
+  const envVar = "OPENROUTER_API_KEY";
+  return listAccounts(envVar, !!getApiKey(envVar));
+}
+
+function printAccounts(provider: string): void {
+  const { strategy = "switch-on-quota", pinned } = getAccountsConfig(provider);
+  const accounts = providerAccounts(provider);
+  console.log(`\n${BOLD}${provider}${RESET} ${DIM}strategy:${RESET} ${strategy}`);
+  if (accounts.length === 0) {
+    console.log(`  ${DIM}no accounts (claudish auth login ${provider})${RESET}`);
+  }
+  for (const account of accounts) {
+    const mark = strategy === "pinned" && (pinned ?? accounts[0]) === account ? " (pinned)" : "";
+    console.log(`  ${CYAN}${account}${RESET}${DIM}${mark}${RESET}`);
+  }
+}
+
+/**
+ * Save `--strategy` / `--pin` for a provider
+ */
+function saveAccountSettings(
+  provider: string | undefined,
+  strategy: string | undefined,
+  pin: string | undefined
+): void {
+  if (!provider) {
+    console.error(
+      "Usage: claudish auth accounts <provider> --strategy <strategy> [--pin <account>]"
+    );
+    process.exit(1);
+  }
+  if (strategy !== undefined && !isAccountStrategy(strategy)) {
+    console.error(`Unknown strategy: ${strategy}. Use one of: ${ACCOUNT_STRATEGIES.join(", ")}`);
+    process.exit(1);
+  }
+  const settings = { ...getAccountsConfig(provider) };
+  if (pin) settings.pinned = pin;
+  settings.strategy = strategy ?? (pin ? "pinned" : settings.strategy);
+  setAccountsConfig(provider, settings);
+  console.log(`${GREEN}✓${RESET} Saved account settings for ${provider}`);
+}
+
+function accountsCommand(args: string[]): void {
+  let provider: string | undefined;
+  let strategy: string | undefined;
+  let pin: string | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--strategy") strategy = args[++i];
+    else if (args[i] === "--pin") pin = args[++i];
+    else provider = args[i];
+  }
+  if (provider && !ACCOUNT_PROVIDERS.includes(provider)) {
+    console.error(`Accounts are supported for: ${ACCOUNT_PROVIDERS.join(", ")}`);
+    process.exit(1);
+  }
+
+  if (strategy !== undefined || pin !== undefined) saveAccountSettings(provider, strategy, pin);
+
+  for (const name of provider ? [provider] : ACCOUNT_PROVIDERS) printAccounts(name);
+  console.log("");
+}
+
+/**
+ * Print auth command help
+ */
+function printAuthHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish auth [status]
+       claudish auth login [provider] [--key <key>] [--account <name>] [--no-browser]
+       claudish auth logout <provider> [--account <name>]
+       claudish auth list
+       claudish auth store [file|encrypted|keyring]
+       claudish auth accounts [provider] [--strategy <strategy>] [--pin <account>]
+
+${BOLD}Commands:${RESET}
+  ${CYAN}status${RESET}                Show every provider's credentials and where they come from
+  ${CYAN}login${RESET}                 Save an API key (prompted, --key, or piped on stdin) or run an OAuth login
+  ${CYAN}logout${RESET}                Remove a provider's stored key or OAuth login
+  ${CYAN}list${RESET}                  List the names of stored credentials
+  ${CYAN}store${RESET}                 Show the credential store, or move all credentials to another one
+  ${CYAN}accounts${RESET}              Show or set how requests pick between several accounts of a provider
+
+${BOLD}Login options:${RESET}
+  ${CYAN}--key${RESET} ${DIM}<key>${RESET}           API key to save (instead of prompting)
+  ${CYAN}--account${RESET} ${DIM}<name>${RESET}      Save as an extra account (openrouter, gemini-codeassist)
+  ${CYAN}--no-browser${RESET}          OAuth login without opening a browser: prints the URL to sign in on
+                        any device (alias: --device; the default over SSH and without a display)
+
+${BOLD}Stores:${RESET}
+  ${CYAN}file${RESET}                  ~/.claudish/credentials.json, readable only by you (default)
+  ${CYAN}encrypted${RESET}             ~/.claudish/credentials.enc.json, encrypted with a passphrase
+                        (prompted, or CLAUDISH_CREDENTIALS_PASSPHRASE)
+  ${CYAN}keyring${RESET}               macOS Keychain or Linux Secret Service (secret-tool)
+
+Environment variables always take precedence over stored keys.
+
+${BOLD}Account strategies:${RESET}
+  ${CYAN}switch-on-quota${RESET}       Stay on one account until its daily quota runs out (default)
+  ${CYAN}round-robin${RESET}           Use the next account on every request
+  ${CYAN}pinned${RESET}                Always use one account (--pin <account>, else the first)
+
+${BOLD}Examples:${RESET}
+  claudish auth login openrouter
+  claudish auth login OPENAI_API_KEY --key sk-...
+  echo "$KEY" | claudish auth login zai
+  claudish auth login gemini-codeassist
+  claudish auth login kimi-coding --no-browser
+  claudish auth store encrypted
+  claudish auth login openrouter --account work
+  claudish auth accounts openrouter --strategy round-robin
+`);
+}
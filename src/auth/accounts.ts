@@ -0,0 +1,172 @@
+/**
+ * Provider Accounts
+ *
+ * Several named accounts per provider (e.g. a few OpenRouter keys, or a few
+ * Gemini Code Assist logins), and the strategy that picks one per request:
+ * - pinned: always the same account (the "pinned" one, else the default)
+ * - round-robin: the next account on every request
+ * - switch-on-quota: stay on one account until its quota runs out (default)
+ *
+ * An account's credential lives in the credential store next to the default
+ * one: OPENROUTER_API_KEY:work, gemini-oauth:alt. Strategies are saved per
+ * provider as "accounts" in ~/.claudish/config.json.
+ *
+ * When a handler sees an exhausted quota it marks the account, and every
+ * strategy but pinned skips it for QUOTA_COOLDOWN_MS.
+ */
+
+import { log } from "../logger.js";
+import { loadConfig, saveConfig } from "../profile-config.js";
+import { getApiKey, getCredentialStore, getStoredCredential } from "./credential-store.js";
+
+export type AccountStrategy = "pinned" | "round-robin" | "switch-on-quota";
+
+export const ACCOUNT_STRATEGIES: AccountStrategy[] = ["pinned", "round-robin", "switch-on-quota"];
+
+export function isAccountStrategy(value: string): value is AccountStrategy {
+  return (ACCOUNT_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Per-provider account settings in config.json
+ */
+export interface ProviderAccountsConfig {
+  strategy?: AccountStrategy;
+  /** Account used by the pinned strategy */
+  pinned?: string;
+}
+
+/** The account of the unsuffixed credential (environment variable or store entry) */
+export const DEFAULT_ACCOUNT = "default";
+
+/** How long an account with an exhausted quota is skipped */
+export const QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+
+/**
+ * Whether a name can be used for an account
+ */
+export function isValidAccountName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]*$/i.test(name);
+}
+
+/**
+ * Credential store name of an account (e.g. OPENROUTER_API_KEY:work)
+ */
+export function accountCredentialName(base: string, account: string): string {
+  return account === DEFAULT_ACCOUNT ? base : `${base}:${account}`;
+}
+
+/**
+ * Named accounts stored for a credential, after the default one if it exists
+ */
+export function listAccounts(base: string, hasDefault: boolean): string[] {
+  const prefix = `${base}:`;
+  let named: string[] = [];
+  try {
+    named = getCredentialStore()
+      .list()
+      .filter((name) => name.startsWith(prefix))
+      .map((name) => name.slice(prefix.length));
+  } catch (e) {
+    log(`[Accounts] ${e instanceof Error ? e.message : e}`);
+  }
+  return hasDefault ? [DEFAULT_ACCOUNT, ...named] : named;
+}
+
+/**
+ * Saved account settings of a provider
+ */
+export function getAccountsConfig(provider: string): ProviderAccountsConfig {
+  return loadConfig().accounts?.[provider] || {};
+}
+
+/**
+ * Save account settings of a provider
+ */
+export function setAccountsConfig(provider: string, settings: ProviderAccountsConfig): void {
+  const config = loadConfig();
+  saveConfig({ ...config, accounts: { ...config.accounts, [provider]: settings } });
+}
+
+/**
+ * Picks the account for each request of one provider
+ */
+export class AccountSelector {
+  private exhaustedUntil = new Map<string, number>();
+  private cursor = 0;
+
+  constructor(
+    readonly provider: string,
+    private getAccounts: () => string[],
+    private getSettings: () => ProviderAccountsConfig = () => getAccountsConfig(provider)
+  ) {}
+
+  private isAvailable(account: string, now: number): boolean {
+    return (this.exhaustedUntil.get(account) ?? 0) <= now;
+  }
+
+  /**
+   * The account to use for the next request (DEFAULT_ACCOUNT when none are set up)
+   */
+  select(): string {
+    const accounts = this.getAccounts();
+    if (accounts.length === 0) return DEFAULT_ACCOUNT;
+    const { strategy = "switch-on-quota", pinned } = this.getSettings();
+
+    if (strategy === "pinned") {
+      return pinned && accounts.includes(pinned) ? pinned : accounts[0];
+    }
+
+    const now = Date.now();
+    const start = strategy === "round-robin" ? this.cursor++ : this.cursor;
+    for (let i = 0; i < accounts.length; i++) {
+      const account = accounts[(start + i) % accounts.length];
+      if (this.isAvailable(account, now)) {
+        if (strategy === "switch-on-quota") this.cursor = (start + i) % accounts.length;
+        return account;
+      }
+    }
+    // All exhausted: keep using the current one so the quota error reaches the user
+    return accounts[start % accounts.length];
+  }
+
+  /**
+   * Record that an account ran out of quota
+   * @returns Whether another account is available to switch to
+   */
+  markExhausted(account: string): boolean {
+    const { strategy = "switch-on-quota" } = this.getSettings();
+    if (strategy === "pinned") return false;
+    const now = Date.now();
+    this.exhaustedUntil.set(account, now + QUOTA_COOLDOWN_MS);
+    const next = this.getAccounts().find((a) => a !== account && this.isAvailable(a, now));
+    log(
+      `[Accounts] ${this.provider} account "${account}" is out of quota${next ? `, switching to "${next}"` : ""}`
+    );
+    return next !== undefined;
+  }
+}
+
+const apiKeySelectors = new Map<string, AccountSelector>();
+
+/**
+ * Selector over the accounts of an API key provider: the key in the
+ * environment (or the store) plus stored <ENV_VAR>:<account> keys
+ */
+export function getApiKeyAccountSelector(provider: string, envVar: string): AccountSelector {
+  let selector = apiKeySelectors.get(provider);
+  if (!selector) {
+    selector = new AccountSelector(provider, () => listAccounts(envVar, !!getApiKey(envVar)));
+    apiKeySelectors.set(provider, selector);
+  }
+  return selector;
+}
+
+/**
+ * API key of a named account
+ */
+export function getAccountApiKey(envVar: string, account: string): string | undefined {
+  return account === DEFAULT_ACCOUNT
+    ? getApiKey(envVar)
+    : getStoredCredential(accountCredentialName(envVar, account));
+}
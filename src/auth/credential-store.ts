@@ -0,0 +1,500 @@
+/**
+ * Credential Store
+ *
+ * One place for provider API keys and OAuth tokens, with pluggable backends:
+ * - file: ~/.claudish/credentials.json with 0600 permissions (default)
+ * - encrypted: ~/.claudish/credentials.enc.json, AES-256-GCM with a key derived
+ *   from a passphrase (CLAUDISH_CREDENTIALS_PASSPHRASE, or prompted by `claudish auth`)
+ * - keyring: the OS keyring (macOS Keychain via `security`, Linux Secret Service
+ *   via `secret-tool`)
+ *
+ * API keys are stored under their environment variable name (e.g. OPENAI_API_KEY)
+ * and environment variables always win over stored keys. OAuth tokens are stored
+ * as JSON under the name of the login (e.g. gemini-oauth).
+ *
+ * The backend is chosen with `claudish auth store <backend>` (saved as
+ * "credentialStore" in ~/.claudish/config.json) or CLAUDISH_CREDENTIAL_STORE.
+ */
+
+import { spawnSync } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import {
+  chmodSync,
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  rmSync,
+  writeSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { log } from "../logger.js";
+import { loadConfig, saveConfig } from "../profile-config.js";
+
+export type CredentialStoreKind = "file" | "encrypted" | "keyring";
+
+export const CREDENTIAL_STORE_KINDS: CredentialStoreKind[] = ["file", "encrypted", "keyring"];
+
+export function isCredentialStoreKind(value: string): value is CredentialStoreKind {
+  return (CREDENTIAL_STORE_KINDS as string[]).includes(value);
+}
+
+/**
+ * A backend that stores named secrets
+ */
+export interface CredentialStore {
+  readonly kind: CredentialStoreKind;
+  /** Where the credentials live (file path or keyring name) */
+  readonly location: string;
+  get(name: string): string | undefined;
+  set(name: string, value: string): void;
+  /** @returns Whether the credential existed */
+  delete(name: string): boolean;
+  /** Names of all stored credentials */
+  list(): string[];
+}
+
+/**
+ * Thrown when the encrypted store is used without a passphrase
+ */
+export class CredentialStoreLockedError extends Error {
+  constructor(path: string) {
+    super(
+      `Credential store ${path} is encrypted. Set CLAUDISH_CREDENTIALS_PASSPHRASE or run \`claudish auth status\` to unlock it.`
+    );
+    this.name = "CredentialStoreLockedError";
+  }
+}
+
+/** Service name entries are filed under in the OS keyring */
+const KEYRING_SERVICE = "claudish";
+
+const getClaudishDir = () => join(homedir(), ".claudish");
+
+/**
+ * Write a file that only the current user can read
+ */
+function writePrivateFile(path: string, data: string): void {
+  const fd = openSync(path, "w", 0o600);
+  try {
+    writeSync(fd, data, 0, "utf-8");
+  } finally {
+    closeSync(fd);
+  }
+  // The mode only applies when the file is created - tighten existing files too
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Plaintext JSON file, readable only by the user
+ */
+class FileCredentialStore implements CredentialStore {
+  readonly kind: CredentialStoreKind = "file";
+
+  constructor(readonly location: string) {}
+
+  protected read(): Record<string, string> {
+    if (!existsSync(this.location)) return {};
+    try {
+      const data = JSON.parse(readFileSync(this.location, "utf-8"));
+      return data.credentials || {};
+    } catch (e: any) {
+      // Don't carry on with an empty store - the next write would wipe every key
+      throw new Error(`Failed to read ${this.location}: ${e.message}. Fix or remove the file.`);
+    }
+  }
+
+  protected write(credentials: Record<string, string>): void {
+    writePrivateFile(this.location, JSON.stringify({ version: 1, credentials }, null, 2));
+  }
+
+  get(name: string): string | undefined {
+    return this.read()[name];
+  }
+
+  set(name: string, value: string): void {
+    this.write({ ...this.read(), [name]: value });
+  }
+
+  delete(name: string): boolean {
+    const credentials = this.read();
+    if (!(name in credentials)) return false;
+    delete credentials[name];
+    this.write(credentials);
+    return true;
+  }
+
+  list(): string[] {
+    return Object.keys(this.read()).sort();
+  }
+}
+
+/**
+ * JSON file encrypted with AES-256-GCM (key derived from the passphrase with scrypt)
+ */
+class EncryptedCredentialStore extends FileCredentialStore {
+  override readonly kind: CredentialStoreKind = "encrypted";
+  private key: Buffer | null = null;
+  private salt: Buffer | null = null;
+
+  constructor(
+    location: string,
+    private passphrase: string | undefined
+  ) {
+    super(location);
+  }
+
+  private deriveKey(salt: Buffer): Buffer {
+    if (!this.passphrase) throw new CredentialStoreLockedError(this.location);
+    if (!this.key || !this.salt?.equals(salt)) {
+      this.key = scryptSync(this.passphrase, salt, 32);
+      this.salt = salt;
+    }
+    return this.key;
+  }
+
+  protected override read(): Record<string, string> {
+    if (!existsSync(this.location)) return {};
+    const file = JSON.parse(readFileSync(this.location, "utf-8"));
+    const key = this.deriveKey(Buffer.from(file.salt, "base64"));
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+    try {
+      const plain = Buffer.concat([
+        decipher.update(Buffer.from(file.data, "base64")),
+        decipher.final(),
+      ]);
+      return JSON.parse(plain.toString("utf-8"));
+    } catch {
+      throw new Error(`Wrong passphrase for ${this.location}`);
+    }
+  }
+
+  protected override write(credentials: Record<string, string>): void {
+    const salt = this.salt || randomBytes(16);
+    const key = this.deriveKey(salt);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(credentials), "utf-8"),
+      cipher.final(),
+    ]);
+    const file = {
+      version: 1,
+      kdf: "scrypt",
+      cipher: "aes-256-gcm",
+      salt: salt.toString("base64"),
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+    writePrivateFile(this.location, JSON.stringify(file, null, 2));
+  }
+}
+
+/**
+ * Run a keyring CLI (no shell - names and values are passed as arguments or stdin)
+ */
+function runKeyringTool(command: string, args: string[], input?: string) {
+  return spawnSync(command, args, { input, encoding: "utf-8", timeout: 10_000 });
+}
+
+/**
+ * Command line for `security -i`, which reads commands from stdin. `security`
+ * only takes passwords as arguments, and this keeps them out of argv.
+ */
+function toSecurityCommand(args: string[]): string {
+  return `${args.map((arg) => `"${arg.replace(/[\\"]/g, "\\$&")}"`).join(" ")}\n`;
+}
+
+/**
+ * OS keyring. Keyrings can't list entries by service, so the names (not the
+ * values) are kept in ~/.claudish/keyring-index.json.
+ */
+class KeyringCredentialStore implements CredentialStore {
+  readonly kind: CredentialStoreKind = "keyring";
+  readonly location =
+    process.platform === "darwin" ? "macOS Keychain" : "Secret Service (secret-tool)";
+  private cache = new Map<string, string | undefined>();
+
+  constructor(private indexPath: string) {}
+
+  private readIndex(): string[] {
+    try {
+      return JSON.parse(readFileSync(this.indexPath, "utf-8"));
+    } catch {
+      return [];
+    }
+  }
+
+  private writeIndex(names: string[]): void {
+    writePrivateFile(this.indexPath, JSON.stringify([...new Set(names)].sort(), null, 2));
+  }
+
+  get(name: string): string | undefined {
+    if (this.cache.has(name)) return this.cache.get(name);
+    const result =
+      process.platform === "darwin"
+        ? runKeyringTool("security", [
+            "find-generic-password",
+            "-s",
+            KEYRING_SERVICE,
+            "-a",
+            name,
+            "-w",
+          ])
+        : runKeyringTool("secret-tool", ["lookup", "service", KEYRING_SERVICE, "account", name]);
+    const value = result.status === 0 ? result.stdout.replace(/\n$/, "") || undefined : undefined;
+    this.cache.set(name, value);
+    return value;
+  }
+
+  set(name: string, value: string): void {
+    // Secrets go through stdin, never argv (visible to other users in `ps`)
+    const result =
+      process.platform === "darwin"
+        ? runKeyringTool(
+            "security",
+            ["-i"],
+            toSecurityCommand([
+              "add-generic-password",
+              "-U",
+              "-s",
+              KEYRING_SERVICE,
+              "-a",
+              name,
+              "-w",
+              value,
+            ])
+          )
+        : runKeyringTool(
+            "secret-tool",
+            ["store", `--label=claudish ${name}`, "service", KEYRING_SERVICE, "account", name],
+            value
+          );
+    // `security -i` exits 0 even when its command fails, but reports it on stderr
+    const failed =
+      result.status !== 0 || (process.platform === "darwin" && !!result.stderr?.trim());
+    if (failed) {
+      throw new Error(`Failed to store ${name} in the keyring: ${result.stderr || result.error}`);
+    }
+    this.cache.set(name, value);
+    this.writeIndex([...this.readIndex(), name]);
+  }
+
+  delete(name: string): boolean {
+    const existed = this.get(name) !== undefined;
+    if (process.platform === "darwin") {
+      runKeyringTool("security", ["delete-generic-password", "-s", KEYRING_SERVICE, "-a", name]);
+    } else {
+      runKeyringTool("secret-tool", ["clear", "service", KEYRING_SERVICE, "account", name]);
+    }
+    this.cache.delete(name);
+    this.writeIndex(this.readIndex().filter((n) => n !== name));
+    return existed;
+  }
+
+  list(): string[] {
+    return this.readIndex().filter((name) => this.get(name) !== undefined);
+  }
+}
+
+/**
+ * Whether an OS keyring backend is available on this machine
+ */
+export function isKeyringAvailable(): boolean {
+  if (process.platform === "darwin") return true;
+  if (process.platform !== "linux") return false;
+  const result = runKeyringTool("secret-tool", ["--version"]);
+  return !result.error;
+}
+
+/**
+ * Create a store of the given kind
+ * @param dir - Directory for the credential files (default: ~/.claudish)
+ */
+export function createCredentialStore(
+  kind: CredentialStoreKind,
+  options: { dir?: string; passphrase?: string } = {}
+): CredentialStore {
+  const dir = options.dir || getClaudishDir();
+  mkdirSync(dir, { recursive: true });
+  switch (kind) {
+    case "encrypted":
+      return new EncryptedCredentialStore(join(dir, "credentials.enc.json"), options.passphrase);
+    case "keyring":
+      if (!isKeyringAvailable()) {
+        throw new Error(
+          "No OS keyring available (needs macOS, or secret-tool from libsecret on Linux)"
+        );
+      }
+      return new KeyringCredentialStore(join(dir, "keyring-index.json"));
+    default:
+      return new FileCredentialStore(join(dir, "credentials.json"));
+  }
+}
+
+let store: CredentialStore | null = null;
+let passphrase: string | undefined = process.env.CLAUDISH_CREDENTIALS_PASSPHRASE;
+
+/**
+ * The configured backend: CLAUDISH_CREDENTIAL_STORE, else config.json, else file
+ */
+export function getCredentialStoreKind(): CredentialStoreKind {
+  const fromEnv = process.env.CLAUDISH_CREDENTIAL_STORE;
+  if (fromEnv && isCredentialStoreKind(fromEnv)) return fromEnv;
+  return loadConfig().credentialStore || "file";
+}
+
+/**
+ * Save the backend choice to config.json
+ */
+export function setCredentialStoreKind(kind: CredentialStoreKind): void {
+  const config = loadConfig();
+  saveConfig({ ...config, credentialStore: kind });
+  store = null;
+}
+
+/**
+ * Use this passphrase for the encrypted store
+ */
+export function setCredentialPassphrase(value: string): void {
+  passphrase = value;
+  store = null;
+}
+
+/**
+ * Whether the configured store needs a passphrase that hasn't been given
+ */
+export function isCredentialStoreLocked(): boolean {
+  return getCredentialStoreKind() === "encrypted" && !passphrase;
+}
+
+/**
+ * Get the configured store
+ */
+export function getCredentialStore(): CredentialStore {
+  if (!store) {
+    store = createCredentialStore(getCredentialStoreKind(), { passphrase });
+  }
+  return store;
+}
+
+/**
+ * Replace the store (null re-creates the configured one on next use)
+ */
+export function setCredentialStore(value: CredentialStore | null): void {
+  store = value;
+}
+
+/**
+ * Read a stored credential, treating a locked or unreadable store as empty
+ */
+export function getStoredCredential(name: string): string | undefined {
+  try {
+    return getCredentialStore().get(name);
+  } catch (e) {
+    log(`[CredentialStore] ${e instanceof Error ? e.message : e}`);
+    return undefined;
+  }
+}
+
+/**
+ * API key from the environment, else from the credential store
+ */
+export function getApiKey(envVar: string): string | undefined {
+  if (!envVar) return undefined;
+  return process.env[envVar] || getStoredCredential(envVar);
+}
+
+/** Variables set by applyStoredApiKeys (rather than by the user) */
+const appliedKeys = new Set<string>();
+
+/**
+ * Export stored API keys to the environment (without overriding variables
+ * the user set), for code that reads keys from process.env. Calling it again
+ * picks up keys that were changed or removed since. Child processes get the
+ * environment through withoutStoredApiKeys().
+ * @returns Names of the variables that were set
+ */
+export function applyStoredApiKeys(): string[] {
+  let names: string[];
+  try {
+    names = getCredentialStore().list();
+  } catch (e) {
+    log(`[CredentialStore] ${e instanceof Error ? e.message : e}`);
+    return [];
+  }
+  for (const name of appliedKeys) {
+    if (!names.includes(name)) {
+      Reflect.deleteProperty(process.env, name);
+      appliedKeys.delete(name);
+    }
+  }
+  const applied: string[] = [];
+  for (const name of names) {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(name)) continue;
+    if (process.env[name] && !appliedKeys.has(name)) continue;
+    const value = getStoredCredential(name);
+    if (value) {
+      process.env[name] = value;
+      appliedKeys.add(name);
+      applied.push(name);
+    }
+  }
+  return applied;
+}
+
+/**
+ * Copy of an environment without the keys applyStoredApiKeys exported, for
+ * child processes: Claude Code (and every command its Bash tool runs) must not
+ * see secrets kept in the encrypted store or the keyring
+ */
+export function withoutStoredApiKeys(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const copy = { ...env };
+  for (const name of appliedKeys) Reflect.deleteProperty(copy, name);
+  return copy;
+}
+
+/**
+ * Read an OAuth token set saved as JSON under `name`, moving it over from its
+ * legacy file (e.g. ~/.claudish/gemini-oauth.json) the first time
+ */
+export function loadOAuthCredentials<T>(name: string, legacyFile?: string): T | null {
+  const stored = getStoredCredential(name);
+  if (stored) return JSON.parse(stored) as T;
+  if (!legacyFile) return null;
+
+  const legacyPath = join(getClaudishDir(), legacyFile);
+  if (!existsSync(legacyPath)) return null;
+  const data = readFileSync(legacyPath, "utf-8");
+  try {
+    getCredentialStore().set(name, data);
+    rmSync(legacyPath, { force: true });
+    log(`[CredentialStore] Moved ${legacyPath} into the ${getCredentialStore().kind} store`);
+  } catch (e) {
+    log(`[CredentialStore] Keeping ${legacyPath}: ${e instanceof Error ? e.message : e}`);
+  }
+  return JSON.parse(data) as T;
+}
+
+/**
+ * Save an OAuth token set as JSON under `name`
+ */
+export function saveOAuthCredentials(name: string, credentials: object): void {
+  getCredentialStore().set(name, JSON.stringify(credentials));
+  log(`[CredentialStore] Saved ${name} to the ${getCredentialStore().kind} store`);
+}
+
+/**
+ * Delete an OAuth token set (and its legacy file, if still there)
+ * @returns Whether anything was deleted
+ */
+export function deleteOAuthCredentials(name: string, legacyFile?: string): boolean {
+  const legacyPath = legacyFile ? join(getClaudishDir(), legacyFile) : undefined;
+  const hadLegacy = legacyPath ? existsSync(legacyPath) : false;
+  if (legacyPath) rmSync(legacyPath, { force: true });
+  return getCredentialStore().delete(name) || hadLegacy;
+}
@@ -4,24 +4,41 @@
  * Handles OAuth2 PKCE flow for Gemini Code Assist API access.
  * Supports:
  * - Browser-based OAuth login with local callback server
- * - Secure credential storage with 0600 permissions
+ * - Headless login (--no-browser): print the URL, paste back the code shown
+ *   after signing in on any device
+ * - Credentials kept in the credential store (see credential-store.ts)
  * - Automatic token refresh with 5-minute buffer
  * - Singleton pattern for shared token management
  *
- * Credentials stored at: ~/.claudish/gemini-oauth.json
+ * Credentials stored as "gemini-oauth" (formerly ~/.claudish/gemini-oauth.json),
+ * additional accounts as "gemini-oauth:<account>" (see accounts.ts)
  */
 
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
 import { randomBytes, createHash } from "node:crypto";
-import { readFileSync, existsSync, unlinkSync, openSync, writeSync, closeSync } from "node:fs";
-import { homedir } from "node:os";
-import { join } from "node:path";
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
 import { log } from "../logger.js";
+import {
+  deleteOAuthCredentials,
+  loadOAuthCredentials,
+  saveOAuthCredentials,
+} from "./credential-store.js";
+import { AccountSelector, DEFAULT_ACCOUNT, accountCredentialName, listAccounts } from "./accounts.js";
+import {
+  LOGIN_TIMEOUT_MS,
+  type OAuthLoginOptions,
+  parseAuthorizationResponse,
+  promptLine,
+  shouldOpenBrowser,
+} from "./oauth-login.js";
 
 const execAsync = promisify(exec);
 
+// Credential store name, and the file credentials were kept in before the store
+const CREDENTIAL_NAME = "gemini-oauth";
+const LEGACY_CREDENTIALS_FILE = "gemini-oauth.json";
+
 /**
  * OAuth credentials structure
  */
@@ -66,7 +83,9 @@ const OAUTH_CONFIG = {
   clientSecret: process.env.GEMINI_CLIENT_SECRET || getDefaultClientSecret(),
   authUrl: "https://accounts.google.com/o/oauth2/v2/auth",
   tokenUrl: "https://oauth2.googleapis.com/token",
-  // redirectUri is built dynamically with the actual port
+  // redirectUri is built dynamically with the actual port; headless logins
+  // redirect to Google's page that shows the code for copying (as gemini-cli does)
+  headlessRedirectUri: "https://codeassist.google.com/authcode",
   scopes: [
     "https://www.googleapis.com/auth/cloud-platform",
     "https://www.googleapis.com/auth/userinfo.email",
@@ -78,26 +97,28 @@ const OAUTH_CONFIG = {
  * Manages OAuth authentication for Gemini Code Assist API
  */
 export class GeminiOAuth {
-  private static instance: GeminiOAuth | null = null;
+  private static instances = new Map<string, GeminiOAuth>();
   private credentials: GeminiCredentials | null = null;
   private refreshPromise: Promise<string> | null = null;
   private tokenRefreshMargin = 5 * 60 * 1000; // Refresh 5 minutes before expiry
   private oauthState: string | null = null; // CSRF protection
 
   /**
-   * Get singleton instance
+   * Get the instance of an account (one per account)
    */
-  static getInstance(): GeminiOAuth {
-    if (!GeminiOAuth.instance) {
-      GeminiOAuth.instance = new GeminiOAuth();
+  static getInstance(account: string = DEFAULT_ACCOUNT): GeminiOAuth {
+    let instance = GeminiOAuth.instances.get(account);
+    if (!instance) {
+      instance = new GeminiOAuth(account);
+      GeminiOAuth.instances.set(account, instance);
     }
-    return GeminiOAuth.instance;
+    return instance;
   }
 
   /**
-   * Private constructor (singleton pattern)
+   * Private constructor (one instance per account)
    */
-  private constructor() {
+  private constructor(readonly account: string) {
     // Try to load existing credentials on startup
     this.credentials = this.loadCredentials();
   }
@@ -110,19 +131,12 @@ export class GeminiOAuth {
     return this.credentials !== null && !!this.credentials.refresh_token;
   }
 
-  /**
-   * Get credentials file path
-   */
-  private getCredentialsPath(): string {
-    const claudishDir = join(homedir(), ".claudish");
-    return join(claudishDir, "gemini-oauth.json");
-  }
-
   /**
    * Start OAuth login flow
-   * Opens browser, starts local callback server, exchanges code for tokens
+   * Opens browser, starts local callback server, exchanges code for tokens.
+   * Without a browser, prints the URL and reads the code back from the terminal.
    */
-  async login(): Promise<void> {
+  async login(options: OAuthLoginOptions = {}): Promise<void> {
     log("[GeminiOAuth] Starting OAuth login flow");
 
     // Generate PKCE verifier and challenge
@@ -133,7 +147,9 @@ export class GeminiOAuth {
     this.oauthState = randomBytes(32).toString("base64url");
 
     // Start local callback server (uses random port) and wait for auth code
-    const { authCode, redirectUri } = await this.startCallbackServer(codeChallenge, this.oauthState);
+    const { authCode, redirectUri } = shouldOpenBrowser(options)
+      ? await this.startCallbackServer(codeChallenge, this.oauthState)
+      : await this.readPastedAuthCode(codeChallenge, this.oauthState);
 
     // Exchange auth code for tokens
     const tokens = await this.exchangeCodeForTokens(authCode, codeVerifier, redirectUri);
@@ -158,10 +174,7 @@ export class GeminiOAuth {
    * Logout - delete stored credentials
    */
   async logout(): Promise<void> {
-    const credPath = this.getCredentialsPath();
-
-    if (existsSync(credPath)) {
-      unlinkSync(credPath);
+    if (deleteOAuthCredentials(this.credentialName, this.legacyFile)) {
       log("[GeminiOAuth] Credentials deleted");
     }
 
@@ -279,26 +292,25 @@ export class GeminiOAuth {
   }
 
   /**
-   * Load credentials from file
+   * Load credentials from the credential store
    */
   private loadCredentials(): GeminiCredentials | null {
-    const credPath = this.getCredentialsPath();
-
-    if (!existsSync(credPath)) {
-      return null;
-    }
-
     try {
-      const data = readFileSync(credPath, "utf-8");
-      const credentials = JSON.parse(data) as GeminiCredentials;
+      const credentials = loadOAuthCredentials<GeminiCredentials>(
+        this.credentialName,
+        this.legacyFile
+      );
+      if (!credentials) {
+        return null;
+      }
 
       // Validate structure
       if (!credentials.access_token || !credentials.refresh_token || !credentials.expires_at) {
-        log("[GeminiOAuth] Invalid credentials file structure");
+        log("[GeminiOAuth] Invalid stored credentials structure");
         return null;
       }
 
-      log("[GeminiOAuth] Loaded credentials from file");
+      log("[GeminiOAuth] Loaded credentials from the credential store");
       return credentials;
     } catch (e: any) {
       log(`[GeminiOAuth] Failed to load credentials: ${e.message}`);
@@ -307,28 +319,24 @@ export class GeminiOAuth {
   }
 
   /**
-   * Save credentials to file with 0600 permissions
+   * Save credentials to the credential store
    */
   private saveCredentials(credentials: GeminiCredentials): void {
-    const credPath = this.getCredentialsPath();
-    const claudishDir = join(homedir(), ".claudish");
-
-    // Ensure directory exists
-    if (!existsSync(claudishDir)) {
-      const { mkdirSync } = require("node:fs");
-      mkdirSync(claudishDir, { recursive: true });
-    }
+    saveOAuthCredentials(this.credentialName, credentials);
+  }
 
-    // Atomically create file with secure permissions (0600) to prevent race condition
-    const fd = openSync(credPath, "w", 0o600);
-    try {
-      const data = JSON.stringify(credentials, null, 2);
-      writeSync(fd, data, 0, "utf-8");
-    } finally {
-      closeSync(fd);
-    }
+  /**
+   * Credential store name of this account
+   */
+  private get credentialName(): string {
+    return accountCredentialName(CREDENTIAL_NAME, this.account);
+  }
 
-    log(`[GeminiOAuth] Credentials saved to ${credPath}`);
+  /**
+   * Only the default account was ever kept in a file of its own
+   */
+  private get legacyFile(): string | undefined {
+    return this.account === DEFAULT_ACCOUNT ? LEGACY_CREDENTIALS_FILE : undefined;
   }
 
   /**
@@ -477,10 +485,40 @@ export class GeminiOAuth {
       setTimeout(() => {
         server.close();
         reject(new Error("OAuth login timed out after 5 minutes"));
-      }, 5 * 60 * 1000);
+      }, LOGIN_TIMEOUT_MS);
     });
   }
 
+  /**
+   * Headless login: show the auth URL and read back the code Google displays
+   * (or the whole URL the browser was redirected to)
+   */
+  private async readPastedAuthCode(
+    codeChallenge: string,
+    state: string
+  ): Promise<{ authCode: string; redirectUri: string }> {
+    const redirectUri = OAUTH_CONFIG.headlessRedirectUri;
+    const authUrl = this.buildAuthUrl(codeChallenge, state, redirectUri);
+
+    console.log("\nOpen this URL in a browser on any device and sign in:");
+    console.log(`\n  ${authUrl}\n`);
+    const pasted = await promptLine("Paste the authorization code (or the redirected URL): ");
+
+    const response = parseAuthorizationResponse(pasted);
+    if (response.error) {
+      throw new Error(`OAuth error: ${response.error}`);
+    }
+    // A pasted redirect URL carries the state; a bare code doesn't
+    if (response.state && response.state !== this.oauthState) {
+      throw new Error("Invalid OAuth state parameter (CSRF protection)");
+    }
+    if (!response.code) {
+      throw new Error("No authorization code received");
+    }
+
+    return { authCode: response.code, redirectUri };
+  }
+
   /**
    * Exchange authorization code for access/refresh tokens
    */
@@ -557,6 +595,23 @@ export function getGeminiOAuth(): GeminiOAuth {
   return GeminiOAuth.getInstance();
 }
 
+/**
+ * Accounts logged in to Gemini Code Assist (default first)
+ */
+export function listGeminiAccounts(): string[] {
+  return listAccounts(CREDENTIAL_NAME, GeminiOAuth.getInstance().hasCredentials());
+}
+
+let accountSelector: AccountSelector | null = null;
+
+/**
+ * Picks the Gemini Code Assist account for each request
+ */
+export function getGeminiAccountSelector(): AccountSelector {
+  accountSelector ??= new AccountSelector("gemini-codeassist", listGeminiAccounts);
+  return accountSelector;
+}
+
 // ============================================================================
 // Code Assist User Setup Flow
 // ============================================================================
@@ -587,21 +642,25 @@ interface LROResponse {
  * Get a valid access token (refreshing if needed)
  * Helper function for handlers to use
  */
-export async function getValidAccessToken(): Promise<string> {
-  const oauth = GeminiOAuth.getInstance();
+export async function getValidAccessToken(account: string = DEFAULT_ACCOUNT): Promise<string> {
+  const oauth = GeminiOAuth.getInstance(account);
   return oauth.getAccessToken();
 }
 
-// Cache for project ID to avoid setup on every request
-let cachedProjectId: string | null = null;
+// Cache for project IDs (per account) to avoid setup on every request
+const cachedProjectIds = new Map<string, string>();
 
 /**
  * Setup the Gemini user (loadCodeAssist + onboardUser flow)
  * Returns the projectId to use for requests.
  * Caches the result to avoid repeated API calls.
  */
-export async function setupGeminiUser(accessToken: string): Promise<{ projectId: string }> {
+export async function setupGeminiUser(
+  accessToken: string,
+  account: string = DEFAULT_ACCOUNT
+): Promise<{ projectId: string }> {
   // Return cached project ID if available
+  const cachedProjectId = cachedProjectIds.get(account);
   if (cachedProjectId) {
     log(`[GeminiOAuth] Using cached project ID: ${cachedProjectId}`);
     return { projectId: cachedProjectId };
@@ -617,7 +676,7 @@ export async function setupGeminiUser(accessToken: string): Promise<{ projectId:
   if (loadRes.currentTier || loadRes.cloudaicompanionProject) {
     const projectId = envProject || loadRes.cloudaicompanionProject;
     if (projectId) {
-      cachedProjectId = projectId;
+      cachedProjectIds.set(account, projectId);
       log(`[GeminiOAuth] User already set up, project: ${projectId}`);
       return { projectId };
     }
@@ -651,13 +710,13 @@ export async function setupGeminiUser(accessToken: string): Promise<{ projectId:
   const projectId = lro.response?.cloudaicompanionProject?.id;
   if (!projectId) {
     if (envProject) {
-      cachedProjectId = envProject;
+      cachedProjectIds.set(account, envProject);
       return { projectId: envProject };
     }
     throw new Error("Gemini onboarding completed but no project ID returned.");
   }
 
-  cachedProjectId = projectId;
+  cachedProjectIds.set(account, projectId);
   log(`[GeminiOAuth] Onboarding complete, project: ${projectId}`);
   return { projectId };
 }
@@ -4,27 +4,39 @@
  * Handles Device Authorization Grant (RFC 8628) for Kimi/Moonshot AI API access.
  * Supports:
  * - Device authorization flow with browser-based user authorization
- * - Secure credential storage with 0600 permissions
+ *   (--no-browser only prints the URL and code, for SSH sessions)
+ * - Credentials kept in the credential store (see credential-store.ts)
  * - Automatic token refresh with 5-minute buffer
  * - Singleton pattern for shared token management
  * - Persistent device ID for platform headers
  * - Network retry with exponential backoff
  * - API key fallback on refresh failure
  *
- * Credentials stored at: ~/.claudish/kimi-oauth.json
+ * Credentials stored as "kimi-oauth" (formerly ~/.claudish/kimi-oauth.json)
  * Device ID stored at: ~/.claudish/kimi-device-id
  */
 
 import { randomBytes } from "node:crypto";
-import { readFileSync, existsSync, unlinkSync, openSync, writeSync, closeSync } from "node:fs";
+import { readFileSync, existsSync, openSync, writeSync, closeSync } from "node:fs";
 import { homedir, hostname, platform, release } from "node:os";
 import { join } from "node:path";
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
 import { log } from "../logger.js";
+import {
+  deleteOAuthCredentials,
+  getApiKey,
+  loadOAuthCredentials,
+  saveOAuthCredentials,
+} from "./credential-store.js";
+import { type OAuthLoginOptions, shouldOpenBrowser } from "./oauth-login.js";
 
 const execAsync = promisify(exec);
 
+// Credential store name, and the file credentials were kept in before the store
+const CREDENTIAL_NAME = "kimi-oauth";
+const LEGACY_CREDENTIALS_FILE = "kimi-oauth.json";
+
 /**
  * Kimi OAuth credentials structure
  */
@@ -112,14 +124,6 @@ export class KimiOAuth {
     return this.credentials !== null && !!this.credentials.refresh_token;
   }
 
-  /**
-   * Get credentials file path
-   */
-  private getCredentialsPath(): string {
-    const claudishDir = join(homedir(), ".claudish");
-    return join(claudishDir, "kimi-oauth.json");
-  }
-
   /**
    * Get device ID file path
    */
@@ -204,8 +208,9 @@ export class KimiOAuth {
 
   /**
    * Start OAuth login flow (Device Authorization Grant)
+   * The code can be entered on any device, so headless logins only skip the browser.
    */
-  async login(): Promise<void> {
+  async login(options: OAuthLoginOptions = {}): Promise<void> {
     log("[KimiOAuth] Starting Device Authorization Grant flow");
 
     // Step 1: Request device authorization
@@ -219,7 +224,9 @@ export class KimiOAuth {
     console.log(`  User Code: ${deviceAuth.user_code}`);
     console.log(`\nWaiting for authorization...`);
 
-    await this.openBrowser(deviceAuth.verification_uri_complete);
+    if (shouldOpenBrowser(options)) {
+      await this.openBrowser(deviceAuth.verification_uri_complete);
+    }
 
     // Step 3: Poll for token
     const tokens = await this.pollForToken(
@@ -416,10 +423,7 @@ export class KimiOAuth {
    * Logout - delete stored credentials
    */
   async logout(): Promise<void> {
-    const credPath = this.getCredentialsPath();
-
-    if (existsSync(credPath)) {
-      unlinkSync(credPath);
+    if (deleteOAuthCredentials(CREDENTIAL_NAME, LEGACY_CREDENTIALS_FILE)) {
       log("[KimiOAuth] Credentials deleted");
     }
 
@@ -523,14 +527,11 @@ export class KimiOAuth {
       log(`[KimiOAuth] Refresh failed: ${e.message}`);
 
       // Delete invalid credentials
-      const credPath = this.getCredentialsPath();
-      if (existsSync(credPath)) {
-        unlinkSync(credPath);
-      }
+      deleteOAuthCredentials(CREDENTIAL_NAME, LEGACY_CREDENTIALS_FILE);
       this.credentials = null;
 
       // FIX H4: Check for API key fallback (FR5 priority)
-      if (process.env.MOONSHOT_API_KEY || process.env.KIMI_API_KEY) {
+      if (getApiKey("MOONSHOT_API_KEY") || getApiKey("KIMI_API_KEY")) {
         log("[KimiOAuth] Falling back to API key mode");
         // Return empty string to signal fallback to handler
         // Handler will detect API key and use it instead
@@ -548,18 +549,14 @@ export class KimiOAuth {
   }
 
   /**
-   * Load credentials from file
+   * Load credentials from the credential store
    */
   private loadCredentials(): KimiCredentials | null {
-    const credPath = this.getCredentialsPath();
-
-    if (!existsSync(credPath)) {
-      return null;
-    }
-
     try {
-      const data = readFileSync(credPath, "utf-8");
-      const credentials = JSON.parse(data) as KimiCredentials;
+      const credentials = loadKimiCredentials();
+      if (!credentials) {
+        return null;
+      }
 
       // Validate structure
       if (
@@ -569,11 +566,11 @@ export class KimiOAuth {
         !credentials.scope ||
         !credentials.token_type
       ) {
-        log("[KimiOAuth] Invalid credentials file structure");
+        log("[KimiOAuth] Invalid stored credentials structure");
         return null;
       }
 
-      log("[KimiOAuth] Loaded credentials from file");
+      log("[KimiOAuth] Loaded credentials from the credential store");
       return credentials;
     } catch (e: any) {
       log(`[KimiOAuth] Failed to load credentials: ${e.message}`);
@@ -582,31 +579,20 @@ export class KimiOAuth {
   }
 
   /**
-   * Save credentials to file with 0600 permissions
+   * Save credentials to the credential store
    */
   private saveCredentials(credentials: KimiCredentials): void {
-    const credPath = this.getCredentialsPath();
-    const claudishDir = join(homedir(), ".claudish");
-
-    // Ensure directory exists
-    if (!existsSync(claudishDir)) {
-      const { mkdirSync } = require("node:fs");
-      mkdirSync(claudishDir, { recursive: true });
-    }
-
-    // Atomically create file with secure permissions (0600) to prevent race condition
-    const fd = openSync(credPath, "w", 0o600);
-    try {
-      const data = JSON.stringify(credentials, null, 2);
-      writeSync(fd, data, 0, "utf-8");
-    } finally {
-      closeSync(fd);
-    }
-
-    log(`[KimiOAuth] Credentials saved to ${credPath}`);
+    saveOAuthCredentials(CREDENTIAL_NAME, credentials);
   }
 }
 
+/**
+ * Read Kimi OAuth credentials from the credential store
+ */
+function loadKimiCredentials(): KimiCredentials | null {
+  return loadOAuthCredentials<KimiCredentials>(CREDENTIAL_NAME, LEGACY_CREDENTIALS_FILE);
+}
+
 /**
  * Get the shared KimiOAuth instance
  */
@@ -630,10 +616,9 @@ export async function getValidKimiAccessToken(): Promise<string> {
  */
 export function hasKimiOAuthCredentials(): boolean {
   try {
-    const credPath = join(homedir(), ".claudish", "kimi-oauth.json");
-    if (!existsSync(credPath)) return false;
+    const data = loadKimiCredentials();
+    if (!data) return false;
 
-    const data = JSON.parse(readFileSync(credPath, "utf-8"));
     // Check if token exists and is not expired (with 5-minute buffer)
     const now = Date.now();
     const bufferMs = 5 * 60 * 1000; // 5 minutes
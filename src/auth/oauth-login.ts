@@ -0,0 +1,76 @@
+/**
+ * OAuth Login Helpers
+ *
+ * Shared by the Gemini and Kimi logins for machines without a usable browser
+ * (SSH sessions, dev containers): detecting them, and reading back what the
+ * user pastes after signing in on another device.
+ */
+
+import { createInterface } from "node:readline/promises";
+
+export interface OAuthLoginOptions {
+  /**
+   * Don't open a browser or start a localhost callback server; print the URL
+   * and wait for the user instead. Defaults to on over SSH and on Linux
+   * without a display.
+   */
+  noBrowser?: boolean;
+}
+
+/** How long to wait for the user to finish signing in */
+export const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a browser opened here would be out of the user's reach
+ */
+export function isHeadlessEnvironment(env: NodeJS.ProcessEnv = process.env): boolean {
+  if (env.SSH_CONNECTION || env.SSH_TTY) return true;
+  if (process.platform !== "linux") return false;
+  return !env.DISPLAY && !env.WAYLAND_DISPLAY;
+}
+
+/**
+ * Whether a login should open a browser
+ */
+export function shouldOpenBrowser(options: OAuthLoginOptions = {}): boolean {
+  return !(options.noBrowser ?? isHeadlessEnvironment());
+}
+
+/**
+ * What the user pasted after authorizing: a bare authorization code, or the
+ * URL (or query string) they were redirected to
+ */
+export function parseAuthorizationResponse(pasted: string): {
+  code?: string;
+  state?: string;
+  error?: string;
+} {
+  const value = pasted.trim();
+  if (!value) return {};
+  if (!/^https?:\/\//i.test(value) && !value.includes("code=") && !value.includes("error=")) {
+    return { code: value };
+  }
+  const query = value.includes("?") ? value.slice(value.indexOf("?") + 1) : value;
+  const params = new URLSearchParams(query.split("#")[0]);
+  return {
+    code: params.get("code") || undefined,
+    state: params.get("state") || undefined,
+    error: params.get("error") || undefined,
+  };
+}
+
+/**
+ * Ask for one line on the terminal, giving up after LOGIN_TIMEOUT_MS
+ */
+export async function promptLine(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const signal = AbortSignal.timeout(LOGIN_TIMEOUT_MS);
+  try {
+    return await rl.question(question, { signal });
+  } catch (e) {
+    if (signal.aborted) throw new Error("OAuth login timed out after 5 minutes");
+    throw e;
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Bench Command
+ *
+ * Implements `claudish bench`, which scores how reliably models call Claude
+ * Code's tools (see src/bench/):
+ * - claudish bench <model...> [--cases read-file,run-tests] [--out bench.json] [--json]
+ * - claudish bench --offline: Run against a scripted mock upstream (for CI)
+ * - claudish bench --list: List the bench cases
+ */
+
+import { writeFileSync } from "node:fs";
+import { type BenchModelSummary, DEFAULT_OFFLINE_MODELS, runBench } from "./bench/runner.js";
+import { BENCH_CASES } from "./bench/suite.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const GREEN = "\x1b[32m";
+const RED = "\x1b[31m";
+const CYAN = "\x1b[36m";
+
+interface BenchCommandOptions {
+  models: string[];
+  cases?: string[];
+  offline: boolean;
+  json: boolean;
+  out?: string;
+  list: boolean;
+}
+
+/**
+ * Format a USD amount for display
+ */
+function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Render model summaries as an aligned comparison table, best models first
+ */
+export function formatBenchTable(summaries: BenchModelSummary[]): string {
+  const header = [
+    "MODEL",
+    "CORRECT",
+    "VALID",
+    "SCHEMA",
+    "REPAIRED",
+    "EXTRACTED",
+    "ERRORS",
+    "LATENCY",
+    "COST",
+  ];
+  const sorted = [...summaries].sort(
+    (a, b) => b.correct / b.cases - a.correct / a.cases || a.avgLatencyMs - b.avgLatencyMs
+  );
+  const table = [
+    header,
+    ...sorted.map((s) => [
+      s.model,
+      `${s.correct}/${s.cases}`,
+      `${s.validCalls}/${s.cases}`,
+      `${s.schemaValid}/${s.cases}`,
+      String(s.repaired),
+      String(s.extracted),
+      String(s.errors),
+      `${s.avgLatencyMs}ms`,
+      formatCost(s.totalCost),
+    ]),
+  ];
+  const widths = header.map((_, col) => Math.max(...table.map((cells) => cells[col].length)));
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])))
+      .join("  ");
+
+  return [
+    formatLine(table[0]),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...table.slice(1).map(formatLine),
+  ].join("\n");
+}
+
+/**
+ * Parse a --cases value (comma-separated case names)
+ */
+function parseCasesArg(value: string | undefined): string[] {
+  const names = (value || "").split(",").filter(Boolean);
+  if (names.length === 0 || names.some((name) => !BENCH_CASES.some((c) => c.name === name))) {
+    console.error("--cases must list bench cases (see claudish bench --list)");
+    process.exit(1);
+  }
+  return names;
+}
+
+/**
+ * Parse `claudish bench` options
+ */
+function parseBenchArgs(args: string[]): BenchCommandOptions {
+  const options: BenchCommandOptions = { models: [], offline: false, json: false, list: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--offline") {
+      options.offline = true;
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--out") {
+      options.out = args[++i];
+      if (!options.out) {
+        console.error("--out requires a file path");
+        process.exit(1);
+      }
+    } else if (arg === "--cases") {
+      options.cases = parseCasesArg(args[++i]);
+    } else if (arg === "--list") {
+      options.list = true;
+    } else if (arg === "--help" || arg === "-h") {
+      printBenchHelp();
+      process.exit(0);
+    } else if (arg.startsWith("-")) {
+      console.error(`Unknown option for claudish bench: ${arg}`);
+      printBenchHelp();
+      process.exit(1);
+    } else {
+      options.models.push(...arg.split(",").filter(Boolean));
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main bench command
+ */
+export async function benchCommand(args: string[]): Promise<void> {
+  const options = parseBenchArgs(args);
+
+  if (options.list) {
+    for (const benchCase of BENCH_CASES) {
+      console.log(
+        `${CYAN}${benchCase.name.padEnd(20)}${RESET} ${DIM}${benchCase.description}${RESET}`
+      );
+    }
+    return;
+  }
+
+  const models =
+    options.models.length > 0 ? options.models : options.offline ? DEFAULT_OFFLINE_MODELS : [];
+  if (models.length === 0) {
+    console.error("claudish bench requires at least one model (or --offline)");
+    printBenchHelp();
+    process.exit(1);
+  }
+
+  const cases = options.cases
+    ? BENCH_CASES.filter((c) => options.cases?.includes(c.name))
+    : BENCH_CASES;
+  if (!options.json) {
+    console.log(
+      `\n${BOLD}Benchmarking ${models.length} model(s) on ${cases.length} case(s)${options.offline ? " (offline)" : ""}${RESET}\n`
+    );
+  }
+
+  const report = await runBench({
+    models,
+    cases,
+    offline: options.offline,
+    openrouterApiKey: process.env.OPENROUTER_API_KEY,
+    onResult: (result) => {
+      if (options.json) return;
+      const mark = result.correct ? `${GREEN}✓${RESET}` : `${RED}✗${RESET}`;
+      const detail = result.error || (result.correct ? "" : result.problems.join(", "));
+      console.log(`  ${mark} ${result.model} ${DIM}${result.case} ${detail}${RESET}`);
+    },
+  });
+
+  if (options.out) {
+    writeFileSync(options.out, `${JSON.stringify(report, null, 2)}\n`, "utf-8");
+  }
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`\n${formatBenchTable(report.models)}\n`);
+  if (options.out) console.log(`${DIM}Report written to ${options.out}${RESET}\n`);
+}
+
+function printBenchHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish bench <model...> [options]
+
+Replays canned Claude Code conversations (Read, Edit, Bash, Grep) through the
+proxy and scores each model's tool calls: valid calls, schema-correct arguments,
+expected calls, calls the proxy had to repair or extract, latency and cost.
+
+${BOLD}Options:${RESET}
+  ${CYAN}--offline${RESET}             Use a scripted mock upstream instead of real providers
+  ${CYAN}--cases${RESET} ${DIM}<a,b>${RESET}         Only run these cases
+  ${CYAN}--out${RESET} ${DIM}<file>${RESET}          Write the JSON report to a file
+  ${CYAN}--json${RESET}                Print the JSON report instead of a table
+  ${CYAN}--list${RESET}                List bench cases
+
+${BOLD}Examples:${RESET}
+  claudish bench g@gemini-2.5-flash oai@gpt-4o mm@MiniMax-M2
+  claudish bench ollama@qwen2.5-coder:7b --cases read-file,edit-after-read
+  claudish bench --offline --out bench.json
+`);
+}
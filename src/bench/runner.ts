@@ -0,0 +1,377 @@
+/**
+ * Bench runner
+ *
+ * Sends every bench case through createProxyServer to each model and scores
+ * the tool call that comes back: whether it names a known tool, whether its
+ * arguments match the tool's schema, whether it is the expected call, and how
+ * often tool-call-recovery had to repair or extract it, with latency and cost.
+ *
+ * Offline mode starts a mock upstream that plays each case's reference call,
+ * so the harness itself can run in CI. Model names pick how the mock misbehaves:
+ * "...-renamed-args" sends aliased argument names (repaired by the proxy) and
+ * "...-text-tools" writes calls as text (extracted by the proxy).
+ */
+
+import {
+  type ToolCallRecoveryKind,
+  onToolCallRecovered,
+} from "../handlers/shared/tool-call-recovery.js";
+import { log } from "../logger.js";
+import type { MockScenario, MockToolCall } from "../mock-upstream/scenarios.js";
+import {
+  MOCK_BASE_URL_ENV_VARS,
+  type MockUpstream,
+  createMockUpstream,
+} from "../mock-upstream/server.js";
+import { createProxyServer } from "../proxy-server.js";
+import { onCostRecorded } from "../services/cost-ledger.js";
+import {
+  BENCH_CASES,
+  BENCH_SYSTEM_PROMPT,
+  BENCH_TOOLS,
+  type BenchCase,
+  type BenchTool,
+} from "./suite.js";
+
+export interface BenchOptions {
+  models: string[];
+  cases?: BenchCase[];
+  /** Run against a scripted mock upstream instead of real providers */
+  offline?: boolean;
+  openrouterApiKey?: string;
+  /** Called after each case (for progress output) */
+  onResult?: (result: BenchCaseResult) => void;
+}
+
+export interface BenchCaseResult {
+  model: string;
+  case: string;
+  /** Request failed (HTTP error or broken stream) */
+  error?: string;
+  toolName?: string;
+  input?: Record<string, unknown>;
+  /** The response contains a call to one of the offered tools */
+  validCall: boolean;
+  /** The call's arguments satisfy the tool's input schema */
+  schemaValid: boolean;
+  /** Schema violations of the call's arguments */
+  problems: string[];
+  /** The call is the expected tool with the expected arguments */
+  correct: boolean;
+  repaired: number;
+  extracted: number;
+  latencyMs: number;
+  cost: number;
+}
+
+export interface BenchModelSummary {
+  model: string;
+  cases: number;
+  validCalls: number;
+  schemaValid: number;
+  correct: number;
+  repaired: number;
+  extracted: number;
+  errors: number;
+  avgLatencyMs: number;
+  totalCost: number;
+}
+
+export interface BenchReport {
+  createdAt: string;
+  offline: boolean;
+  cases: string[];
+  models: BenchModelSummary[];
+  results: BenchCaseResult[];
+}
+
+export const DEFAULT_OFFLINE_MODELS = [
+  "oai@gpt-4o",
+  "g@gemini-2.5-flash",
+  "mm@MiniMax-M2",
+  "oai@mock-renamed-args",
+  "oai@mock-text-tools",
+];
+
+// Aliases tool-call-recovery maps back to the real parameter names
+const RENAMED_ARGS: Record<string, string> = { file_path: "path", pattern: "query" };
+
+/**
+ * Scenario the mock upstream plays for a case in offline mode
+ */
+export function getOfflineScenario(model: string, reference: MockToolCall): MockScenario {
+  if (model.endsWith("-text-tools")) {
+    const params = Object.entries(reference.arguments)
+      .map(([key, value]) => `<parameter=${key}>${value}`)
+      .join("\n");
+    return { name: "bench_text_tools", text: `<function=${reference.name}>\n${params}\n` };
+  }
+  if (model.endsWith("-renamed-args")) {
+    const args = Object.fromEntries(
+      Object.entries(reference.arguments).map(([key, value]) => [RENAMED_ARGS[key] || key, value])
+    );
+    return { name: "bench_renamed_args", toolCalls: [{ name: reference.name, arguments: args }] };
+  }
+  return { name: "bench_tool_call", text: "On it.", toolCalls: [reference] };
+}
+
+/**
+ * Check tool arguments against the tool's input schema
+ * @returns Schema violations (empty when valid)
+ */
+export function checkToolInput(tool: BenchTool, input: Record<string, unknown>): string[] {
+  const { properties, required, additionalProperties } = tool.input_schema;
+  const problems: string[] = [];
+  for (const name of required) {
+    if (input[name] === undefined || input[name] === null || input[name] === "") {
+      problems.push(`missing ${name}`);
+    }
+  }
+  for (const [name, value] of Object.entries(input)) {
+    const property = properties[name];
+    if (!property) {
+      if (additionalProperties === false) problems.push(`unknown ${name}`);
+      continue;
+    }
+    const type = Array.isArray(value) ? "array" : typeof value;
+    if (type !== property.type) problems.push(`${name} should be ${property.type}, got ${type}`);
+  }
+  return problems;
+}
+
+interface StreamState {
+  text: string;
+  stopReason?: string;
+  tools: Map<number, { name: string; json: string }>;
+}
+
+/**
+ * Apply one Anthropic stream event to the parsed message
+ */
+function applyStreamEvent(state: StreamState, event: any): void {
+  if (event.type === "content_block_start" && event.content_block?.type === "tool_use") {
+    state.tools.set(event.index, { name: event.content_block.name, json: "" });
+  } else if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+    state.text += event.delta.text;
+  } else if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+    const tool = state.tools.get(event.index);
+    if (tool) tool.json += event.delta.partial_json;
+  } else if (event.type === "message_delta" && event.delta?.stop_reason) {
+    state.stopReason = event.delta.stop_reason;
+  }
+}
+
+/**
+ * Text, tool calls and stop reason of an Anthropic SSE stream
+ */
+export function parseMessageStream(sse: string): {
+  text: string;
+  toolUses: Array<{ name: string; input: Record<string, unknown> }>;
+  stopReason?: string;
+} {
+  const state: StreamState = { text: "", tools: new Map() };
+  for (const line of sse.split("\n")) {
+    if (!line.startsWith("data: ")) continue;
+    try {
+      applyStreamEvent(state, JSON.parse(line.slice(6)));
+    } catch {
+      // Ignore non-JSON data lines
+    }
+  }
+  const toolUses = [...state.tools.values()].map((tool) => {
+    try {
+      return { name: tool.name, input: tool.json ? JSON.parse(tool.json) : {} };
+    } catch {
+      return { name: tool.name, input: { _unparsed: tool.json } };
+    }
+  });
+  return { text: state.text, toolUses, stopReason: state.stopReason };
+}
+
+/**
+ * Score the first tool call of a response against a case
+ */
+function scoreCall(
+  benchCase: BenchCase,
+  toolUses: Array<{ name: string; input: Record<string, unknown> }>
+): Pick<
+  BenchCaseResult,
+  "toolName" | "input" | "validCall" | "schemaValid" | "problems" | "correct"
+> {
+  const call = toolUses[0];
+  const tool = call && BENCH_TOOLS.find((t) => t.name === call.name);
+  if (!call || !tool) {
+    return {
+      toolName: call?.name,
+      input: call?.input,
+      validCall: false,
+      schemaValid: false,
+      problems: [call ? `unknown tool ${call.name}` : "no tool call"],
+      correct: false,
+    };
+  }
+  const problems = checkToolInput(tool, call.input);
+  const { expected } = benchCase;
+  const inputMatches = Object.entries(expected.input || {}).every(([key, substring]) =>
+    String(call.input[key] ?? "").includes(substring)
+  );
+  return {
+    toolName: call.name,
+    input: call.input,
+    validCall: true,
+    schemaValid: problems.length === 0,
+    problems,
+    correct: call.name === expected.tool && inputMatches,
+  };
+}
+
+/**
+ * Aggregate case results per model
+ */
+export function summarizeBenchResults(results: BenchCaseResult[]): BenchModelSummary[] {
+  const summaries = new Map<string, BenchModelSummary>();
+  for (const result of results) {
+    const summary = summaries.get(result.model) || {
+      model: result.model,
+      cases: 0,
+      validCalls: 0,
+      schemaValid: 0,
+      correct: 0,
+      repaired: 0,
+      extracted: 0,
+      errors: 0,
+      avgLatencyMs: 0,
+      totalCost: 0,
+    };
+    summary.avgLatencyMs =
+      (summary.avgLatencyMs * summary.cases + result.latencyMs) / (summary.cases + 1);
+    summary.cases++;
+    summary.validCalls += result.validCall ? 1 : 0;
+    summary.schemaValid += result.schemaValid ? 1 : 0;
+    summary.correct += result.correct ? 1 : 0;
+    summary.repaired += result.repaired;
+    summary.extracted += result.extracted;
+    summary.errors += result.error ? 1 : 0;
+    summary.totalCost += result.cost;
+    summaries.set(result.model, summary);
+  }
+  return [...summaries.values()].map((s) => ({ ...s, avgLatencyMs: Math.round(s.avgLatencyMs) }));
+}
+
+/**
+ * Send one case to one model through the proxy
+ */
+async function runCase(
+  proxyUrl: string,
+  model: string,
+  benchCase: BenchCase
+): Promise<BenchCaseResult> {
+  const recoveries: Record<ToolCallRecoveryKind, number> = { repaired: 0, extracted: 0 };
+  let cost = 0;
+  const stopRecovery = onToolCallRecovered((kind) => recoveries[kind]++);
+  const stopCost = onCostRecorded((entry) => {
+    cost += entry.cost;
+  });
+  const started = Date.now();
+
+  try {
+    const res = await fetch(`${proxyUrl}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        max_tokens: 1024,
+        stream: true,
+        system: BENCH_SYSTEM_PROMPT,
+        tools: BENCH_TOOLS,
+        messages: benchCase.messages,
+      }),
+    });
+    const body = await res.text();
+    const latencyMs = Date.now() - started;
+    const base = { model, case: benchCase.name, latencyMs, cost, ...recoveries };
+    if (!res.ok) {
+      return {
+        ...base,
+        ...scoreCall(benchCase, []),
+        error: `HTTP ${res.status}: ${body.slice(0, 200)}`,
+      };
+    }
+    const { toolUses, stopReason } = parseMessageStream(body);
+    const error = stopReason ? undefined : "stream ended without a stop reason";
+    return { ...base, ...scoreCall(benchCase, toolUses), error };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return {
+      model,
+      case: benchCase.name,
+      latencyMs: Date.now() - started,
+      cost,
+      ...recoveries,
+      ...scoreCall(benchCase, []),
+      error,
+    };
+  } finally {
+    stopRecovery();
+    stopCost();
+  }
+}
+
+/**
+ * Point the providers at a mock upstream
+ * @returns Function that restores the environment
+ */
+function useMockUpstreamEnv(mock: MockUpstream): () => void {
+  const overrides: Record<string, string> = {
+    OPENAI_API_KEY: "bench-key",
+    GEMINI_API_KEY: "bench-key",
+    MINIMAX_API_KEY: "bench-key",
+    OPENROUTER_API_KEY: "bench-key",
+  };
+  for (const name of MOCK_BASE_URL_ENV_VARS) overrides[name] = mock.url;
+
+  const saved = Object.fromEntries(Object.keys(overrides).map((name) => [name, process.env[name]]));
+  Object.assign(process.env, overrides);
+  return () => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  };
+}
+
+/**
+ * Run the bench suite against every model
+ */
+export async function runBench(options: BenchOptions): Promise<BenchReport> {
+  const cases = options.cases || BENCH_CASES;
+  const mock = options.offline ? await createMockUpstream() : undefined;
+  const restoreEnv = mock ? useMockUpstreamEnv(mock) : () => {};
+  const openrouterApiKey = mock ? "bench-key" : options.openrouterApiKey;
+  const proxy = await createProxyServer(0, openrouterApiKey);
+  const results: BenchCaseResult[] = [];
+
+  try {
+    for (const model of options.models) {
+      for (const benchCase of cases) {
+        mock?.setScript([getOfflineScenario(model, benchCase.reference)]);
+        const result = await runCase(proxy.url, model, benchCase);
+        log(`[Bench] ${model} ${benchCase.name}: ${JSON.stringify(result)}`);
+        results.push(result);
+        options.onResult?.(result);
+      }
+    }
+  } finally {
+    await proxy.shutdown();
+    await mock?.stop();
+    restoreEnv();
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    offline: !!options.offline,
+    cases: cases.map((c) => c.name),
+    models: summarizeBenchResults(results),
+    results,
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Bench suite
+ *
+ * Canned Claude Code conversations for `claudish bench`. Each case gives a
+ * model Claude Code's core tool definitions (Read, Edit, Bash, Grep) and a
+ * conversation, possibly with earlier tool calls and results, and names the
+ * tool call a reliable model makes next.
+ */
+
+import type { MockToolCall } from "../mock-upstream/scenarios.js";
+
+export interface BenchTool {
+  name: string;
+  description: string;
+  input_schema: {
+    type: "object";
+    properties: Record<string, { type: string; description?: string }>;
+    required: string[];
+    additionalProperties?: boolean;
+  };
+}
+
+export interface BenchCase {
+  name: string;
+  description: string;
+  messages: any[];
+  expected: {
+    tool: string;
+    /** Substrings the argument values must contain */
+    input?: Record<string, string>;
+  };
+  /** Ideal tool call, played by the mock upstream in offline mode */
+  reference: MockToolCall;
+}
+
+export const BENCH_SYSTEM_PROMPT =
+  "You are Claude Code, Anthropic's official CLI for Claude. You are an interactive CLI tool " +
+  "that helps users with software engineering tasks. Use the available tools to inspect and " +
+  "change the repository at /repo. Prefer dedicated tools over Bash for reading and searching " +
+  "files. Call one tool at a time.";
+
+export const BENCH_TOOLS: BenchTool[] = [
+  {
+    name: "Read",
+    description:
+      "Reads a file from the local filesystem. The file_path parameter must be an absolute path.",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: { type: "string", description: "The absolute path to the file to read" },
+        offset: { type: "number", description: "The line number to start reading from" },
+        limit: { type: "number", description: "The number of lines to read" },
+      },
+      required: ["file_path"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "Edit",
+    description:
+      "Performs exact string replacements in files. The old_string must be unique in the file.",
+    input_schema: {
+      type: "object",
+      properties: {
+        file_path: { type: "string", description: "The absolute path to the file to modify" },
+        old_string: { type: "string", description: "The text to replace" },
+        new_string: { type: "string", description: "The text to replace it with" },
+        replace_all: { type: "boolean", description: "Replace all occurrences of old_string" },
+      },
+      required: ["file_path", "old_string", "new_string"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "Bash",
+    description: "Executes a given bash command in a persistent shell session.",
+    input_schema: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "The command to execute" },
+        description: {
+          type: "string",
+          description: "Clear, concise description of what this command does in 5-10 words",
+        },
+        timeout: { type: "number", description: "Optional timeout in milliseconds" },
+      },
+      required: ["command"],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "Grep",
+    description: "A powerful search tool built on ripgrep. Supports full regex syntax.",
+    input_schema: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "The regular expression pattern to search for" },
+        path: { type: "string", description: "File or directory to search in" },
+        glob: { type: "string", description: 'Glob pattern to filter files (e.g. "*.ts")' },
+      },
+      required: ["pattern"],
+      additionalProperties: false,
+    },
+  },
+];
+
+const CONFIG_SOURCE = `export interface Config {
+  port: number;
+  debug: boolean;
+}
+
+export function loadConfg(path: string): Config {
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+`;
+
+const TEST_FAILURE = `bun test v1.1.0
+
+tests/math.test.ts:
+✗ add > adds negative numbers [0.42ms]
+  error: expect(received).toBe(expected)
+  Expected: -3
+  Received: 3
+      at /repo/tests/math.test.ts:12:24
+
+ 4 pass
+ 1 fail`;
+
+const toolUse = (id: string, name: string, input: Record<string, unknown>) => ({
+  role: "assistant",
+  content: [{ type: "tool_use", id, name, input }],
+});
+
+const toolResult = (id: string, content: string) => ({
+  role: "user",
+  content: [{ type: "tool_result", tool_use_id: id, content }],
+});
+
+export const BENCH_CASES: BenchCase[] = [
+  {
+    name: "read-file",
+    description: "Read a file the user names",
+    messages: [{ role: "user", content: "What does /repo/src/config.ts export?" }],
+    expected: { tool: "Read", input: { file_path: "/repo/src/config.ts" } },
+    reference: { name: "Read", arguments: { file_path: "/repo/src/config.ts" } },
+  },
+  {
+    name: "search-usages",
+    description: "Search the codebase instead of guessing",
+    messages: [
+      { role: "user", content: "Where is the function parseArgs called? Search the code." },
+    ],
+    expected: { tool: "Grep", input: { pattern: "parseArgs" } },
+    reference: { name: "Grep", arguments: { pattern: "parseArgs\\(", path: "/repo/src" } },
+  },
+  {
+    name: "run-tests",
+    description: "Run a shell command",
+    messages: [{ role: "user", content: "Run the test suite with bun test." }],
+    expected: { tool: "Bash", input: { command: "bun test" } },
+    reference: { name: "Bash", arguments: { command: "bun test", description: "Run tests" } },
+  },
+  {
+    name: "edit-after-read",
+    description: "Edit a file using the exact text from an earlier Read result",
+    messages: [
+      {
+        role: "user",
+        content: "Fix the typo in the loadConfg function name in /repo/src/config.ts",
+      },
+      toolUse("toolu_01", "Read", { file_path: "/repo/src/config.ts" }),
+      toolResult("toolu_01", CONFIG_SOURCE),
+    ],
+    expected: {
+      tool: "Edit",
+      input: {
+        file_path: "/repo/src/config.ts",
+        old_string: "loadConfg",
+        new_string: "loadConfig",
+      },
+    },
+    reference: {
+      name: "Edit",
+      arguments: {
+        file_path: "/repo/src/config.ts",
+        old_string: "export function loadConfg(",
+        new_string: "export function loadConfig(",
+      },
+    },
+  },
+  {
+    name: "read-failing-test",
+    description: "Follow a test failure to the file it points at",
+    messages: [
+      { role: "user", content: "The tests are failing, find out why." },
+      toolUse("toolu_01", "Bash", { command: "bun test", description: "Run tests" }),
+      toolResult("toolu_01", TEST_FAILURE),
+    ],
+    expected: { tool: "Read", input: { file_path: "/repo/tests/math.test.ts" } },
+    reference: { name: "Read", arguments: { file_path: "/repo/tests/math.test.ts" } },
+  },
+  {
+    name: "read-search-hit",
+    description: "Open the file a search found",
+    messages: [
+      { role: "user", content: "Show me how the retry delay is computed." },
+      toolUse("toolu_01", "Grep", { pattern: "retryDelay" }),
+      toolResult(
+        "toolu_01",
+        "Found 1 file\n/repo/src/http/backoff.ts:14:export function retryDelay(attempt: number) {"
+      ),
+    ],
+    expected: { tool: "Read", input: { file_path: "/repo/src/http/backoff.ts" } },
+    reference: { name: "Read", arguments: { file_path: "/repo/src/http/backoff.ts" } },
+  },
+];
@@ -3,6 +3,7 @@ import { spawn } from "node:child_process";
 import { writeFileSync, unlinkSync, mkdirSync, existsSync } from "node:fs";
 import { tmpdir, homedir } from "node:os";
 import { join, basename } from "node:path";
+import { withoutStoredApiKeys } from "./auth/credential-store.js";
 import { ENV } from "./config.js";
 import type { ClaudishConfig } from "./types.js";
 
@@ -16,7 +17,7 @@ function isWindows(): boolean {
  * Create a cross-platform Node.js script for status line
  * This replaces the bash script to work on Windows
  */
-function createStatusLineScript(tokenFilePath: string): string {
+function createStatusLineScript(tokenFilePath: string, budgetFilePath: string): string {
   const homeDir = process.env.HOME || process.env.USERPROFILE || tmpdir();
   const claudishDir = join(homeDir, ".claudish");
   const timestamp = Date.now();
@@ -24,6 +25,7 @@ function createStatusLineScript(tokenFilePath: string): string {
 
   // Escape backslashes for Windows paths in the script
   const escapedTokenPath = tokenFilePath.replace(/\\/g, "\\\\");
+  const escapedBudgetPath = budgetFilePath.replace(/\\/g, "\\\\");
 
   const script = `
 const fs = require('fs');
@@ -33,6 +35,7 @@ const CYAN = "\\x1b[96m";
 const YELLOW = "\\x1b[93m";
 const GREEN = "\\x1b[92m";
 const MAGENTA = "\\x1b[95m";
+const RED = "\\x1b[91m";
 const DIM = "\\x1b[2m";
 const RESET = "\\x1b[0m";
 const BOLD = "\\x1b[1m";
@@ -77,8 +80,15 @@ process.stdin.on('end', () => {
     } else {
       costDisplay = '$' + cost.toFixed(3);
     }
+    let budgetDisplay = '';
+    try {
+      const budget = JSON.parse(fs.readFileSync('${escapedBudgetPath}', 'utf-8'));
+      if (budget.status_text) {
+        budgetDisplay = \` \${DIM}•\${RESET} \${RED}\${BOLD}\${budget.status_text}\${RESET}\`;
+      }
+    } catch {}
     const modelDisplay = providerName ? providerName + ' ' + model : model;
-    console.log(\`\${CYAN}\${BOLD}\${dir}\${RESET} \${DIM}•\${RESET} \${YELLOW}\${modelDisplay}\${RESET} \${DIM}•\${RESET} \${GREEN}\${costDisplay}\${RESET} \${DIM}•\${RESET} \${MAGENTA}\${ctx}%\${RESET}\`);
+    console.log(\`\${CYAN}\${BOLD}\${dir}\${RESET} \${DIM}•\${RESET} \${YELLOW}\${modelDisplay}\${RESET} \${DIM}•\${RESET} \${GREEN}\${costDisplay}\${RESET} \${DIM}•\${RESET} \${MAGENTA}\${ctx}%\${RESET}\${budgetDisplay}\`);
   } catch (e) {
     console.log('claudish');
   }
@@ -113,12 +123,14 @@ function createTempSettingsFile(modelDisplay: string, port: string): string {
 
   // Token file path - also in .claudish directory
   const tokenFilePath = join(claudishDir, `tokens-${port}.json`);
+  // Budget status (written by the proxy when --budget is set)
+  const budgetFilePath = join(claudishDir, `budget-${port}.json`);
 
   let statusCommand: string;
 
   if (isWindows()) {
     // Windows: Use Node.js script for cross-platform compatibility
-    const scriptPath = createStatusLineScript(tokenFilePath);
+    const scriptPath = createStatusLineScript(tokenFilePath, budgetFilePath);
     statusCommand = `node "${scriptPath}"`;
   } else {
     // Unix: Use optimized bash script
@@ -127,12 +139,13 @@ function createTempSettingsFile(modelDisplay: string, port: string): string {
     const YELLOW = "\\033[93m";
     const GREEN = "\\033[92m";
     const MAGENTA = "\\033[95m";
+    const RED = "\\033[91m";
     const DIM = "\\033[2m";
     const RESET = "\\033[0m";
     const BOLD = "\\033[1m";
 
     // Both cost and context percentage come from our token file
-    statusCommand = `JSON=$(cat) && DIR=$(basename "$(pwd)") && [ \${#DIR} -gt 15 ] && DIR="\${DIR:0:12}..." || true && CTX=100 && COST="0" && IS_FREE="false" && IS_SUB="false" && IS_EST="false" && PROVIDER="" && if [ -f "${tokenFilePath}" ]; then TOKENS=$(cat "${tokenFilePath}" 2>/dev/null | tr -d ' \\n') && REAL_CTX=$(echo "$TOKENS" | grep -o '"context_left_percent":[0-9]*' | grep -o '[0-9]*') && if [ ! -z "$REAL_CTX" ]; then CTX="$REAL_CTX"; fi && REAL_COST=$(echo "$TOKENS" | grep -o '"total_cost":[0-9.]*' | cut -d: -f2) && if [ ! -z "$REAL_COST" ]; then COST="$REAL_COST"; fi && IS_FREE=$(echo "$TOKENS" | grep -o '"is_free":[a-z]*' | cut -d: -f2) && IS_SUB=$(echo "$TOKENS" | grep -o '"is_subscription":[a-z]*' | cut -d: -f2) && IS_EST=$(echo "$TOKENS" | grep -o '"is_estimated":[a-z]*' | cut -d: -f2) && PROVIDER=$(echo "$TOKENS" | grep -o '"provider_name":"[^"]*"' | cut -d'"' -f4); fi && if [ "$CLAUDISH_IS_LOCAL" = "true" ]; then COST_DISPLAY="LOCAL"; elif [ "$IS_SUB" = "true" ]; then COST_DISPLAY="SUB"; elif [ "$IS_FREE" = "true" ]; then COST_DISPLAY="FREE"; elif [ "$IS_EST" = "true" ]; then COST_DISPLAY=$(printf "~\\$%.3f" "$COST"); else COST_DISPLAY=$(printf "\\$%.3f" "$COST"); fi && MODEL_DISPLAY="$CLAUDISH_ACTIVE_MODEL_NAME" && if [ ! -z "$PROVIDER" ]; then MODEL_DISPLAY="$PROVIDER $MODEL_DISPLAY"; fi && printf "${CYAN}${BOLD}%s${RESET} ${DIM}•${RESET} ${YELLOW}%s${RESET} ${DIM}•${RESET} ${GREEN}%s${RESET} ${DIM}•${RESET} ${MAGENTA}%s%%${RESET}\\n" "$DIR" "$MODEL_DISPLAY" "$COST_DISPLAY" "$CTX"`;
+    statusCommand = `JSON=$(cat) && DIR=$(basename "$(pwd)") && [ \${#DIR} -gt 15 ] && DIR="\${DIR:0:12}..." || true && CTX=100 && COST="0" && IS_FREE="false" && IS_SUB="false" && IS_EST="false" && PROVIDER="" && if [ -f "${tokenFilePath}" ]; then TOKENS=$(cat "${tokenFilePath}" 2>/dev/null | tr -d ' \\n') && REAL_CTX=$(echo "$TOKENS" | grep -o '"context_left_percent":[0-9]*' | grep -o '[0-9]*') && if [ ! -z "$REAL_CTX" ]; then CTX="$REAL_CTX"; fi && REAL_COST=$(echo "$TOKENS" | grep -o '"total_cost":[0-9.]*' | cut -d: -f2) && if [ ! -z "$REAL_COST" ]; then COST="$REAL_COST"; fi && IS_FREE=$(echo "$TOKENS" | grep -o '"is_free":[a-z]*' | cut -d: -f2) && IS_SUB=$(echo "$TOKENS" | grep -o '"is_subscription":[a-z]*' | cut -d: -f2) && IS_EST=$(echo "$TOKENS" | grep -o '"is_estimated":[a-z]*' | cut -d: -f2) && PROVIDER=$(echo "$TOKENS" | grep -o '"provider_name":"[^"]*"' | cut -d'"' -f4); fi && if [ "$CLAUDISH_IS_LOCAL" = "true" ]; then COST_DISPLAY="LOCAL"; elif [ "$IS_SUB" = "true" ]; then COST_DISPLAY="SUB"; elif [ "$IS_FREE" = "true" ]; then COST_DISPLAY="FREE"; elif [ "$IS_EST" = "true" ]; then COST_DISPLAY=$(printf "~\\$%.3f" "$COST"); else COST_DISPLAY=$(printf "\\$%.3f" "$COST"); fi && MODEL_DISPLAY="$CLAUDISH_ACTIVE_MODEL_NAME" && if [ ! -z "$PROVIDER" ]; then MODEL_DISPLAY="$PROVIDER $MODEL_DISPLAY"; fi && BUDGET="" && if [ -f "${budgetFilePath}" ]; then BUDGET=$(grep -o '"status_text":"[^"]*"' "${budgetFilePath}" 2>/dev/null | cut -d'"' -f4); fi && BUDGET_DISPLAY="" && if [ ! -z "$BUDGET" ]; then BUDGET_DISPLAY=" ${DIM}•${RESET} ${RED}${BOLD}$BUDGET${RESET}"; fi && printf "${CYAN}${BOLD}%s${RESET} ${DIM}•${RESET} ${YELLOW}%s${RESET} ${DIM}•${RESET} ${GREEN}%s${RESET} ${DIM}•${RESET} ${MAGENTA}%s%%${RESET}%b\\n" "$DIR" "$MODEL_DISPLAY" "$COST_DISPLAY" "$CTX" "$BUDGET_DISPLAY"`;
   }
 
   const settings = {
@@ -152,15 +165,16 @@ function createTempSettingsFile(modelDisplay: string, port: string): string {
  */
 export async function runClaudeWithProxy(
   config: ClaudishConfig,
-  proxyUrl: string
+  proxyUrl: string,
+  statusKey?: string
 ): Promise<number> {
   // Use actual OpenRouter model ID (no translation)
   // This ensures ANY model works, not just our shortlist
   const modelId = config.model || "unknown";
 
-  // Extract port from proxy URL for token file path
+  // Extract port from proxy URL for token file path (daemon sessions have a key of their own)
   const portMatch = proxyUrl.match(/:(\d+)/);
-  const port = portMatch ? portMatch[1] : "unknown";
+  const port = statusKey || (portMatch ? portMatch[1] : "unknown");
 
   // Create temporary settings file with custom status line for this instance
   const tempSettingsPath = createTempSettingsFile(modelId, port);
@@ -222,9 +236,10 @@ export async function runClaudeWithProxy(
     modelId.startsWith("http://") ||
     modelId.startsWith("https://");
 
-  // Environment variables for Claude Code
+  // Environment variables for Claude Code - stored provider keys stay in claudish
+  const parentEnv = withoutStoredApiKeys(process.env);
   const env: Record<string, string> = {
-    ...process.env,
+    ...parentEnv,
     // Point Claude Code to our local proxy
     ANTHROPIC_BASE_URL: proxyUrl,
     // Set active model ID for status line (actual OpenRouter model ID)
@@ -255,13 +270,13 @@ export async function runClaudeWithProxy(
     // OpenRouter mode: Use placeholder to prevent Claude Code dialog
     // The proxy will handle authentication with OPENROUTER_API_KEY
     env.ANTHROPIC_API_KEY =
-      process.env.ANTHROPIC_API_KEY ||
+      parentEnv.ANTHROPIC_API_KEY ||
       "sk-ant-REDACTED";
 
     // Also set ANTHROPIC_AUTH_TOKEN to bypass login screen
     // Claude Code checks both API_KEY and AUTH_TOKEN for authentication
     env.ANTHROPIC_AUTH_TOKEN =
-      process.env.ANTHROPIC_AUTH_TOKEN ||
+      parentEnv.ANTHROPIC_AUTH_TOKEN ||
       "placeholder-token-not-used-proxy-handles-auth";
   }
 
@@ -6,7 +6,26 @@ import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
 import { homedir } from "node:os";
 import { fuzzyScore } from "./utils.js";
-import { getModelMapping } from "./profile-config.js";
+import {
+  getModelMapping,
+  getProfileBudget,
+  getProfileFallback,
+  getProfileReasoningMode,
+  getProfileRedaction,
+  getProfileRules,
+  getProfileVisionModel,
+} from "./profile-config.js";
+import { REASONING_MODES, isReasoningMode } from "./handlers/shared/reasoning.js";
+import {
+  type RedactionMode,
+  REDACTION_MODES,
+  isRedactionMode,
+  validateRedactionConfig,
+} from "./middleware/redaction.js";
+import { STREAM_CHECK_MODES, isStreamCheckMode } from "./services/stream-checker.js";
+import { getCustomProviders } from "./providers/custom-providers.js";
+import { getPolicyViolation, getProviderPolicy } from "./providers/provider-policy.js";
+import { getApiKey } from "./auth/credential-store.js";
 // Re-export from centralized provider-resolver for backwards compatibility
 export {
   resolveModelProvider,
@@ -96,6 +115,7 @@ export async function parseArgs(args: string[]): Promise<ClaudishConfig> {
   }
 
   // Parse command line arguments
+  let redactMode: RedactionMode | "off" | undefined; // Combined with the profile's setting below
   let i = 0;
   while (i < args.length) {
     const arg = args[i];
@@ -180,6 +200,35 @@ export async function parseArgs(args: string[]): Promise<ClaudishConfig> {
       if (!config.monitor) {
         config.monitor = true; // Switch to monitor mode to track requests
       }
+    } else if (arg === "--budget") {
+      const budgetArg = args[++i];
+      const budget = budgetArg ? Number.parseFloat(budgetArg) : Number.NaN;
+      if (Number.isNaN(budget) || budget <= 0) {
+        console.error("--budget requires a positive USD amount (e.g. --budget 5.00)");
+        process.exit(1);
+      }
+      config.budget = budget;
+    } else if (arg === "--budget-downgrade") {
+      const downgradeArg = args[++i];
+      if (!downgradeArg) {
+        console.error("--budget-downgrade requires a model");
+        process.exit(1);
+      }
+      config.budgetDowngradeModel = downgradeArg;
+    } else if (arg === "--record") {
+      const recordArg = args[++i];
+      if (!recordArg) {
+        console.error("--record requires a directory");
+        process.exit(1);
+      }
+      config.recordDir = recordArg;
+    } else if (arg === "--replay") {
+      const replayArg = args[++i];
+      if (!replayArg || !existsSync(replayArg)) {
+        console.error("--replay requires a recording directory (created with --record <dir>)");
+        process.exit(1);
+      }
+      config.replayDir = replayArg;
     } else if (arg === "--audit-costs") {
       // Special mode to just show cost analysis
       config.auditCosts = true;
@@ -232,6 +281,54 @@ export async function parseArgs(args: string[]): Promise<ClaudishConfig> {
     } else if (arg === "--summarize-tools") {
       // Summarize tool descriptions to reduce prompt size for local models
       config.summarizeTools = true;
+    } else if (arg === "--compact") {
+      // Compact requests that exceed the target model's context window
+      config.compact = true;
+    } else if (arg === "--compact-model") {
+      const compactModelArg = args[++i];
+      if (!compactModelArg) {
+        console.error("--compact-model requires a model (e.g. --compact-model g@gemini-2.5-flash)");
+        process.exit(1);
+      }
+      config.compact = true;
+      config.compactModel = compactModelArg;
+    } else if (arg === "--vision-model") {
+      const visionModelArg = args[++i];
+      if (!visionModelArg) {
+        console.error("--vision-model requires a model (e.g. --vision-model g@gemini-2.5-flash)");
+        process.exit(1);
+      }
+      config.visionModel = visionModelArg;
+    } else if (arg === "--reasoning") {
+      const reasoningArg = args[++i];
+      if (!reasoningArg || !isReasoningMode(reasoningArg)) {
+        console.error(`--reasoning requires one of: ${REASONING_MODES.join(", ")}`);
+        process.exit(1);
+      }
+      config.reasoning = reasoningArg;
+    } else if (arg === "--redact") {
+      const redactArg = args[++i];
+      if (!redactArg || (redactArg !== "off" && !isRedactionMode(redactArg))) {
+        console.error(`--redact requires one of: ${REDACTION_MODES.join(", ")}, off`);
+        process.exit(1);
+      }
+      redactMode = redactArg;
+    } else if (arg === "--check-stream") {
+      const checkArg = args[++i];
+      if (!checkArg || !isStreamCheckMode(checkArg)) {
+        console.error(`--check-stream requires one of: ${STREAM_CHECK_MODES.join(", ")}`);
+        process.exit(1);
+      }
+      config.checkStream = checkArg;
+    } else if (arg === "--no-daemon") {
+      config.noDaemon = true;
+    } else if (arg === "--otlp-endpoint") {
+      const endpointArg = args[++i];
+      if (!endpointArg) {
+        console.error("--otlp-endpoint requires a collector URL (e.g. http://localhost:4318)");
+        process.exit(1);
+      }
+      config.otlpEndpoint = endpointArg;
     } else {
       // All remaining args go to claude CLI
       config.claudeArgs = args.slice(i);
@@ -269,6 +366,7 @@ export async function parseArgs(args: string[]): Promise<ClaudishConfig> {
   // This ensures we know which model the user wants before checking if they have the right key
   config.openrouterApiKey = process.env[ENV.OPENROUTER_API_KEY];
   config.anthropicApiKey = process.env.ANTHROPIC_API_KEY;
+  config.otlpEndpoint ??= process.env[ENV.OTEL_EXPORTER_OTLP_ENDPOINT];
 
   // Set default for quiet mode if not explicitly set
   // Single-shot mode: quiet by default
@@ -307,6 +405,43 @@ export async function parseArgs(args: string[]): Promise<ClaudishConfig> {
     }
   }
 
+  // Profile fallback chain (tried when the mapped model fails with 429/5xx)
+  const profileFallback = getProfileFallback(config.profile);
+  if (profileFallback.length > 0) {
+    config.fallbackModels = profileFallback;
+  }
+
+  // Profile routing rules (route on request features before the role mappings)
+  const profileRules = getProfileRules(config.profile);
+  if (profileRules.length > 0) {
+    config.routingRules = profileRules;
+  }
+
+  // Profile vision helper (CLI flag overrides)
+  config.visionModel = config.visionModel ?? getProfileVisionModel(config.profile);
+
+  // Profile reasoning display (CLI flag overrides)
+  config.reasoning = config.reasoning ?? getProfileReasoningMode(config.profile);
+
+  // Profile redaction (--redact overrides the mode, or turns it off)
+  const profileRedaction = getProfileRedaction(config.profile);
+  const redactionError = profileRedaction && validateRedactionConfig(profileRedaction);
+  if (redactionError) {
+    console.error(`Invalid redaction settings in profile: ${redactionError}`);
+    process.exit(1);
+  }
+  if (redactMode !== "off" && (redactMode || profileRedaction)) {
+    config.redaction = { ...profileRedaction, mode: redactMode || profileRedaction!.mode };
+  }
+
+  // Profile budget (CLI flags override the profile's limit and downgrade model)
+  const profileBudget = getProfileBudget(config.profile);
+  if (profileBudget) {
+    config.budget = config.budget ?? profileBudget.limit;
+    config.budgetWarnAt = profileBudget.warnAt;
+    config.budgetDowngradeModel = config.budgetDowngradeModel ?? profileBudget.downgradeModel;
+  }
+
   return config as ClaudishConfig;
 }
 
@@ -471,6 +606,7 @@ async function searchAndPrintModels(query: string, forceUpdate: boolean): Promis
   const RESET = "\x1b[0m";
   const DIM = "\x1b[2m";
 
+  printPolicyNotice();
   console.log(`\nFound ${results.length} matching models:\n`);
   console.log("  Model                          Provider    Pricing     Context  Score");
   console.log("  " + "─".repeat(80));
@@ -519,19 +655,21 @@ async function searchAndPrintModels(query: string, forceUpdate: boolean): Promis
     const contextLen = model.context_length || model.top_provider?.context_length || 0;
     const context = contextLen > 0 ? `${Math.round(contextLen / 1000)}K` : "N/A";
     const contextPadded = context.padEnd(7);
+    const [routeProvider, routeModel] = fullModelId.split(/@(.*)/);
+    const blocked = policyMarker(routeProvider, routeModel);
 
     // Color code local models based on tool support
     if (model.isLocal && model.supportsTools === false) {
       console.log(
-        `  ${RED}${modelIdPadded} ${providerPadded} ${pricingPadded} ${contextPadded} ${(score * 100).toFixed(0)}% ✗ no tools${RESET}`
+        `  ${RED}${modelIdPadded} ${providerPadded} ${pricingPadded} ${contextPadded} ${(score * 100).toFixed(0)}% ✗ no tools${RESET}${blocked}`
       );
     } else if (model.isLocal && model.supportsTools === true) {
       console.log(
-        `  ${GREEN}${modelIdPadded}${RESET} ${providerPadded} ${pricingPadded} ${contextPadded} ${(score * 100).toFixed(0)}%`
+        `  ${GREEN}${modelIdPadded}${RESET} ${providerPadded} ${pricingPadded} ${contextPadded} ${(score * 100).toFixed(0)}%${blocked}`
       );
     } else {
       console.log(
-        `  ${modelIdPadded} ${providerPadded} ${pricingPadded} ${contextPadded} ${(score * 100).toFixed(0)}%`
+        `  ${modelIdPadded} ${providerPadded} ${pricingPadded} ${contextPadded} ${(score * 100).toFixed(0)}%${blocked}`
       );
     }
   }
@@ -545,6 +683,41 @@ async function searchAndPrintModels(query: string, forceUpdate: boolean): Promis
   console.log("OpenCode Zen model:   claudish --model zen@<model-id>");
 }
 
+/**
+ * Marker for a model the organisation policy blocks ("" when it is allowed)
+ */
+function policyMarker(provider: string, model: string): string {
+  return getPolicyViolation(provider, model) ? "  \x1b[31m⛔ blocked by policy\x1b[0m" : "";
+}
+
+/**
+ * Say which policy applies before a model listing
+ */
+function printPolicyNotice(): void {
+  const policy = getProviderPolicy();
+  if (!policy) return;
+  const name = policy.name ? `"${policy.name}"` : "";
+  console.log(`\n🔒 Policy ${name} from ${policy.source} - models marked ⛔ can't be used`);
+  if (policy.invalid) {
+    console.log(`   \x1b[31mThe policy file is invalid (${policy.invalid}) - every model is blocked\x1b[0m`);
+  }
+}
+
+/**
+ * Models listed by custom providers in ~/.claudish/config.json
+ */
+function getCustomProviderModels(): any[] {
+  return getCustomProviders().flatMap((provider) =>
+    (provider.models || []).map((model) => ({
+      id: `${provider.name}@${model}`,
+      name: model,
+      provider: provider.name,
+      pricing: provider.pricing,
+      isCustom: true,
+    }))
+  );
+}
+
 /**
  * Print ALL available models from OpenRouter and local Ollama
  */
@@ -557,6 +730,8 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
     fetchZenModels(),
   ]);
 
+  const customModels = getCustomProviderModels();
+
   // Check cache for all models
   if (!forceUpdate && existsSync(ALL_MODELS_JSON_PATH)) {
     try {
@@ -608,24 +783,29 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
 
   // JSON output
   if (jsonOutput) {
-    const allModels = [...ollamaModels, ...zenModels, ...models];
+    const allModels = [...ollamaModels, ...zenModels, ...customModels, ...models];
     console.log(
       JSON.stringify(
         {
           count: allModels.length,
           localCount: ollamaModels.length,
           zenCount: zenModels.length,
+          customCount: customModels.length,
           lastUpdated: new Date().toISOString().split("T")[0],
           models: allModels.map((m) => {
             // Add proper prefix for explicit routing
             let id: string;
             if (m.isLocal) {
               id = m.id.replace("ollama/", "ollama@");
+            } else if (m.isCustom) {
+              id = m.id;
             } else if (m.isZen || m.id.startsWith("zen/")) {
               id = m.id.replace("zen/", "zen@");
             } else {
               id = `openrouter@${m.id}`;
             }
+            const [routeProvider, routeModel] = id.split(/@(.*)/);
+            const blockedByPolicy = getPolicyViolation(routeProvider, routeModel);
             return {
               id,
               name: m.name,
@@ -633,6 +813,8 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
               pricing: m.pricing,
               isLocal: m.isLocal || false,
               isZen: m.isZen || false,
+              isCustom: m.isCustom || false,
+              ...(blockedByPolicy && { blockedByPolicy }),
             };
           }),
         },
@@ -649,6 +831,8 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
   const RESET = "\x1b[0m";
   const DIM = "\x1b[2m";
 
+  printPolicyNotice();
+
   // Print local Ollama models first if available
   if (ollamaModels.length > 0) {
     const toolCapableCount = ollamaModels.filter((m: any) => m.supportsTools).length;
@@ -667,11 +851,14 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
       const sizePadded = size.padEnd(12);
       const params = model.details?.parameter_size || "N/A";
       const paramsPadded = params.padEnd(8);
+      const blocked = policyMarker("ollama", fullId.slice("ollama@".length));
 
       if (model.supportsTools) {
-        console.log(`    ${modelIdPadded} ${sizePadded} ${paramsPadded}  ${GREEN}✓${RESET}`);
+        console.log(`    ${modelIdPadded} ${sizePadded} ${paramsPadded}  ${GREEN}✓${RESET}${blocked}`);
       } else {
-        console.log(`    ${RED}${modelIdPadded} ${sizePadded} ${paramsPadded}  ✗ no tools${RESET}`);
+        console.log(
+          `    ${RED}${modelIdPadded} ${sizePadded} ${paramsPadded}  ✗ no tools${RESET}${blocked}`
+        );
       }
     }
     console.log("");
@@ -713,14 +900,37 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
       const pricing = model.isFree ? `${GREEN}FREE${RESET}` : `$${(parseFloat(model.pricing?.prompt || "0") + parseFloat(model.pricing?.completion || "0")).toFixed(1)}/M`;
       const pricingPadded = model.isFree ? "FREE        " : pricing.padEnd(12);
       const tools = model.supportsTools ? `${GREEN}✓${RESET}` : `${RED}✗${RESET}`;
+      const blocked = policyMarker("opencode-zen", fullId.slice("zen@".length));
 
-      console.log(`    ${modelIdPadded} ${contextPadded} ${pricingPadded} ${tools}`);
+      console.log(`    ${modelIdPadded} ${contextPadded} ${pricingPadded} ${tools}${blocked}`);
     }
     console.log("");
     console.log(`  ${DIM}FREE models work without API key!${RESET}`);
     console.log("  Use: claudish --model zen@<model-id>");
   }
 
+  // Print custom providers from ~/.claudish/config.json
+  const customProviders = getCustomProviders();
+  if (customProviders.length > 0) {
+    console.log(`\n⚙️  CUSTOM PROVIDERS (${customProviders.length} from config.json):\n`);
+    for (const provider of customProviders) {
+      const shortcuts = provider.shortcuts?.length ? ` (${provider.shortcuts.join(", ")})` : "";
+      const keyStatus = !provider.apiKeyEnvVar
+        ? `${DIM}no key needed${RESET}`
+        : getApiKey(provider.apiKeyEnvVar)
+          ? `${GREEN}${provider.apiKeyEnvVar} ✓${RESET}`
+          : `${RED}${provider.apiKeyEnvVar} not set${RESET}`;
+      console.log(`  ${provider.name}${shortcuts}  ${DIM}${provider.protocol} · ${provider.baseUrl}${RESET}  ${keyStatus}`);
+      console.log("  " + "─".repeat(70));
+      for (const model of customModels.filter((m) => m.provider === provider.name)) {
+        console.log(`    ${model.id}${policyMarker(provider.name, model.name)}`);
+      }
+      if (!provider.models?.length) {
+        console.log(`    ${DIM}No models listed - use: claudish --model ${provider.name}@<model>${RESET}`);
+      }
+    }
+  }
+
   // Group by provider
   const byProvider = new Map<string, any[]>();
   for (const model of models) {
@@ -765,8 +975,9 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
       const contextLen = model.context_length || model.top_provider?.context_length || 0;
       const context = contextLen > 0 ? `${Math.round(contextLen / 1000)}K` : "N/A";
       const contextPadded = context.padEnd(8);
+      const blocked = policyMarker("openrouter", model.id);
 
-      console.log(`    ${modelIdPadded} ${pricingPadded} ${contextPadded}`);
+      console.log(`    ${modelIdPadded} ${pricingPadded} ${contextPadded}${blocked}`);
     }
   }
 
@@ -775,6 +986,7 @@ async function printAllModels(jsonOutput: boolean, forceUpdate: boolean): Promis
   console.log("  Example:             claudish --model openrouter@google/gemini-2.0-flash-exp:free");
   console.log("Local Ollama model:    claudish --model ollama@<model-name>");
   console.log("OpenCode Zen model:    claudish --model zen@<model-id>");
+  console.log("Custom provider:       claudish --model <provider>@<model-id>");
   console.log("Search:                claudish --search <query>");
   console.log("Top models:            claudish --top-models");
 }
@@ -1034,6 +1246,9 @@ MODEL ROUTING:
     ollama@llama3.2:3                Local Ollama with 3 concurrent requests
     ollama@llama3.2:0                Local Ollama with no limits
 
+  Fallback chains: target|target|...  (next target tried on 429/5xx/unreachable)
+    "g@gemini-3-pro|or@google/gemini-3-pro|ollama@qwen3"
+
   Provider shortcuts:
     g, gemini    -> Google Gemini     google@gemini-3-pro
     oai          -> OpenAI Direct     oai@gpt-5.2
@@ -1053,6 +1268,9 @@ MODEL ROUTING:
     vllm         -> vLLM (local)      vllm@model
     mlx          -> MLX (local)       mlx@model
 
+  Custom providers: declare OpenAI/Anthropic/Gemini/Ollama-compatible vendors in
+  the "providers" list of ~/.claudish/config.json, then use name@model
+
   Native model auto-detection (when no provider specified):
     google/*, gemini-*      -> Google API
     openai/*, gpt-*, o1-*   -> OpenAI API
@@ -1089,8 +1307,26 @@ OPTIONS:
   --no-auto-approve        Explicitly enable permission prompts (default)
   --dangerous              Pass --dangerouslyDisableSandbox to Claude Code
   --cost-tracker           Enable cost tracking for API usage (NB!)
-  --audit-costs            Show cost analysis report
-  --reset-costs            Reset accumulated cost statistics
+  --budget <usd>           Session spend limit: warn at 80%, reject requests at 100%
+  --budget-downgrade <m>   At the budget limit, reroute requests to model <m> instead of rejecting
+  --record <dir>           Record requests, upstream requests and raw upstream streams to <dir>
+  --replay <dir>           Serve a --record session from disk through the handlers (no network)
+  --compact                Compact requests that exceed the model's context window (trim old
+                           tool results, summarize earlier turns, truncate large files)
+  --compact-model <m>      Summarize earlier turns with model <m> (implies --compact)
+  --vision-model <m>       Describe images with model <m> for targets without vision support
+  --reasoning <mode>       How model reasoning is shown: show (thinking blocks, default),
+                           hide, or text (inline <thinking> text)
+  --redact <mode>          Look for API keys, private keys, JWTs, AWS credentials and emails
+                           in outgoing messages: mask them, block the request, or warn
+                           (debug log); off ignores the profile's "redaction" setting
+  --check-stream <mode>    Check handler output against the Anthropic streaming grammar:
+                           log (report violations) or repair (also fix the stream)
+  --no-daemon              Start a proxy of our own even when \`claudish serve\` is running
+  --otlp-endpoint <url>    Export a trace span per request to an OpenTelemetry collector
+                           (OTLP/HTTP, e.g. http://localhost:4318; env: OTEL_EXPORTER_OTLP_ENDPOINT)
+  --audit-costs            Show cost report (same as: claudish costs)
+  --reset-costs            Clear the cost ledger (same as: claudish costs reset)
   --models                 List ALL models (OpenRouter + OpenCode Zen + Ollama)
   --models <query>         Fuzzy search all models by name, ID, or description
   --top-models             List recommended/top programming models (curated)
@@ -1110,13 +1346,40 @@ PROFILE MANAGEMENT:
   claudish profile show    Show profile details (default profile or claudish profile show <name>)
   claudish profile edit    Edit a profile (interactive or claudish profile edit <name>)
 
+COSTS:
+  claudish costs           Show recorded spend per project (ledger: ~/.claudish/cost-ledger.jsonl)
+  claudish costs --by <g>  Group by project, model, provider, day or role
+  claudish costs --since 7d  Only include recent requests (also: 12h, 30m, 2025-01-31)
+  claudish costs --json    Output JSON instead of a table
+  claudish costs reset     Clear the cost ledger
+
+TESTING:
+  claudish mock-upstream   Local mock of the provider APIs with scripted scenarios (--help for options)
+  claudish bench <m...>    Score models' tool calls on canned Claude Code conversations (--help)
+  claudish bench --offline Run the bench against the mock upstream (for CI)
+  claudish validate [path] Check .claude/ agents, commands, skills and CLAUDE.md (--json; exit 1 on critical)
+
+DAEMON:
+  claudish serve           Run one shared proxy for all claudish sessions (--help for options)
+  claudish serve status    Show the running daemon and its sessions
+  claudish serve reload    Reload stored keys, .env and custom providers without dropping requests
+  claudish serve stop      Stop the daemon after in-flight requests finish
+  claudish top             Live view of in-flight requests, queues, TTFT, tokens/sec and cost
+
 UPDATE:
   claudish update          Check for updates and install latest version
 
 AUTHENTICATION:
+  claudish auth            Show every provider's credentials and where they come from
+  claudish auth login [p]  Save a provider's API key, or run an OAuth login (gemini-codeassist, kimi-coding)
+  claudish auth logout <p> Remove a provider's stored key or OAuth login
+  claudish auth list       List stored credentials
+  claudish auth store <s>  Keep credentials in a file, an encrypted file or the OS keyring
+  claudish auth accounts   Several OpenRouter / Gemini Code Assist accounts and how one is picked
   --gemini-login           Login to Gemini Code Assist via OAuth (for go@ prefix)
   --gemini-logout          Clear Gemini OAuth credentials
   --kimi-login             Login to Kimi/Moonshot AI via OAuth (for kimi@ prefix)
+  --no-browser, --device   With a login: print the sign-in URL instead of opening a browser (SSH, containers)
   --kimi-logout            Clear Kimi OAuth credentials
 
 MODEL MAPPING (per-role override):
@@ -1188,6 +1451,8 @@ ENVIRONMENT VARIABLES:
   CLAUDISH_MODEL                  Default model to use (default: openai/gpt-5.2)
   CLAUDISH_PORT                   Default port for proxy
   CLAUDISH_CONTEXT_WINDOW         Override context window size
+  CLAUDISH_POLICY                 Policy file restricting providers and models
+                                  (default: nearest .claudish/policy.json)
 
   Model mapping (per-role):
   CLAUDISH_MODEL_OPUS             Override model for Opus role
@@ -1435,6 +1700,7 @@ function printAvailableModels(): void {
     return;
   }
 
+  printPolicyNotice();
   console.log(`\nAvailable OpenRouter Models (last updated: ${lastUpdated}):\n`);
 
   // Table header
@@ -1474,9 +1740,10 @@ function printAvailableModels(): void {
     const reasoning = model.supportsReasoning ? "🧠" : "  ";
     const vision = model.supportsVision ? "👁️ " : "  ";
     const capabilities = `${tools} ${reasoning} ${vision}`;
+    const blocked = policyMarker("openrouter", fullModelId.slice("openrouter@".length));
 
     console.log(
-      `  ${modelIdPadded} ${providerPadded} ${pricingPadded} ${contextPadded} ${capabilities}`
+      `  ${modelIdPadded} ${providerPadded} ${pricingPadded} ${contextPadded} ${capabilities}${blocked}`
     );
   }
 
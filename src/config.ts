@@ -2,6 +2,9 @@
 
 export const DEFAULT_PORT_RANGE = { start: 3000, end: 9000 };
 
+// Fixed port of the shared proxy daemon (`claudish serve`)
+export const DEFAULT_SERVE_PORT = 3456;
+
 // Environment variable names
 export const ENV = {
   OPENROUTER_API_KEY: "OPENROUTER_API_KEY",
@@ -32,6 +35,8 @@ export const ENV = {
   OPENAI_BASE_URL: "OPENAI_BASE_URL", // Custom OpenAI API endpoint (default: https://api.openai.com)
   // Local model optimizations
   CLAUDISH_SUMMARIZE_TOOLS: "CLAUDISH_SUMMARIZE_TOOLS", // Summarize tool descriptions to reduce prompt size
+  // Observability
+  OTEL_EXPORTER_OTLP_ENDPOINT: "OTEL_EXPORTER_OTLP_ENDPOINT", // OpenTelemetry collector for request spans (e.g. http://localhost:4318)
 } as const;
 
 // OpenRouter API Configuration
@@ -0,0 +1,223 @@
+/**
+ * Cost Report Command
+ *
+ * Implements `claudish costs`, which summarizes the persistent cost ledger
+ * (~/.claudish/cost-ledger.jsonl):
+ * - claudish costs [--by project|model|provider|day|role] [--since 7d] [--here] [--json]
+ * - claudish costs reset: Delete the ledger
+ *
+ * `--audit-costs` and `--reset-costs` are aliases for `costs` and `costs reset`.
+ */
+
+import { resolve } from "node:path";
+import {
+  COST_GROUP_BY_VALUES,
+  type CostFilter,
+  type CostGroupBy,
+  type CostSummaryRow,
+  aggregateCosts,
+  filterCostEntries,
+  getCostLedgerPath,
+  readCostLedger,
+  resetCostLedger,
+} from "./services/cost-ledger.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const YELLOW = "\x1b[33m";
+const CYAN = "\x1b[36m";
+
+interface CostsOptions {
+  groupBy: CostGroupBy;
+  json: boolean;
+  filter: CostFilter;
+}
+
+/**
+ * Parse a --since value: a relative duration (30m, 12h, 7d) or a date (2025-01-31)
+ */
+export function parseSince(value: string, now: Date = new Date()): Date | null {
+  const relative = value.match(/^(\d+)([mhd])$/);
+  if (relative) {
+    const amount = Number.parseInt(relative[1], 10);
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as "m" | "h" | "d"];
+    return new Date(now.getTime() - amount * unitMs);
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a USD amount for display
+ */
+function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Render summary rows as an aligned text table
+ */
+export function formatCostTable(rows: CostSummaryRow[], groupBy: CostGroupBy): string {
+  const header = [groupBy.toUpperCase(), "REQUESTS", "INPUT", "OUTPUT", "CACHED", "COST"];
+  const total: CostSummaryRow = {
+    key: "TOTAL",
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    cost: 0,
+    estimated: false,
+  };
+  for (const row of rows) {
+    total.requests += row.requests;
+    total.inputTokens += row.inputTokens;
+    total.outputTokens += row.outputTokens;
+    total.cachedTokens += row.cachedTokens;
+    total.cost += row.cost;
+    total.estimated = total.estimated || row.estimated;
+  }
+
+  const toCells = (row: CostSummaryRow) => [
+    row.key,
+    row.requests.toLocaleString("en-US"),
+    row.inputTokens.toLocaleString("en-US"),
+    row.outputTokens.toLocaleString("en-US"),
+    row.cachedTokens.toLocaleString("en-US"),
+    `${row.estimated ? "~" : ""}${formatCost(row.cost)}`,
+  ];
+  const table = [header, ...rows.map(toCells), toCells(total)];
+  const widths = header.map((_, col) => Math.max(...table.map((cells) => cells[col].length)));
+
+  const formatLine = (cells: string[]) =>
+    cells
+      .map((cell, col) => (col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])))
+      .join("  ");
+  const separator = widths.map((w) => "-".repeat(w)).join("  ");
+
+  return [
+    formatLine(table[0]),
+    separator,
+    ...table.slice(1, -1).map(formatLine),
+    separator,
+    formatLine(table[table.length - 1]),
+  ].join("\n");
+}
+
+/**
+ * Parse `claudish costs` options
+ */
+function parseCostsArgs(args: string[]): CostsOptions {
+  const options: CostsOptions = { groupBy: "project", json: false, filter: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--by") {
+      const value = args[++i] as CostGroupBy;
+      if (!COST_GROUP_BY_VALUES.includes(value)) {
+        console.error(`--by must be one of: ${COST_GROUP_BY_VALUES.join(", ")}`);
+        process.exit(1);
+      }
+      options.groupBy = value;
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--since") {
+      const since = args[++i] ? parseSince(args[i]) : null;
+      if (!since) {
+        console.error("--since requires a duration (e.g. 7d, 12h) or a date (e.g. 2025-01-31)");
+        process.exit(1);
+      }
+      options.filter.since = since;
+    } else if (arg === "--project") {
+      const project = args[++i];
+      if (!project) {
+        console.error("--project requires a directory");
+        process.exit(1);
+      }
+      options.filter.project = resolve(project);
+    } else if (arg === "--here") {
+      options.filter.project = process.cwd();
+    } else if (arg === "--help" || arg === "-h") {
+      printCostsHelp();
+      process.exit(0);
+    } else {
+      console.error(`Unknown option for claudish costs: ${arg}`);
+      printCostsHelp();
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main costs command
+ */
+export async function costsCommand(args: string[]): Promise<void> {
+  if (args[0] === "reset") {
+    resetCostLedger();
+    console.log(`${CYAN}Cost ledger cleared${RESET} ${DIM}(${getCostLedgerPath()})${RESET}`);
+    return;
+  }
+
+  const options = parseCostsArgs(args);
+  const entries = filterCostEntries(readCostLedger(), options.filter);
+  const rows = aggregateCosts(entries, options.groupBy);
+
+  if (options.json) {
+    console.log(
+      JSON.stringify(
+        {
+          groupBy: options.groupBy,
+          since: options.filter.since?.toISOString(),
+          project: options.filter.project,
+          totalCost: rows.reduce((sum, row) => sum + row.cost, 0),
+          rows,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  if (rows.length === 0) {
+    console.log(`No recorded costs yet ${DIM}(${getCostLedgerPath()})${RESET}`);
+    return;
+  }
+
+  console.log(`\n${BOLD}Claudish costs by ${options.groupBy}${RESET}\n`);
+  console.log(formatCostTable(rows, options.groupBy));
+  if (rows.some((row) => row.estimated)) {
+    console.log(
+      `\n${YELLOW}~${RESET} ${DIM}includes estimated pricing (provider defaults, not real model prices)${RESET}`
+    );
+  }
+  console.log("");
+}
+
+/**
+ * Print costs command help
+ */
+function printCostsHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish costs [options]
+       claudish costs reset
+
+${BOLD}Options:${RESET}
+  ${CYAN}--by${RESET} ${DIM}<group>${RESET}         Group by project, model, provider, day or role (default: project)
+  ${CYAN}--since${RESET} ${DIM}<when>${RESET}       Only include requests since a duration (7d, 12h, 30m) or date
+  ${CYAN}--project${RESET} ${DIM}<dir>${RESET}      Only include requests made from a project directory
+  ${CYAN}--here${RESET}                Same as --project with the current directory
+  ${CYAN}--json${RESET}                Output JSON instead of a table
+
+${BOLD}Examples:${RESET}
+  claudish costs
+  claudish costs --by model --since 7d
+  claudish costs --by day --here --json
+  claudish costs reset
+`);
+}
@@ -13,9 +13,14 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import type { Context } from "hono";
 import { log, logStructured } from "../logger.js";
+import { MiddlewareManager, RedactionMiddleware } from "../middleware/index.js";
+import { recordCost } from "../services/cost-ledger.js";
+import { type CacheUsage, NO_CACHE_USAGE, fromAnthropicUsage } from "./shared/prompt-cache.js";
+import { stripClaudishThinking } from "./shared/reasoning.js";
 import {
   type ModelPricing,
   type RemoteProvider,
+  calculateCostFromPricing,
   getModelPricing,
 } from "./shared/remote-provider-types.js";
 import type { ModelHandler } from "./types.js";
@@ -30,17 +35,23 @@ export class AnthropicCompatHandler implements ModelHandler {
   private provider: RemoteProvider;
   private modelName: string;
   private apiKey: string;
-  private port: number;
+  private port: number | string;
   private sessionTotalCost = 0;
   private sessionInputTokens = 0;
   private sessionOutputTokens = 0;
   private contextWindow = 128000; // Default context window
+  private middlewareManager: MiddlewareManager;
 
-  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number) {
+  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number | string) {
     this.provider = provider;
     this.modelName = modelName;
     this.apiKey = apiKey;
     this.port = port;
+    this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
+    this.middlewareManager
+      .initialize()
+      .catch((err) => log(`[${provider.name}] Middleware init error: ${err}`));
 
     // Set context window based on provider
     this.setContextWindow();
@@ -128,19 +139,43 @@ export class AnthropicCompatHandler implements ModelHandler {
   /**
    * Update token tracking
    */
-  private updateTokenTracking(inputTokens: number, outputTokens: number): void {
+  private updateTokenTracking(
+    inputTokens: number,
+    outputTokens: number,
+    cache: CacheUsage = NO_CACHE_USAGE
+  ): void {
     this.sessionInputTokens = inputTokens;
     this.sessionOutputTokens += outputTokens;
 
     const pricing = this.getPricing();
-    const cost =
-      (inputTokens / 1_000_000) * pricing.inputCostPer1M +
-      (outputTokens / 1_000_000) * pricing.outputCostPer1M;
+    const cost = calculateCostFromPricing(
+      pricing,
+      inputTokens,
+      outputTokens,
+      cache.cacheReadTokens,
+      cache.cacheCreationTokens
+    );
     this.sessionTotalCost += cost;
+    recordCost({
+      provider: this.provider.name,
+      model: this.modelName,
+      inputTokens,
+      outputTokens,
+      cachedTokens: cache.cacheReadTokens,
+      cost,
+      estimated: pricing.isEstimate,
+    });
 
     this.writeTokenFile(inputTokens, this.sessionOutputTokens);
   }
 
+  /**
+   * Context window of the target model
+   */
+  async getContextWindow(): Promise<number> {
+    return this.contextWindow;
+  }
+
   /**
    * Main request handler
    */
@@ -156,11 +191,18 @@ export class AnthropicCompatHandler implements ModelHandler {
       maxTokens: payload.max_tokens,
     });
 
-    // Update model in payload to match the target model name
+    // Update model in payload to match the target model name. Thinking blocks
+    // claudish translated from another model carry signatures this API would reject.
     const requestPayload = {
-      ...payload,
+      ...stripClaudishThinking(payload),
       model: this.modelName,
     };
+    await this.middlewareManager.beforeRequest({
+      modelId: `${this.provider.name}/${this.modelName}`,
+      messages: requestPayload.messages || [],
+      tools: requestPayload.tools,
+      stream: true,
+    });
 
     // Build headers
     const headers: Record<string, string> = {
@@ -275,18 +317,20 @@ export class AnthropicCompatHandler implements ModelHandler {
 
                   // Extract usage from message_delta event
                   if (chunk.type === "message_delta" && chunk.usage && !hasUsage) {
-                    const { input_tokens = 0, output_tokens = 0 } = chunk.usage;
-                    if (input_tokens > 0 || output_tokens > 0) {
-                      this.updateTokenTracking(input_tokens, output_tokens);
+                    const { inputTokens, cache } = fromAnthropicUsage(chunk.usage);
+                    const output_tokens = chunk.usage.output_tokens || 0;
+                    if (inputTokens > 0 || output_tokens > 0) {
+                      this.updateTokenTracking(inputTokens, output_tokens, cache);
                       hasUsage = true;
                     }
                   }
 
                   // Extract usage from message_stop event
                   if (chunk.type === "message_stop" && chunk.message?.usage && !hasUsage) {
-                    const { input_tokens = 0, output_tokens = 0 } = chunk.message.usage;
-                    if (input_tokens > 0 || output_tokens > 0) {
-                      this.updateTokenTracking(input_tokens, output_tokens);
+                    const { inputTokens, cache } = fromAnthropicUsage(chunk.message.usage);
+                    const output_tokens = chunk.message.usage.output_tokens || 0;
+                    if (inputTokens > 0 || output_tokens > 0) {
+                      this.updateTokenTracking(inputTokens, output_tokens, cache);
                       hasUsage = true;
                     }
                   }
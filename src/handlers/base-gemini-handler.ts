@@ -14,13 +14,36 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import type { ModelHandler } from "./types.js";
 import { AdapterManager } from "../adapters/adapter-manager.js";
-import { MiddlewareManager, GeminiThoughtSignatureMiddleware } from "../middleware/index.js";
+import {
+  MiddlewareManager,
+  GeminiThoughtSignatureMiddleware,
+  RedactionMiddleware,
+} from "../middleware/index.js";
+import { degradeUnsignedToolCalls } from "../middleware/gemini-thought-signature.js";
 import { transformOpenAIToClaude } from "../transform.js";
 import { log, logStructured } from "../logger.js";
+import { recordCost } from "../services/cost-ledger.js";
+import {
+  type ThoughtSignatureStore,
+  getConversationKey,
+  getThoughtSignatureStore,
+  requiresThoughtSignatures,
+} from "../services/thought-signature-store.js";
 import { filterIdentity } from "./shared/openai-compat.js";
 import { sanitizeSchemaForGemini, convertToolsToGemini } from "./shared/gemini-schema.js";
 import { fetchWithRetry } from "./shared/gemini-retry.js";
-import { getModelPricing, type ModelPricing } from "./shared/remote-provider-types.js";
+import { ReasoningBlock, getReasoningMode } from "./shared/reasoning.js";
+import {
+  type CacheUsage,
+  NO_CACHE_USAGE,
+  getGeminiCacheUsage,
+  toAnthropicUsage,
+} from "./shared/prompt-cache.js";
+import {
+  calculateCostFromPricing,
+  getModelPricing,
+  type ModelPricing,
+} from "./shared/remote-provider-types.js";
 
 /**
  * Abstract base class for Gemini handlers
@@ -37,7 +60,7 @@ import { getModelPricing, type ModelPricing } from "./shared/remote-provider-typ
  */
 export abstract class BaseGeminiHandler implements ModelHandler {
   protected modelName: string;
-  protected port: number;
+  protected port: number | string;
   protected adapterManager: AdapterManager;
   protected middlewareManager: MiddlewareManager;
   protected sessionTotalCost = 0;
@@ -45,15 +68,18 @@ export abstract class BaseGeminiHandler implements ModelHandler {
   protected sessionOutputTokens = 0;
   protected contextWindow = 1000000; // Gemini has 1M context by default
   protected toolCallMap = new Map<string, { name: string; thoughtSignature?: string }>(); // tool_use_id -> { name, thoughtSignature }
+  protected signatureStore: ThoughtSignatureStore; // Persists thoughtSignatures across restarts
 
   /**
    * Protected constructor - subclasses must call super()
    */
-  protected constructor(modelName: string, port: number) {
+  protected constructor(modelName: string, port: number | string) {
     this.modelName = modelName;
     this.port = port;
     this.adapterManager = new AdapterManager(`gemini/${modelName}`);
+    this.signatureStore = getThoughtSignatureStore();
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
     this.middlewareManager.register(new GeminiThoughtSignatureMiddleware());
     this.middlewareManager
       .initialize()
@@ -124,15 +150,32 @@ export abstract class BaseGeminiHandler implements ModelHandler {
   /**
    * Update token tracking
    */
-  protected updateTokenTracking(inputTokens: number, outputTokens: number): void {
+  protected updateTokenTracking(
+    inputTokens: number,
+    outputTokens: number,
+    cache: CacheUsage = NO_CACHE_USAGE
+  ): void {
     this.sessionInputTokens = inputTokens;
     this.sessionOutputTokens += outputTokens;
 
     const pricing = this.getPricing();
-    const cost =
-      (inputTokens / 1_000_000) * pricing.inputCostPer1M +
-      (outputTokens / 1_000_000) * pricing.outputCostPer1M;
+    const cost = calculateCostFromPricing(
+      pricing,
+      inputTokens,
+      outputTokens,
+      cache.cacheReadTokens,
+      cache.cacheCreationTokens
+    );
     this.sessionTotalCost += cost;
+    recordCost({
+      provider: "gemini",
+      model: this.modelName,
+      inputTokens,
+      outputTokens,
+      cachedTokens: cache.cacheReadTokens,
+      cost,
+      estimated: pricing.isEstimate,
+    });
 
     this.writeTokenFile(inputTokens, this.sessionOutputTokens);
   }
@@ -145,7 +188,13 @@ export abstract class BaseGeminiHandler implements ModelHandler {
 
     // Process each message
     if (claudeRequest.messages) {
-      for (const msg of claudeRequest.messages) {
+      let history = claudeRequest.messages;
+      this.restoreToolCalls(history);
+      if (requiresThoughtSignatures(this.modelName)) {
+        history = this.degradeUnsignedToolCalls(history);
+      }
+
+      for (const msg of history) {
         if (msg.role === "user") {
           const parts = this.convertUserMessageParts(msg);
           if (parts.length > 0) {
@@ -163,6 +212,48 @@ export abstract class BaseGeminiHandler implements ModelHandler {
     return messages;
   }
 
+  /**
+   * Fill the tool call map for history this handler has not seen (e.g. a
+   * session resumed after a restart) from the signature store and the
+   * history's own tool_use blocks
+   */
+  protected restoreToolCalls(messages: any[]): void {
+    for (const msg of messages) {
+      if (msg.role !== "assistant" || !Array.isArray(msg.content)) continue;
+      for (const block of msg.content) {
+        if (block.type !== "tool_use" || this.toolCallMap.get(block.id)?.thoughtSignature) {
+          continue;
+        }
+        const stored = this.signatureStore.get(block.id);
+        this.toolCallMap.set(block.id, {
+          name: block.name,
+          thoughtSignature: stored?.thoughtSignature,
+        });
+      }
+    }
+  }
+
+  /**
+   * Rewrite assistant turns whose tool calls have no thoughtSignature, and
+   * their results, into text. Models that require signatures reject such calls.
+   * Only the first of parallel calls is signed, so a turn counts as signed
+   * when any of its calls is.
+   */
+  protected degradeUnsignedToolCalls(messages: any[]): any[] {
+    const result = degradeUnsignedToolCalls(messages, (msg) =>
+      msg.content.some(
+        (block: any) =>
+          block.type === "tool_use" && this.toolCallMap.get(block.id)?.thoughtSignature
+      )
+    );
+    if (result.degraded > 0) {
+      log(
+        `[BaseGeminiHandler:${this.modelName}] Rewrote ${result.degraded} unsigned tool call(s) into text`
+      );
+    }
+    return result.messages;
+  }
+
   /**
    * Convert user message content to Gemini parts
    */
@@ -315,15 +406,33 @@ export abstract class BaseGeminiHandler implements ModelHandler {
           thinkingBudget: budget,
         };
       }
+      // Thought summaries are only streamed when requested
+      if (getReasoningMode() !== "hide") {
+        payload.generationConfig.thinkingConfig.includeThoughts = true;
+      }
     }
 
     return payload;
   }
 
+  /**
+   * Apply provider-side prompt caching to the payload before it is sent.
+   * Default: none (Gemini still reports implicit cache hits in usageMetadata).
+   * @returns Prompt tokens written to a cache by this request
+   */
+  protected async applyContextCache(
+    _geminiPayload: any,
+    _claudeRequest: any,
+    _authHeaders: Record<string, string>
+  ): Promise<number> {
+    return 0;
+  }
+
   /**
    * Handle the streaming response from Gemini
+   * @param cacheCreationTokens - Prompt tokens written to a context cache for this request
    */
-  protected handleStreamingResponse(c: Context, response: Response, _claudeRequest: any, toolNameMap?: Map<string, string>): Response {
+  protected handleStreamingResponse(c: Context, response: Response, claudeRequest: any, toolNameMap?: Map<string, string>, cacheCreationTokens = 0): Response {
     let isClosed = false;
     let ping: NodeJS.Timeout | null = null;
     const encoder = new TextEncoder();
@@ -333,6 +442,8 @@ export abstract class BaseGeminiHandler implements ModelHandler {
 
     // Capture reference to toolCallMap for use in the streaming closure
     const toolCallMap = this.toolCallMap;
+    const signatureStore = this.signatureStore;
+    const conversation = getConversationKey(claudeRequest?.messages);
     const modelName = this.modelName;
 
     return c.body(
@@ -351,9 +462,8 @@ export abstract class BaseGeminiHandler implements ModelHandler {
           let finalized = false;
           let textStarted = false;
           let textIdx = -1;
-          let thinkingStarted = false;
-          let thinkingIdx = -1;
           let curIdx = 0;
+          const reasoning = new ReasoningBlock(send, `gemini/${this.modelName}`);
           const tools = new Map<number, any>();
           let lastActivity = Date.now();
           let accumulatedText = "";
@@ -383,9 +493,7 @@ export abstract class BaseGeminiHandler implements ModelHandler {
             if (finalized) return;
             finalized = true;
 
-            if (thinkingStarted) {
-              send("content_block_stop", { type: "content_block_stop", index: thinkingIdx });
-            }
+            reasoning.close();
             if (textStarted) {
               send("content_block_stop", { type: "content_block_stop", index: textIdx });
             }
@@ -401,13 +509,15 @@ export abstract class BaseGeminiHandler implements ModelHandler {
               streamMetadata
             );
 
+            const cacheUsage = getGeminiCacheUsage(usage, cacheCreationTokens);
             if (usage) {
               log(
-                `[BaseGeminiHandler] Usage: prompt=${usage.promptTokenCount || 0}, completion=${usage.candidatesTokenCount || 0}`
+                `[BaseGeminiHandler] Usage: prompt=${usage.promptTokenCount || 0}, completion=${usage.candidatesTokenCount || 0}, cached=${usage.cachedContentTokenCount || 0}`
               );
               this.updateTokenTracking(
                 usage.promptTokenCount || 0,
-                usage.candidatesTokenCount || 0
+                usage.candidatesTokenCount || 0,
+                cacheUsage
               );
             }
 
@@ -419,7 +529,13 @@ export abstract class BaseGeminiHandler implements ModelHandler {
               send("message_delta", {
                 type: "message_delta",
                 delta: { stop_reason: hasToolCalls ? "tool_use" : "end_turn", stop_sequence: null },
-                usage: { output_tokens: usage?.candidatesTokenCount || 0 },
+                usage: usage
+                  ? toAnthropicUsage(
+                      usage.promptTokenCount || 0,
+                      usage.candidatesTokenCount || 0,
+                      cacheUsage
+                    )
+                  : { output_tokens: 0 },
               });
               send("message_stop", { type: "message_stop" });
             }
@@ -467,35 +583,18 @@ export abstract class BaseGeminiHandler implements ModelHandler {
                     for (const part of candidate.content.parts) {
                       lastActivity = Date.now();
 
-                      // Handle thinking/reasoning text
-                      if (part.thought || part.thoughtText) {
-                        const thinkingContent = part.thought || part.thoughtText;
-                        if (!thinkingStarted) {
-                          thinkingIdx = curIdx++;
-                          send("content_block_start", {
-                            type: "content_block_start",
-                            index: thinkingIdx,
-                            content_block: { type: "thinking", thinking: "" },
-                          });
-                          thinkingStarted = true;
+                      // Thought summaries: parts flagged thought: true carry reasoning in text
+                      if (part.thought) {
+                        if (reasoning.visible && !reasoning.isOpen && textStarted) {
+                          send("content_block_stop", { type: "content_block_stop", index: textIdx });
+                          textStarted = false;
                         }
-                        send("content_block_delta", {
-                          type: "content_block_delta",
-                          index: thinkingIdx,
-                          delta: { type: "thinking_delta", thinking: thinkingContent },
-                        });
+                        reasoning.append(part.text || "", () => curIdx++);
                       }
 
                       // Handle regular text
-                      if (part.text) {
-                        // Close thinking block before text
-                        if (thinkingStarted) {
-                          send("content_block_stop", {
-                            type: "content_block_stop",
-                            index: thinkingIdx,
-                          });
-                          thinkingStarted = false;
-                        }
+                      if (part.text && !part.thought) {
+                        reasoning.close();
 
                         const res = adapter.processTextContent(part.text, accumulatedText);
                         accumulatedText += res.cleanedText || "";
@@ -521,13 +620,7 @@ export abstract class BaseGeminiHandler implements ModelHandler {
                       // Handle function calls
                       if (part.functionCall) {
                         // Close other blocks
-                        if (thinkingStarted) {
-                          send("content_block_stop", {
-                            type: "content_block_stop",
-                            index: thinkingIdx,
-                          });
-                          thinkingStarted = false;
-                        }
+                        reasoning.close();
                         if (textStarted) {
                           send("content_block_stop", {
                             type: "content_block_stop",
@@ -556,6 +649,11 @@ export abstract class BaseGeminiHandler implements ModelHandler {
                         const thoughtSignature = part.thoughtSignature;
                         if (thoughtSignature) {
                           log(`[BaseGeminiHandler:${modelName}] Captured thoughtSignature for tool ${t.name} (${t.id})`);
+                          signatureStore.set(t.id, {
+                            conversation,
+                            toolName: t.name,
+                            thoughtSignature,
+                          });
                         }
                         toolCallMap.set(t.id, {
                           name: t.name,
@@ -617,6 +715,13 @@ export abstract class BaseGeminiHandler implements ModelHandler {
     );
   }
 
+  /**
+   * Context window of the target model
+   */
+  async getContextWindow(): Promise<number> {
+    return this.contextWindow;
+  }
+
   /**
    * Main request handler (Template Method)
    * Implements the core request flow - subclasses provide authentication
@@ -659,6 +764,11 @@ export abstract class BaseGeminiHandler implements ModelHandler {
     // Get endpoint and auth headers from subclass
     const endpoint = this.getApiEndpoint();
     const authHeaders = await this.getAuthHeaders();
+    const cacheCreationTokens = await this.applyContextCache(
+      geminiPayload,
+      claudeRequest,
+      authHeaders
+    );
 
     log(`[BaseGeminiHandler] Calling API: ${endpoint}`);
 
@@ -737,7 +847,13 @@ export abstract class BaseGeminiHandler implements ModelHandler {
       c.header("X-Dropped-Params", droppedParams.join(", "));
     }
 
-    return this.handleStreamingResponse(c, response, claudeRequest, toolNameMap);
+    return this.handleStreamingResponse(
+      c,
+      response,
+      claudeRequest,
+      toolNameMap,
+      cacheCreationTokens
+    );
   }
 
   async shutdown(): Promise<void> {
@@ -0,0 +1,136 @@
+/**
+ * Fallback Chain Handler
+ *
+ * Wraps an ordered list of targets (e.g. "g@gemini-3-pro|or@google/gemini-3-pro|ollama@qwen3")
+ * and tries each one in turn. When a target fails with a retryable error (429, 5xx,
+ * network failure) before any bytes have been streamed to Claude Code, the next link
+ * in the chain is tried with the same request.
+ *
+ * Handlers are resolved lazily through the proxy's existing handler caches, so
+ * a link shared by several chains reuses the same handler (and its queues).
+ */
+
+import type { Context } from "hono";
+import { log } from "../logger.js";
+import { RequestBlockedError } from "../middleware/index.js";
+import type { ModelHandler } from "./types.js";
+
+/**
+ * Response header used by handlers that report upstream failures inside a 200 SSE stream
+ * (e.g. OpenRouterHandler) so that the fallback chain can still see the real status.
+ */
+export const UPSTREAM_STATUS_HEADER = "X-Claudish-Upstream-Status";
+
+/**
+ * Response header identifying which chain link served the request
+ */
+export const SERVED_BY_HEADER = "X-Claudish-Served-By";
+
+/**
+ * Resolves a chain link to a handler, or null if the link cannot be used
+ * (missing API key, unknown provider, ...)
+ */
+export type FallbackLinkResolver = (target: string) => ModelHandler | null;
+
+/**
+ * Check whether an upstream status should move the request to the next link
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Get the effective upstream status of a handler response
+ */
+export function getUpstreamStatus(response: Response): number {
+  const reported = Number(response.headers.get(UPSTREAM_STATUS_HEADER));
+  return reported > 0 ? reported : response.status;
+}
+
+export class FallbackChainHandler implements ModelHandler {
+  private chain: string[];
+  private resolveLink: FallbackLinkResolver;
+
+  constructor(chain: string[], resolveLink: FallbackLinkResolver) {
+    this.chain = chain;
+    this.resolveLink = resolveLink;
+  }
+
+  /**
+   * Context window of the first usable link (the one that gets the request first)
+   */
+  async getContextWindow(): Promise<number> {
+    for (const target of this.chain) {
+      const handler = this.resolveLink(target);
+      if (!handler) continue;
+      if (!handler.getContextWindow) break;
+      return handler.getContextWindow();
+    }
+    throw new Error("No link of the fallback chain reports a context window");
+  }
+
+  async handle(c: Context, payload: any): Promise<Response> {
+    const total = this.chain.length;
+    const failures: string[] = [];
+
+    for (let i = 0; i < total; i++) {
+      const target = this.chain[i];
+      const isLast = i === total - 1;
+      const linkLabel = `${i + 1}/${total} ${target}`;
+
+      const handler = this.resolveLink(target);
+      if (!handler) {
+        log(`[Fallback] Skipping link ${linkLabel}: no usable handler (missing API key?)`);
+        failures.push(`${target}: unavailable`);
+        continue;
+      }
+
+      let response: Response;
+      try {
+        // Handlers may mutate the payload during conversion - give each link its own copy
+        response = await handler.handle(c, structuredClone(payload));
+      } catch (error) {
+        // The redaction filter would block the request on every link
+        if (error instanceof RequestBlockedError) throw error;
+        log(`[Fallback] Link ${linkLabel} threw: ${error}`);
+        failures.push(`${target}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      const status = getUpstreamStatus(response);
+      if (isRetryableStatus(status) && !isLast) {
+        log(`[Fallback] Link ${linkLabel} failed with status ${status}, trying next link`);
+        failures.push(`${target}: HTTP ${status}`);
+        // Nothing has been sent to the client yet - discard this response body
+        response.body?.cancel().catch(() => {});
+        continue;
+      }
+
+      log(`[Fallback] Request served by link ${linkLabel} (status ${status})`);
+      // Re-wrap rather than mutate: handler responses may carry immutable headers
+      const headers = new Headers(response.headers);
+      headers.set(SERVED_BY_HEADER, target);
+      return new Response(response.body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+      });
+    }
+
+    log(`[Fallback] All ${total} links failed: ${failures.join("; ")}`);
+    return c.json(
+      {
+        type: "error",
+        error: {
+          type: "api_error",
+          message: `All fallback targets failed: ${failures.join("; ")}`,
+        },
+      },
+      503
+    );
+  }
+
+  async shutdown(): Promise<void> {
+    // Link handlers are owned by the proxy's handler caches
+  }
+}
@@ -29,20 +29,27 @@ import type { ModelHandler } from "./types.js";
 import { AdapterManager } from "../adapters/adapter-manager.js";
 import { MiddlewareManager } from "../middleware/manager.js";
 import { GeminiThoughtSignatureMiddleware } from "../middleware/gemini-thought-signature.js";
+import { RedactionMiddleware, RequestBlockedError } from "../middleware/redaction.js";
 import { transformOpenAIToClaude } from "../transform.js";
 import { log, logStructured } from "../logger.js";
+import { recordCost } from "../services/cost-ledger.js";
 import { filterIdentity } from "./shared/openai-compat.js";
 import { getModelPricing, type ModelPricing } from "./shared/remote-provider-types.js";
 import { convertToolsToGemini } from "./shared/gemini-schema.js";
-import { fetchWithRetry } from "./shared/gemini-retry.js";
-import { getValidAccessToken, setupGeminiUser } from "../auth/gemini-oauth.js";
+import { type RetryResult, fetchWithRetry, isTerminalQuotaLimit } from "./shared/gemini-retry.js";
+import { ReasoningBlock, getReasoningMode } from "./shared/reasoning.js";
+import {
+  getGeminiAccountSelector,
+  getValidAccessToken,
+  setupGeminiUser,
+} from "../auth/gemini-oauth.js";
 
 const CODE_ASSIST_ENDPOINT =
   "https://cloudcode-pa.googleapis.com/v1internal:streamGenerateContent?alt=sse";
 
 export class GeminiCodeAssistHandler implements ModelHandler {
   private modelName: string;
-  private port: number;
+  private port: number | string;
   private adapterManager: AdapterManager;
   private middlewareManager: MiddlewareManager;
   private sessionTotalCost = 0;
@@ -50,11 +57,12 @@ export class GeminiCodeAssistHandler implements ModelHandler {
   private contextWindow = 1000000; // Gemini has 1M context by default
   private toolCallMap = new Map<string, string>(); // tool_use_id -> function_name
 
-  constructor(modelName: string, port: number) {
+  constructor(modelName: string, port: number | string) {
     this.modelName = modelName;
     this.port = port;
     this.adapterManager = new AdapterManager(`gemini/${modelName}`);
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
     this.middlewareManager.register(new GeminiThoughtSignatureMiddleware());
     this.middlewareManager
       .initialize()
@@ -118,6 +126,14 @@ export class GeminiCodeAssistHandler implements ModelHandler {
       (inputTokens / 1_000_000) * pricing.inputCostPer1M +
       (outputTokens / 1_000_000) * pricing.outputCostPer1M;
     this.sessionTotalCost += cost;
+    recordCost({
+      provider: "gemini-codeassist",
+      model: this.modelName,
+      inputTokens,
+      outputTokens,
+      cost,
+      estimated: pricing.isEstimate,
+    });
 
     this.writeTokenFile(inputTokens, this.sessionOutputTokens);
   }
@@ -252,6 +268,10 @@ export class GeminiCodeAssistHandler implements ModelHandler {
           thinkingBudget: Math.min(budget_tokens, MAX_GEMINI_BUDGET),
         };
       }
+      // Thought summaries are only streamed when requested
+      if (getReasoningMode() !== "hide") {
+        payload.generationConfig.thinkingConfig.includeThoughts = true;
+      }
     }
 
     return payload;
@@ -282,9 +302,8 @@ export class GeminiCodeAssistHandler implements ModelHandler {
           let finalized = false;
           let textStarted = false;
           let textIdx = -1;
-          let thinkingStarted = false;
-          let thinkingIdx = -1;
           let curIdx = 0;
+          const reasoning = new ReasoningBlock(send, `gemini/${this.modelName}`);
           const tools = new Map<number, any>();
           let accumulatedText = "";
 
@@ -312,18 +331,14 @@ export class GeminiCodeAssistHandler implements ModelHandler {
             if (finalized) return;
             finalized = true;
 
+            reasoning.close();
+
             // Close any open text block
             if (textStarted) {
               send("content_block_stop", { type: "content_block_stop", index: textIdx });
               textStarted = false;
             }
 
-            // Close any open thinking block
-            if (thinkingStarted) {
-              send("content_block_stop", { type: "content_block_stop", index: thinkingIdx });
-              thinkingStarted = false;
-            }
-
             const finalUsage = usage || { promptTokenCount: 0, candidatesTokenCount: 0 };
             const inputTokens = finalUsage.promptTokenCount || 0;
             const outputTokens = finalUsage.candidatesTokenCount || 0;
@@ -380,35 +395,19 @@ export class GeminiCodeAssistHandler implements ModelHandler {
                   const candidate = responseData.candidates?.[0];
                   if (candidate?.content?.parts) {
                     for (const part of candidate.content.parts) {
-                      // Handle thinking blocks
+                      // Thought summaries: parts flagged thought: true carry reasoning in text
                       if (part.thought) {
-                        if (!thinkingStarted) {
-                          thinkingIdx = curIdx++;
-                          send("content_block_start", {
-                            type: "content_block_start",
-                            index: thinkingIdx,
-                            content_block: { type: "thinking", thinking: "" },
-                          });
-                          thinkingStarted = true;
+                        if (reasoning.visible && !reasoning.isOpen && textStarted) {
+                          send("content_block_stop", { type: "content_block_stop", index: textIdx });
+                          textStarted = false;
                         }
-                        send("content_block_delta", {
-                          type: "content_block_delta",
-                          index: thinkingIdx,
-                          delta: { type: "thinking_delta", thinking: part.thought },
-                        });
+                        reasoning.append(part.text || "", () => curIdx++);
                         continue;
                       }
 
                       // Handle text
                       if (part.text) {
-                        // Close thinking before text
-                        if (thinkingStarted) {
-                          send("content_block_stop", {
-                            type: "content_block_stop",
-                            index: thinkingIdx,
-                          });
-                          thinkingStarted = false;
-                        }
+                        reasoning.close();
 
                         if (!textStarted) {
                           textIdx = curIdx++;
@@ -435,7 +434,8 @@ export class GeminiCodeAssistHandler implements ModelHandler {
 
                       // Handle function calls
                       if (part.functionCall) {
-                        // Close text block if open
+                        // Close reasoning and text blocks if open
+                        reasoning.close();
                         if (textStarted) {
                           send("content_block_stop", {
                             type: "content_block_stop",
@@ -519,10 +519,56 @@ export class GeminiCodeAssistHandler implements ModelHandler {
     );
   }
 
+  /**
+   * Send the request as the selected account. A daily quota error marks the
+   * account exhausted and the request goes out again as the next one.
+   */
+  private async sendWithAccounts(vertexPayload: any): Promise<RetryResult> {
+    const selector = getGeminiAccountSelector();
+    for (;;) {
+      const account = selector.select();
+      const accessToken = await getValidAccessToken(account);
+      const { projectId } = await setupGeminiUser(accessToken, account);
+
+      log(
+        `[GeminiCodeAssist] Calling API: ${CODE_ASSIST_ENDPOINT} (Project: ${projectId}, account: ${account})`
+      );
+      const result = await fetchWithRetry(
+        CODE_ASSIST_ENDPOINT,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify({
+            model: this.modelName,
+            project: projectId,
+            user_prompt_id: randomUUID(),
+            request: vertexPayload,
+          }),
+        },
+        { maxRetries: 5, baseDelayMs: 2000, maxDelayMs: 30000 },
+        "[GeminiCodeAssist]"
+      );
+
+      const quotaExhausted =
+        result.response.status === 429 && isTerminalQuotaLimit(result.lastErrorText || "");
+      if (!quotaExhausted || !selector.markExhausted(account)) return result;
+    }
+  }
+
   // ============================================================================
   // Main Handler
   // ============================================================================
 
+  /**
+   * Context window of the target model
+   */
+  async getContextWindow(): Promise<number> {
+    return this.contextWindow;
+  }
+
   async handle(c: Context, payload: any): Promise<Response> {
     const { claudeRequest } = transformOpenAIToClaude(payload);
 
@@ -533,13 +579,7 @@ export class GeminiCodeAssistHandler implements ModelHandler {
     });
 
     try {
-      // 1. Get OAuth Token
-      const accessToken = await getValidAccessToken();
-
-      // 2. Setup User & Get Project
-      const { projectId } = await setupGeminiUser(accessToken);
-
-      // 3. Build Payload
+      // 1. Build Payload
       const vertexPayload = this.buildVertexPayload(claudeRequest);
 
       // Get adapter and prepare request (adapter truncates tool names if needed)
@@ -550,13 +590,6 @@ export class GeminiCodeAssistHandler implements ModelHandler {
       // Get tool name map from adapter (populated during prepareRequest)
       const toolNameMap = adapter.getToolNameMap();
 
-      const requestBody = {
-        model: this.modelName,
-        project: projectId,
-        user_prompt_id: randomUUID(),
-        request: vertexPayload,
-      };
-
       await this.middlewareManager.beforeRequest({
         modelId: `gemini/${this.modelName}`,
         messages: vertexPayload.contents,
@@ -564,22 +597,9 @@ export class GeminiCodeAssistHandler implements ModelHandler {
         stream: true,
       });
 
-      // 4. Send Request with retry logic for rate limits
-      log(`[GeminiCodeAssist] Calling API: ${CODE_ASSIST_ENDPOINT} (Project: ${projectId})`);
-
-      const { response, attempts, lastErrorText } = await fetchWithRetry(
-        CODE_ASSIST_ENDPOINT,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${accessToken}`,
-          },
-          body: JSON.stringify(requestBody),
-        },
-        { maxRetries: 5, baseDelayMs: 2000, maxDelayMs: 30000 },
-        "[GeminiCodeAssist]"
-      );
+      // 2. Send Request with retry logic for rate limits, moving to the next
+      // account when one's daily quota is used up
+      const { response, attempts, lastErrorText } = await this.sendWithAccounts(vertexPayload);
 
       if (!response.ok) {
         const errorText = response.status === 429 ? lastErrorText : await response.text();
@@ -601,6 +621,7 @@ export class GeminiCodeAssistHandler implements ModelHandler {
 
       return this.handleStreamingResponse(c, response, claudeRequest, toolNameMap);
     } catch (e: any) {
+      if (e instanceof RequestBlockedError) throw e;
       log(`[GeminiCodeAssist] Error: ${e.message}`);
 
       // Special handling for auth errors
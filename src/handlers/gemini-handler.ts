@@ -8,6 +8,8 @@
  */
 
 import { BaseGeminiHandler } from "./base-gemini-handler.js";
+import { GeminiContextCache } from "./shared/gemini-context-cache.js";
+import { hasCacheablePrefix } from "./shared/prompt-cache.js";
 import type { RemoteProvider } from "./shared/remote-provider-types.js";
 
 /**
@@ -15,16 +17,19 @@ import type { RemoteProvider } from "./shared/remote-provider-types.js";
  *
  * Provides API key-based authentication for Gemini API.
  * All message conversion, tool handling, and streaming logic
- * is inherited from BaseGeminiHandler.
+ * is inherited from BaseGeminiHandler. Adds explicit context caching,
+ * which is only available with API keys.
  */
 export class GeminiHandler extends BaseGeminiHandler {
   private provider: RemoteProvider;
   private apiKey: string;
+  private contextCache: GeminiContextCache;
 
-  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number) {
+  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number | string) {
     super(modelName, port);
     this.provider = provider;
     this.apiKey = apiKey;
+    this.contextCache = new GeminiContextCache(provider.baseUrl, modelName);
   }
 
   /**
@@ -43,6 +48,7 @@ export class GeminiHandler extends BaseGeminiHandler {
     return {
       "Content-Type": "application/json",
       "x-goog-api-key": this.apiKey,
+      ...this.provider.headers,
     };
   }
 
@@ -52,4 +58,20 @@ export class GeminiHandler extends BaseGeminiHandler {
   protected getProviderName(): string {
     return "Gemini API";
   }
+
+  /**
+   * Cache the system instruction and tools when Claude Code marks them cacheable
+   */
+  protected async applyContextCache(
+    geminiPayload: any,
+    claudeRequest: any,
+    authHeaders: Record<string, string>
+  ): Promise<number> {
+    if (!hasCacheablePrefix(claudeRequest)) return 0;
+    return this.contextCache.apply(geminiPayload, authHeaders);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.contextCache.clear(await this.getAuthHeaders());
+  }
 }
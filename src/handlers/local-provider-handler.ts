@@ -9,9 +9,10 @@ import type { Context } from "hono";
 import type { ModelHandler } from "./types.js";
 import type { LocalProvider } from "../providers/provider-registry.js";
 import { AdapterManager } from "../adapters/adapter-manager.js";
-import { MiddlewareManager } from "../middleware/index.js";
+import { MiddlewareManager, RedactionMiddleware } from "../middleware/index.js";
 import { transformOpenAIToClaude } from "../transform.js";
 import { log, logStructured } from "../logger.js";
+import { recordCost } from "../services/cost-ledger.js";
 import { writeFileSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
@@ -44,7 +45,7 @@ export class LocalProviderHandler implements ModelHandler {
   private modelName: string;
   private adapterManager: AdapterManager;
   private middlewareManager: MiddlewareManager;
-  private port: number;
+  private port: number | string;
   private healthChecked = false;
   private isHealthy = false;
   private contextWindow = 32768; // Default context window (32K reasonable for modern models)
@@ -56,7 +57,7 @@ export class LocalProviderHandler implements ModelHandler {
   constructor(
     provider: LocalProvider,
     modelName: string,
-    port: number,
+    port: number | string,
     options: LocalProviderOptions = {}
   ) {
     this.provider = provider;
@@ -66,6 +67,7 @@ export class LocalProviderHandler implements ModelHandler {
     this.concurrency = options.concurrency;
     this.adapterManager = new AdapterManager(modelName);
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
     this.middlewareManager.initialize().catch((err) => {
       log(`[LocalProvider:${provider.name}] Middleware init error: ${err}`);
     });
@@ -262,6 +264,20 @@ export class LocalProviderHandler implements ModelHandler {
     }
   }
 
+  /**
+   * Record usage in the cost ledger (local models are free) and update the status line
+   */
+  private updateTokenTracking(input: number, output: number): void {
+    recordCost({
+      provider: this.provider.name,
+      model: this.modelName,
+      inputTokens: input,
+      outputTokens: output,
+      cost: 0,
+    });
+    this.writeTokenFile(input, output);
+  }
+
   /**
    * Write token tracking file for status line
    */
@@ -317,6 +333,21 @@ export class LocalProviderHandler implements ModelHandler {
     }
   }
 
+  /**
+   * Context window of the model, probed once the server is reachable
+   */
+  async getContextWindow(): Promise<number> {
+    if (!this.healthChecked) {
+      if (!(await this.checkHealth())) {
+        // Let handle() check again and report the connection error
+        this.healthChecked = false;
+        return this.contextWindow;
+      }
+      await this.fetchContextWindow();
+    }
+    return this.contextWindow;
+  }
+
   async handle(c: Context, payload: any): Promise<Response> {
     const target = this.modelName;
 
@@ -631,7 +662,7 @@ If you cannot use structured tool_calls, format as JSON:
           adapter,
           target,
           this.middlewareManager,
-          (input, output) => this.writeTokenFile(input, output),
+          (input, output) => this.updateTokenTracking(input, output),
           claudeRequest.tools, // Pass tool schemas for validation
           toolNameMap
         );
@@ -1,15 +1,64 @@
 import type { Context } from "hono";
 import type { ModelHandler } from "./types.js";
 import { log, maskCredential } from "../logger.js";
+import { MiddlewareManager, RedactionMiddleware } from "../middleware/index.js";
+import { recordCost } from "../services/cost-ledger.js";
+import { type AnthropicUsage, fromAnthropicUsage } from "./shared/prompt-cache.js";
+import { stripClaudishThinking } from "./shared/reasoning.js";
+import { calculateCostFromPricing, getModelPricing } from "./shared/remote-provider-types.js";
+
+/**
+ * Parse the JSON payload of an SSE `data:` line, or null for other lines
+ */
+function parseEventData(line: string): any | null {
+  if (!line.startsWith("data: ")) return null;
+  try {
+    return JSON.parse(line.slice(6));
+  } catch {
+    return null;
+  }
+}
 
 export class NativeHandler implements ModelHandler {
   private apiKey?: string;
   private baseUrl: string;
+  private middlewareManager: MiddlewareManager;
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey;
     // Always forward to real Anthropic API
     this.baseUrl = "https://api.anthropic.com";
+    this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
+    this.middlewareManager
+      .initialize()
+      .catch((err) => log(`[Native] Middleware init error: ${err}`));
+  }
+
+  /**
+   * Record a response's spend in the cost ledger. Usage is in Anthropic format.
+   */
+  private recordUsage(model: string, usage: Partial<AnthropicUsage> | undefined): void {
+    const { inputTokens, cache } = fromAnthropicUsage(usage);
+    const outputTokens = usage?.output_tokens || 0;
+    if (inputTokens === 0 && outputTokens === 0) return;
+
+    const pricing = getModelPricing("anthropic", model);
+    recordCost({
+      provider: "anthropic",
+      model,
+      inputTokens,
+      outputTokens,
+      cachedTokens: cache.cacheReadTokens,
+      cost: calculateCostFromPricing(
+        pricing,
+        inputTokens,
+        outputTokens,
+        cache.cacheReadTokens,
+        cache.cacheCreationTokens
+      ),
+      estimated: pricing.isEstimate,
+    });
   }
 
   async handle(c: Context, payload: any): Promise<Response> {
@@ -39,12 +88,22 @@ export class NativeHandler implements ModelHandler {
       headers["anthropic-beta"] = originalHeaders["anthropic-beta"];
     }
 
+    // Thinking blocks translated from other models (after a model switch) would fail
+    // Anthropic's signature check
+    const requestPayload = stripClaudishThinking(payload);
+    await this.middlewareManager.beforeRequest({
+      modelId: `anthropic/${target}`,
+      messages: requestPayload.messages || [],
+      tools: requestPayload.tools,
+      stream: !!requestPayload.stream,
+    });
+
     // Execute fetch
     try {
       const anthropicResponse = await fetch(`${this.baseUrl}/v1/messages`, {
         method: "POST",
         headers,
-        body: JSON.stringify(payload),
+        body: JSON.stringify(requestPayload),
       });
 
       const contentType = anthropicResponse.headers.get("content-type") || "";
@@ -52,6 +111,7 @@ export class NativeHandler implements ModelHandler {
       // Handle streaming
       if (contentType.includes("text/event-stream")) {
         log("[Native] Streaming response detected");
+        const recordUsage = (usage: Partial<AnthropicUsage>) => this.recordUsage(target, usage);
         return c.body(
           new ReadableStream({
             async start(controller) {
@@ -61,6 +121,8 @@ export class NativeHandler implements ModelHandler {
               const decoder = new TextDecoder();
               let buffer = "";
               let eventLog = "";
+              // Prompt usage arrives in message_start, the final output count in message_delta
+              let usage: Partial<AnthropicUsage> = {};
 
               try {
                 while (true) {
@@ -73,7 +135,15 @@ export class NativeHandler implements ModelHandler {
                   buffer += decoder.decode(value, { stream: true });
                   const lines = buffer.split("\n");
                   buffer = lines.pop() || "";
-                  for (const line of lines) if (line.trim()) eventLog += line + "\n";
+                  for (const line of lines) {
+                    if (!line.trim()) continue;
+                    eventLog += line + "\n";
+                    const event = parseEventData(line);
+                    if (event?.type === "message_start") usage = { ...event.message?.usage };
+                    if (event?.type === "message_delta" && event.usage) {
+                      recordUsage({ ...usage, ...event.usage });
+                    }
+                  }
                 }
                 if (eventLog) log(eventLog);
                 controller.close();
@@ -95,9 +165,10 @@ export class NativeHandler implements ModelHandler {
       }
 
       // Handle JSON
-      const data = await anthropicResponse.json();
+      const data: any = await anthropicResponse.json();
       log("\n=== [NATIVE] Response ===");
       log(JSON.stringify(data, null, 2));
+      if (anthropicResponse.ok) this.recordUsage(target, data.usage);
 
       const responseHeaders: Record<string, string> = { "Content-Type": "application/json" };
       if (anthropicResponse.headers.has("anthropic-version")) {
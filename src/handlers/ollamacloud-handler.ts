@@ -12,25 +12,34 @@ import type { Context } from "hono";
 import type { ModelHandler } from "./types.js";
 import type { RemoteProvider } from "./shared/remote-provider-types.js";
 import { log, logStructured } from "../logger.js";
+import { MiddlewareManager, RedactionMiddleware } from "../middleware/index.js";
 import { transformOpenAIToClaude } from "../transform.js";
 import { writeFileSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { calculateCost } from "./shared/remote-provider-types.js";
+import { calculateCost, getModelPricing } from "./shared/remote-provider-types.js";
+import { ReasoningBlock, type TextSegment, ThinkTagParser } from "./shared/reasoning.js";
+import { recordCost } from "../services/cost-ledger.js";
 
 export class OllamaCloudHandler implements ModelHandler {
   private provider: RemoteProvider;
   private modelName: string;
   private apiKey: string;
-  private port: number;
+  private port: number | string;
   private sessionInputTokens = 0;
   private sessionOutputTokens = 0;
+  private middlewareManager: MiddlewareManager;
 
-  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number) {
+  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number | string) {
     this.provider = provider;
     this.modelName = modelName;
     this.apiKey = apiKey;
     this.port = port;
+    this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
+    this.middlewareManager
+      .initialize()
+      .catch((err) => log(`[OllamaCloud] Middleware init error: ${err}`));
     this.writeTokenFile(0, 0);
   }
 
@@ -143,6 +152,11 @@ export class OllamaCloudHandler implements ModelHandler {
     // Transform request
     const { claudeRequest } = transformOpenAIToClaude(payload);
     const messages = this.convertMessagesToOllama(claudeRequest);
+    await this.middlewareManager.beforeRequest({
+      modelId: `${this.provider.name}/${this.modelName}`,
+      messages,
+      stream: true,
+    });
 
     // Build OllamaCloud payload (Ollama native format)
     const ollamaPayload = {
@@ -161,7 +175,8 @@ export class OllamaCloudHandler implements ModelHandler {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${this.apiKey}`,
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          ...this.provider.headers,
         },
         body: JSON.stringify(ollamaPayload),
       });
@@ -205,6 +220,7 @@ export class OllamaCloudHandler implements ModelHandler {
           const msgId = `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`;
           let textStarted = false;
           let textIdx = 0;
+          let curIdx = 0;
           let accumulatedText = "";
           let promptTokens = 0;
           let completionTokens = 0;
@@ -233,9 +249,58 @@ export class OllamaCloudHandler implements ModelHandler {
             }
           }, 1000);
 
+          // Reasoning arrives in message.thinking, or as <think> tags in the content
+          const reasoning = new ReasoningBlock(send, self.modelName);
+          const thinkTags = new ThinkTagParser();
+
+          const appendReasoning = (text: string) => {
+            if (reasoning.visible && !reasoning.isOpen && textStarted) {
+              send("content_block_stop", { type: "content_block_stop", index: textIdx });
+              textStarted = false;
+            }
+            reasoning.append(text, () => curIdx++);
+          };
+
+          const emitText = (content: string) => {
+            accumulatedText += content;
+            log(
+              `[OllamaCloud] Text chunk: "${content.substring(0, 30).replace(/\n/g, "\\n")}" (${content.length} chars)`
+            );
+
+            // Start text block if not already started
+            if (!textStarted) {
+              reasoning.close();
+              textIdx = curIdx++;
+              send("content_block_start", {
+                type: "content_block_start",
+                index: textIdx,
+                content_block: { type: "text", text: "" },
+              });
+              textStarted = true;
+              log(`[OllamaCloud] Started text block at index ${textIdx}`);
+            }
+
+            // Send text delta
+            send("content_block_delta", {
+              type: "content_block_delta",
+              index: textIdx,
+              delta: { type: "text_delta", text: content },
+            });
+          };
+
+          const emitContent = (segments: TextSegment[]) => {
+            for (const segment of segments) {
+              if (segment.reasoning) appendReasoning(segment.text);
+              else emitText(segment.text);
+            }
+          };
+
           const finalize = (reason: string, err?: string) => {
             if (isClosed) return;
 
+            emitContent(thinkTags.flush());
+            reasoning.close();
+
             // Close any open text block
             if (textStarted) {
               send("content_block_stop", { type: "content_block_stop", index: textIdx });
@@ -253,6 +318,21 @@ export class OllamaCloudHandler implements ModelHandler {
             }
 
             // Update token counts
+            if (promptTokens > 0 || completionTokens > 0) {
+              recordCost({
+                provider: self.provider.name,
+                model: self.modelName,
+                inputTokens: promptTokens,
+                outputTokens: completionTokens,
+                cost: calculateCost(
+                  self.provider.name,
+                  self.modelName,
+                  promptTokens,
+                  completionTokens
+                ),
+                estimated: getModelPricing(self.provider.name, self.modelName).isEstimate,
+              });
+            }
             self.writeTokenFile(promptTokens, completionTokens);
 
             if (!isClosed) {
@@ -300,32 +380,17 @@ export class OllamaCloudHandler implements ModelHandler {
                     return;
                   }
 
+                  const thinking = chunk.message?.thinking || "";
+                  if (thinking) {
+                    lastActivity = Date.now();
+                    appendReasoning(thinking);
+                  }
+
                   // Extract text content from message
                   const content = chunk.message?.content || "";
                   if (content) {
                     lastActivity = Date.now();
-                    accumulatedText += content;
-                    log(
-                      `[OllamaCloud] Text chunk: "${content.substring(0, 30).replace(/\n/g, "\\n")}" (${content.length} chars)`
-                    );
-
-                    // Start text block if not already started
-                    if (!textStarted) {
-                      send("content_block_start", {
-                        type: "content_block_start",
-                        index: textIdx,
-                        content_block: { type: "text", text: "" },
-                      });
-                      textStarted = true;
-                      log(`[OllamaCloud] Started text block at index ${textIdx}`);
-                    }
-
-                    // Send text delta
-                    send("content_block_delta", {
-                      type: "content_block_delta",
-                      index: textIdx,
-                      delta: { type: "text_delta", text: content },
-                    });
+                    emitContent(thinkTags.push(content));
                   }
                 } catch (e) {
                   log(`[OllamaCloud] Failed to parse chunk: ${line.slice(0, 100)}`);
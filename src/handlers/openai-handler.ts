@@ -14,9 +14,14 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import type { ModelHandler } from "./types.js";
 import { AdapterManager } from "../adapters/adapter-manager.js";
-import { MiddlewareManager, GeminiThoughtSignatureMiddleware } from "../middleware/index.js";
+import {
+  MiddlewareManager,
+  GeminiThoughtSignatureMiddleware,
+  RedactionMiddleware,
+} from "../middleware/index.js";
 import { transformOpenAIToClaude } from "../transform.js";
 import { log, logStructured, getLogLevel, truncateContent } from "../logger.js";
+import { recordCost } from "../services/cost-ledger.js";
 import {
   convertMessagesToOpenAI,
   convertToolsToOpenAI,
@@ -24,6 +29,14 @@ import {
   createStreamingResponseHandler,
 } from "./shared/openai-compat.js";
 import {
+  type CacheUsage,
+  NO_CACHE_USAGE,
+  getOpenAICacheUsage,
+  toAnthropicUsage,
+} from "./shared/prompt-cache.js";
+import { ReasoningBlock, getReasoningMode } from "./shared/reasoning.js";
+import {
+  calculateCostFromPricing,
   getModelPricing,
   type ModelPricing,
   type RemoteProvider,
@@ -39,7 +52,7 @@ export class OpenAIHandler implements ModelHandler {
   private provider: RemoteProvider;
   private modelName: string;
   private apiKey: string;
-  private port: number;
+  private port: number | string;
   private adapterManager: AdapterManager;
   private middlewareManager: MiddlewareManager;
   private sessionTotalCost = 0;
@@ -47,13 +60,14 @@ export class OpenAIHandler implements ModelHandler {
   private sessionOutputTokens = 0;
   private contextWindow = 128000; // GPT-4o default, varies by model
 
-  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number) {
+  constructor(provider: RemoteProvider, modelName: string, apiKey: string, port: number | string) {
     this.provider = provider;
     this.modelName = modelName;
     this.apiKey = apiKey;
     this.port = port;
     this.adapterManager = new AdapterManager(`openai/${modelName}`);
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
     this.middlewareManager.register(new GeminiThoughtSignatureMiddleware());
     this.middlewareManager
       .initialize()
@@ -149,39 +163,36 @@ export class OpenAIHandler implements ModelHandler {
 
   /**
    * Update token tracking
-   * Note: inputTokens is the FULL context each request (not incremental)
-   * We only charge for the DELTA (new tokens) to avoid overcounting
+   * Note: inputTokens is the FULL context of each request, and each request is
+   * charged for its full prompt (cached tokens at the cache-read price), like
+   * the other handlers
    *
    * RACE CONDITION HANDLING:
    * When multiple concurrent conversations share this handler, they can corrupt
-   * the sessionInputTokens state. We detect this by checking if input tokens
-   * decreased significantly (sign of a different conversation). In that case,
-   * we only update sessionInputTokens if the new value is higher (to track the
-   * main conversation with the largest context).
+   * the sessionInputTokens state shown in the status line. We detect this by
+   * checking if input tokens decreased significantly (sign of a different
+   * conversation). In that case, we only update sessionInputTokens if the new
+   * value is higher (to track the main conversation with the largest context).
    */
-  private updateTokenTracking(inputTokens: number, outputTokens: number): void {
-    // Calculate incremental input tokens with race condition detection
-    let incrementalInputTokens: number;
-
+  private updateTokenTracking(
+    inputTokens: number,
+    outputTokens: number,
+    cache: CacheUsage = NO_CACHE_USAGE
+  ): void {
     if (inputTokens >= this.sessionInputTokens) {
       // Normal case: context grew or stayed same (continuation of conversation)
-      incrementalInputTokens = inputTokens - this.sessionInputTokens;
       this.sessionInputTokens = inputTokens;
     } else if (inputTokens < this.sessionInputTokens * 0.5) {
-      // Different conversation with much smaller context - charge full amount for it
-      // but DON'T update sessionInputTokens (keep tracking the larger conversation)
-      incrementalInputTokens = inputTokens;
+      // Different conversation with much smaller context - keep tracking the larger one
       log(
-        `[OpenAIHandler] Token tracking: detected concurrent conversation (${inputTokens} < ${this.sessionInputTokens}), charging full input`
+        `[OpenAIHandler] Token tracking: detected concurrent conversation (${inputTokens} < ${this.sessionInputTokens})`
       );
     } else {
       // Ambiguous case: tokens decreased but not by much - could be noise or small conversation
-      // Use conservative approach: charge full amount and update tracking
-      incrementalInputTokens = inputTokens;
-      this.sessionInputTokens = inputTokens;
       log(
-        `[OpenAIHandler] Token tracking: ambiguous token decrease (${inputTokens} vs ${this.sessionInputTokens}), charging full input`
+        `[OpenAIHandler] Token tracking: ambiguous token decrease (${inputTokens} vs ${this.sessionInputTokens})`
       );
+      this.sessionInputTokens = inputTokens;
     }
 
     // Update session totals
@@ -189,10 +200,22 @@ export class OpenAIHandler implements ModelHandler {
 
     // Calculate cost
     const pricing = this.getPricing();
-    const cost =
-      (incrementalInputTokens / 1_000_000) * pricing.inputCostPer1M +
-      (outputTokens / 1_000_000) * pricing.outputCostPer1M;
+    const cost = calculateCostFromPricing(
+      pricing,
+      inputTokens,
+      outputTokens,
+      cache.cacheReadTokens
+    );
     this.sessionTotalCost += cost;
+    recordCost({
+      provider: this.provider.name,
+      model: this.modelName,
+      inputTokens,
+      outputTokens,
+      cachedTokens: cache.cacheReadTokens,
+      cost,
+      estimated: pricing.isEstimate,
+    });
 
     this.writeTokenFile(
       Math.max(inputTokens, this.sessionInputTokens),
@@ -446,6 +469,11 @@ export class OpenAIHandler implements ModelHandler {
       payload.instructions = claudeRequest.system;
     }
 
+    // Ask for reasoning summaries unless they would be hidden anyway
+    if (getReasoningMode() !== "hide") {
+      payload.reasoning = { summary: "auto" };
+    }
+
     // Add max_output_tokens for Responses API (minimum 16 required)
     if (claudeRequest.max_tokens) {
       payload.max_output_tokens = Math.max(16, claudeRequest.max_tokens);
@@ -492,8 +520,10 @@ export class OpenAIHandler implements ModelHandler {
     let buffer = "";
     let blockIndex = 0;
     let inputTokens = 0;
+    let cacheUsage: CacheUsage = NO_CACHE_USAGE;
     let outputTokens = 0;
     let hasTextContent = false;
+    let textOpen = false; // Text block started and not yet stopped
     let hasToolUse = false;
     let lastActivity = Date.now();
     let pingInterval: ReturnType<typeof setInterval> | null = null;
@@ -502,7 +532,7 @@ export class OpenAIHandler implements ModelHandler {
     // Track function calls being streamed
     const functionCalls: Map<
       string,
-      { name: string; arguments: string; index: number; claudeId?: string }
+      { name: string; arguments: string; index: number; claudeId?: string; stopped: boolean }
     > = new Map();
 
     const stream = new ReadableStream({
@@ -515,6 +545,13 @@ export class OpenAIHandler implements ModelHandler {
           }
         };
 
+        // Reasoning summaries precede the message and function call items, so the
+        // reasoning block takes the current index and shifts the others by one
+        const reasoning = new ReasoningBlock(send, this.modelName);
+        const closeReasoning = () => {
+          if (reasoning.close()) blockIndex++;
+        };
+
         // Send initial message_start event
         // Use placeholder for input_tokens since Responses API only reports usage at the end
         log(`[OpenAIHandler] Sending message_start with placeholder tokens`);
@@ -582,6 +619,7 @@ export class OpenAIHandler implements ModelHandler {
                 if (event.type === "response.output_text.delta") {
                   // Convert to Claude content_block_delta
                   if (!hasTextContent) {
+                    closeReasoning();
                     // Send content_block_start first
                     send("content_block_start", {
                       type: "content_block_start",
@@ -589,6 +627,7 @@ export class OpenAIHandler implements ModelHandler {
                       content_block: { type: "text", text: "" },
                     });
                     hasTextContent = true;
+                    textOpen = true;
                   }
 
                   send("content_block_delta", {
@@ -606,6 +645,7 @@ export class OpenAIHandler implements ModelHandler {
 
                   // Handle function_call items
                   if (event.item?.type === "function_call") {
+                    closeReasoning();
                     // OpenAI uses two IDs:
                     // - item.id: the fc_... ID used in argument deltas (item_id)
                     // - item.call_id: the call_... ID used in tool results
@@ -629,6 +669,7 @@ export class OpenAIHandler implements ModelHandler {
                       arguments: "",
                       index: fnIndex,
                       claudeId: callId,
+                      stopped: false,
                     };
 
                     // Store with BOTH IDs for lookup during argument streaming
@@ -639,9 +680,10 @@ export class OpenAIHandler implements ModelHandler {
                     }
 
                     // Close text block if open
-                    if (hasTextContent && !hasToolUse) {
+                    if (textOpen) {
                       send("content_block_stop", { type: "content_block_stop", index: blockIndex });
                       blockIndex++;
+                      textOpen = false;
                     }
 
                     // Send tool_use block start with Claude-style ID
@@ -665,22 +707,15 @@ export class OpenAIHandler implements ModelHandler {
                     log(`[OpenAIHandler] Reasoning block started`);
                   }
                 } else if (event.type === "response.reasoning_summary_text.delta") {
-                  // Codex reasoning/thinking text - display as regular text
-                  // (Claude Code doesn't display "thinking" blocks from non-Claude models)
-                  if (!hasTextContent) {
-                    send("content_block_start", {
-                      type: "content_block_start",
-                      index: blockIndex,
-                      content_block: { type: "text", text: "" },
-                    });
-                    hasTextContent = true;
+                  // Codex reasoning summary - translated per the reasoning mode
+                  if (!hasTextContent && !hasToolUse) {
+                    reasoning.append(event.delta || "", () => blockIndex);
+                  }
+                } else if (event.type === "response.reasoning_summary_part.added") {
+                  // Separate summary parts with a blank line
+                  if (event.summary_index > 0 && reasoning.isOpen) {
+                    reasoning.append("\n\n", () => blockIndex);
                   }
-
-                  send("content_block_delta", {
-                    type: "content_block_delta",
-                    index: blockIndex,
-                    delta: { type: "text_delta", text: event.delta || "" },
-                  });
                 } else if (event.type === "response.function_call_arguments.delta") {
                   // Streaming function call arguments
                   // OpenAI uses item_id (fc_...) to identify which function call this belongs to
@@ -705,16 +740,18 @@ export class OpenAIHandler implements ModelHandler {
                     });
                   }
                 } else if (event.type === "response.output_item.done") {
+                  if (event.item?.type === "reasoning") closeReasoning();
                   // Item complete - close the tool_use block
                   if (event.item?.type === "function_call") {
                     // Try both IDs since we stored with both
                     const callId = event.item.call_id || event.item.id;
                     const fnCall = functionCalls.get(callId) || functionCalls.get(event.item.id);
-                    if (fnCall) {
+                    if (fnCall && !fnCall.stopped) {
                       send("content_block_stop", {
                         type: "content_block_stop",
                         index: fnCall.index,
                       });
+                      fnCall.stopped = true;
                     }
                   }
                 } else if (event.type === "response.incomplete") {
@@ -731,6 +768,7 @@ export class OpenAIHandler implements ModelHandler {
                   if (event.response?.usage) {
                     inputTokens = event.response.usage.input_tokens || 0;
                     outputTokens = event.response.usage.output_tokens || 0;
+                    cacheUsage = getOpenAICacheUsage(event.response.usage);
                     log(
                       `[OpenAIHandler] Responses API usage: input=${inputTokens}, output=${outputTokens}`
                     );
@@ -749,12 +787,15 @@ export class OpenAIHandler implements ModelHandler {
                   log(`[OpenAIHandler] Responses API error: ${errCode} - ${errMsg}`);
 
                   // Close any open content blocks
-                  if (hasTextContent) {
+                  closeReasoning();
+                  if (textOpen) {
                     send("content_block_stop", { type: "content_block_stop", index: blockIndex });
-                    hasTextContent = false;
+                    textOpen = false;
                   }
-                  for (const [, fnCall] of functionCalls) {
+                  for (const fnCall of new Set(functionCalls.values())) {
+                    if (fnCall.stopped) continue;
                     send("content_block_stop", { type: "content_block_stop", index: fnCall.index });
+                    fnCall.stopped = true;
                   }
 
                   // Send error as text so the user sees it
@@ -811,9 +852,16 @@ export class OpenAIHandler implements ModelHandler {
           // The send() function checks isClosed and returns early if true
 
           // Send content_block_stop for text if we have text content
-          if (hasTextContent) {
+          closeReasoning();
+          if (textOpen) {
             send("content_block_stop", { type: "content_block_stop", index: blockIndex });
           }
+          // Tool calls the stream ended without an output_item.done for
+          for (const fnCall of new Set(functionCalls.values())) {
+            if (!fnCall.stopped) {
+              send("content_block_stop", { type: "content_block_stop", index: fnCall.index });
+            }
+          }
 
           // Determine stop reason
           const stopReason = hasToolUse ? "tool_use" : "end_turn";
@@ -822,7 +870,7 @@ export class OpenAIHandler implements ModelHandler {
           send("message_delta", {
             type: "message_delta",
             delta: { stop_reason: stopReason, stop_sequence: null },
-            usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+            usage: toAnthropicUsage(inputTokens, outputTokens, cacheUsage),
           });
 
           // Send message_stop
@@ -832,7 +880,7 @@ export class OpenAIHandler implements ModelHandler {
           isClosed = true;
 
           // Update token tracking
-          this.updateTokenTracking(inputTokens, outputTokens);
+          this.updateTokenTracking(inputTokens, outputTokens, cacheUsage);
 
           controller.close();
         } catch (error) {
@@ -847,10 +895,12 @@ export class OpenAIHandler implements ModelHandler {
           if (!isClosed) {
             try {
               // Close any open content blocks
-              if (hasTextContent) {
+              closeReasoning();
+              if (textOpen) {
                 send("content_block_stop", { type: "content_block_stop", index: blockIndex });
               }
-              for (const [, fnCall] of functionCalls) {
+              for (const fnCall of new Set(functionCalls.values())) {
+                if (fnCall.stopped) continue;
                 send("content_block_stop", { type: "content_block_stop", index: fnCall.index });
               }
 
@@ -895,6 +945,13 @@ export class OpenAIHandler implements ModelHandler {
     });
   }
 
+  /**
+   * Context window of the target model
+   */
+  async getContextWindow(): Promise<number> {
+    return this.contextWindow;
+  }
+
   /**
    * Main request handler
    */
@@ -934,6 +991,14 @@ export class OpenAIHandler implements ModelHandler {
       }
     }
 
+    // Call middleware before the payload is built - the Responses API format copies the messages
+    await this.middlewareManager.beforeRequest({
+      modelId: `openai/${this.modelName}`,
+      messages,
+      tools,
+      stream: true,
+    });
+
     // Build request payload - use Responses API format for Codex models
     const isCodex = this.isCodexModel();
     const apiPayload = isCodex
@@ -948,14 +1013,6 @@ export class OpenAIHandler implements ModelHandler {
     // Get tool name map from adapter (populated during prepareRequest)
     const toolNameMap = adapter.getToolNameMap();
 
-    // Call middleware
-    await this.middlewareManager.beforeRequest({
-      modelId: `openai/${this.modelName}`,
-      messages,
-      tools,
-      stream: true,
-    });
-
     // Make API call with timeout
     const endpoint = this.getApiEndpoint();
     log(`[OpenAIHandler] Calling API: ${endpoint}`);
@@ -971,6 +1028,7 @@ export class OpenAIHandler implements ModelHandler {
         headers: {
           "Content-Type": "application/json",
           ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          ...this.provider.headers,
         },
         body: JSON.stringify(apiPayload),
         signal: controller.signal,
@@ -1042,7 +1100,7 @@ export class OpenAIHandler implements ModelHandler {
       adapter,
       `openai/${this.modelName}`,
       this.middlewareManager,
-      (input, output) => this.updateTokenTracking(input, output),
+      (input, output, cache) => this.updateTokenTracking(input, output, cache),
       claudeRequest.tools,
       toolNameMap
     );
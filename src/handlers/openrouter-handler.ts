@@ -4,19 +4,49 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import type { ModelHandler } from "./types.js";
 import { AdapterManager } from "../adapters/adapter-manager.js";
-import { MiddlewareManager, GeminiThoughtSignatureMiddleware } from "../middleware/index.js";
+import {
+  MiddlewareManager,
+  GeminiThoughtSignatureMiddleware,
+  RedactionMiddleware,
+} from "../middleware/index.js";
 import { transformOpenAIToClaude, removeUriFormat } from "../transform.js";
 import { log, logStructured, isLoggingEnabled, getLogLevel, truncateContent } from "../logger.js";
 import { fetchModelContextWindow, doesModelSupportReasoning } from "../model-loader.js";
 import { validateToolArguments } from "./shared/openai-compat.js";
 import { OpenRouterRequestQueue } from "./shared/openrouter-queue.js";
-import { getModelPricing } from "./shared/remote-provider-types.js";
-
-const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
+import {
+  getOpenAICacheUsage,
+  getSystemCacheControl,
+  supportsCacheControlPassthrough,
+  toAnthropicUsage,
+  withCacheControl,
+} from "./shared/prompt-cache.js";
+import { ReasoningBlock } from "./shared/reasoning.js";
+import { calculateCostFromPricing, getModelPricing } from "./shared/remote-provider-types.js";
+import { recordCost } from "../services/cost-ledger.js";
+import { UPSTREAM_STATUS_HEADER } from "./fallback-handler.js";
+import {
+  DEFAULT_ACCOUNT,
+  getAccountApiKey,
+  getApiKeyAccountSelector,
+} from "../auth/accounts.js";
+
+const getOpenRouterApiUrl = () =>
+  `${process.env.OPENROUTER_BASE_URL || "https://openrouter.ai"}/api/v1/chat/completions`;
 const OPENROUTER_HEADERS = {
   "HTTP-Referer": "https://claudish.com",
   "X-Title": "Claudish - OpenRouter Proxy",
 };
+const OPENROUTER_API_KEY_ENV = "OPENROUTER_API_KEY";
+
+/**
+ * Whether an OpenRouter error means the key can't be used for a while: out of
+ * credits (402) or a daily limit such as free-models-per-day (429)
+ */
+export function isOpenRouterQuotaExhausted(status: number, errorText: string): boolean {
+  if (status === 402) return true;
+  return status === 429 && /per-day|per day|daily/i.test(errorText);
+}
 
 export class OpenRouterHandler implements ModelHandler {
   private targetModel: string;
@@ -24,17 +54,18 @@ export class OpenRouterHandler implements ModelHandler {
   private adapterManager: AdapterManager;
   private middlewareManager: MiddlewareManager;
   private contextWindowCache = new Map<string, number>();
-  private port: number;
+  private port: number | string;
   private sessionTotalCost = 0;
   private CLAUDE_INTERNAL_CONTEXT_MAX = 200000;
   private queue: OpenRouterRequestQueue;
 
-  constructor(targetModel: string, apiKey: string | undefined, port: number) {
+  constructor(targetModel: string, apiKey: string | undefined, port: number | string) {
     this.targetModel = targetModel;
     this.apiKey = apiKey;
     this.port = port;
     this.adapterManager = new AdapterManager(targetModel);
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
     this.middlewareManager.register(new GeminiThoughtSignatureMiddleware());
     this.middlewareManager
       .initialize()
@@ -51,6 +82,14 @@ export class OpenRouterHandler implements ModelHandler {
     } catch (e) {}
   }
 
+  /**
+   * Context window of the target model (200K when OpenRouter doesn't report one)
+   */
+  async getContextWindow(): Promise<number> {
+    await this.fetchContextWindow(this.targetModel);
+    return this.contextWindowCache.get(this.targetModel) || 200000;
+  }
+
   private getTokenScaleFactor(model: string): number {
     const limit = this.contextWindowCache.get(model) || 200000;
     return limit === 0 ? 1 : this.CLAUDE_INTERNAL_CONTEXT_MAX / limit;
@@ -149,26 +188,41 @@ export class OpenRouterHandler implements ModelHandler {
 
     await this.middlewareManager.beforeRequest({ modelId: target, messages, tools, stream: true });
 
+    // Send as the selected account, moving to the next one when a key runs out of quota
+    const accounts = getApiKeyAccountSelector("openrouter", OPENROUTER_API_KEY_ENV);
     let response: Response;
+    let errorText = "";
     try {
-      response = await this.queue.enqueue(() =>
-        fetch(OPENROUTER_API_URL, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${this.apiKey}`,
-            ...OPENROUTER_HEADERS,
-          },
-          body: JSON.stringify(openRouterPayload),
-        })
-      );
+      for (;;) {
+        const account = accounts.select();
+        const apiKey =
+          account === DEFAULT_ACCOUNT
+            ? this.apiKey
+            : getAccountApiKey(OPENROUTER_API_KEY_ENV, account);
+        response = await this.queue.enqueue(() =>
+          fetch(getOpenRouterApiUrl(), {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${apiKey}`,
+              ...OPENROUTER_HEADERS,
+            },
+            body: JSON.stringify(openRouterPayload),
+          })
+        );
+        if (response.ok) break;
+        errorText = await response.text().catch(() => "Unknown error");
+        if (!isOpenRouterQuotaExhausted(response.status, errorText)) break;
+        if (!accounts.markExhausted(account)) break;
+      }
     } catch (fetchError: any) {
       // Network error (connection closed, timeout, DNS failure, etc.)
       log(`[OpenRouter] Fetch error: ${fetchError.message || fetchError}`);
       return this.createStreamingErrorResponse(
         c,
         target,
-        `Network error: ${fetchError.message || "Connection failed"}`
+        `Network error: ${fetchError.message || "Connection failed"}`,
+        503
       );
     }
 
@@ -186,12 +240,11 @@ export class OpenRouterHandler implements ModelHandler {
     }
 
     if (!response.ok) {
-      const errorText = await response.text().catch(() => "Unknown error");
       log(`[OpenRouter] API error ${response.status}: ${errorText}`);
 
       // Format error message more gracefully
       const friendlyMessage = this.formatErrorMessage(response.status, errorText, target);
-      return this.createStreamingErrorResponse(c, target, friendlyMessage);
+      return this.createStreamingErrorResponse(c, target, friendlyMessage, response.status);
     }
     if (droppedParams.length > 0) c.header("X-Dropped-Params", droppedParams.join(", "));
 
@@ -229,34 +282,55 @@ export class OpenRouterHandler implements ModelHandler {
       else messages.unshift({ role: "system", content: geminiMsg });
     }
 
+    // Anthropic and Gemini models on OpenRouter honor cache_control breakpoints,
+    // so keep them on the system prompt and content parts
+    const keepCacheControl = supportsCacheControlPassthrough(modelId);
+    const systemCacheControl = keepCacheControl && getSystemCacheControl(req.system);
+    if (systemCacheControl && messages[0]?.role === "system") {
+      messages[0].content = [
+        { type: "text", text: messages[0].content, cache_control: systemCacheControl },
+      ];
+    }
+
     if (req.messages) {
       for (const msg of req.messages) {
-        if (msg.role === "user") this.processUserMessage(msg, messages);
+        if (msg.role === "user") this.processUserMessage(msg, messages, keepCacheControl);
         else if (msg.role === "assistant") this.processAssistantMessage(msg, messages);
       }
     }
     return messages;
   }
 
-  private processUserMessage(msg: any, messages: any[]) {
+  private processUserMessage(msg: any, messages: any[], keepCacheControl = false) {
+    const cacheable = (part: any, block: any) =>
+      keepCacheControl ? withCacheControl(part, block) : part;
     if (Array.isArray(msg.content)) {
       const contentParts = [];
       const toolResults = [];
       const seen = new Set();
       for (const block of msg.content) {
-        if (block.type === "text") contentParts.push({ type: "text", text: block.text });
+        if (block.type === "text") contentParts.push(cacheable({ type: "text", text: block.text }, block));
         else if (block.type === "image")
-          contentParts.push({
-            type: "image_url",
-            image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` },
-          });
+          contentParts.push(
+            cacheable(
+              {
+                type: "image_url",
+                image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` },
+              },
+              block
+            )
+          );
         else if (block.type === "tool_result") {
           if (seen.has(block.tool_use_id)) continue;
           seen.add(block.tool_use_id);
+          const content =
+            typeof block.content === "string" ? block.content : JSON.stringify(block.content);
           toolResults.push({
             role: "tool",
             content:
-              typeof block.content === "string" ? block.content : JSON.stringify(block.content),
+              keepCacheControl && block.cache_control
+                ? [{ type: "text", text: content, cache_control: block.cache_control }]
+                : content,
             tool_call_id: block.tool_use_id,
           });
         }
@@ -356,14 +430,22 @@ export class OpenRouterHandler implements ModelHandler {
           let finalized = false;
           let textStarted = false;
           let textIdx = -1;
-          let thinkingStarted = false;
-          let thinkingIdx = -1;
           let curIdx = 0;
           const tools = new Map<number, any>();
           const toolIds = new Set<string>();
           let accTxt = 0;
           let lastActivity = Date.now();
-          let accumulatedThinking = ""; // For accumulating thinking content
+          const reasoning = new ReasoningBlock(send, target);
+
+          const appendReasoning = (text: string) => {
+            // Reasoning after answer text starts a new block after it
+            if (reasoning.visible && !reasoning.isOpen && textStarted) {
+              send("content_block_stop", { type: "content_block_stop", index: textIdx });
+              textStarted = false;
+            }
+            lastActivity = Date.now();
+            reasoning.append(text, () => curIdx++);
+          };
 
           send("message_start", {
             type: "message_start",
@@ -387,10 +469,7 @@ export class OpenRouterHandler implements ModelHandler {
           const finalize = async (reason: string, err?: string) => {
             if (finalized) return;
             finalized = true;
-            if (thinkingStarted) {
-              send("content_block_stop", { type: "content_block_stop", index: thinkingIdx });
-              thinkingStarted = false;
-            }
+            reasoning.close();
             if (textStarted) {
               send("content_block_stop", { type: "content_block_stop", index: textIdx });
               textStarted = false;
@@ -410,6 +489,7 @@ export class OpenRouterHandler implements ModelHandler {
             }
 
             // Log and write token usage
+            const cacheUsage = getOpenAICacheUsage(usage);
             if (usage) {
               log(
                 `[OpenRouter] Usage: prompt=${usage.prompt_tokens || 0}, completion=${usage.completion_tokens || 0}, total=${usage.total_tokens || 0}`
@@ -417,15 +497,32 @@ export class OpenRouterHandler implements ModelHandler {
 
               // Use actual cost from OpenRouter response if available,
               // otherwise calculate from dynamic pricing tables
+              let requestCost: number;
+              let isEstimated = false;
               if (typeof usage.cost === "number" && usage.cost > 0) {
-                updateCost(usage.cost);
+                requestCost = usage.cost;
                 log(`[OpenRouter] Actual cost from API: $${usage.cost.toFixed(6)}`);
               } else {
                 const pricing = getModelPricing("openrouter", target);
-                const inputCost = ((usage.prompt_tokens || 0) / 1_000_000) * pricing.inputCostPer1M;
-                const outputCost = ((usage.completion_tokens || 0) / 1_000_000) * pricing.outputCostPer1M;
-                updateCost(inputCost + outputCost);
+                requestCost = calculateCostFromPricing(
+                  pricing,
+                  usage.prompt_tokens || 0,
+                  usage.completion_tokens || 0,
+                  cacheUsage.cacheReadTokens,
+                  cacheUsage.cacheCreationTokens
+                );
+                isEstimated = pricing.isEstimate || false;
               }
+              updateCost(requestCost);
+              recordCost({
+                provider: "openrouter",
+                model: target,
+                inputTokens: usage.prompt_tokens || 0,
+                outputTokens: usage.completion_tokens || 0,
+                cachedTokens: cacheUsage.cacheReadTokens,
+                cost: requestCost,
+                estimated: isEstimated,
+              });
 
               writeTokens(usage.prompt_tokens || 0, usage.completion_tokens || 0);
             } else {
@@ -443,7 +540,9 @@ export class OpenRouterHandler implements ModelHandler {
               send("message_delta", {
                 type: "message_delta",
                 delta: { stop_reason: "end_turn", stop_sequence: null },
-                usage: { output_tokens: usage?.completion_tokens || 0 },
+                usage: usage
+                  ? toAnthropicUsage(usage.prompt_tokens || 0, usage.completion_tokens || 0, cacheUsage)
+                  : { output_tokens: 0 },
               });
               send("message_stop", { type: "message_stop" });
             }
@@ -487,55 +586,27 @@ export class OpenRouterHandler implements ModelHandler {
                       metadata: streamMetadata,
                     });
 
-                    // Handle reasoning_details from Gemini/OpenRouter models
-                    // Convert to Claude thinking blocks for native display
-                    if (delta.reasoning_details && delta.reasoning_details.length > 0) {
-                      for (const detail of delta.reasoning_details) {
-                        // Handle text and summary reasoning types
-                        if (
-                          detail.type === "reasoning.text" ||
-                          detail.type === "reasoning.summary"
-                        ) {
-                          const thinkingContent =
-                            detail.content || detail.text || detail.summary || "";
-                          if (thinkingContent) {
-                            lastActivity = Date.now();
-                            // Start thinking block if not started
-                            if (!thinkingStarted) {
-                              thinkingIdx = curIdx++;
-                              send("content_block_start", {
-                                type: "content_block_start",
-                                index: thinkingIdx,
-                                content_block: { type: "thinking", thinking: "" },
-                              });
-                              thinkingStarted = true;
-                            }
-                            // Send thinking delta
-                            send("content_block_delta", {
-                              type: "content_block_delta",
-                              index: thinkingIdx,
-                              delta: { type: "thinking_delta", thinking: thinkingContent },
-                            });
-                            accumulatedThinking += thinkingContent;
-                          }
-                        }
-                        // Note: reasoning.encrypted is handled by middleware for signature storage
+                    // Reasoning arrives as reasoning_details (text and summary entries) or,
+                    // from some upstreams, as a plain reasoning string
+                    const details = Array.isArray(delta.reasoning_details)
+                      ? delta.reasoning_details
+                      : [];
+                    for (const detail of details) {
+                      // reasoning.encrypted is handled by middleware for signature storage
+                      if (detail.type === "reasoning.text" || detail.type === "reasoning.summary") {
+                        appendReasoning(detail.content || detail.text || detail.summary || "");
                       }
                     }
+                    if (details.length === 0 && typeof delta.reasoning === "string") {
+                      appendReasoning(delta.reasoning);
+                    }
 
                     // Logic for content handling (simplified port)
                     const txt = delta.content || "";
                     if (txt) {
                       lastActivity = Date.now();
-                      // Close thinking block before starting text
-                      if (thinkingStarted) {
-                        send("content_block_stop", {
-                          type: "content_block_stop",
-                          index: thinkingIdx,
-                        });
-                        thinkingStarted = false;
-                      }
                       if (!textStarted) {
+                        reasoning.close();
                         textIdx = curIdx++;
                         send("content_block_start", {
                           type: "content_block_start",
@@ -560,14 +631,8 @@ export class OpenRouterHandler implements ModelHandler {
                         let t = tools.get(idx);
                         if (tc.function?.name) {
                           if (!t) {
-                            // Close thinking and text blocks before starting tool
-                            if (thinkingStarted) {
-                              send("content_block_stop", {
-                                type: "content_block_stop",
-                                index: thinkingIdx,
-                              });
-                              thinkingStarted = false;
-                            }
+                            // Close reasoning and text blocks before starting tool
+                            reasoning.close();
                             if (textStarted) {
                               send("content_block_stop", {
                                 type: "content_block_stop",
@@ -733,8 +798,14 @@ export class OpenRouterHandler implements ModelHandler {
 
   /**
    * Create a properly formatted streaming error response that Claude Code can understand
+   * The upstream status is reported in a header so fallback chains can still react to it.
    */
-  private createStreamingErrorResponse(c: Context, model: string, errorMessage: string): Response {
+  private createStreamingErrorResponse(
+    c: Context,
+    model: string,
+    errorMessage: string,
+    upstreamStatus: number
+  ): Response {
     const encoder = new TextEncoder();
     const msgId = `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`;
 
@@ -798,6 +869,7 @@ export class OpenRouterHandler implements ModelHandler {
           "Content-Type": "text/event-stream",
           "Cache-Control": "no-cache",
           Connection: "keep-alive",
+          [UPSTREAM_STATUS_HEADER]: String(upstreamStatus),
         },
       }
     );
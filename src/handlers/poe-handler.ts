@@ -2,6 +2,9 @@ import { createHash } from "node:crypto";
 import type { Context } from "hono";
 import type { ModelHandler } from "../types.js";
 import { log, logStructured, maskCredential, isLoggingEnabled } from "../logger.js";
+import { MiddlewareManager, RedactionMiddleware, RequestBlockedError } from "../middleware/index.js";
+import { recordCost } from "../services/cost-ledger.js";
+import { calculateCost, getModelPricing } from "./shared/remote-provider-types.js";
 
 // Type definitions for OpenAI chunks
 interface OpenAIChoice {
@@ -400,11 +403,15 @@ export { SSEParser, ContentBlockTracker, ErrorHandler };
 export class PoeHandler implements ModelHandler {
   private readonly apiKey: string;
   private readonly apiKeySha: string;
-  private readonly apiUrl = "https://api.poe.com/v1/chat/completions";
+  private readonly apiUrl = `${process.env.POE_BASE_URL || "https://api.poe.com"}/v1/chat/completions`;
   private readonly headers: Record<string, string>;
+  private readonly middlewareManager: MiddlewareManager;
 
   constructor(apiKey: string) {
     this.apiKey = apiKey;
+    this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
+    this.middlewareManager.initialize().catch((err) => log(`[Poe] Middleware init error: ${err}`));
     this.apiKeySha = createHash('sha256').update(apiKey).digest('hex').substring(0, 16);
     this.headers = {
       "Content-Type": "application/json",
@@ -429,6 +436,12 @@ export class PoeHandler implements ModelHandler {
       }
 
       const openAIRequest = this.transformRequest(payload);
+      await this.middlewareManager.beforeRequest({
+        modelId: `poe/${model}`,
+        messages: openAIRequest.messages,
+        tools: openAIRequest.tools,
+        stream: true,
+      });
 
       // Debug level: API request details (like log.debug())
       if (isLoggingEnabled()) {
@@ -486,6 +499,8 @@ export class PoeHandler implements ModelHandler {
 
       return this.createStreamingResponse(c, response, model);
     } catch (error) {
+      // Blocked requests are answered by the proxy, like requests the policy blocks
+      if (error instanceof RequestBlockedError) throw error;
       console.error("Poe handler error:", error);
       return c.json(
         {
@@ -690,6 +705,22 @@ export class PoeHandler implements ModelHandler {
     return null;
   }
 
+  /**
+   * Record a request's usage in the cost ledger (Poe bills in points, so cost is estimated)
+   */
+  private recordUsage(model: string, usage: NonNullable<OpenAIChunk["usage"]>): void {
+    const inputTokens = usage.prompt_tokens || 0;
+    const outputTokens = usage.completion_tokens || 0;
+    recordCost({
+      provider: "poe",
+      model,
+      inputTokens,
+      outputTokens,
+      cost: calculateCost("poe", model, inputTokens, outputTokens),
+      estimated: getModelPricing("poe", model).isEstimate,
+    });
+  }
+
   /**
    * Create streaming response from OpenAI SSE format
    *
@@ -721,6 +752,8 @@ export class PoeHandler implements ModelHandler {
           let currentBlockIndex: number | null = null;
           let ping: NodeJS.Timeout | null = null;
           let lastActivity = Date.now();
+          let usage: OpenAIChunk["usage"] | null = null;
+          let hasToolUse = false;
 
           // Helper function to send properly formatted SSE events with debugging
           const send = (e: string, d: any) => {
@@ -772,6 +805,25 @@ export class PoeHandler implements ModelHandler {
           send("ping", { type: "ping" });
           messageStarted = true;
 
+          // Close open blocks, then report the stop reason and end the message
+          const finishMessage = () => {
+            const stoppedBlocks = blockTracker.ensureAllBlocksStopped();
+            for (const blockIndex of stoppedBlocks) {
+              send("content_block_stop", {
+                type: "content_block_stop",
+                index: blockIndex
+              });
+            }
+            send("message_delta", {
+              type: "message_delta",
+              delta: { stop_reason: hasToolUse ? "tool_use" : "end_turn", stop_sequence: null },
+              usage: { output_tokens: usage?.completion_tokens || 0 }
+            });
+            send("message_stop", {
+              type: "message_stop"
+            });
+          };
+
           try {
             while (!isClosed) {
               const { done, value } = await reader.read();
@@ -785,19 +837,10 @@ export class PoeHandler implements ModelHandler {
 
               for (const data of events) {
                 if (data === '[DONE]') {
-                  // Ensure all content blocks are properly stopped
-                  const stoppedBlocks = blockTracker.ensureAllBlocksStopped();
-                  for (const blockIndex of stoppedBlocks) {
-                    send("content_block_stop", {
-                      type: "content_block_stop",
-                      index: blockIndex
-                    });
-                  }
+                  if (usage) this.recordUsage(model, usage);
 
-                  // Send message_stop event
-                  send("message_stop", {
-                    type: "message_stop"
-                  });
+                  // Ensure all content blocks are properly stopped
+                  finishMessage();
 
                   // Send final [DONE] marker with proper SSE format (triple newlines)
                   try {
@@ -812,6 +855,7 @@ export class PoeHandler implements ModelHandler {
 
                 try {
                   const openaiChunk: OpenAIChunk = JSON.parse(data);
+                  if (openaiChunk.usage) usage = openaiChunk.usage;
 
                   // Transform and send content delta
                   const claudeChunk = this.transformChunk(openaiChunk);
@@ -854,7 +898,7 @@ export class PoeHandler implements ModelHandler {
                         if (toolCall.function?.name) {
                           const existingBlockIndex = blockTracker.getToolBlockIndex(toolIndex);
 
-                          if (!existingBlockIndex) {
+                          if (existingBlockIndex === undefined) {
                             // Stop any current text block before starting tool block
                             if (currentBlockIndex !== null) {
                               send("content_block_stop", {
@@ -873,6 +917,7 @@ export class PoeHandler implements ModelHandler {
                               toolCall.function.name
                             );
 
+                            hasToolUse = true;
                             send("content_block_start", {
                               type: "content_block_start",
                               index: toolBlockIndex,
@@ -907,8 +952,14 @@ export class PoeHandler implements ModelHandler {
                     // After processing tool calls, check for cached text content
                     const chunkDelta = openaiChunk.choices?.[0]?.delta as any;
                     if (chunkDelta?._cachedCleanText && chunkDelta._cachedCleanText.length > 0) {
-                      // Start a text block if needed
+                      // Start a text block if needed (after the tool blocks, which are complete)
                       if (currentBlockIndex === null) {
+                        for (const blockIndex of blockTracker.ensureAllBlocksStopped()) {
+                          send("content_block_stop", {
+                            type: "content_block_stop",
+                            index: blockIndex
+                          });
+                        }
                         currentBlockIndex = blockTracker.startTextBlock();
                         send("content_block_start", {
                           type: "content_block_start",
@@ -978,16 +1029,10 @@ export class PoeHandler implements ModelHandler {
 
             // Ensure proper cleanup
             if (!isClosed) {
-              const stoppedBlocks = blockTracker.ensureAllBlocksStopped();
-              for (const blockIndex of stoppedBlocks) {
-                try {
-                  send("content_block_stop", {
-                    type: "content_block_stop",
-                    index: blockIndex
-                  });
-                } catch (e) {
-                  // Ignore errors during cleanup
-                }
+              try {
+                finishMessage();
+              } catch (e) {
+                // Ignore errors during cleanup
               }
             }
 
@@ -0,0 +1,150 @@
+/**
+ * Gemini Context Cache
+ *
+ * Gemini only reuses a prompt prefix across requests when the prefix is stored
+ * as a cachedContents resource and referenced by name. When Claude Code marks
+ * its system prompt or tools with cache_control, the system instruction, tools
+ * and tool config are moved into a cachedContents entry keyed by their hash.
+ * Later requests with the same prefix reference that entry until it expires.
+ *
+ * Gemini rejects caches below a model-specific minimum size. Prefixes it
+ * refuses are remembered and sent uncached from then on.
+ *
+ * API Documentation: https://ai.google.dev/gemini-api/docs/caching
+ */
+
+import { createHash } from "node:crypto";
+import { log } from "../../logger.js";
+
+/** How long each cachedContents entry lives */
+const CACHE_TTL_SECONDS = 300;
+
+/** Entries this close to expiry are recreated instead of reused */
+const EXPIRY_MARGIN_MS = 30_000;
+
+/** Smallest prefix worth caching (Gemini's lowest minimum), at ~4 chars per token */
+const MIN_CACHE_TOKENS = 1024;
+
+interface CacheEntry {
+  name: string;
+  expiresAt: number;
+  tokens: number;
+}
+
+export class GeminiContextCache {
+  private baseUrl: string;
+  private modelName: string;
+  /** Known entries by prefix hash; null marks prefixes Gemini refused to cache */
+  private entries = new Map<string, CacheEntry | null>();
+  private pending = new Map<string, Promise<CacheEntry | null>>();
+
+  /**
+   * @param baseUrl - Gemini API base URL (e.g. https://generativelanguage.googleapis.com)
+   * @param modelName - Model the cache is created for (caches are per model)
+   */
+  constructor(baseUrl: string, modelName: string) {
+    this.baseUrl = baseUrl;
+    this.modelName = modelName;
+  }
+
+  /**
+   * Move the payload's system instruction, tools and tool config into a cached
+   * content entry and reference it from the payload.
+   * @returns Prompt tokens written to the cache by this request (0 when reused or uncached)
+   */
+  async apply(payload: any, headers: Record<string, string>): Promise<number> {
+    if (!payload.systemInstruction && !payload.tools) return 0;
+
+    const prefix = {
+      systemInstruction: payload.systemInstruction,
+      tools: payload.tools,
+      toolConfig: payload.toolConfig,
+    };
+    const serialized = JSON.stringify(prefix);
+    if (serialized.length / 4 < MIN_CACHE_TOKENS) return 0;
+
+    const key = createHash("sha256").update(serialized).digest("hex");
+    let entry = this.entries.get(key);
+    if (entry === null) return 0;
+
+    let created = false;
+    if (!entry || entry.expiresAt - EXPIRY_MARGIN_MS < Date.now()) {
+      let pending = this.pending.get(key);
+      if (!pending) {
+        pending = this.create(key, prefix, headers).finally(() => this.pending.delete(key));
+        this.pending.set(key, pending);
+        created = true;
+      }
+      entry = await pending;
+    }
+    if (!entry) return 0;
+
+    payload.cachedContent = entry.name;
+    payload.systemInstruction = undefined;
+    payload.tools = undefined;
+    payload.toolConfig = undefined;
+    return created ? entry.tokens : 0;
+  }
+
+  /**
+   * Delete all cache entries created by this instance (best effort)
+   */
+  async clear(headers: Record<string, string>): Promise<void> {
+    const names = Array.from(this.entries.values())
+      .filter((entry): entry is CacheEntry => entry !== null)
+      .map((entry) => entry.name);
+    this.entries.clear();
+
+    await Promise.all(
+      names.map((name) =>
+        fetch(`${this.baseUrl}/v1beta/${name}`, { method: "DELETE", headers }).catch((e) =>
+          log(`[GeminiContextCache] Error deleting ${name}: ${e}`)
+        )
+      )
+    );
+  }
+
+  private async create(
+    key: string,
+    prefix: Record<string, any>,
+    headers: Record<string, string>
+  ): Promise<CacheEntry | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/v1beta/cachedContents`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: `models/${this.modelName}`,
+          ...prefix,
+          ttl: `${CACHE_TTL_SECONDS}s`,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        log(`[GeminiContextCache] Create failed ${response.status}: ${errorText}`);
+        // 4xx means this prefix can't be cached (too small, unsupported model) - stop trying
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          this.entries.set(key, null);
+        }
+        return null;
+      }
+
+      const data: any = await response.json();
+      const expiresAt = data.expireTime
+        ? new Date(data.expireTime).getTime()
+        : Date.now() + CACHE_TTL_SECONDS * 1000;
+      const entry: CacheEntry = {
+        name: data.name,
+        expiresAt,
+        tokens: data.usageMetadata?.totalTokenCount || 0,
+      };
+      this.entries.set(key, entry);
+      log(`[GeminiContextCache] Created ${entry.name} (${entry.tokens} tokens)`);
+      return entry;
+    } catch (e) {
+      log(`[GeminiContextCache] Create error: ${e}`);
+      return null;
+    }
+  }
+}
@@ -11,7 +11,9 @@
  * - Automatic queue size management (max 100 requests)
  */
 
+import { AsyncResource } from "node:async_hooks";
 import { log } from "../../logger.js";
+import { notifyQueueWait } from "./queue-events.js";
 
 /**
  * Queued request with Promise callbacks
@@ -20,6 +22,7 @@ interface QueuedRequest {
   fetchFn: () => Promise<Response>;
   resolve: (response: Response) => void;
   reject: (error: Error) => void;
+  enqueuedAt: number;
 }
 
 /**
@@ -92,9 +95,11 @@ export class GeminiRequestQueue {
     // Create promise for this request
     return new Promise<Response>((resolve, reject) => {
       const queuedRequest: QueuedRequest = {
-        fetchFn,
+        // Keep the caller's async context (request recording) when the queue runs it
+        fetchFn: AsyncResource.bind(fetchFn),
         resolve,
         reject,
+        enqueuedAt: Date.now(),
       };
 
       this.queue.push(queuedRequest);
@@ -127,6 +132,7 @@ export class GeminiRequestQueue {
       try {
         // Wait for next available slot
         await this.waitForNextSlot();
+        notifyQueueWait("gemini", request.enqueuedAt);
 
         // Execute the request
         const response = await request.fetchFn();
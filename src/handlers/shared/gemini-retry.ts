@@ -11,6 +11,7 @@
 
 import { log } from "../../logger.js";
 import { GeminiRequestQueue } from "./gemini-queue.js";
+import { notifyUpstreamRetry } from "./queue-events.js";
 
 export interface RetryConfig {
   maxRetries?: number;
@@ -177,6 +178,7 @@ export async function fetchWithRetry(
       waitMs = Math.min(waitMs, maxDelayMs);
 
       log(`${logPrefix} Waiting ${waitMs}ms before retry...`);
+      notifyUpstreamRetry("gemini", "rate_limit");
       await new Promise((r) => setTimeout(r, waitMs));
       continue;
     }
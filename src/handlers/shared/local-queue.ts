@@ -23,7 +23,9 @@
  * - CLAUDISH_LOCAL_QUEUE_ENABLED: Enable/disable queue (default: true)
  */
 
+import { AsyncResource } from "node:async_hooks";
 import { getLogLevel, log } from "../../logger.js";
+import { notifyQueueWait, notifyUpstreamRetry } from "./queue-events.js";
 
 /**
  * Queued request with Promise callbacks
@@ -33,6 +35,7 @@ interface QueuedRequest {
   resolve: (response: Response) => void;
   reject: (error: Error) => void;
   providerId: string; // For debugging/stats (e.g., "ollama", "lmstudio")
+  enqueuedAt: number;
 }
 
 /**
@@ -163,10 +166,12 @@ export class LocalModelQueue {
     // Create promise for this request
     return new Promise<Response>((resolve, reject) => {
       const queuedRequest: QueuedRequest = {
-        fetchFn,
+        // Keep the caller's async context (request recording) when the queue runs it
+        fetchFn: AsyncResource.bind(fetchFn),
         resolve,
         reject,
         providerId,
+        enqueuedAt: Date.now(),
       };
 
       this.queue.push(queuedRequest);
@@ -216,6 +221,7 @@ export class LocalModelQueue {
    */
   private async executeRequest(request: QueuedRequest): Promise<void> {
     this.activeRequests++;
+    notifyQueueWait("local", request.enqueuedAt);
 
     try {
       const response = await request.fetchFn();
@@ -232,6 +238,7 @@ export class LocalModelQueue {
           }
 
           // Retry once after a delay
+          notifyUpstreamRetry("local", "oom");
           await this.delay(2000); // 2-second delay before retry
           const retryResponse = await request.fetchFn();
 
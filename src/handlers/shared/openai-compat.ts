@@ -12,16 +12,18 @@ import {
   validateAndRepairToolCall,
   inferMissingParameters,
   extractToolCallsFromText,
+  notifyToolCallRecovered,
   type ToolSchema,
 } from "./tool-call-recovery.js";
+import { type CacheUsage, getOpenAICacheUsage, toAnthropicUsage } from "./prompt-cache.js";
+import { HEURISTIC_COUNTER, getTokenCounterForSpec } from "../../services/token-counter.js";
+import { ReasoningBlock, ThinkTagParser } from "./reasoning.js";
 
 export interface StreamingState {
   usage: any;
   finalized: boolean;
   textStarted: boolean;
   textIdx: number;
-  reasoningStarted: boolean;
-  reasoningIdx: number;
   curIdx: number;
   tools: Map<number, ToolState>;
   toolIds: Set<string>;
@@ -318,8 +320,6 @@ export function createStreamingState(): StreamingState {
     finalized: false,
     textStarted: false,
     textIdx: -1,
-    reasoningStarted: false,
-    reasoningIdx: -1,
     curIdx: 0,
     tools: new Map(),
     toolIds: new Set(),
@@ -337,7 +337,7 @@ export function createStreamingResponseHandler(
   adapter: any,
   target: string,
   middlewareManager: any,
-  onTokenUpdate?: (input: number, output: number) => void,
+  onTokenUpdate?: (input: number, output: number, cache?: CacheUsage) => void,
   toolSchemas?: any[], // Tool schemas for validation
   toolNameMap?: Map<string, string> // Map from truncated tool names back to originals
 ): Response {
@@ -359,6 +359,76 @@ export function createStreamingResponseHandler(
 
         const msgId = `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`;
         const state = createStreamingState();
+        const reasoning = new ReasoningBlock(send, target);
+        const thinkTags = new ThinkTagParser();
+
+        const appendReasoning = (text: string) => {
+          // Reasoning after answer text starts a new block after it
+          if (reasoning.visible && !reasoning.isOpen && state.textStarted) {
+            send("content_block_stop", { type: "content_block_stop", index: state.textIdx });
+            state.textStarted = false;
+          }
+          reasoning.append(text, () => state.curIdx++);
+        };
+
+        const emitText = (text: string) => {
+          const res = adapter.processTextContent(text, "");
+          log(
+            `[Streaming] After adapter: "${res.cleanedText.substring(0, 30).replace(/\n/g, "\\n")}" (${res.cleanedText.length} chars, transformed=${res.wasTransformed})`
+          );
+
+          // Debug: Log text processing
+          if (text.length > 0 && res.cleanedText.length === 0) {
+            log(`[Streaming] Text filtered out by adapter: "${text.substring(0, 50)}"`);
+          }
+
+          if (res.cleanedText) {
+            // Accumulate text for potential tool call extraction
+            state.accumulatedText += res.cleanedText;
+
+            // Check if text contains STRUCTURED tool call patterns that we should hold back
+            // Only hold back for patterns we can actually parse (XML, JSON), not natural language
+            // Natural language patterns are extracted at finalization, not held back
+            const hasStructuredToolPattern =
+              // Qwen XML-style: <function=ToolName>
+              /<function=[^>]+>/.test(state.accumulatedText) ||
+              // JSON tool call in text: {"name": "Task", "arguments":
+              /\{\s*"(?:name|tool)"\s*:\s*"(?:Task|Read|Write|Edit|Bash|Grep|Glob)"/i.test(
+                state.accumulatedText
+              ) ||
+              // XML tool_call tags: <tool_call>
+              /<tool_call>/.test(state.accumulatedText);
+
+            // Only hold back if we have a structured pattern AND haven't accumulated too much
+            // (if we've accumulated > 1000 chars without a complete pattern, release the text)
+            const shouldHoldBack = hasStructuredToolPattern && state.accumulatedText.length < 1000;
+
+            if (shouldHoldBack) {
+              log(
+                `[Streaming] Text held back (structured tool pattern): ${state.accumulatedText.length} chars accumulated`
+              );
+            }
+
+            if (!shouldHoldBack) {
+              if (!state.textStarted) {
+                reasoning.close();
+                state.textIdx = state.curIdx++;
+                send("content_block_start", {
+                  type: "content_block_start",
+                  index: state.textIdx,
+                  content_block: { type: "text", text: "" },
+                });
+                state.textStarted = true;
+                log(`[Streaming] Started text block at index ${state.textIdx}`);
+              }
+              send("content_block_delta", {
+                type: "content_block_delta",
+                index: state.textIdx,
+                delta: { type: "text_delta", text: res.cleanedText },
+              });
+            }
+          }
+        };
 
         send("message_start", {
           type: "message_start",
@@ -385,6 +455,12 @@ export function createStreamingResponseHandler(
           if (state.finalized) return;
           state.finalized = true;
 
+          for (const segment of thinkTags.flush()) {
+            if (segment.reasoning) appendReasoning(segment.text);
+            else emitText(segment.text);
+          }
+          reasoning.close();
+
           // Debug: Log accumulated text for analysis
           if (state.accumulatedText.length > 0) {
             const preview = state.accumulatedText.slice(0, 500).replace(/\n/g, "\\n");
@@ -410,6 +486,7 @@ export function createStreamingResponseHandler(
 
             // Send each extracted tool call as a proper tool_use block
             for (const tc of textToolCalls) {
+              notifyToolCallRecovered("extracted", tc.name);
               const toolIdx = state.curIdx++;
               const toolId = `tool_${Date.now()}_${toolIdx}`;
 
@@ -427,9 +504,6 @@ export function createStreamingResponseHandler(
             }
           }
 
-          if (state.reasoningStarted) {
-            send("content_block_stop", { type: "content_block_stop", index: state.reasoningIdx });
-          }
           if (state.textStarted) {
             send("content_block_stop", { type: "content_block_stop", index: state.textIdx });
           }
@@ -452,7 +526,13 @@ export function createStreamingResponseHandler(
             send("message_delta", {
               type: "message_delta",
               delta: { stop_reason: stopReason, stop_sequence: null },
-              usage: { output_tokens: state.usage?.completion_tokens || 0 },
+              usage: state.usage
+                ? toAnthropicUsage(
+                    state.usage.prompt_tokens || 0,
+                    state.usage.completion_tokens || 0,
+                    getOpenAICacheUsage(state.usage)
+                  )
+                : { output_tokens: 0 },
             });
             send("message_stop", { type: "message_stop" });
           }
@@ -463,11 +543,14 @@ export function createStreamingResponseHandler(
               log(
                 `[Streaming] Final usage: prompt=${state.usage.prompt_tokens || 0}, completion=${state.usage.completion_tokens || 0}`
               );
-              onTokenUpdate(state.usage.prompt_tokens || 0, state.usage.completion_tokens || 0);
+              onTokenUpdate(
+                state.usage.prompt_tokens || 0,
+                state.usage.completion_tokens || 0,
+                getOpenAICacheUsage(state.usage)
+              );
             } else {
               // Estimate tokens for local models that don't return usage data
-              // Rough estimate: ~4 characters per token
-              const estimatedOutputTokens = Math.ceil(state.accumulatedText.length / 4);
+              const estimatedOutputTokens = estimateTokens(state.accumulatedText, target);
               log(
                 `[Streaming] No usage data from provider, estimating: ~${estimatedOutputTokens} output tokens`
               );
@@ -533,68 +616,23 @@ export function createStreamingResponseHandler(
                     });
                   }
 
-                  // Handle text content
+                  // Reasoning fields (DeepSeek/Qwen reasoning_content, OpenRouter/vLLM reasoning)
+                  const reasoningText = delta.reasoning_content || delta.reasoning;
+                  if (typeof reasoningText === "string" && reasoningText) {
+                    state.lastActivity = Date.now();
+                    appendReasoning(reasoningText);
+                  }
+
+                  // Handle text content (<think> tags from local models are reasoning)
                   const txt = delta.content || "";
                   log(
                     `[Streaming] Text chunk: "${txt.substring(0, 30).replace(/\n/g, "\\n")}" (${txt.length} chars)`
                   );
                   if (txt) {
                     state.lastActivity = Date.now();
-                    const res = adapter.processTextContent(txt, "");
-                    log(
-                      `[Streaming] After adapter: "${res.cleanedText.substring(0, 30).replace(/\n/g, "\\n")}" (${res.cleanedText.length} chars, transformed=${res.wasTransformed})`
-                    );
-
-                    // Debug: Log text processing
-                    if (txt.length > 0 && res.cleanedText.length === 0) {
-                      log(`[Streaming] Text filtered out by adapter: "${txt.substring(0, 50)}"`);
-                    }
-
-                    if (res.cleanedText) {
-                      // Accumulate text for potential tool call extraction
-                      state.accumulatedText += res.cleanedText;
-
-                      // Check if text contains STRUCTURED tool call patterns that we should hold back
-                      // Only hold back for patterns we can actually parse (XML, JSON), not natural language
-                      // Natural language patterns are extracted at finalization, not held back
-                      const hasStructuredToolPattern =
-                        // Qwen XML-style: <function=ToolName>
-                        /<function=[^>]+>/.test(state.accumulatedText) ||
-                        // JSON tool call in text: {"name": "Task", "arguments":
-                        /\{\s*"(?:name|tool)"\s*:\s*"(?:Task|Read|Write|Edit|Bash|Grep|Glob)"/i.test(
-                          state.accumulatedText
-                        ) ||
-                        // XML tool_call tags: <tool_call>
-                        /<tool_call>/.test(state.accumulatedText);
-
-                      // Only hold back if we have a structured pattern AND haven't accumulated too much
-                      // (if we've accumulated > 1000 chars without a complete pattern, release the text)
-                      const shouldHoldBack =
-                        hasStructuredToolPattern && state.accumulatedText.length < 1000;
-
-                      if (shouldHoldBack) {
-                        log(
-                          `[Streaming] Text held back (structured tool pattern): ${state.accumulatedText.length} chars accumulated`
-                        );
-                      }
-
-                      if (!shouldHoldBack) {
-                        if (!state.textStarted) {
-                          state.textIdx = state.curIdx++;
-                          send("content_block_start", {
-                            type: "content_block_start",
-                            index: state.textIdx,
-                            content_block: { type: "text", text: "" },
-                          });
-                          state.textStarted = true;
-                          log(`[Streaming] Started text block at index ${state.textIdx}`);
-                        }
-                        send("content_block_delta", {
-                          type: "content_block_delta",
-                          index: state.textIdx,
-                          delta: { type: "text_delta", text: res.cleanedText },
-                        });
-                      }
+                    for (const segment of thinkTags.push(txt)) {
+                      if (segment.reasoning) appendReasoning(segment.text);
+                      else emitText(segment.text);
                     }
                   }
 
@@ -608,6 +646,7 @@ export function createStreamingResponseHandler(
                       let t = state.tools.get(idx);
                       if (tc.function?.name) {
                         if (!t) {
+                          reasoning.close();
                           if (state.textStarted) {
                             send("content_block_stop", {
                               type: "content_block_stop",
@@ -816,8 +855,10 @@ export function createStreamingResponseHandler(
 }
 
 /**
- * Estimate token count from text (rough approximation)
+ * Estimate token count from text with the model's tokenizer
+ * (chars/4 when the model is unknown or has no matching tokenizer)
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+export function estimateTokens(text: string, modelId?: string): number {
+  if (!modelId) return HEURISTIC_COUNTER.count(text);
+  return getTokenCounterForSpec(modelId).count(text);
 }
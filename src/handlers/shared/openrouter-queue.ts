@@ -25,7 +25,9 @@
  * - Respects Retry-After header when present
  */
 
+import { AsyncResource } from "node:async_hooks";
 import { getLogLevel, log } from "../../logger.js";
+import { notifyQueueWait, notifyUpstreamRetry } from "./queue-events.js";
 
 /**
  * Queued request with Promise callbacks
@@ -34,6 +36,7 @@ interface QueuedRequest {
   fetchFn: () => Promise<Response>;
   resolve: (response: Response) => void;
   reject: (error: Error) => void;
+  enqueuedAt: number;
 }
 
 /**
@@ -154,9 +157,11 @@ export class OpenRouterRequestQueue {
     // Create promise for this request
     return new Promise<Response>((resolve, reject) => {
       const queuedRequest: QueuedRequest = {
-        fetchFn,
+        // Keep the caller's async context (request recording) when the queue runs it
+        fetchFn: AsyncResource.bind(fetchFn),
         resolve,
         reject,
+        enqueuedAt: Date.now(),
       };
 
       this.queue.push(queuedRequest);
@@ -200,6 +205,7 @@ export class OpenRouterRequestQueue {
         try {
           // Wait for next available slot
           await this.waitForNextSlot();
+          if (retryAttempt === 0) notifyQueueWait("openrouter", request.enqueuedAt);
 
           // Execute the request
           const response = await request.fetchFn();
@@ -219,6 +225,7 @@ export class OpenRouterRequestQueue {
 
             if (retryAttempt < this.maxRetries) {
               this.rateLimitState.total429Retries++;
+              notifyUpstreamRetry("openrouter", "rate_limit");
               log(
                 `[OpenRouterQueue] Rate limit hit (429), retrying in ${retryDelayMs}ms (attempt ${retryAttempt}/${this.maxRetries})`
               );
@@ -246,6 +253,7 @@ export class OpenRouterRequestQueue {
           retryAttempt++;
 
           if (retryAttempt < this.maxRetries) {
+            notifyUpstreamRetry("openrouter", "network");
             const backoffMs = Math.min(1000 * Math.pow(2, retryAttempt), this.maxDelayMs);
             log(
               `[OpenRouterQueue] Network error, retrying in ${backoffMs}ms (attempt ${retryAttempt}/${this.maxRetries}): ${error}`
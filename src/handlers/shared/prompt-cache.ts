@@ -0,0 +1,138 @@
+/**
+ * Prompt caching support
+ *
+ * Claude Code marks the stable prefix of its prompts with Anthropic
+ * `cache_control` breakpoints. Each upstream caches differently:
+ * - OpenRouter: Anthropic and Gemini models accept `cache_control` on content
+ *   parts, so breakpoints are passed through
+ * - Gemini API: explicit `cachedContents` hold the system instruction and tools
+ *   (see gemini-context-cache.ts)
+ * - OpenAI: caching is automatic for long prompts, nothing to send
+ *
+ * Cache hits come back in provider-specific usage fields. They are normalized
+ * here so handlers can report Anthropic's cache_read_input_tokens and
+ * cache_creation_input_tokens, and charge cached tokens at cache prices.
+ */
+
+/**
+ * Prompt tokens served from or written to a provider-side cache
+ */
+export interface CacheUsage {
+  /** Prompt tokens read from the cache */
+  cacheReadTokens: number;
+  /** Prompt tokens written to the cache by this request */
+  cacheCreationTokens: number;
+}
+
+/**
+ * Usage in Anthropic format. input_tokens excludes cached tokens.
+ */
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+export const NO_CACHE_USAGE: CacheUsage = { cacheReadTokens: 0, cacheCreationTokens: 0 };
+
+/**
+ * OpenRouter model prefixes whose upstreams honor `cache_control` breakpoints
+ */
+const CACHE_CONTROL_PASSTHROUGH_PREFIXES = ["anthropic/", "google/gemini"];
+
+/**
+ * Whether an OpenRouter model accepts Anthropic-style `cache_control` on content parts
+ */
+export function supportsCacheControlPassthrough(modelId: string): boolean {
+  const id = modelId.toLowerCase();
+  return CACHE_CONTROL_PASSTHROUGH_PREFIXES.some((prefix) => id.startsWith(prefix));
+}
+
+/**
+ * Get the last cache breakpoint set on a system prompt, if any
+ */
+export function getSystemCacheControl(system: any): any | undefined {
+  if (!Array.isArray(system)) return undefined;
+  let cacheControl: any;
+  for (const block of system) {
+    if (block?.cache_control) cacheControl = block.cache_control;
+  }
+  return cacheControl;
+}
+
+/**
+ * Whether a Claude request marks its system prompt or tools as cacheable
+ */
+export function hasCacheablePrefix(claudeRequest: any): boolean {
+  if (getSystemCacheControl(claudeRequest.system)) return true;
+  return (
+    Array.isArray(claudeRequest.tools) && claudeRequest.tools.some((t: any) => t?.cache_control)
+  );
+}
+
+/**
+ * Copy a Claude content block's cache breakpoint onto a converted content part
+ */
+export function withCacheControl<T extends object>(part: T, block: any): T {
+  if (!block?.cache_control) return part;
+  return { ...part, cache_control: block.cache_control };
+}
+
+/**
+ * Read cache usage from OpenAI-style usage (Chat Completions or Responses API).
+ * OpenRouter reports cache writes as prompt_tokens_details.cache_write_tokens.
+ */
+export function getOpenAICacheUsage(usage: any): CacheUsage {
+  const details = usage?.prompt_tokens_details || usage?.input_tokens_details;
+  return {
+    cacheReadTokens: details?.cached_tokens || 0,
+    cacheCreationTokens: details?.cache_write_tokens || 0,
+  };
+}
+
+/**
+ * Read cache usage from Gemini usageMetadata
+ * @param createdTokens - Tokens of a cachedContents entry created for this request
+ */
+export function getGeminiCacheUsage(usageMetadata: any, createdTokens = 0): CacheUsage {
+  const cached = usageMetadata?.cachedContentTokenCount || 0;
+  if (createdTokens > 0) {
+    return {
+      cacheReadTokens: Math.max(0, cached - createdTokens),
+      cacheCreationTokens: Math.min(cached, createdTokens),
+    };
+  }
+  return { cacheReadTokens: cached, cacheCreationTokens: 0 };
+}
+
+/**
+ * Read Anthropic-format usage, where input_tokens excludes cached tokens
+ * @returns Total prompt tokens (including cached) and the cache breakdown
+ */
+export function fromAnthropicUsage(usage: any): { inputTokens: number; cache: CacheUsage } {
+  const cache: CacheUsage = {
+    cacheReadTokens: usage?.cache_read_input_tokens || 0,
+    cacheCreationTokens: usage?.cache_creation_input_tokens || 0,
+  };
+  return {
+    inputTokens: (usage?.input_tokens || 0) + cache.cacheReadTokens + cache.cacheCreationTokens,
+    cache,
+  };
+}
+
+/**
+ * Convert provider usage (prompt tokens including cached ones) to Anthropic format
+ */
+export function toAnthropicUsage(
+  promptTokens: number,
+  outputTokens: number,
+  cache: CacheUsage = NO_CACHE_USAGE
+): AnthropicUsage {
+  return {
+    input_tokens: Math.max(0, promptTokens - cache.cacheReadTokens - cache.cacheCreationTokens),
+    output_tokens: outputTokens,
+    cache_creation_input_tokens: cache.cacheCreationTokens,
+    cache_read_input_tokens: cache.cacheReadTokens,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Queue Events
+ *
+ * Lets observers (e.g. the /metrics endpoint) see how long requests wait in
+ * the shared request queues and how often upstream requests are retried,
+ * without the queues knowing who is listening.
+ */
+
+import { log } from "../../logger.js";
+
+/** Which shared queue (or retry loop) an event came from */
+export type QueueName = "openrouter" | "local" | "gemini";
+
+/** Why an upstream request was sent again */
+export type RetryReason = "rate_limit" | "network" | "oom";
+
+export type QueueWaitListener = (queue: QueueName, waitMs: number) => void;
+export type UpstreamRetryListener = (queue: QueueName, reason: RetryReason) => void;
+
+const waitListeners = new Set<QueueWaitListener>();
+const retryListeners = new Set<UpstreamRetryListener>();
+
+/**
+ * Subscribe to queue waits (time from enqueue until the request is sent)
+ * @returns Function that removes the listener
+ */
+export function onQueueWait(listener: QueueWaitListener): () => void {
+  waitListeners.add(listener);
+  return () => {
+    waitListeners.delete(listener);
+  };
+}
+
+/**
+ * Subscribe to upstream retries
+ * @returns Function that removes the listener
+ */
+export function onUpstreamRetry(listener: UpstreamRetryListener): () => void {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+}
+
+/**
+ * Notify listeners that a queued request is about to be sent
+ */
+export function notifyQueueWait(queue: QueueName, enqueuedAt: number): void {
+  const waitMs = Date.now() - enqueuedAt;
+  for (const listener of waitListeners) {
+    try {
+      listener(queue, waitMs);
+    } catch (e) {
+      log(`[QueueEvents] Listener error: ${e}`);
+    }
+  }
+}
+
+/**
+ * Notify listeners that an upstream request is being retried
+ */
+export function notifyUpstreamRetry(queue: QueueName, reason: RetryReason): void {
+  for (const listener of retryListeners) {
+    try {
+      listener(queue, reason);
+    } catch (e) {
+      log(`[QueueEvents] Listener error: ${e}`);
+    }
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Reasoning translation
+ *
+ * Upstreams expose reasoning in different shapes:
+ * - OpenRouter: `reasoning_details` (and plain `reasoning`) deltas
+ * - OpenAI Responses API: reasoning summary events
+ * - Gemini: parts flagged with `thought: true`
+ * - DeepSeek, Qwen, vLLM, Ollama: `reasoning_content` / `thinking` fields
+ * - Local models without a reasoning parser: `<think>...</think>` in the text
+ *
+ * Handlers feed it to a ReasoningBlock, which renders it for Claude Code in
+ * the configured mode:
+ * - show: Anthropic `thinking` content blocks, signed so Claude Code keeps
+ *   them in the conversation and sends them back
+ * - hide: dropped
+ * - text: a text block wrapped in <thinking> tags
+ *
+ * Claude Code returns thinking blocks on later turns. The OpenAI and Gemini
+ * converters ignore them; passthrough handlers remove the ones claudish
+ * signed (stripClaudishThinking) because Anthropic would reject the signature.
+ */
+
+import { createHash } from "node:crypto";
+
+export type ReasoningMode = "show" | "hide" | "text";
+
+export const REASONING_MODES: ReasoningMode[] = ["show", "hide", "text"];
+
+let reasoningMode: ReasoningMode = "show";
+
+export function isReasoningMode(value: string): value is ReasoningMode {
+  return (REASONING_MODES as string[]).includes(value);
+}
+
+/**
+ * How upstream reasoning is shown to Claude Code (default: show)
+ */
+export function getReasoningMode(): ReasoningMode {
+  return reasoningMode;
+}
+
+export function setReasoningMode(mode: ReasoningMode): void {
+  reasoningMode = mode;
+}
+
+/** Prefix of signatures on thinking blocks translated by claudish */
+export const REASONING_SIGNATURE_PREFIX = "claudish.";
+
+export interface ReasoningSignature {
+  /** Model that produced the reasoning */
+  model: string;
+  /** sha256 of the thinking text (first 16 hex chars) */
+  digest: string;
+}
+
+function digestThinking(thinking: string): string {
+  return createHash("sha256").update(thinking).digest("hex").slice(0, 16);
+}
+
+/**
+ * Signature for a translated thinking block. Claude Code only replays
+ * thinking blocks that carry a signature.
+ */
+export function createReasoningSignature(model: string, thinking: string): string {
+  const payload: ReasoningSignature = { model, digest: digestThinking(thinking) };
+  return `${REASONING_SIGNATURE_PREFIX}${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+}
+
+/**
+ * Decode a claudish signature, or null for signatures from other sources
+ */
+export function parseReasoningSignature(signature: unknown): ReasoningSignature | null {
+  if (typeof signature !== "string" || !signature.startsWith(REASONING_SIGNATURE_PREFIX)) {
+    return null;
+  }
+  try {
+    const encoded = signature.slice(REASONING_SIGNATURE_PREFIX.length);
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+    if (typeof payload?.model !== "string" || typeof payload?.digest !== "string") return null;
+    return { model: payload.model, digest: payload.digest };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that a thinking block was signed by claudish and not edited since
+ */
+export function verifyReasoningSignature(block: {
+  thinking?: string;
+  signature?: string;
+}): boolean {
+  const parsed = parseReasoningSignature(block.signature);
+  return !!parsed && parsed.digest === digestThinking(block.thinking || "");
+}
+
+/**
+ * Remove thinking blocks claudish signed from a Messages API payload, for
+ * upstreams that validate signatures (Anthropic and Anthropic-compatible APIs).
+ * Returns the payload unchanged when there are none.
+ */
+export function stripClaudishThinking<T extends { messages?: any[] }>(payload: T): T {
+  const isClaudishThinking = (block: any) =>
+    block?.type === "thinking" && parseReasoningSignature(block.signature) !== null;
+  if (
+    !payload.messages?.some(
+      (msg) => Array.isArray(msg.content) && msg.content.some(isClaudishThinking)
+    )
+  ) {
+    return payload;
+  }
+
+  const messages = payload.messages.map((msg) =>
+    Array.isArray(msg.content)
+      ? { ...msg, content: msg.content.filter((block: any) => !isClaudishThinking(block)) }
+      : msg
+  );
+  return { ...payload, messages };
+}
+
+type SendEvent = (event: string, data: any) => void;
+
+/**
+ * One reasoning content block in a translated stream. Reasoning deltas are
+ * appended until the handler closes the block before starting the next one.
+ */
+export class ReasoningBlock {
+  private index = -1;
+  private open = false;
+  private thinking = "";
+
+  constructor(
+    private send: SendEvent,
+    private model: string,
+    readonly mode: ReasoningMode = getReasoningMode()
+  ) {}
+
+  /** Whether reasoning produces content blocks in this mode */
+  get visible(): boolean {
+    return this.mode !== "hide";
+  }
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Stream reasoning text, starting a block at nextIndex() if none is open
+   */
+  append(text: string, nextIndex: () => number): void {
+    if (!text || !this.visible) return;
+
+    if (!this.open) {
+      this.index = nextIndex();
+      this.open = true;
+      this.thinking = "";
+      this.send("content_block_start", {
+        type: "content_block_start",
+        index: this.index,
+        content_block:
+          this.mode === "show" ? { type: "thinking", thinking: "" } : { type: "text", text: "" },
+      });
+      if (this.mode === "text") this.sendText("<thinking>\n");
+    }
+
+    this.thinking += text;
+    if (this.mode === "show") {
+      this.send("content_block_delta", {
+        type: "content_block_delta",
+        index: this.index,
+        delta: { type: "thinking_delta", thinking: text },
+      });
+    } else {
+      this.sendText(text);
+    }
+  }
+
+  /**
+   * Close the open block (signing it in show mode)
+   * @returns Whether a block was closed
+   */
+  close(): boolean {
+    if (!this.open) return false;
+    if (this.mode === "show") {
+      this.send("content_block_delta", {
+        type: "content_block_delta",
+        index: this.index,
+        delta: {
+          type: "signature_delta",
+          signature: createReasoningSignature(this.model, this.thinking),
+        },
+      });
+    } else {
+      this.sendText("\n</thinking>");
+    }
+    this.send("content_block_stop", { type: "content_block_stop", index: this.index });
+    this.open = false;
+    return true;
+  }
+
+  private sendText(text: string): void {
+    this.send("content_block_delta", {
+      type: "content_block_delta",
+      index: this.index,
+      delta: { type: "text_delta", text },
+    });
+  }
+}
+
+export interface TextSegment {
+  reasoning: boolean;
+  text: string;
+}
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * Splits streamed text into reasoning and answer segments for models that
+ * wrap their reasoning in <think> tags. Only a tag at the start of the
+ * output opens reasoning, so answers that mention <think> are left alone.
+ * Tags split across deltas are held back until the next delta.
+ */
+export class ThinkTagParser {
+  private state: "start" | "reasoning" | "answer" = "start";
+  private pending = "";
+  private trimAnswer = false;
+
+  push(chunk: string): TextSegment[] {
+    let buffer = this.pending + chunk;
+    this.pending = "";
+    const segments: TextSegment[] = [];
+    if (this.state === "start") buffer = this.readOpeningTag(buffer);
+    if (this.state === "reasoning") buffer = this.readReasoning(buffer, segments);
+    if (this.state === "answer") this.pushAnswer(buffer, segments);
+    return segments;
+  }
+
+  /**
+   * Release text held back at the end of the stream
+   */
+  flush(): TextSegment[] {
+    const segments: TextSegment[] = [];
+    if (this.pending) segments.push({ reasoning: this.state === "reasoning", text: this.pending });
+    this.pending = "";
+    return segments;
+  }
+
+  /**
+   * Consume a leading <think> tag. Returns the text after it, or holds the
+   * text back while it could still become one.
+   */
+  private readOpeningTag(buffer: string): string {
+    const trimmed = buffer.trimStart();
+    if (trimmed.startsWith(THINK_OPEN)) {
+      this.state = "reasoning";
+      return trimmed.slice(THINK_OPEN.length);
+    }
+    if (THINK_OPEN.startsWith(trimmed)) {
+      this.pending = buffer;
+      return "";
+    }
+    this.state = "answer";
+    return buffer;
+  }
+
+  /**
+   * Emit reasoning up to </think> and return the answer text after it
+   */
+  private readReasoning(buffer: string, segments: TextSegment[]): string {
+    const end = buffer.indexOf(THINK_CLOSE);
+    if (end === -1) {
+      const keep = partialTagLength(buffer, THINK_CLOSE);
+      this.pending = buffer.slice(buffer.length - keep);
+      if (buffer.length > keep) {
+        segments.push({ reasoning: true, text: buffer.slice(0, buffer.length - keep) });
+      }
+      return "";
+    }
+    if (end > 0) segments.push({ reasoning: true, text: buffer.slice(0, end) });
+    this.state = "answer";
+    this.trimAnswer = true;
+    return buffer.slice(end + THINK_CLOSE.length);
+  }
+
+  private pushAnswer(text: string, segments: TextSegment[]): void {
+    // Drop the blank lines models put between </think> and the answer
+    const answer = this.trimAnswer ? text.trimStart() : text;
+    if (!answer) return;
+    this.trimAnswer = false;
+    segments.push({ reasoning: false, text: answer });
+  }
+}
+
+/**
+ * Length of the longest suffix of text that is a prefix of tag
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+}
@@ -11,16 +11,26 @@ import { homedir } from "node:os";
 import { join } from "node:path";
 import type { ModelHandler } from "../types.js";
 import { AdapterManager } from "../../adapters/adapter-manager.js";
-import { MiddlewareManager, GeminiThoughtSignatureMiddleware } from "../../middleware/index.js";
+import {
+  MiddlewareManager,
+  GeminiThoughtSignatureMiddleware,
+  RedactionMiddleware,
+} from "../../middleware/index.js";
 import { transformOpenAIToClaude } from "../../transform.js";
 import { log, logStructured, getLogLevel, truncateContent } from "../../logger.js";
+import { recordCost } from "../../services/cost-ledger.js";
 import {
   convertMessagesToOpenAI,
   convertToolsToOpenAI,
   createStreamingResponseHandler,
   filterIdentity,
 } from "./openai-compat.js";
-import type { RemoteProviderConfig, ModelPricing } from "./remote-provider-types.js";
+import { type CacheUsage, NO_CACHE_USAGE } from "./prompt-cache.js";
+import {
+  type ModelPricing,
+  type RemoteProviderConfig,
+  calculateCostFromPricing,
+} from "./remote-provider-types.js";
 
 /**
  * Abstract base class for remote API providers
@@ -42,20 +52,21 @@ export abstract class RemoteProviderHandler implements ModelHandler {
   protected apiKey: string;
   protected adapterManager: AdapterManager;
   protected middlewareManager: MiddlewareManager;
-  protected port: number;
+  protected port: number | string;
   protected sessionTotalCost = 0;
   protected sessionInputTokens = 0;
   protected sessionOutputTokens = 0;
   protected contextWindow = 200000; // Default, can be updated by subclass
   protected CLAUDE_INTERNAL_CONTEXT_MAX = 200000;
 
-  constructor(targetModel: string, modelName: string, apiKey: string, port: number) {
+  constructor(targetModel: string, modelName: string, apiKey: string, port: number | string) {
     this.targetModel = targetModel;
     this.modelName = modelName;
     this.apiKey = apiKey;
     this.port = port;
     this.adapterManager = new AdapterManager(targetModel);
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
     this.middlewareManager.register(new GeminiThoughtSignatureMiddleware());
     this.middlewareManager
       .initialize()
@@ -146,15 +157,32 @@ export abstract class RemoteProviderHandler implements ModelHandler {
   /**
    * Update token counts and cost tracking
    */
-  protected updateTokenTracking(inputTokens: number, outputTokens: number): void {
+  protected updateTokenTracking(
+    inputTokens: number,
+    outputTokens: number,
+    cache: CacheUsage = NO_CACHE_USAGE
+  ): void {
     this.sessionInputTokens = inputTokens;
     this.sessionOutputTokens += outputTokens;
 
     const pricing = this.getPricing();
-    const cost =
-      (inputTokens / 1_000_000) * pricing.inputCostPer1M +
-      (outputTokens / 1_000_000) * pricing.outputCostPer1M;
+    const cost = calculateCostFromPricing(
+      pricing,
+      inputTokens,
+      outputTokens,
+      cache.cacheReadTokens,
+      cache.cacheCreationTokens
+    );
     this.sessionTotalCost += cost;
+    recordCost({
+      provider: this.getProviderConfig().name,
+      model: this.modelName,
+      inputTokens,
+      outputTokens,
+      cachedTokens: cache.cacheReadTokens,
+      cost,
+      estimated: pricing.isEstimate,
+    });
 
     this.writeTokenFile(inputTokens, this.sessionOutputTokens);
   }
@@ -190,12 +218,19 @@ export abstract class RemoteProviderHandler implements ModelHandler {
       adapter,
       this.targetModel,
       this.middlewareManager,
-      (input, output) => this.updateTokenTracking(input, output),
+      (input, output, cache) => this.updateTokenTracking(input, output, cache),
       claudeRequest.tools,
       toolNameMap
     );
   }
 
+  /**
+   * Context window of the target model
+   */
+  async getContextWindow(): Promise<number> {
+    return this.contextWindow;
+  }
+
   /**
    * Main request handler
    */
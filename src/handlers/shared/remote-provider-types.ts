@@ -5,6 +5,11 @@
  * that use streaming HTTP APIs.
  */
 
+import {
+  type CustomProviderProtocol,
+  getCustomProviderPricing,
+} from "../../providers/custom-providers.js";
+
 /**
  * Configuration for a remote API provider
  */
@@ -29,6 +34,10 @@ export interface ModelPricing {
   inputCostPer1M: number;
   /** Cost per 1M output tokens in USD */
   outputCostPer1M: number;
+  /** Cost per 1M prompt tokens read from cache (defaults to the input price) */
+  cacheReadCostPer1M?: number;
+  /** Cost per 1M prompt tokens written to cache (defaults to the input price) */
+  cacheWriteCostPer1M?: number;
   /** Whether this pricing is an estimate (not from official sources) */
   isEstimate?: boolean;
   /** Whether this model is free (e.g., OAuth-based Code Assist sessions) */
@@ -61,6 +70,8 @@ export interface RemoteProvider {
   capabilities: ProviderCapabilities;
   /** Optional custom headers */
   headers?: Record<string, string>;
+  /** Wire protocol of providers declared in ~/.claudish/config.json */
+  protocol?: CustomProviderProtocol;
 }
 
 /**
@@ -79,12 +90,22 @@ export interface ResolvedRemoteProvider {
  * Prices are in USD per 1M tokens.
  */
 export const PROVIDER_DEFAULTS: Record<string, ModelPricing> = {
-  gemini:      { inputCostPer1M: 0.5,  outputCostPer1M: 2.0,  isEstimate: true },
-  openai:      { inputCostPer1M: 2.0,  outputCostPer1M: 8.0,  isEstimate: true },
+  gemini:      { inputCostPer1M: 0.5,  outputCostPer1M: 2.0,  cacheReadCostPer1M: 0.125, isEstimate: true },
+  openai:      { inputCostPer1M: 2.0,  outputCostPer1M: 8.0,  cacheReadCostPer1M: 0.5,   isEstimate: true },
   minimax:     { inputCostPer1M: 0.12, outputCostPer1M: 0.48, isEstimate: true },
   kimi:        { inputCostPer1M: 0.32, outputCostPer1M: 0.48, isEstimate: true },
   glm:         { inputCostPer1M: 0.16, outputCostPer1M: 0.8,  isEstimate: true },
   ollamacloud: { inputCostPer1M: 1.0,  outputCostPer1M: 4.0,  isEstimate: true },
+  anthropic:   { inputCostPer1M: 3.0,  outputCostPer1M: 15.0, cacheReadCostPer1M: 0.3,   isEstimate: true },
+};
+
+/**
+ * Share of the input price charged for prompt tokens read from cache by
+ * direct providers, for pricing that doesn't list a cache-read price
+ */
+const CACHE_READ_PRICE_RATIO: Record<string, number> = {
+  gemini: 0.25,
+  openai: 0.25,
 };
 
 // Free providers — always return free pricing regardless of model
@@ -125,7 +146,8 @@ export function registerDynamicPricingLookup(
  * Lookup order:
  *   1. Free providers → free pricing
  *   2. Dynamic pricing cache (if registered, populated from OpenRouter API)
- *   3. Provider default (isEstimate: true)
+ *   3. Pricing declared by a custom provider in config.json
+ *   4. Provider default (isEstimate: true)
  */
 export function getModelPricing(provider: string, modelName: string): ModelPricing {
   const p = provider.toLowerCase();
@@ -140,17 +162,51 @@ export function getModelPricing(provider: string, modelName: string): ModelPrici
     return { inputCostPer1M: 0, outputCostPer1M: 0, isSubscription: true };
   }
 
+  const canonical = PROVIDER_ALIAS[p] || p;
+
   // 2. Dynamic pricing cache
   if (_dynamicLookup) {
     const dynamic = _dynamicLookup(p, modelName);
-    if (dynamic) return dynamic;
+    if (dynamic) return withCacheReadPrice(canonical, dynamic);
   }
 
-  // 3. Provider defaults with alias resolution
-  const canonical = PROVIDER_ALIAS[p] || p;
+  // 3. Custom provider pricing
+  const custom = getCustomProviderPricing(p);
+  if (custom) return custom;
+
+  // 4. Provider defaults with alias resolution
   return PROVIDER_DEFAULTS[canonical] || { inputCostPer1M: 1.0, outputCostPer1M: 4.0, isEstimate: true };
 }
 
+/**
+ * Fill in the cache-read price of a direct provider when pricing lacks one
+ */
+function withCacheReadPrice(provider: string, pricing: ModelPricing): ModelPricing {
+  const ratio = CACHE_READ_PRICE_RATIO[provider];
+  if (ratio === undefined || pricing.cacheReadCostPer1M !== undefined) return pricing;
+  return { ...pricing, cacheReadCostPer1M: pricing.inputCostPer1M * ratio };
+}
+
+/**
+ * Calculate cost from pricing. inputTokens is the full prompt, including any
+ * tokens read from or written to a prompt cache.
+ */
+export function calculateCostFromPricing(
+  pricing: ModelPricing,
+  inputTokens: number,
+  outputTokens: number,
+  cacheReadTokens = 0,
+  cacheWriteTokens = 0
+): number {
+  const uncachedTokens = Math.max(0, inputTokens - cacheReadTokens - cacheWriteTokens);
+  const inputCost =
+    (uncachedTokens / 1_000_000) * pricing.inputCostPer1M +
+    (cacheReadTokens / 1_000_000) * (pricing.cacheReadCostPer1M ?? pricing.inputCostPer1M) +
+    (cacheWriteTokens / 1_000_000) * (pricing.cacheWriteCostPer1M ?? pricing.inputCostPer1M);
+  const outputCost = (outputTokens / 1_000_000) * pricing.outputCostPer1M;
+  return inputCost + outputCost;
+}
+
 /**
  * Calculate cost based on token usage
  */
@@ -158,10 +214,16 @@ export function calculateCost(
   provider: string,
   modelName: string,
   inputTokens: number,
-  outputTokens: number
+  outputTokens: number,
+  cacheReadTokens = 0,
+  cacheWriteTokens = 0
 ): number {
   const pricing = getModelPricing(provider, modelName);
-  const inputCost = (inputTokens / 1_000_000) * pricing.inputCostPer1M;
-  const outputCost = (outputTokens / 1_000_000) * pricing.outputCostPer1M;
-  return inputCost + outputCost;
+  return calculateCostFromPricing(
+    pricing,
+    inputTokens,
+    outputTokens,
+    cacheReadTokens,
+    cacheWriteTokens
+  );
 }
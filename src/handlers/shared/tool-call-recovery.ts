@@ -26,6 +26,40 @@ export interface ToolSchema {
   };
 }
 
+/**
+ * How a tool call was recovered: arguments completed with inferred
+ * parameters, or the whole call extracted from the model's text output
+ */
+export type ToolCallRecoveryKind = "repaired" | "extracted";
+
+export type ToolCallRecoveryListener = (kind: ToolCallRecoveryKind, toolName: string) => void;
+
+const recoveryListeners = new Set<ToolCallRecoveryListener>();
+
+/**
+ * Subscribe to recovered tool calls (e.g. for `claudish bench`)
+ * @returns Function that removes the listener
+ */
+export function onToolCallRecovered(listener: ToolCallRecoveryListener): () => void {
+  recoveryListeners.add(listener);
+  return () => {
+    recoveryListeners.delete(listener);
+  };
+}
+
+/**
+ * Notify listeners that a tool call had to be recovered
+ */
+export function notifyToolCallRecovered(kind: ToolCallRecoveryKind, toolName: string): void {
+  for (const listener of recoveryListeners) {
+    try {
+      listener(kind, toolName);
+    } catch (e) {
+      log(`[ToolRecovery] Listener error: ${e}`);
+    }
+  }
+}
+
 /**
  * Extract tool calls from text content
  * Many local models output tool calls as JSON in their text rather than using structured tool_calls
@@ -610,6 +644,7 @@ export function validateAndRepairToolCall(
 
   if (stillMissing.length === 0) {
     log(`[ToolRecovery] Successfully repaired tool call ${toolName}`);
+    notifyToolCallRecovered("repaired", toolName);
     return { valid: true, args: repairedArgs, repaired: true, missingParams: [] };
   }
 
@@ -3,4 +3,6 @@ import type { Context } from "hono";
 export interface ModelHandler {
   handle(c: Context, payload: any): Promise<Response>;
   shutdown(): Promise<void>;
+  /** Context window of the target model, for handlers that know it (used by --compact) */
+  getContextWindow?(): Promise<number>;
 }
@@ -17,11 +17,21 @@ import { AdapterManager } from "../adapters/adapter-manager.js";
 import {
   MiddlewareManager,
   GeminiThoughtSignatureMiddleware,
+  RedactionMiddleware,
 } from "../middleware/index.js";
 import { transformOpenAIToClaude } from "../transform.js";
 import { log, logStructured } from "../logger.js";
+import { recordCost } from "../services/cost-ledger.js";
 import { filterIdentity } from "./shared/openai-compat.js";
 import {
+  type CacheUsage,
+  NO_CACHE_USAGE,
+  getGeminiCacheUsage,
+  toAnthropicUsage,
+} from "./shared/prompt-cache.js";
+import { ReasoningBlock, getReasoningMode } from "./shared/reasoning.js";
+import {
+  calculateCostFromPricing,
   getModelPricing,
   type ModelPricing,
 } from "./shared/remote-provider-types.js";
@@ -57,7 +67,7 @@ function parseVertexModel(modelId: string): ParsedVertexModel {
  */
 export class VertexOAuthHandler implements ModelHandler {
   private modelName: string;
-  private port: number;
+  private port: number | string;
   private config: VertexConfig;
   private parsed: ParsedVertexModel;
   private adapterManager: AdapterManager;
@@ -68,7 +78,7 @@ export class VertexOAuthHandler implements ModelHandler {
   private contextWindow = 1000000;
   private toolCallMap = new Map<string, { name: string; thoughtSignature?: string }>();
 
-  constructor(modelName: string, port: number) {
+  constructor(modelName: string, port: number | string) {
     this.modelName = modelName;
     this.port = port;
     this.config = getVertexConfig()!;
@@ -76,6 +86,7 @@ export class VertexOAuthHandler implements ModelHandler {
 
     this.adapterManager = new AdapterManager(`vertex/${modelName}`);
     this.middlewareManager = new MiddlewareManager();
+    this.middlewareManager.register(new RedactionMiddleware());
 
     if (this.parsed.publisher === "google") {
       this.middlewareManager.register(new GeminiThoughtSignatureMiddleware());
@@ -129,15 +140,32 @@ export class VertexOAuthHandler implements ModelHandler {
     }
   }
 
-  private updateTokenTracking(inputTokens: number, outputTokens: number): void {
+  private updateTokenTracking(
+    inputTokens: number,
+    outputTokens: number,
+    cache: CacheUsage = NO_CACHE_USAGE
+  ): void {
     this.sessionInputTokens = inputTokens;
     this.sessionOutputTokens += outputTokens;
 
     const pricing = this.getPricing();
-    const cost =
-      (inputTokens / 1_000_000) * pricing.inputCostPer1M +
-      (outputTokens / 1_000_000) * pricing.outputCostPer1M;
+    const cost = calculateCostFromPricing(
+      pricing,
+      inputTokens,
+      outputTokens,
+      cache.cacheReadTokens,
+      cache.cacheCreationTokens
+    );
     this.sessionTotalCost += cost;
+    recordCost({
+      provider: "vertex",
+      model: this.modelName,
+      inputTokens,
+      outputTokens,
+      cachedTokens: cache.cacheReadTokens,
+      cost,
+      estimated: pricing.isEstimate,
+    });
 
     this.writeTokenFile(inputTokens, this.sessionOutputTokens);
   }
@@ -198,6 +226,10 @@ export class VertexOAuthHandler implements ModelHandler {
           thinkingBudget: Math.min(budget_tokens, MAX_GEMINI_BUDGET),
         };
       }
+      // Thought summaries are only streamed when requested
+      if (getReasoningMode() !== "hide") {
+        payload.generationConfig.thinkingConfig.includeThoughts = true;
+      }
     }
 
     return payload;
@@ -469,11 +501,10 @@ export class VertexOAuthHandler implements ModelHandler {
           let finalized = false;
           let textStarted = false;
           let textIdx = -1;
-          let thinkingStarted = false;
-          let thinkingIdx = -1;
           let curIdx = 0;
           const tools = new Map<number, any>();
           let lastActivity = Date.now();
+          const reasoning = new ReasoningBlock(send, `vertex/${this.modelName}`);
 
           send("message_start", {
             type: "message_start",
@@ -499,7 +530,7 @@ export class VertexOAuthHandler implements ModelHandler {
             if (finalized) return;
             finalized = true;
 
-            if (thinkingStarted) send("content_block_stop", { type: "content_block_stop", index: thinkingIdx });
+            reasoning.close();
             if (textStarted) send("content_block_stop", { type: "content_block_stop", index: textIdx });
 
             for (const t of Array.from(tools.values())) {
@@ -509,8 +540,13 @@ export class VertexOAuthHandler implements ModelHandler {
               }
             }
 
+            const cacheUsage = getGeminiCacheUsage(usage);
             if (usage) {
-              this.updateTokenTracking(usage.promptTokenCount || 0, usage.candidatesTokenCount || 0);
+              this.updateTokenTracking(
+                usage.promptTokenCount || 0,
+                usage.candidatesTokenCount || 0,
+                cacheUsage
+              );
             }
 
             if (reason === "error") {
@@ -520,7 +556,13 @@ export class VertexOAuthHandler implements ModelHandler {
               send("message_delta", {
                 type: "message_delta",
                 delta: { stop_reason: hasToolCalls ? "tool_use" : "end_turn", stop_sequence: null },
-                usage: { output_tokens: usage?.candidatesTokenCount || 0 },
+                usage: usage
+                  ? toAnthropicUsage(
+                      usage.promptTokenCount || 0,
+                      usage.candidatesTokenCount || 0,
+                      cacheUsage
+                    )
+                  : { output_tokens: 0 },
               });
               send("message_stop", { type: "message_stop" });
             }
@@ -564,29 +606,17 @@ export class VertexOAuthHandler implements ModelHandler {
                     for (const part of candidate.content.parts) {
                       lastActivity = Date.now();
 
-                      if (part.thought || part.thoughtText) {
-                        const thinkingContent = part.thought || part.thoughtText;
-                        if (!thinkingStarted) {
-                          thinkingIdx = curIdx++;
-                          send("content_block_start", {
-                            type: "content_block_start",
-                            index: thinkingIdx,
-                            content_block: { type: "thinking", thinking: "" },
-                          });
-                          thinkingStarted = true;
+                      // Thought summaries: parts flagged thought: true carry reasoning in text
+                      if (part.thought) {
+                        if (reasoning.visible && !reasoning.isOpen && textStarted) {
+                          send("content_block_stop", { type: "content_block_stop", index: textIdx });
+                          textStarted = false;
                         }
-                        send("content_block_delta", {
-                          type: "content_block_delta",
-                          index: thinkingIdx,
-                          delta: { type: "thinking_delta", thinking: thinkingContent },
-                        });
+                        reasoning.append(part.text || "", () => curIdx++);
                       }
 
-                      if (part.text) {
-                        if (thinkingStarted) {
-                          send("content_block_stop", { type: "content_block_stop", index: thinkingIdx });
-                          thinkingStarted = false;
-                        }
+                      if (part.text && !part.thought) {
+                        reasoning.close();
 
                         if (!textStarted) {
                           textIdx = curIdx++;
@@ -605,10 +635,7 @@ export class VertexOAuthHandler implements ModelHandler {
                       }
 
                       if (part.functionCall) {
-                        if (thinkingStarted) {
-                          send("content_block_stop", { type: "content_block_stop", index: thinkingIdx });
-                          thinkingStarted = false;
-                        }
+                        reasoning.close();
                         if (textStarted) {
                           send("content_block_stop", { type: "content_block_stop", index: textIdx });
                           textStarted = false;
@@ -831,6 +858,13 @@ export class VertexOAuthHandler implements ModelHandler {
     );
   }
 
+  /**
+   * Context window of the target model
+   */
+  async getContextWindow(): Promise<number> {
+    return this.contextWindow;
+  }
+
   /**
    * Main request handler
    */
@@ -867,6 +901,12 @@ export class VertexOAuthHandler implements ModelHandler {
 
     // Build request
     const requestPayload = this.buildPayload(claudeRequest);
+    await this.middlewareManager.beforeRequest({
+      modelId: `vertex/${this.modelName}`,
+      messages: requestPayload.contents || requestPayload.messages,
+      tools: requestPayload.tools,
+      stream: true,
+    });
     const endpoint = this.getApiEndpoint();
 
     log(`[VertexOAuth] Calling API: ${endpoint}`);
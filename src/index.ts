@@ -16,6 +16,8 @@ const isGeminiLogin = args.includes("--gemini-login");
 const isGeminiLogout = args.includes("--gemini-logout");
 const isKimiLogin = args.includes("--kimi-login");
 const isKimiLogout = args.includes("--kimi-logout");
+// Headless OAuth login: print the URL instead of opening a browser
+const noBrowser = args.includes("--no-browser") || args.includes("--device") || undefined;
 
 if (isMcpMode) {
   // MCP server mode - dynamic import to keep CLI fast
@@ -25,7 +27,7 @@ if (isMcpMode) {
   import("./auth/gemini-oauth.js").then(async ({ GeminiOAuth }) => {
     try {
       const oauth = GeminiOAuth.getInstance();
-      await oauth.login();
+      await oauth.login({ noBrowser });
       console.log("\n✅ Gemini OAuth login successful!");
       console.log("You can now use Gemini Code Assist with: claudish --model go@gemini-2.5-flash");
       process.exit(0);
@@ -52,7 +54,7 @@ if (isMcpMode) {
   import("./auth/kimi-oauth.js").then(async ({ KimiOAuth }) => {
     try {
       const oauth = KimiOAuth.getInstance();
-      await oauth.login();
+      await oauth.login({ noBrowser });
       console.log("\n✅ Kimi OAuth login successful!");
       console.log("You can now use Kimi with: claudish --model kimi@kimi-k2-thinking-turbo");
       process.exit(0);
@@ -74,12 +76,38 @@ if (isMcpMode) {
       process.exit(1);
     }
   });
+} else if (firstArg === "auth") {
+  // Provider credentials (API keys and OAuth logins) in the credential store
+  import("./auth-command.js").then((ac) => ac.authCommand(args.slice(1)));
 } else if (firstArg === "init") {
   // Profile setup wizard
   import("./profile-commands.js").then((pc) => pc.initCommand());
 } else if (firstArg === "profile") {
   // Profile management commands
   import("./profile-commands.js").then((pc) => pc.profileCommand(args.slice(1)));
+} else if (firstArg === "costs") {
+  // Cost ledger report
+  import("./costs-command.js").then((cc) => cc.costsCommand(args.slice(1)));
+} else if (firstArg === "mock-upstream") {
+  // Local mock of the provider APIs for integration tests
+  import("./mock-upstream-command.js").then((mc) => mc.mockUpstreamCommand(args.slice(1)));
+} else if (firstArg === "bench") {
+  // Tool-call reliability bench
+  import("./bench-command.js").then((bc) => bc.benchCommand(args.slice(1)));
+} else if (firstArg === "validate") {
+  // Lint .claude/ agents, commands, skills and CLAUDE.md
+  import("./validate-command.js").then((vc) => vc.validateCommand(args.slice(1)));
+} else if (firstArg === "serve") {
+  // Shared proxy daemon for all claudish sessions
+  import("./serve-command.js").then((sc) => sc.serveCommand(args.slice(1)));
+} else if (firstArg === "top") {
+  // Live view of a running proxy's traffic
+  import("./top-command.js").then((tc) => tc.topCommand(args.slice(1)));
+} else if (args.includes("--audit-costs") || args.includes("--reset-costs")) {
+  // Legacy cost flags - aliases for `claudish costs` and `claudish costs reset`
+  import("./costs-command.js").then((cc) =>
+    cc.costsCommand(args.includes("--reset-costs") ? ["reset"] : [])
+  );
 } else {
   // CLI mode
   runCli();
@@ -94,15 +122,20 @@ async function runCli() {
   const { DEFAULT_PORT_RANGE } = await import("./config.js");
   const { selectModel, promptForApiKey } = await import("./model-selector.js");
   const {
-    resolveModelProvider,
+    resolveFallbackChain,
     validateApiKeysForModels,
     getMissingKeyResolutions,
     getMissingKeysError,
+    getPolicyError,
   } = await import("./providers/provider-resolver.js");
   const { initLogger, getLogFilePath } = await import("./logger.js");
   const { findAvailablePort } = await import("./port-manager.js");
   const { createProxyServer } = await import("./proxy-server.js");
+  const { attachToDaemon } = await import("./services/proxy-daemon.js");
+  const { resolve } = await import("node:path");
   const { checkForUpdates } = await import("./update-checker.js");
+  const { applyStoredApiKeys } = await import("./auth/credential-store.js");
+  const { unlockCredentialStore } = await import("./auth-command.js");
 
   /**
    * Read content from stdin
@@ -116,6 +149,10 @@ async function runCli() {
   }
 
   try {
+    // Keys saved with `claudish auth login` (environment variables win)
+    await unlockCredentialStore();
+    applyStoredApiKeys();
+
     // Parse CLI arguments
     const cliConfig = await parseArgs(process.argv.slice(2));
 
@@ -151,6 +188,18 @@ async function runCli() {
       process.exit(1);
     }
 
+    // Replay needs no real credentials and defaults to the recorded model
+    if (cliConfig.replayDir) {
+      const { applyReplayCredentials, getFirstRecordedTarget } = await import(
+        "./services/session-recorder.js"
+      );
+      applyReplayCredentials();
+      cliConfig.openrouterApiKey = cliConfig.openrouterApiKey || process.env.OPENROUTER_API_KEY;
+      if (!cliConfig.model && !cliConfig.monitor) {
+        cliConfig.model = getFirstRecordedTarget(cliConfig.replayDir);
+      }
+    }
+
     // Show interactive model selector ONLY in interactive mode when model not specified
     if (cliConfig.interactive && !cliConfig.monitor && !cliConfig.model) {
       cliConfig.model = await selectModel({ freeOnly: cliConfig.freeOnly });
@@ -167,15 +216,19 @@ async function runCli() {
 
     // === Kimi Coding OAuth Auto-Login ===
     // If any model routes to kimi-coding, ensure OAuth credentials exist
-    if (!cliConfig.monitor) {
-      const { parseModelSpec } = await import("./providers/model-parser.js");
+    if (!cliConfig.monitor && !cliConfig.replayDir) {
+      const { parseModelSpec, parseFallbackChain } = await import("./providers/model-parser.js");
       const allModels = [
         cliConfig.model,
         cliConfig.modelOpus,
         cliConfig.modelSonnet,
         cliConfig.modelHaiku,
         cliConfig.modelSubagent,
-      ].filter((m): m is string => typeof m === "string");
+        ...(cliConfig.fallbackModels || []),
+        ...(cliConfig.routingRules || []).map((rule) => rule.model),
+      ]
+        .filter((m): m is string => typeof m === "string")
+        .flatMap((m) => parseFallbackChain(m));
 
       const needsKimiCoding = allModels.some(
         (m) => parseModelSpec(m).provider === "kimi-coding"
@@ -220,10 +273,32 @@ async function runCli() {
             cliConfig.modelSubagent,
           ];
 
+      // The budget downgrade model must be usable too, or the session dies at the limit
+      if (cliConfig.budget && cliConfig.budgetDowngradeModel) {
+        modelsToValidate.push(cliConfig.budgetDowngradeModel);
+      }
+
+      // Routing rules can send any request to their model
+      for (const rule of cliConfig.routingRules || []) {
+        modelsToValidate.push(rule.model);
+      }
+
+      // Helper models for compaction summaries and image descriptions
+      for (const helper of [cliConfig.compactModel, cliConfig.visionModel]) {
+        if (helper) modelsToValidate.push(helper);
+      }
+
       // Validate API keys for all models
       const resolutions = validateApiKeysForModels(modelsToValidate);
       const missingKeys = getMissingKeyResolutions(resolutions);
 
+      // Organisation policy - refuse blocked models before asking for any key
+      const policyError = getPolicyError(resolutions);
+      if (policyError) {
+        console.error(policyError);
+        process.exit(1);
+      }
+
       if (missingKeys.length > 0) {
         if (cliConfig.interactive) {
           // Interactive mode: prompt for missing OpenRouter key if that's what's needed
@@ -264,9 +339,10 @@ async function runCli() {
       ].filter((m): m is string => typeof m === "string");
 
       for (const modelId of modelsToCheck) {
-        const resolution = resolveModelProvider(modelId);
-        if (resolution.deprecationWarning) {
-          console.warn(`[claudish] ${resolution.deprecationWarning}`);
+        for (const resolution of resolveFallbackChain(modelId)) {
+          if (resolution.deprecationWarning) {
+            console.warn(`[claudish] ${resolution.deprecationWarning}`);
+          }
         }
       }
     }
@@ -280,10 +356,6 @@ async function runCli() {
       }
     }
 
-    // Find available port
-    const port =
-      cliConfig.port || (await findAvailablePort(DEFAULT_PORT_RANGE.start, DEFAULT_PORT_RANGE.end));
-
     // Start proxy server
     // explicitModel is the default/fallback model
     // modelMap provides per-role overrides (opus/sonnet/haiku) that take priority
@@ -296,26 +368,69 @@ async function runCli() {
       subagent: cliConfig.modelSubagent,
     };
 
-    const proxy = await createProxyServer(
-      port,
-      cliConfig.monitor ? undefined : cliConfig.openrouterApiKey!,
-      cliConfig.monitor ? undefined : explicitModel,
-      cliConfig.monitor,
-      cliConfig.anthropicApiKey,
-      modelMap,
-      {
-        summarizeTools: cliConfig.summarizeTools,
-      }
-    );
+    const proxyOptions = {
+      summarizeTools: cliConfig.summarizeTools,
+      fallbackModels: cliConfig.fallbackModels,
+      routingRules: cliConfig.routingRules,
+      budget: cliConfig.budget
+        ? {
+            limit: cliConfig.budget,
+            warnAt: cliConfig.budgetWarnAt,
+            downgradeModel: cliConfig.budgetDowngradeModel,
+          }
+        : undefined,
+      record: cliConfig.recordDir && resolve(cliConfig.recordDir),
+      replay: cliConfig.replayDir && resolve(cliConfig.replayDir),
+      compaction: cliConfig.compact ? { summaryModel: cliConfig.compactModel } : undefined,
+      visionModel: cliConfig.visionModel,
+      reasoning: cliConfig.reasoning,
+      redaction: cliConfig.redaction,
+      checkStream: cliConfig.checkStream,
+      otlpEndpoint: cliConfig.otlpEndpoint,
+    };
+
+    // Attach to a running `claudish serve` daemon (its own models per session),
+    // unless a port was requested or the session needs a proxy of its own
+    // (attachToDaemon checks the settings that apply to a whole proxy process)
+    const daemonSession =
+      cliConfig.port || cliConfig.noDaemon || cliConfig.monitor
+        ? null
+        : await attachToDaemon({
+            model: explicitModel,
+            modelMap,
+            options: proxyOptions,
+            project: process.cwd(),
+            pid: process.pid,
+          });
+    if (daemonSession && !cliConfig.quiet) {
+      console.log(`[claudish] Attached to claudish serve (session ${daemonSession.id})`);
+    }
+
+    const proxy =
+      daemonSession ||
+      (await createProxyServer(
+        cliConfig.port ||
+          (await findAvailablePort(DEFAULT_PORT_RANGE.start, DEFAULT_PORT_RANGE.end)),
+        cliConfig.monitor ? undefined : cliConfig.openrouterApiKey!,
+        cliConfig.monitor ? undefined : explicitModel,
+        cliConfig.monitor,
+        cliConfig.anthropicApiKey,
+        modelMap,
+        proxyOptions
+      ));
 
     // Run Claude Code with proxy
     let exitCode = 0;
     try {
-      exitCode = await runClaudeWithProxy(cliConfig, proxy.url);
+      exitCode = await runClaudeWithProxy(cliConfig, proxy.url, daemonSession?.statusKey);
     } finally {
       // Always cleanup proxy
       if (!cliConfig.quiet) {
-        console.log("\n[claudish] Shutting down proxy server...");
+        console.log(
+          daemonSession
+            ? "\n[claudish] Detaching from claudish serve..."
+            : "\n[claudish] Shutting down proxy server..."
+        );
       }
       await proxy.shutdown();
     }
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { writeFileSync, appendFile, existsSync, mkdirSync } from "fs";
 import { join } from "path";
 
@@ -7,6 +8,7 @@ let logBuffer: string[] = []; // Buffer for async writes
 let flushTimer: NodeJS.Timeout | null = null;
 const FLUSH_INTERVAL_MS = 100; // Flush every 100ms
 const MAX_BUFFER_SIZE = 50; // Flush if buffer exceeds 50 messages
+const logTag = new AsyncLocalStorage<string>(); // Serve daemon session of the current request
 
 /**
  * Flush log buffer to file (async)
@@ -97,7 +99,8 @@ export function initLogger(debugMode: boolean, level: "debug" | "info" | "minima
  */
 export function log(message: string, forceConsole = false): void {
   const timestamp = new Date().toISOString();
-  const logLine = `[${timestamp}] ${message}\n`;
+  const tag = logTag.getStore();
+  const logLine = `[${timestamp}] ${tag ? `[${tag}] ` : ""}${message}\n`;
 
   if (logFilePath) {
     // Add to buffer (non-blocking)
@@ -115,6 +118,13 @@ export function log(message: string, forceConsole = false): void {
   }
 }
 
+/**
+ * Run a request with a tag prefixed to every line it logs (e.g. the daemon session id)
+ */
+export function runWithLogTag<T>(tag: string, fn: () => T): T {
+  return logTag.run(tag, fn);
+}
+
 /**
  * Get the current log file path
  */
@@ -15,6 +15,7 @@ import { readFileSync, existsSync, writeFileSync, mkdirSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { homedir } from "node:os";
 import { fileURLToPath } from "node:url";
+import { getApiKey } from "./auth/credential-store.js";
 
 // Load environment variables
 config();
@@ -136,9 +137,11 @@ async function runPrompt(
   systemPrompt?: string,
   maxTokens?: number
 ): Promise<{ content: string; usage?: { input: number; output: number } }> {
-  const apiKey = process.env.OPENROUTER_API_KEY;
+  const apiKey = getApiKey("OPENROUTER_API_KEY");
   if (!apiKey) {
-    throw new Error("OPENROUTER_API_KEY environment variable not set");
+    throw new Error(
+      "OPENROUTER_API_KEY not set (export it or run: claudish auth login openrouter)"
+    );
   }
 
   const messages: Array<{ role: string; content: string }> = [];
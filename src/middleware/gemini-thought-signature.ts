@@ -10,9 +10,11 @@
  *
  * This middleware:
  * - Extracts thought_signatures from Gemini responses (both streaming and non-streaming)
- * - Stores them in persistent in-memory cache
+ * - Stores them in the disk-backed thought signature store, so they survive
+ *   proxy restarts and resumed sessions
  * - Injects signatures into assistant tool_calls when building requests
- * - Injects signatures into tool result messages
+ * - Rewrites tool calls whose signature cannot be found into text, for models
+ *   that reject unsigned calls
  *
  * References:
  * - https://ai.google.dev/gemini-api/docs/thought-signatures
@@ -20,6 +22,12 @@
  */
 
 import { log, isLoggingEnabled, logStructured } from "../logger.js";
+import {
+  type ThoughtSignatureStore,
+  getConversationKey,
+  getThoughtSignatureStore,
+  requiresThoughtSignatures,
+} from "../services/thought-signature-store.js";
 import type {
   ModelMiddleware,
   RequestContext,
@@ -27,24 +35,140 @@ import type {
   StreamChunkContext,
 } from "./types.js";
 
+/**
+ * Text that replaces a tool call whose thought signature is lost
+ */
+export function describeToolCallAsText(name: string, input: unknown): string {
+  return `[Called tool ${name} with input ${JSON.stringify(input ?? {})}]`;
+}
+
+/**
+ * Header of the text that replaces the result of such a tool call
+ */
+export function describeToolResultAsText(name: string): string {
+  return `[Result of tool ${name}]`;
+}
+
+/**
+ * Text for an OpenAI-format tool call
+ */
+function toolCallAsText(toolCall: any): string {
+  let input: unknown = toolCall.function?.arguments;
+  try {
+    input = JSON.parse(toolCall.function?.arguments || "{}");
+  } catch {
+    // Keep the raw arguments string
+  }
+  return describeToolCallAsText(toolCall.function?.name, input);
+}
+
+/**
+ * Tool call ids and names of an assistant message, in Claude (tool_use
+ * blocks) or OpenAI (tool_calls) format
+ */
+function getToolCalls(msg: any): Array<{ id: string; name: string }> {
+  if (msg.role !== "assistant") return [];
+  if (msg.tool_calls?.length) {
+    return msg.tool_calls.map((tc: any) => ({ id: tc.id, name: tc.function?.name }));
+  }
+  if (!Array.isArray(msg.content)) return [];
+  return msg.content
+    .filter((block: any) => block.type === "tool_use")
+    .map((block: any) => ({ id: block.id, name: block.name }));
+}
+
+/**
+ * Assistant message with its tool calls written out as text
+ */
+function toolCallsAsText(msg: any): any {
+  if (msg.tool_calls?.length) {
+    const calls = msg.tool_calls.map(toolCallAsText);
+    const text = [typeof msg.content === "string" ? msg.content : "", ...calls]
+      .filter(Boolean)
+      .join("\n");
+    return { role: "assistant", content: text };
+  }
+  const content = msg.content.map((block: any) =>
+    block.type === "tool_use"
+      ? { type: "text", text: describeToolCallAsText(block.name, block.input) }
+      : block
+  );
+  return { ...msg, content };
+}
+
+/**
+ * Message with the results of degraded tool calls written out as text
+ * @param degraded - tool call id -> tool name
+ */
+function toolResultsAsText(msg: any, degraded: Map<string, string>): any {
+  if (msg.role === "tool") {
+    if (!degraded.has(msg.tool_call_id)) return msg;
+    const result =
+      typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content ?? "");
+    return {
+      role: "user",
+      content: `${describeToolResultAsText(degraded.get(msg.tool_call_id) || "")}\n${result}`,
+    };
+  }
+  if (!Array.isArray(msg.content)) return msg;
+  if (!msg.content.some((block: any) => degraded.has(block.tool_use_id))) return msg;
+  const content = msg.content.flatMap((block: any) => {
+    if (block.type !== "tool_result" || !degraded.has(block.tool_use_id)) return [block];
+    const header = {
+      type: "text",
+      text: describeToolResultAsText(degraded.get(block.tool_use_id) || ""),
+    };
+    if (Array.isArray(block.content)) return [header, ...block.content];
+    return [header, { type: "text", text: String(block.content ?? "") }];
+  });
+  return { ...msg, content };
+}
+
+/**
+ * Rewrite assistant turns whose tool calls have no thought signature, and
+ * their results, into text, so models that require signatures accept the
+ * history. Works on Claude and OpenAI format messages.
+ *
+ * @param isSigned - Whether an assistant message with tool calls is signed
+ * @returns The rewritten messages and how many tool calls were rewritten
+ */
+export function degradeUnsignedToolCalls(
+  messages: any[],
+  isSigned: (msg: any) => boolean
+): { messages: any[]; degraded: number } {
+  const degraded = new Map<string, string>(); // tool call id -> tool name
+
+  const result = messages.map((msg) => {
+    const calls = getToolCalls(msg);
+    if (calls.length > 0 && !isSigned(msg)) {
+      for (const call of calls) degraded.set(call.id, call.name);
+      return toolCallsAsText(msg);
+    }
+    return toolResultsAsText(msg, degraded);
+  });
+
+  return { messages: result, degraded: degraded.size };
+}
+
 export class GeminiThoughtSignatureMiddleware implements ModelMiddleware {
   readonly name = "GeminiThoughtSignature";
 
   /**
-   * Persistent cache for Gemini reasoning details
+   * Persistent store for Gemini reasoning details
    *
    * CRITICAL: Gemini 3 Pro requires the ENTIRE reasoning_details array to be preserved
    * and sent back in subsequent requests. Storing just thought_signatures is insufficient.
    *
-   * Maps: assistant_message_id -> { reasoning_details: array, tool_call_ids: Set }
+   * Maps: tool_call_id -> reasoning_details of the assistant message that made the call
    */
-  private persistentReasoningDetails = new Map<
-    string,
-    {
-      reasoning_details: any[];
-      tool_call_ids: Set<string>;
-    }
-  >();
+  private store: ThoughtSignatureStore;
+
+  /**
+   * @param store - Signature store (defaults to the one shared by all handlers)
+   */
+  constructor(store: ThoughtSignatureStore = getThoughtSignatureStore()) {
+    this.store = store;
+  }
 
   shouldHandle(modelId: string): boolean {
     return modelId.includes("gemini") || modelId.includes("google/");
@@ -62,57 +186,65 @@ export class GeminiThoughtSignatureMiddleware implements ModelMiddleware {
    *
    * Modifies:
    * - Assistant messages with tool_calls: Add reasoning_details array
+   * - Gemini 3: Assistant messages still without a signature, and their tool
+   *   results, become plain text
    */
   beforeRequest(context: RequestContext): void {
-    if (this.persistentReasoningDetails.size === 0) {
-      return; // No reasoning details to inject
-    }
-
     if (isLoggingEnabled()) {
       logStructured("[Gemini] Injecting reasoning_details", {
-        cacheSize: this.persistentReasoningDetails.size,
+        cacheSize: this.store.size,
         messageCount: context.messages.length,
       });
     }
 
     let injected = 0;
+    const toolCallIds: string[] = [];
 
     for (const msg of context.messages) {
       // Inject reasoning_details into assistant messages with tool_calls
       if (msg.role === "assistant" && msg.tool_calls) {
-        // Find matching reasoning_details by checking tool_call_ids
-        for (const [msgId, cached] of this.persistentReasoningDetails.entries()) {
-          // Check if any tool_call_id matches
-          const hasMatchingToolCall = msg.tool_calls.some((tc: any) =>
-            cached.tool_call_ids.has(tc.id)
-          );
+        const ids: string[] = msg.tool_calls.map((tc: any) => tc.id).filter(Boolean);
+        toolCallIds.push(...ids);
 
-          if (hasMatchingToolCall) {
-            msg.reasoning_details = cached.reasoning_details;
+        // Find matching reasoning_details by checking tool_call_ids
+        for (const id of ids) {
+          const cached = this.store.get(id);
+          if (!msg.reasoning_details && cached?.reasoningDetails) {
+            msg.reasoning_details = cached.reasoningDetails;
             injected++;
 
             if (isLoggingEnabled()) {
               logStructured("[Gemini] Reasoning details added to assistant message", {
-                message_id: msgId,
-                reasoning_blocks: cached.reasoning_details.length,
+                tool_call_id: id,
+                reasoning_blocks: cached.reasoningDetails.length,
                 tool_calls: msg.tool_calls.length,
               });
             }
-            break; // Only inject once per message
           }
         }
 
         if (!msg.reasoning_details && isLoggingEnabled()) {
           log(`[Gemini] WARNING: No reasoning_details found for assistant message with tool_calls`);
-          log(`[Gemini] Tool call IDs: ${msg.tool_calls.map((tc: any) => tc.id).join(", ")}`);
+          log(`[Gemini] Tool call IDs: ${ids.join(", ")}`);
         }
       }
     }
 
+    const conversation = getConversationKey(context.messages);
+    if (conversation) this.store.tagConversation(toolCallIds, conversation);
+
+    if (requiresThoughtSignatures(context.modelId)) {
+      const result = degradeUnsignedToolCalls(context.messages, (msg) => this.isSigned(msg));
+      if (result.degraded > 0) {
+        context.messages.splice(0, context.messages.length, ...result.messages);
+        log(`[Gemini] Rewrote ${result.degraded} unsigned tool call(s) into text`);
+      }
+    }
+
     if (isLoggingEnabled() && injected > 0) {
       logStructured("[Gemini] Signature injection complete", {
         injected,
-        cacheSize: this.persistentReasoningDetails.size,
+        cacheSize: this.store.size,
       });
 
       // DEBUG: Log the actual messages being sent to understand structure
@@ -162,23 +294,16 @@ export class GeminiThoughtSignatureMiddleware implements ModelMiddleware {
     const toolCalls = message.tool_calls || [];
 
     if (reasoningDetails.length > 0 && toolCalls.length > 0) {
-      // Generate a unique ID for this assistant message
-      const messageId = `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-
       // Extract tool_call_ids
-      const toolCallIds = new Set(toolCalls.map((tc: any) => tc.id).filter(Boolean));
+      const toolCallIds = new Set<string>(toolCalls.map((tc: any) => tc.id).filter(Boolean));
 
       // Store the full reasoning_details array
-      this.persistentReasoningDetails.set(messageId, {
-        reasoning_details: reasoningDetails,
-        tool_call_ids: toolCallIds,
-      });
+      this.saveReasoningDetails(toolCallIds, reasoningDetails);
 
       logStructured("[Gemini] Reasoning details saved (non-streaming)", {
-        message_id: messageId,
         reasoning_blocks: reasoningDetails.length,
         tool_calls: toolCallIds.size,
-        total_cached_messages: this.persistentReasoningDetails.size,
+        total_cached_tool_calls: this.store.size,
       });
     }
   }
@@ -224,28 +349,34 @@ export class GeminiThoughtSignatureMiddleware implements ModelMiddleware {
   }
 
   /**
-   * After Stream Complete: Save accumulated reasoning_details to persistent cache
+   * After Stream Complete: Save accumulated reasoning_details to the signature store
    */
   afterStreamComplete(metadata: Map<string, any>): void {
     const reasoningDetails = metadata.get("reasoning_details") || [];
     const toolCallIds = metadata.get("tool_call_ids") || new Set();
 
     if (reasoningDetails.length > 0 && toolCallIds.size > 0) {
-      // Generate a unique ID for this assistant message
-      const messageId = `msg_${Date.now()}_${Math.random().toString(36).slice(2)}`;
-
       // Store the full reasoning_details array with associated tool_call_ids
-      this.persistentReasoningDetails.set(messageId, {
-        reasoning_details: reasoningDetails,
-        tool_call_ids: toolCallIds,
-      });
+      this.saveReasoningDetails(toolCallIds, reasoningDetails);
 
       logStructured("[Gemini] Streaming complete - reasoning details saved", {
-        message_id: messageId,
         reasoning_blocks: reasoningDetails.length,
         tool_calls: toolCallIds.size,
-        total_cached_messages: this.persistentReasoningDetails.size,
+        total_cached_tool_calls: this.store.size,
       });
     }
   }
+
+  private isSigned(msg: any): boolean {
+    return (
+      !!msg.reasoning_details ||
+      msg.tool_calls.some((tc: any) => tc.extra_content?.google?.thought_signature)
+    );
+  }
+
+  private saveReasoningDetails(toolCallIds: Set<string>, reasoningDetails: any[]): void {
+    for (const id of toolCallIds) {
+      this.store.set(id, { reasoningDetails });
+    }
+  }
 }
@@ -6,6 +6,14 @@
 
 export { MiddlewareManager } from "./manager.js";
 export { GeminiThoughtSignatureMiddleware } from "./gemini-thought-signature.js";
+export {
+  RedactionMiddleware,
+  RequestBlockedError,
+  getRedactionConfig,
+  redactRequestBody,
+  setRedactionConfig,
+} from "./redaction.js";
+export type { RedactionConfig, RedactionMode, RedactionPattern } from "./redaction.js";
 export type {
   ModelMiddleware,
   RequestContext,
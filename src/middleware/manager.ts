@@ -5,10 +5,12 @@
  * - Register middlewares
  * - Filter active middlewares by model ID
  * - Execute middleware chain in order
- * - Handle errors gracefully (log and continue)
+ * - Handle errors gracefully (log and continue), except for requests a
+ *   middleware refuses to send
  */
 
 import { log, isLoggingEnabled, logStructured } from "../logger.js";
+import { RequestBlockedError } from "./redaction.js";
 import type {
   ModelMiddleware,
   RequestContext,
@@ -92,6 +94,7 @@ export class MiddlewareManager {
       try {
         await middleware.beforeRequest(context);
       } catch (error) {
+        if (error instanceof RequestBlockedError) throw error;
         log(`[Middleware] ERROR in ${middleware.name}.beforeRequest: ${error}`);
         // Continue with next middleware - don't let one failure break the chain
       }
@@ -0,0 +1,309 @@
+/**
+ * Redaction Middleware
+ *
+ * Scans outbound messages and tool results for secrets and personal data
+ * before they leave the machine: API keys, private keys, JWTs, AWS
+ * credentials, email addresses, and any custom patterns. Depending on the
+ * mode, what it finds is:
+ * - mask: replaced with "[REDACTED <detector>]" in the request
+ * - block: the request is refused (RequestBlockedError)
+ * - warn: left as is
+ *
+ * Every mode reports what was found in the debug log, with the values masked
+ * by maskCredential(). System prompts are not scanned, nor are opaque fields
+ * such as image data and thought signatures.
+ *
+ * The configuration is process-wide (set by the proxy from --redact or the
+ * profile's "redaction" setting); without one the middleware does nothing.
+ */
+
+import { log, maskCredential } from "../logger.js";
+import type { ModelMiddleware, RequestContext } from "./types.js";
+
+export type RedactionMode = "mask" | "block" | "warn";
+
+export const REDACTION_MODES: RedactionMode[] = ["mask", "block", "warn"];
+
+export function isRedactionMode(value: string): value is RedactionMode {
+  return (REDACTION_MODES as string[]).includes(value);
+}
+
+/**
+ * A custom pattern to redact
+ */
+export interface RedactionPattern {
+  /** Shown in the replacement text and the report (e.g. "ticket-id") */
+  name: string;
+  /** Regular expression source (e.g. "ACME-[0-9]{6}") */
+  pattern: string;
+  /** Regular expression flags (e.g. "i") */
+  flags?: string;
+}
+
+/**
+ * Redaction settings (CLI --redact, or "redaction" in a profile)
+ */
+export interface RedactionConfig {
+  mode: RedactionMode;
+  /** Built-in detectors to run (default: all of them) */
+  detectors?: string[];
+  /** Custom patterns, run after the built-in detectors */
+  patterns?: RedactionPattern[];
+}
+
+/**
+ * Something a detector found in a request
+ */
+export interface RedactionFinding {
+  detector: string;
+  value: string;
+}
+
+interface Detector {
+  name: string;
+  regex: RegExp;
+}
+
+// Values of assignments like OPENAI_API_KEY=... need letters and digits, and
+// references such as $OPENAI_API_KEY or process.env.OPENAI_API_KEY are skipped
+const ASSIGNED_VALUE =
+  /(?!\$|process\.env)(?=[^\s"'`\\,;]*\d)(?=[^\s"'`\\,;]*[A-Za-z])[^\s"'`\\,;]{8,}/;
+
+/**
+ * Built-in detectors, in the order they run (earlier ones claim overlapping text)
+ */
+const BUILTIN_DETECTORS: Detector[] = [
+  {
+    name: "private-key",
+    regex: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: "jwt",
+    regex: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    name: "aws-access-key",
+    regex: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: "aws-secret-key",
+    regex:
+      /(?<=aws_secret_access_key["']?\s*[=:]\s*\\?["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    name: "api-key",
+    regex:
+      /\b(?:sk-[A-Za-z0-9][A-Za-z0-9_-]{19,}|gh[oprsu]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|glpat-[A-Za-z0-9_-]{20,}|[rs]k_live_[A-Za-z0-9]{24,})/g,
+  },
+  {
+    name: "generic-secret",
+    regex: new RegExp(
+      `(?<=\\b[A-Z][A-Z0-9_]*(?:API_KEY|SECRET|TOKEN|PASSWORD)["']?\\s*[=:]\\s*\\\\?["']?)${ASSIGNED_VALUE.source}`,
+      "g"
+    ),
+  },
+  {
+    name: "email",
+    regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+  },
+];
+
+export const REDACTION_DETECTORS = BUILTIN_DETECTORS.map((d) => d.name);
+
+// Fields holding encoded or opaque data rather than text
+const OPAQUE_KEYS = new Set([
+  "data",
+  "image_url",
+  "inlineData",
+  "inline_data",
+  "signature",
+  "thoughtSignature",
+  "thought_signature",
+  "extra_content",
+  "reasoning_details",
+]);
+
+function compilePattern(pattern: RedactionPattern): RegExp {
+  const flags = (pattern.flags || "").replace(/g/g, "");
+  return new RegExp(pattern.pattern, `${flags}g`);
+}
+
+/**
+ * Check redaction settings
+ * Returns error message if the settings are invalid, null if OK
+ */
+export function validateRedactionConfig(config: any): string | null {
+  if (!config || typeof config !== "object") return "redaction must be an object";
+  if (!isRedactionMode(config.mode)) {
+    return `redaction mode must be one of: ${REDACTION_MODES.join(", ")}`;
+  }
+  const unknown = config.detectors?.find((d: string) => !REDACTION_DETECTORS.includes(d));
+  if (unknown) {
+    return `unknown redaction detector "${unknown}" (use ${REDACTION_DETECTORS.join(", ")})`;
+  }
+  for (const pattern of config.patterns || []) {
+    if (!pattern?.name || typeof pattern.pattern !== "string") {
+      return 'redaction patterns need a "name" and a "pattern"';
+    }
+    try {
+      compilePattern(pattern);
+    } catch (e) {
+      return `invalid redaction pattern "${pattern.name}": ${e instanceof Error ? e.message : e}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Detectors a configuration runs (invalid custom patterns are skipped)
+ */
+function getDetectors(config: RedactionConfig): Detector[] {
+  const builtin = config.detectors
+    ? BUILTIN_DETECTORS.filter((d) => config.detectors?.includes(d.name))
+    : BUILTIN_DETECTORS;
+  const custom: Detector[] = [];
+  for (const pattern of config.patterns || []) {
+    try {
+      custom.push({ name: pattern.name, regex: compilePattern(pattern) });
+    } catch (e) {
+      log(`[Redaction] Skipping invalid pattern "${pattern.name}": ${e}`);
+    }
+  }
+  return [...builtin, ...custom];
+}
+
+// Active configuration and its detectors (null = redaction off)
+let activeConfig: RedactionConfig | null = null;
+let activeDetectors: Detector[] = [];
+
+/**
+ * The redaction settings in effect, or null when redaction is off
+ */
+export function getRedactionConfig(): RedactionConfig | null {
+  return activeConfig;
+}
+
+/**
+ * Replace the redaction settings (null turns redaction off)
+ */
+export function setRedactionConfig(config: RedactionConfig | null): void {
+  activeConfig = config;
+  activeDetectors = config ? getDetectors(config) : [];
+}
+
+/**
+ * Redact one piece of text
+ *
+ * @returns The text with every match replaced, and what was replaced
+ */
+export function redactText(
+  text: string,
+  config: RedactionConfig
+): { text: string; findings: RedactionFinding[] } {
+  const detectors = config === activeConfig ? activeDetectors : getDetectors(config);
+  const findings: RedactionFinding[] = [];
+  let result = text;
+  for (const detector of detectors) {
+    result = result.replace(detector.regex, (value) => {
+      findings.push({ detector: detector.name, value });
+      return `[REDACTED ${detector.name}]`;
+    });
+  }
+  return { text: result, findings };
+}
+
+/**
+ * Apply a function to every string under a message, in place
+ */
+function mapStrings(node: any, fn: (text: string) => string): void {
+  if (!node || typeof node !== "object") return;
+  for (const key of Object.keys(node)) {
+    if (!Array.isArray(node) && OPAQUE_KEYS.has(key)) continue;
+    const value = node[key];
+    if (typeof value === "string") node[key] = fn(value);
+    else mapStrings(value, fn);
+  }
+}
+
+/**
+ * Redact the messages of a request in place (system prompts are skipped)
+ *
+ * @param mask - Replace what is found (otherwise only report it)
+ * @returns What was found
+ */
+function redactMessages(
+  messages: any[],
+  config: RedactionConfig,
+  mask: boolean
+): RedactionFinding[] {
+  const findings: RedactionFinding[] = [];
+  for (const message of messages) {
+    if (message?.role === "system" || message?.role === "developer") continue;
+    mapStrings(message, (text) => {
+      const redacted = redactText(text, config);
+      findings.push(...redacted.findings);
+      return mask ? redacted.text : text;
+    });
+  }
+  return findings;
+}
+
+/**
+ * Copy of a client request with its messages masked, for requests saved to
+ * disk (--record). Masks in every mode: a recording never needs the secrets.
+ * Returns the request itself while redaction is off.
+ */
+export function redactRequestBody(body: any): any {
+  const config = activeConfig;
+  if (!config || !Array.isArray(body?.messages)) return body;
+  const copy = structuredClone(body);
+  redactMessages(copy.messages, config, true);
+  return copy;
+}
+
+/**
+ * One-line summary of findings with the values masked
+ */
+function describeFindings(findings: RedactionFinding[]): string {
+  const items = findings.map((f) => `${f.detector} ${maskCredential(f.value)}`);
+  return `${findings.length} item${findings.length === 1 ? "" : "s"} (${items.join(", ")})`;
+}
+
+/**
+ * Error for a request the redaction filter refused to send
+ */
+export class RequestBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RequestBlockedError";
+  }
+}
+
+/**
+ * Middleware that redacts secrets and personal data from outbound requests
+ */
+export class RedactionMiddleware implements ModelMiddleware {
+  readonly name = "Redaction";
+
+  shouldHandle(_modelId: string): boolean {
+    return activeConfig !== null;
+  }
+
+  beforeRequest(context: RequestContext): void {
+    const config = activeConfig;
+    if (!config) return;
+
+    const findings = redactMessages(context.messages, config, config.mode === "mask");
+    if (findings.length === 0) return;
+
+    const report = describeFindings(findings);
+    if (config.mode === "block") {
+      log(`[Redaction] ${context.modelId}: blocked request containing ${report}`);
+      throw new RequestBlockedError(
+        `Request blocked by the redaction filter: it contains ${report}. Remove them, or use --redact mask to send them masked.`
+      );
+    }
+    const action = config.mode === "mask" ? "masked" : "found (not masked)";
+    log(`[Redaction] ${context.modelId}: ${action} ${report}`);
+  }
+}
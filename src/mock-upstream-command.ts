@@ -0,0 +1,140 @@
+/**
+ * Mock Upstream Command
+ *
+ * Implements `claudish mock-upstream`, a local server that speaks every
+ * provider wire format with scripted scenarios (see src/mock-upstream/):
+ * - claudish mock-upstream [--port 8899] [--scenario tool_call] [--script text,rate_limit,text]
+ * - claudish mock-upstream --scenarios my-scenarios.json
+ * - claudish mock-upstream --list
+ */
+
+import {
+  BUILTIN_SCENARIOS,
+  DEFAULT_SCENARIO,
+  loadScenarioFile,
+} from "./mock-upstream/scenarios.js";
+import {
+  MOCK_BASE_URL_ENV_VARS,
+  type MockUpstreamOptions,
+  createMockUpstream,
+} from "./mock-upstream/server.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const CYAN = "\x1b[36m";
+
+const DEFAULT_MOCK_PORT = 8899;
+
+/**
+ * Parse `claudish mock-upstream` options
+ */
+function parseMockUpstreamArgs(args: string[]): MockUpstreamOptions & { list: boolean } {
+  const options: MockUpstreamOptions & { list: boolean } = {
+    port: DEFAULT_MOCK_PORT,
+    list: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--port") {
+      const port = Number.parseInt(args[++i] || "", 10);
+      if (Number.isNaN(port) || port < 0 || port > 65535) {
+        console.error("--port requires a port number");
+        process.exit(1);
+      }
+      options.port = port;
+    } else if (arg === "--scenario") {
+      options.defaultScenario = args[++i];
+    } else if (arg === "--script") {
+      options.script = (args[++i] || "").split(",").filter(Boolean);
+    } else if (arg === "--scenarios") {
+      const file = args[++i];
+      try {
+        options.scenarios = loadScenarioFile(file);
+      } catch (e) {
+        console.error(
+          `Failed to load scenarios from ${file}: ${e instanceof Error ? e.message : e}`
+        );
+        process.exit(1);
+      }
+    } else if (arg === "--list") {
+      options.list = true;
+    } else if (arg === "--help" || arg === "-h") {
+      printMockUpstreamHelp();
+      process.exit(0);
+    } else {
+      console.error(`Unknown option for claudish mock-upstream: ${arg}`);
+      printMockUpstreamHelp();
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main mock-upstream command
+ */
+export async function mockUpstreamCommand(args: string[]): Promise<void> {
+  const options = parseMockUpstreamArgs(args);
+
+  if (options.list) {
+    const scenarios = { ...BUILTIN_SCENARIOS, ...options.scenarios };
+    for (const scenario of Object.values(scenarios)) {
+      const { name, ...rest } = scenario;
+      console.log(`${CYAN}${name.padEnd(16)}${RESET} ${DIM}${JSON.stringify(rest)}${RESET}`);
+    }
+    return;
+  }
+
+  let mock: Awaited<ReturnType<typeof createMockUpstream>>;
+  try {
+    mock = await createMockUpstream(options);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  console.log(`\n${BOLD}Mock upstream listening on ${mock.url}${RESET}\n`);
+  console.log(`${DIM}Point providers at it:${RESET}`);
+  for (const envVar of MOCK_BASE_URL_ENV_VARS) {
+    console.log(`  export ${envVar}=${mock.url}`);
+  }
+  console.log(
+    `\n${DIM}Default scenario: ${options.defaultScenario || DEFAULT_SCENARIO}. Name a scenario in the model to pick it (e.g. g@gemini-2.5-flash-tool_call).${RESET}`
+  );
+  console.log(`${DIM}Press Ctrl+C to stop.${RESET}\n`);
+
+  const shutdown = async () => {
+    await mock.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+function printMockUpstreamHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish mock-upstream [options]
+
+Serves OpenAI Chat Completions, OpenAI Responses, Gemini streamGenerateContent,
+Ollama /api/chat and Anthropic Messages formats with scripted scenarios.
+
+${BOLD}Options:${RESET}
+  ${CYAN}--port${RESET} ${DIM}<port>${RESET}         Port to listen on (default: ${DEFAULT_MOCK_PORT})
+  ${CYAN}--scenario${RESET} ${DIM}<name>${RESET}     Default scenario (default: ${DEFAULT_SCENARIO})
+  ${CYAN}--script${RESET} ${DIM}<a,b,c>${RESET}      Scenarios to play in order, one per request
+  ${CYAN}--scenarios${RESET} ${DIM}<file>${RESET}    Load custom scenarios from a JSON file
+  ${CYAN}--list${RESET}                List available scenarios
+
+${BOLD}Built-in scenarios:${RESET}
+  ${Object.keys(BUILTIN_SCENARIOS).join(", ")}
+
+${BOLD}Examples:${RESET}
+  claudish mock-upstream --port 8899
+  claudish mock-upstream --script rate_limit,tool_call
+  OPENAI_BASE_URL=http://127.0.0.1:8899 OPENAI_API_KEY=test claudish --model oai@gpt-4o-tool_call "hi"
+`);
+}
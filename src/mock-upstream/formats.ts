@@ -0,0 +1,400 @@
+/**
+ * Mock upstream wire formats
+ *
+ * Encoders that turn a scenario into the events a real provider would stream:
+ * - openai: Chat Completions SSE (OpenAI, OpenRouter, Poe, GLM, LM Studio, vLLM, ...)
+ * - responses: OpenAI Responses API SSE (Codex models)
+ * - gemini: streamGenerateContent SSE
+ * - ollama: /api/chat NDJSON
+ * - anthropic: Messages API SSE (MiniMax, Kimi, Z.AI)
+ */
+
+import {
+  type MockScenario,
+  type MockToolCall,
+  getReasoningDeltas,
+  getScenarioDeltas,
+  getStructuredToolCalls,
+} from "./scenarios.js";
+
+export type MockFormatName = "openai" | "responses" | "gemini" | "ollama" | "anthropic";
+
+/**
+ * Per-request values shared by all encoders
+ */
+export interface MockResponseContext {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface MockFormat {
+  name: MockFormatName;
+  contentType: string;
+  /** Stream events (each a complete SSE event or NDJSON line) */
+  encode(scenario: MockScenario, ctx: MockResponseContext): string[];
+  /** Error body for scenarios with an HTTP error status */
+  errorBody(status: number, message: string, retryAfter?: number): unknown;
+}
+
+const sse = (data: unknown, event?: string): string =>
+  `${event ? `event: ${event}\n` : ""}data: ${JSON.stringify(data)}\n\n`;
+
+const callId = (index: number) => `call_mock_${index}`;
+
+function openAIError(status: number, message: string) {
+  return {
+    error: {
+      message,
+      type: status === 429 ? "rate_limit_exceeded" : "server_error",
+      code: status,
+    },
+  };
+}
+
+const openai: MockFormat = {
+  name: "openai",
+  contentType: "text/event-stream",
+  encode(scenario, ctx) {
+    const base = {
+      id: "chatcmpl-mock",
+      object: "chat.completion.chunk",
+      created: Math.floor(Date.now() / 1000),
+      model: ctx.model,
+    };
+    const chunk = (delta: unknown, extra: Record<string, unknown> = {}) =>
+      sse({ ...base, choices: [{ index: 0, delta, finish_reason: null }], ...extra });
+
+    const events = [chunk({ role: "assistant", content: "" })];
+    // DeepSeek/Qwen-style reasoning field
+    for (const text of getReasoningDeltas(scenario)) {
+      events.push(chunk({ reasoning_content: text }));
+    }
+    for (const text of getScenarioDeltas(scenario)) events.push(chunk({ content: text }));
+
+    const toolCalls = getStructuredToolCalls(scenario);
+    toolCalls.forEach((call, index) => {
+      events.push(
+        chunk({
+          tool_calls: [
+            {
+              index,
+              id: callId(index),
+              type: "function",
+              function: { name: call.name, arguments: "" },
+            },
+          ],
+        })
+      );
+      events.push(
+        chunk({ tool_calls: [{ index, function: { arguments: JSON.stringify(call.arguments) } }] })
+      );
+    });
+
+    events.push(
+      sse({
+        ...base,
+        choices: [
+          { index: 0, delta: {}, finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop" },
+        ],
+        usage: {
+          prompt_tokens: ctx.inputTokens,
+          completion_tokens: ctx.outputTokens,
+          total_tokens: ctx.inputTokens + ctx.outputTokens,
+        },
+      })
+    );
+    events.push("data: [DONE]\n\n");
+    return events;
+  },
+  errorBody: openAIError,
+};
+
+const responses: MockFormat = {
+  name: "responses",
+  contentType: "text/event-stream",
+  encode(scenario, ctx) {
+    const response = { id: "resp_mock", object: "response", model: ctx.model };
+    const event = (type: string, data: Record<string, unknown>) => sse({ type, ...data }, type);
+    const events = [
+      event("response.created", { response: { ...response, status: "in_progress" } }),
+    ];
+
+    let outputIndex = 0;
+    const reasoning = getReasoningDeltas(scenario);
+    if (reasoning.length > 0) {
+      const item = { type: "reasoning", id: "rs_mock", summary: [] };
+      const part = { item_id: item.id, output_index: outputIndex, summary_index: 0 };
+      events.push(event("response.output_item.added", { output_index: outputIndex, item }));
+      events.push(event("response.reasoning_summary_part.added", part));
+      for (const delta of reasoning) {
+        events.push(event("response.reasoning_summary_text.delta", { ...part, delta }));
+      }
+      events.push(event("response.reasoning_summary_part.done", part));
+      events.push(event("response.output_item.done", { output_index: outputIndex, item }));
+      outputIndex++;
+    }
+
+    const deltas = getScenarioDeltas(scenario);
+    if (deltas.length > 0) {
+      const item = { type: "message", id: "msg_mock", role: "assistant" };
+      events.push(event("response.output_item.added", { output_index: outputIndex, item }));
+      for (const delta of deltas) {
+        events.push(
+          event("response.output_text.delta", {
+            item_id: item.id,
+            output_index: outputIndex,
+            delta,
+          })
+        );
+      }
+      events.push(event("response.output_item.done", { output_index: outputIndex, item }));
+      outputIndex++;
+    }
+
+    getStructuredToolCalls(scenario).forEach((call, index) => {
+      const item = {
+        type: "function_call",
+        id: `fc_mock_${index}`,
+        call_id: callId(index),
+        name: call.name,
+        arguments: "",
+      };
+      const args = JSON.stringify(call.arguments);
+      events.push(event("response.output_item.added", { output_index: outputIndex, item }));
+      events.push(
+        event("response.function_call_arguments.delta", {
+          item_id: item.id,
+          output_index: outputIndex,
+          delta: args,
+        })
+      );
+      events.push(
+        event("response.output_item.done", {
+          output_index: outputIndex,
+          item: { ...item, arguments: args },
+        })
+      );
+      outputIndex++;
+    });
+
+    events.push(
+      event("response.completed", {
+        response: {
+          ...response,
+          status: "completed",
+          usage: {
+            input_tokens: ctx.inputTokens,
+            output_tokens: ctx.outputTokens,
+            total_tokens: ctx.inputTokens + ctx.outputTokens,
+          },
+        },
+      })
+    );
+    return events;
+  },
+  errorBody: openAIError,
+};
+
+const gemini: MockFormat = {
+  name: "gemini",
+  contentType: "text/event-stream",
+  encode(scenario, ctx) {
+    const candidate = (parts: unknown[], finishReason?: string) =>
+      sse({
+        candidates: [{ content: { role: "model", parts }, index: 0, finishReason }],
+        ...(finishReason
+          ? {
+              usageMetadata: {
+                promptTokenCount: ctx.inputTokens,
+                candidatesTokenCount: ctx.outputTokens,
+                totalTokenCount: ctx.inputTokens + ctx.outputTokens,
+              },
+            }
+          : {}),
+        modelVersion: ctx.model,
+      });
+
+    const events = [
+      ...getReasoningDeltas(scenario).map((text) => candidate([{ text, thought: true }])),
+      ...getScenarioDeltas(scenario).map((text) => candidate([{ text }])),
+    ];
+    const toolCalls = getStructuredToolCalls(scenario);
+    if (toolCalls.length > 0) {
+      events.push(
+        candidate(
+          toolCalls.map((call: MockToolCall, index) => ({
+            functionCall: { name: call.name, args: call.arguments },
+            // Gemini 3 requires signatures to be echoed back on the next turn
+            ...(index === 0 ? { thoughtSignature: "mock-thought-signature" } : {}),
+          }))
+        )
+      );
+    }
+    events.push(candidate([{ text: "" }], "STOP"));
+    return events;
+  },
+  errorBody(status, message, retryAfter) {
+    return {
+      error: {
+        code: status,
+        message,
+        status: status === 429 ? "RESOURCE_EXHAUSTED" : "INTERNAL",
+        details: retryAfter
+          ? [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: `${retryAfter}s` }]
+          : [],
+      },
+    };
+  },
+};
+
+const ollama: MockFormat = {
+  name: "ollama",
+  contentType: "application/x-ndjson",
+  encode(scenario, ctx) {
+    const line = (message: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+      `${JSON.stringify({
+        model: ctx.model,
+        created_at: new Date().toISOString(),
+        message: { role: "assistant", content: "", ...message },
+        done: false,
+        ...extra,
+      })}\n`;
+
+    const events = [
+      ...getReasoningDeltas(scenario).map((thinking) => line({ thinking })),
+      ...getScenarioDeltas(scenario).map((content) => line({ content })),
+    ];
+    const toolCalls = getStructuredToolCalls(scenario);
+    if (toolCalls.length > 0) {
+      events.push(
+        line({
+          tool_calls: toolCalls.map((call) => ({
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        })
+      );
+    }
+    events.push(
+      line(
+        {},
+        {
+          done: true,
+          done_reason: "stop",
+          prompt_eval_count: ctx.inputTokens,
+          eval_count: ctx.outputTokens,
+        }
+      )
+    );
+    return events;
+  },
+  errorBody: (_status, message) => ({ error: message }),
+};
+
+const anthropic: MockFormat = {
+  name: "anthropic",
+  contentType: "text/event-stream",
+  encode(scenario, ctx) {
+    const event = (type: string, data: Record<string, unknown>) => sse({ type, ...data }, type);
+    const toolCalls = getStructuredToolCalls(scenario);
+    const events = [
+      event("message_start", {
+        message: {
+          id: "msg_mock",
+          type: "message",
+          role: "assistant",
+          model: ctx.model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: ctx.inputTokens, output_tokens: 1 },
+        },
+      }),
+    ];
+
+    let index = 0;
+    const reasoning = getReasoningDeltas(scenario);
+    if (reasoning.length > 0) {
+      events.push(
+        event("content_block_start", { index, content_block: { type: "thinking", thinking: "" } })
+      );
+      for (const thinking of reasoning) {
+        events.push(
+          event("content_block_delta", { index, delta: { type: "thinking_delta", thinking } })
+        );
+      }
+      events.push(
+        event("content_block_delta", {
+          index,
+          delta: { type: "signature_delta", signature: "mock-signature" },
+        })
+      );
+      events.push(event("content_block_stop", { index }));
+      index++;
+    }
+
+    const deltas = getScenarioDeltas(scenario);
+    if (deltas.length > 0) {
+      events.push(
+        event("content_block_start", { index, content_block: { type: "text", text: "" } })
+      );
+      for (const text of deltas) {
+        events.push(event("content_block_delta", { index, delta: { type: "text_delta", text } }));
+      }
+      events.push(event("content_block_stop", { index }));
+      index++;
+    }
+
+    toolCalls.forEach((call, i) => {
+      events.push(
+        event("content_block_start", {
+          index,
+          content_block: { type: "tool_use", id: `toolu_mock_${i}`, name: call.name, input: {} },
+        })
+      );
+      events.push(
+        event("content_block_delta", {
+          index,
+          delta: { type: "input_json_delta", partial_json: JSON.stringify(call.arguments) },
+        })
+      );
+      events.push(event("content_block_stop", { index }));
+      index++;
+    });
+
+    events.push(
+      event("message_delta", {
+        delta: { stop_reason: toolCalls.length > 0 ? "tool_use" : "end_turn", stop_sequence: null },
+        usage: { output_tokens: ctx.outputTokens },
+      })
+    );
+    events.push(event("message_stop", {}));
+    return events;
+  },
+  errorBody(status, message) {
+    return {
+      type: "error",
+      error: { type: status === 429 ? "rate_limit_error" : "api_error", message },
+    };
+  },
+};
+
+export const MOCK_FORMATS: Record<MockFormatName, MockFormat> = {
+  openai,
+  responses,
+  gemini,
+  ollama,
+  anthropic,
+};
+
+/**
+ * Detect the wire format from a request path, or null for unknown endpoints
+ */
+export function detectFormat(path: string): MockFormatName | null {
+  if (path.endsWith("/chat/completions")) return "openai";
+  if (path.endsWith("/responses")) return "responses";
+  if (path.includes(":streamGenerateContent")) return "gemini";
+  if (path.endsWith("/api/chat")) return "ollama";
+  if (path.endsWith("/messages")) return "anthropic";
+  return null;
+}
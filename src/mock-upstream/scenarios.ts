@@ -0,0 +1,166 @@
+/**
+ * Mock upstream scenarios
+ *
+ * A scenario describes one scripted upstream response independently of the
+ * wire format: streamed text, tool calls (structured or as XML text), an HTTP
+ * error such as 429 with Retry-After, or a stream that drops mid-way. The
+ * format encoders in formats.ts turn it into provider-specific events.
+ */
+
+import { readFileSync } from "node:fs";
+
+export interface MockToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface MockScenario {
+  name: string;
+  /** Reasoning streamed before the text, in the format's native reasoning field */
+  reasoning?: string;
+  /** Text streamed before any tool calls */
+  text?: string;
+  /** Structured tool calls */
+  toolCalls?: MockToolCall[];
+  /** Emit the tool calls as <function_calls> XML inside the text (Poe-style) */
+  xmlToolCalls?: boolean;
+  /** Respond with this HTTP status and an error body instead of a stream */
+  status?: number;
+  /** Retry-After header (seconds) sent with an error status */
+  retryAfter?: number;
+  /** Drop the connection after this many stream events */
+  disconnectAfter?: number;
+  /** Characters per text delta (default 8) */
+  chunkSize?: number;
+  /** Delay between stream events in ms (default 0) */
+  delayMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+const READ_FILE_CALL: MockToolCall = {
+  name: "Read",
+  arguments: { file_path: "/tmp/example.txt" },
+};
+
+/**
+ * Built-in scenarios, selectable by name
+ */
+export const BUILTIN_SCENARIOS: Record<string, MockScenario> = {
+  text: { name: "text", text: "Hello from the mock upstream." },
+  tool_call: {
+    name: "tool_call",
+    text: "Let me read that file.",
+    toolCalls: [READ_FILE_CALL],
+  },
+  xml_tool_call: {
+    name: "xml_tool_call",
+    text: "Let me read that file.",
+    toolCalls: [READ_FILE_CALL],
+    xmlToolCalls: true,
+  },
+  reasoning: {
+    name: "reasoning",
+    reasoning: "The user wants a greeting, so I will say hello.",
+    text: "Hello from the mock upstream.",
+  },
+  rate_limit: { name: "rate_limit", status: 429, retryAfter: 1 },
+  server_error: { name: "server_error", status: 500 },
+  disconnect: {
+    name: "disconnect",
+    text: "This response is cut off before it finishes streaming.",
+    chunkSize: 4,
+    disconnectAfter: 3,
+  },
+};
+
+export const DEFAULT_SCENARIO = "text";
+
+/**
+ * Render tool calls the way Poe's text-only models emit them
+ */
+export function formatXmlToolCalls(toolCalls: MockToolCall[]): string {
+  const invokes = toolCalls.map((call) => {
+    const params = Object.entries(call.arguments)
+      .map(([key, value]) => {
+        const text = typeof value === "string" ? value : JSON.stringify(value);
+        return `<parameter name="${key}">${text}</parameter>`;
+      })
+      .join("");
+    return `<invoke name="${call.name}">${params}</invoke>`;
+  });
+  return `<function_calls>${invokes.join("")}</function_calls>`;
+}
+
+/**
+ * Streaming text deltas of a scenario. XML tool calls arrive as one delta,
+ * the way Poe bots emit them.
+ */
+export function getScenarioDeltas(scenario: MockScenario): string[] {
+  const deltas = chunkText(scenario.text || "", scenario.chunkSize);
+  if (scenario.xmlToolCalls && scenario.toolCalls?.length) {
+    deltas.push(`\n\n${formatXmlToolCalls(scenario.toolCalls)}`);
+  }
+  return deltas;
+}
+
+/**
+ * Streaming reasoning deltas of a scenario
+ */
+export function getReasoningDeltas(scenario: MockScenario): string[] {
+  return chunkText(scenario.reasoning || "", scenario.chunkSize);
+}
+
+/**
+ * Full text a scenario streams, including XML tool calls when enabled
+ */
+export function getScenarioText(scenario: MockScenario): string {
+  return getScenarioDeltas(scenario).join("");
+}
+
+/**
+ * Tool calls a scenario sends as structured calls
+ */
+export function getStructuredToolCalls(scenario: MockScenario): MockToolCall[] {
+  return scenario.xmlToolCalls ? [] : scenario.toolCalls || [];
+}
+
+/**
+ * Split text into streaming deltas
+ */
+export function chunkText(text: string, size = 8): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Load custom scenarios from a JSON file (an array of scenarios or a name -> scenario map)
+ */
+export function loadScenarioFile(path: string): Record<string, MockScenario> {
+  const data = JSON.parse(readFileSync(path, "utf-8"));
+  const list: MockScenario[] = Array.isArray(data)
+    ? data
+    : Object.entries(data).map(([name, s]) => ({ ...(s as MockScenario), name }));
+
+  const scenarios: Record<string, MockScenario> = {};
+  for (const scenario of list) {
+    if (!scenario?.name) throw new Error(`Scenario without a name in ${path}`);
+    scenarios[scenario.name] = scenario;
+  }
+  return scenarios;
+}
+
+/**
+ * Find the scenario named in a model name (e.g. "gpt-4o-tool_call" or
+ * "codex-rate_limit"), preferring the longest matching name
+ */
+export function findScenarioInModel(
+  model: string,
+  scenarios: Record<string, MockScenario>
+): MockScenario | undefined {
+  const lower = model.toLowerCase();
+  return Object.values(scenarios)
+    .filter((s) => lower.includes(s.name.toLowerCase()))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+}
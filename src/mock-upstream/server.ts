@@ -0,0 +1,227 @@
+/**
+ * Mock upstream server
+ *
+ * Serves every provider wire format claudish talks to from one local port so
+ * the handlers can be exercised end-to-end against createProxyServer without
+ * network access. Point a provider at it with its base URL variable, e.g.
+ * OPENAI_BASE_URL, GEMINI_BASE_URL, OLLAMA_BASE_URL, OLLAMACLOUD_BASE_URL,
+ * OPENROUTER_BASE_URL, POE_BASE_URL or MINIMAX_BASE_URL.
+ *
+ * The scenario for each request is, in order of precedence:
+ * 1. The next entry of the script (setScript / POST /__mock/script)
+ * 2. A scenario named in the model (e.g. "gemini-2.5-flash-tool_call")
+ * 3. The default scenario
+ *
+ * Control endpoints: GET /__mock/requests, POST /__mock/script, POST /__mock/reset
+ */
+
+import { serve } from "@hono/node-server";
+import { Hono } from "hono";
+import { log } from "../logger.js";
+import { MOCK_FORMATS, type MockFormatName, detectFormat } from "./formats.js";
+import {
+  BUILTIN_SCENARIOS,
+  DEFAULT_SCENARIO,
+  type MockScenario,
+  findScenarioInModel,
+  getScenarioText,
+} from "./scenarios.js";
+
+/**
+ * Base URL variables that point providers at the mock upstream
+ */
+export const MOCK_BASE_URL_ENV_VARS = [
+  "OPENAI_BASE_URL",
+  "GEMINI_BASE_URL",
+  "OPENROUTER_BASE_URL",
+  "POE_BASE_URL",
+  "OLLAMA_BASE_URL",
+  "OLLAMACLOUD_BASE_URL",
+  "MINIMAX_BASE_URL",
+];
+
+export interface MockUpstreamOptions {
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  /** Scenario used when neither the script nor the model name picks one */
+  defaultScenario?: string;
+  /** Scenarios played in order, one per request */
+  script?: Array<string | MockScenario>;
+  /** Additional named scenarios */
+  scenarios?: Record<string, MockScenario>;
+}
+
+/**
+ * A request received by the mock upstream
+ */
+export interface MockRequest {
+  format: MockFormatName;
+  path: string;
+  model: string;
+  scenario: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+export interface MockUpstream {
+  port: number;
+  url: string;
+  /** Requests received so far */
+  requests: MockRequest[];
+  /** Replace the script of upcoming scenarios */
+  setScript(script: Array<string | MockScenario>): void;
+  /** Clear the script and received requests */
+  reset(): void;
+  stop(): Promise<void>;
+}
+
+/**
+ * Model name of a request: in the body for most formats, in the path for Gemini
+ */
+function getRequestModel(format: MockFormatName, path: string, body: any): string {
+  if (format === "gemini") {
+    return path.match(/\/models\/([^/:]+):/)?.[1] || body?.model || "gemini";
+  }
+  return body?.model || "mock-model";
+}
+
+/**
+ * Stream events with an optional delay, dropping the connection after
+ * disconnectAfter events
+ */
+function streamEvents(
+  events: string[],
+  scenario: MockScenario,
+  disconnect: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let sent = 0;
+  return new ReadableStream({
+    async pull(controller) {
+      if (scenario.disconnectAfter !== undefined && sent >= scenario.disconnectAfter) {
+        log(`[MockUpstream] Dropping connection after ${sent} events`);
+        disconnect();
+        controller.close();
+        return;
+      }
+      if (sent >= events.length) {
+        controller.close();
+        return;
+      }
+      if (scenario.delayMs) await new Promise((r) => setTimeout(r, scenario.delayMs));
+      controller.enqueue(encoder.encode(events[sent++]));
+    },
+  });
+}
+
+export async function createMockUpstream(options: MockUpstreamOptions = {}): Promise<MockUpstream> {
+  const scenarios: Record<string, MockScenario> = { ...BUILTIN_SCENARIOS, ...options.scenarios };
+  const requests: MockRequest[] = [];
+  let script: Array<string | MockScenario> = [...(options.script || [])];
+
+  const lookup = (entry: string | MockScenario): MockScenario => {
+    if (typeof entry !== "string") return entry;
+    const scenario = scenarios[entry];
+    if (!scenario) throw new Error(`Unknown mock scenario: ${entry}`);
+    return scenario;
+  };
+  const defaultScenario = lookup(options.defaultScenario || DEFAULT_SCENARIO);
+
+  const setScript = (entries: Array<string | MockScenario>) => {
+    entries.forEach(lookup); // Fail on unknown names up front
+    script = [...entries];
+  };
+  const reset = () => {
+    script = [];
+    requests.length = 0;
+  };
+
+  const pickScenario = (model: string): MockScenario => {
+    const next = script.shift();
+    if (next) return lookup(next);
+    return findScenarioInModel(model, scenarios) || defaultScenario;
+  };
+
+  const app = new Hono();
+
+  // Control endpoints
+  app.get("/__mock/requests", (c) => c.json(requests));
+  app.post("/__mock/script", async (c) => {
+    const body = await c.req.json();
+    try {
+      setScript(body.script || []);
+      return c.json({ ok: true, script: script.length });
+    } catch (e) {
+      return c.json({ error: String(e) }, 400);
+    }
+  });
+  app.post("/__mock/reset", (c) => {
+    reset();
+    return c.json({ ok: true });
+  });
+
+  // Model discovery endpoints probed by the local provider handler
+  app.get("/api/tags", (c) => c.json({ models: [{ name: "mock-model" }] }));
+  app.get("/v1/models", (c) => c.json({ object: "list", data: [{ id: "mock-model" }] }));
+  app.post("/api/show", (c) => c.json({ model_info: { "general.context_length": 131072 } }));
+
+  app.post("*", async (c) => {
+    const path = c.req.path;
+    const format = detectFormat(path);
+    if (!format) return c.json({ error: `No mock format for ${path}` }, 404);
+
+    const body = await c.req.json().catch(() => ({}));
+    const model = getRequestModel(format, path, body);
+    const scenario = pickScenario(model);
+    requests.push({ format, path, model, scenario: scenario.name, headers: c.req.header(), body });
+    log(`[MockUpstream] ${format} ${path} model=${model} scenario=${scenario.name}`);
+
+    const encoder = MOCK_FORMATS[format];
+    if (scenario.status && scenario.status >= 400) {
+      const headers: Record<string, string> = {};
+      if (scenario.retryAfter !== undefined) headers["Retry-After"] = String(scenario.retryAfter);
+      const message = `Mock ${scenario.name} (HTTP ${scenario.status})`;
+      return c.json(
+        encoder.errorBody(scenario.status, message, scenario.retryAfter) as object,
+        scenario.status as 429,
+        headers
+      );
+    }
+
+    const outputText = getScenarioText(scenario);
+    const events = encoder.encode(scenario, {
+      model,
+      inputTokens: scenario.inputTokens ?? Math.ceil(JSON.stringify(body).length / 4),
+      outputTokens:
+        scenario.outputTokens ??
+        Math.ceil(outputText.length / 4) + (scenario.toolCalls?.length || 0) * 20,
+    });
+    // @hono/node-server exposes the raw socket response as env.outgoing
+    const disconnect = () => (c.env as { outgoing?: { destroy(): void } })?.outgoing?.destroy();
+    return new Response(streamEvents(events, scenario, disconnect), {
+      headers: { "Content-Type": encoder.contentType, "Cache-Control": "no-cache" },
+    });
+  });
+
+  const server = serve({ fetch: app.fetch, port: options.port ?? 0, hostname: "127.0.0.1" });
+  await new Promise<void>((resolve, reject) => {
+    server.once("listening", () => resolve());
+    server.once("error", reject);
+  });
+  const addr = server.address();
+  const port = typeof addr === "object" && addr?.port ? addr.port : options.port || 0;
+
+  return {
+    port,
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setScript,
+    reset,
+    stop: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        // Streams left open by disconnect scenarios must not keep the server alive
+        if ("closeAllConnections" in server) server.closeAllConnections();
+      }),
+  };
+}
@@ -11,6 +11,7 @@ import { homedir } from "node:os";
 import { fileURLToPath } from "node:url";
 import type { OpenRouterModel } from "./types.js";
 import { getAvailableModels } from "./model-loader.js";
+import { resolveModelProvider } from "./providers/provider-resolver.js";
 
 // Get __dirname equivalent in ESM
 const __filename = fileURLToPath(import.meta.url);
@@ -306,6 +307,18 @@ function formatModelChoice(model: ModelInfo, showSource = false): string {
   return `${model.id} (${model.provider}, ${priceStr}, ${ctxStr}${capsStr})`;
 }
 
+/**
+ * Search choice for a model (disabled when the organisation policy blocks it)
+ */
+function toModelChoice(model: ModelInfo, showSource = false) {
+  return {
+    name: formatModelChoice(model, showSource),
+    value: model.id,
+    description: model.description?.slice(0, 80),
+    disabled: resolveModelProvider(model.id).policyViolation ? "(blocked by policy)" : false,
+  };
+}
+
 /**
  * Fuzzy match score
  */
@@ -376,11 +389,7 @@ export async function selectModel(options: ModelSelectorOptions = {}): Promise<s
     source: async (term) => {
       if (!term) {
         // Show all/top models when no search term
-        return models.slice(0, 15).map((m) => ({
-          name: formatModelChoice(m, freeOnly), // Show source for free models
-          value: m.id,
-          description: m.description?.slice(0, 80),
-        }));
+        return models.slice(0, 15).map((m) => toModelChoice(m, freeOnly)); // Show source for free models
       }
 
       // Fuzzy search
@@ -397,11 +406,7 @@ export async function selectModel(options: ModelSelectorOptions = {}): Promise<s
         .sort((a, b) => b.score - a.score)
         .slice(0, 15);
 
-      return results.map((r) => ({
-        name: formatModelChoice(r.model, freeOnly), // Show source for free models
-        value: r.model.id,
-        description: r.model.description?.slice(0, 80),
-      }));
+      return results.map((r) => toModelChoice(r.model, freeOnly)); // Show source for free models
     },
   });
 
@@ -453,11 +458,7 @@ export async function selectModelsForProfile(): Promise<{
           filtered = filtered.slice(0, 15);
         }
 
-        return filtered.map((m) => ({
-          name: formatModelChoice(m),
-          value: m.id,
-          description: m.description?.slice(0, 80),
-        }));
+        return filtered.map((m) => toModelChoice(m));
       },
     });
   };
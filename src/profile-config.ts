@@ -8,6 +8,12 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import type { ProviderAccountsConfig } from "./auth/accounts.js";
+import type { CredentialStoreKind } from "./auth/credential-store.js";
+import { type ReasoningMode, isReasoningMode } from "./handlers/shared/reasoning.js";
+import type { RedactionConfig } from "./middleware/redaction.js";
+import type { CustomProviderConfig } from "./providers/custom-providers.js";
+import type { RoutingRule } from "./services/routing-rules.js";
 
 // Config directory and file paths
 const CONFIG_DIR = join(homedir(), ".claudish");
@@ -24,6 +30,15 @@ export interface ModelMapping {
   subagent?: string; // Model for subagents (CLAUDE_CODE_SUBAGENT_MODEL)
 }
 
+/**
+ * Session spend limit for a profile
+ */
+export interface ProfileBudget {
+  limit: number; // USD per session
+  warnAt?: number; // Fraction of the limit that triggers the status line warning (default 0.8)
+  downgradeModel?: string; // Cheaper model used once the limit is hit (requests are rejected if unset)
+}
+
 /**
  * A named profile with model mappings
  */
@@ -31,6 +46,18 @@ export interface Profile {
   name: string;
   description?: string;
   models: ModelMapping;
+  /** Fallback targets tried in order when a role's model fails (429/5xx/unreachable) */
+  fallback?: string[];
+  /** Session spend limit enforced by the proxy */
+  budget?: ProfileBudget;
+  /** Per-request routing rules, checked in order before the role mappings */
+  rules?: RoutingRule[];
+  /** Model that describes images for targets without vision support */
+  visionModel?: string;
+  /** How upstream reasoning is shown: thinking blocks, hidden, or inline text */
+  reasoning?: ReasoningMode;
+  /** Secret and email redaction of outbound requests (mode, detectors, custom patterns) */
+  redaction?: RedactionConfig;
   createdAt: string;
   updatedAt: string;
 }
@@ -42,6 +69,12 @@ export interface ClaudishProfileConfig {
   version: string;
   defaultProfile: string;
   profiles: Record<string, Profile>;
+  /** Custom providers (see providers/custom-providers.ts) */
+  providers?: CustomProviderConfig[];
+  /** Where API keys and OAuth tokens are stored (see auth/credential-store.ts) */
+  credentialStore?: CredentialStoreKind;
+  /** Account selection per provider (see auth/accounts.ts) */
+  accounts?: Record<string, ProviderAccountsConfig>;
 }
 
 /**
@@ -94,6 +127,9 @@ export function loadConfig(): ClaudishProfileConfig {
       version: config.version || DEFAULT_CONFIG.version,
       defaultProfile: config.defaultProfile || DEFAULT_CONFIG.defaultProfile,
       profiles: config.profiles || DEFAULT_CONFIG.profiles,
+      providers: config.providers,
+      credentialStore: config.credentialStore,
+      accounts: config.accounts,
     };
   } catch (error) {
     console.error(`Warning: Failed to load config, using defaults: ${error}`);
@@ -232,6 +268,58 @@ export function getModelMapping(profileName?: string): ModelMapping {
   return profile.models;
 }
 
+/**
+ * Get fallback targets from a profile
+ * Returns an empty list if the profile doesn't define any
+ */
+export function getProfileFallback(profileName?: string): string[] {
+  const profile = profileName ? getProfile(profileName) : getDefaultProfile();
+  return profile?.fallback || [];
+}
+
+/**
+ * Get routing rules from a profile
+ * Returns an empty list if the profile doesn't define any
+ */
+export function getProfileRules(profileName?: string): RoutingRule[] {
+  const profile = profileName ? getProfile(profileName) : getDefaultProfile();
+  return Array.isArray(profile?.rules) ? profile.rules : [];
+}
+
+/**
+ * Get the vision helper model from a profile
+ */
+export function getProfileVisionModel(profileName?: string): string | undefined {
+  const profile = profileName ? getProfile(profileName) : getDefaultProfile();
+  return profile?.visionModel || undefined;
+}
+
+/**
+ * Get the reasoning display mode from a profile
+ */
+export function getProfileReasoningMode(profileName?: string): ReasoningMode | undefined {
+  const profile = profileName ? getProfile(profileName) : getDefaultProfile();
+  return profile?.reasoning && isReasoningMode(profile.reasoning) ? profile.reasoning : undefined;
+}
+
+/**
+ * Get the redaction settings from a profile
+ */
+export function getProfileRedaction(profileName?: string): RedactionConfig | undefined {
+  const profile = profileName ? getProfile(profileName) : getDefaultProfile();
+  return profile?.redaction || undefined;
+}
+
+/**
+ * Get the session budget from a profile
+ * Returns undefined if the profile doesn't define a usable one
+ */
+export function getProfileBudget(profileName?: string): ProfileBudget | undefined {
+  const profile = profileName ? getProfile(profileName) : getDefaultProfile();
+  const budget = profile?.budget;
+  return budget && budget.limit > 0 ? budget : undefined;
+}
+
 /**
  * Create a new profile with the given models
  */
@@ -0,0 +1,203 @@
+/**
+ * Custom Providers - declared in ~/.claudish/config.json
+ *
+ * Lets users add OpenAI-, Anthropic-, Gemini- or Ollama-compatible vendors
+ * without code changes. Each entry feeds the model parser (shortcuts), the
+ * remote provider registry, API key validation, the proxy handler factory,
+ * pricing and the --models listing.
+ *
+ * Example:
+ *   "providers": [
+ *     {
+ *       "name": "together",
+ *       "shortcuts": ["tg"],
+ *       "baseUrl": "https://api.together.xyz",
+ *       "protocol": "openai",
+ *       "apiKeyEnvVar": "TOGETHER_API_KEY",
+ *       "pricing": { "inputCostPer1M": 0.88, "outputCostPer1M": 0.88 },
+ *       "models": ["meta-llama/Llama-3.3-70B-Instruct-Turbo"]
+ *     }
+ *   ]
+ *
+ * Usage: claudish --model together@meta-llama/Llama-3.3-70B-Instruct-Turbo
+ */
+
+import type {
+  ModelPricing,
+  ProviderCapabilities,
+  RemoteProvider,
+} from "../handlers/shared/remote-provider-types.js";
+import { loadConfig } from "../profile-config.js";
+import type { DataHandlingClass } from "./provider-policy.js";
+
+/**
+ * Wire protocol spoken by a custom provider
+ */
+export type CustomProviderProtocol = "openai" | "anthropic" | "gemini" | "ollama";
+
+export const CUSTOM_PROVIDER_PROTOCOLS: CustomProviderProtocol[] = [
+  "openai",
+  "anthropic",
+  "gemini",
+  "ollama",
+];
+
+/**
+ * A provider declared in the "providers" list of ~/.claudish/config.json
+ */
+export interface CustomProviderConfig {
+  /** Provider name used in model specs (name@model), must not clash with a built-in provider */
+  name: string;
+  /** Display name for the status line and error messages (defaults to name) */
+  displayName?: string;
+  /** Additional names that route to this provider (e.g. ["tg"] for tg@model) */
+  shortcuts?: string[];
+  /** Base URL for the API */
+  baseUrl: string;
+  /** API path (defaults to the protocol's standard path) */
+  apiPath?: string;
+  protocol: CustomProviderProtocol;
+  /** Environment variable holding the API key (omit for providers without auth) */
+  apiKeyEnvVar?: string;
+  /** Where users get an API key (shown when the key is missing) */
+  apiKeyUrl?: string;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  capabilities?: Partial<ProviderCapabilities>;
+  /** Default pricing for all models of this provider */
+  pricing?: ModelPricing;
+  /** Models shown by --models */
+  models?: string[];
+  /** Where prompts end up, for policy files (see providers/provider-policy.ts) */
+  dataHandling?: DataHandlingClass;
+}
+
+/**
+ * Standard API path of each protocol
+ */
+const DEFAULT_API_PATHS: Record<CustomProviderProtocol, string> = {
+  openai: "/v1/chat/completions",
+  anthropic: "/v1/messages",
+  gemini: "/v1beta/models/{model}:streamGenerateContent?alt=sse",
+  ollama: "/api/chat",
+};
+
+const DEFAULT_CAPABILITIES: ProviderCapabilities = {
+  supportsTools: true,
+  supportsVision: false,
+  supportsStreaming: true,
+  supportsJsonMode: false,
+  supportsReasoning: false,
+};
+
+// Providers loaded from config (null = not loaded yet)
+let customProviders: CustomProviderConfig[] | null = null;
+
+/**
+ * Check a provider entry from config.json
+ * Returns error message if the entry is invalid, null if OK
+ */
+export function validateCustomProvider(entry: any): string | null {
+  if (!entry || typeof entry !== "object") return "provider entry must be an object";
+  if (typeof entry.name !== "string" || !/^[a-z0-9][a-z0-9._-]*$/i.test(entry.name)) {
+    return `invalid provider name: ${JSON.stringify(entry.name)}`;
+  }
+  if (typeof entry.baseUrl !== "string" || !/^https?:\/\//.test(entry.baseUrl)) {
+    return `${entry.name}: baseUrl must be an http(s) URL`;
+  }
+  if (!CUSTOM_PROVIDER_PROTOCOLS.includes(entry.protocol)) {
+    return `${entry.name}: protocol must be one of ${CUSTOM_PROVIDER_PROTOCOLS.join(", ")}`;
+  }
+  if (entry.shortcuts !== undefined && !Array.isArray(entry.shortcuts)) {
+    return `${entry.name}: shortcuts must be an array`;
+  }
+  return null;
+}
+
+/**
+ * Normalize a valid entry (lowercase names, no trailing slash on the base URL)
+ */
+function normalizeCustomProvider(entry: CustomProviderConfig): CustomProviderConfig {
+  return {
+    ...entry,
+    name: entry.name.toLowerCase(),
+    shortcuts: (entry.shortcuts || []).map((s) => s.toLowerCase()),
+    baseUrl: entry.baseUrl.replace(/\/+$/, ""),
+  };
+}
+
+/**
+ * Validate and normalize provider entries, skipping invalid ones with a warning
+ */
+export function parseCustomProviders(entries: unknown): CustomProviderConfig[] {
+  if (entries === undefined) return [];
+  if (!Array.isArray(entries)) {
+    console.error('Warning: "providers" in config.json must be an array, ignoring it');
+    return [];
+  }
+
+  const providers: CustomProviderConfig[] = [];
+  for (const entry of entries) {
+    const error = validateCustomProvider(entry);
+    if (error) {
+      console.error(`Warning: Skipping custom provider in config.json: ${error}`);
+      continue;
+    }
+    providers.push(normalizeCustomProvider(entry));
+  }
+  return providers;
+}
+
+/**
+ * Get the custom providers declared in ~/.claudish/config.json
+ */
+export function getCustomProviders(): CustomProviderConfig[] {
+  if (customProviders === null) {
+    customProviders = parseCustomProviders(loadConfig().providers);
+  }
+  return customProviders;
+}
+
+/**
+ * Replace the custom providers (null reloads them from config.json on next use)
+ */
+export function setCustomProviders(providers: CustomProviderConfig[] | null): void {
+  customProviders = providers === null ? null : parseCustomProviders(providers);
+}
+
+/**
+ * Find a custom provider by name or shortcut (case-insensitive)
+ */
+export function findCustomProvider(nameOrShortcut: string): CustomProviderConfig | undefined {
+  const key = nameOrShortcut.toLowerCase();
+  return getCustomProviders().find((p) => p.name === key || p.shortcuts?.includes(key));
+}
+
+/**
+ * Convert a custom provider to the remote provider shape used by the handlers
+ */
+export function toRemoteProvider(config: CustomProviderConfig): RemoteProvider {
+  return {
+    name: config.name,
+    baseUrl: config.baseUrl,
+    apiPath: config.apiPath || DEFAULT_API_PATHS[config.protocol],
+    apiKeyEnvVar: config.apiKeyEnvVar || "",
+    prefixes: [],
+    capabilities: { ...DEFAULT_CAPABILITIES, ...config.capabilities },
+    headers: config.headers,
+    protocol: config.protocol,
+  };
+}
+
+/**
+ * Default pricing of a custom provider, if it declares one
+ */
+export function getCustomProviderPricing(name: string): ModelPricing | undefined {
+  const pricing = getCustomProviders().find((p) => p.name === name.toLowerCase())?.pricing;
+  if (!pricing) return undefined;
+  return {
+    ...pricing,
+    inputCostPer1M: Number(pricing.inputCostPer1M) || 0,
+    outputCostPer1M: Number(pricing.outputCostPer1M) || 0,
+  };
+}
@@ -3,10 +3,13 @@ export { PoeProvider } from "./poe-provider.js";
 // Centralized provider resolution - THE single source of truth
 export {
   resolveModelProvider,
+  resolveFallbackChain,
+  selectChainResolution,
   validateApiKeysForModels,
   getMissingKeyError,
   getMissingKeysError,
   getMissingKeyResolutions,
+  getPolicyError,
   requiresOpenRouterKey,
   isLocalModel,
   type ProviderCategory,
@@ -38,8 +41,22 @@ export {
   isDirectApiProvider,
   getLegacySyntaxWarning,
   formatModelSpec,
+  isFallbackChain,
+  parseFallbackChain,
+  formatFallbackChain,
   PROVIDER_SHORTCUTS,
   DIRECT_API_PROVIDERS,
   LOCAL_PROVIDERS,
   type ParsedModel,
 } from "./model-parser.js";
+
+// Organisation policy - allowed providers, models and data-handling classes
+export {
+  getPolicyViolation,
+  getProviderPolicy,
+  getDataHandlingClass,
+  PolicyViolationError,
+  DATA_HANDLING_CLASSES,
+  type DataHandlingClass,
+  type ProviderPolicy,
+} from "./provider-policy.js";
@@ -23,6 +23,9 @@
  *   v, vertex     -> vertex
  *   go            -> gemini-codeassist (OAuth)
  *
+ * Custom providers declared in ~/.claudish/config.json are matched by name
+ * or by one of their shortcuts (built-in shortcuts take precedence).
+ *
  * Local provider shortcuts:
  *   ollama        -> ollama (local)
  *   lms, lmstudio -> lmstudio (local)
@@ -40,8 +43,13 @@
  *   qwen/*                 -> openrouter (no direct API)
  *   anthropic/*            -> native-anthropic
  *   (anything else with /) -> openrouter
+ *
+ * Fallback chains (tried left to right on retryable upstream failures):
+ *   google@gemini-3-pro|openrouter@google/gemini-3-pro|ollama@qwen3
  */
 
+import { findCustomProvider } from "./custom-providers.js";
+
 /**
  * Parsed model specification
  */
@@ -258,8 +266,11 @@ export function parseModelSpec(modelSpec: string): ParsedModel {
       concurrency = parseInt(concurrencyMatch[2], 10);
     }
 
-    // Resolve provider shortcut
-    const provider = PROVIDER_SHORTCUTS[providerPart] || providerPart;
+    // Resolve provider shortcut (built-in first, then custom providers)
+    const provider =
+      PROVIDER_SHORTCUTS[providerPart] ||
+      (isBuiltinProviderName(providerPart) ? providerPart : findCustomProvider(providerPart)?.name) ||
+      providerPart;
 
     return {
       provider,
@@ -345,11 +356,26 @@ export function isLocalProviderName(provider: string): boolean {
   return LOCAL_PROVIDERS.has(provider.toLowerCase());
 }
 
+/**
+ * Check if a name belongs to a built-in provider (or one of its shortcuts)
+ * Custom providers can't take these names.
+ */
+export function isBuiltinProviderName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return (
+    Object.hasOwn(PROVIDER_SHORTCUTS, lower) ||
+    DIRECT_API_PROVIDERS.has(lower) ||
+    LOCAL_PROVIDERS.has(lower) ||
+    lower === "openrouter"
+  );
+}
+
 /**
  * Check if a provider supports direct API access
  */
 export function isDirectApiProvider(provider: string): boolean {
-  return DIRECT_API_PROVIDERS.has(provider.toLowerCase());
+  const lower = provider.toLowerCase();
+  return DIRECT_API_PROVIDERS.has(lower) || (!isBuiltinProviderName(lower) && !!findCustomProvider(lower));
 }
 
 /**
@@ -379,3 +405,41 @@ export function formatModelSpec(
   }
   return spec;
 }
+
+/**
+ * Separator between links of a fallback chain
+ */
+export const FALLBACK_CHAIN_SEPARATOR = "|";
+
+/**
+ * Check if a model spec is a fallback chain (more than one target)
+ */
+export function isFallbackChain(modelSpec: string): boolean {
+  return parseFallbackChain(modelSpec).length > 1;
+}
+
+/**
+ * Split a fallback chain into its individual model specs
+ *
+ * Empty links and duplicates are dropped, order is preserved.
+ * A plain model spec returns a single-element array.
+ *
+ * @example parseFallbackChain("g@gemini-3-pro|ollama@qwen3") // ["g@gemini-3-pro", "ollama@qwen3"]
+ */
+export function parseFallbackChain(modelSpec: string): string[] {
+  const links: string[] = [];
+  for (const part of modelSpec.split(FALLBACK_CHAIN_SEPARATOR)) {
+    const link = part.trim();
+    if (link && !links.includes(link)) {
+      links.push(link);
+    }
+  }
+  return links;
+}
+
+/**
+ * Join model specs into a fallback chain string
+ */
+export function formatFallbackChain(links: string[]): string {
+  return parseFallbackChain(links.join(FALLBACK_CHAIN_SEPARATOR)).join(FALLBACK_CHAIN_SEPARATOR);
+}
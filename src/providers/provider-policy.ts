@@ -0,0 +1,275 @@
+/**
+ * Provider Policy - organisation rules on where prompts may be sent
+ *
+ * A policy file allow/deny-lists providers, model patterns and data-handling
+ * classes. It is read from the file named by CLAUDISH_POLICY, or else from the
+ * nearest .claudish/policy.json in the working directory or one of its
+ * parents (so it can be committed to a repository):
+ *
+ *   {
+ *     "name": "Acme AI usage policy",
+ *     "contact": "legal@acme.example",
+ *     "providers": { "deny": ["poe", "opencode-zen"] },
+ *     "models": { "allow": ["anthropic/*", "gemini-*", "gpt-*"], "deny": ["*:free"] },
+ *     "dataHandling": { "allow": ["local", "vendor"] }
+ *   }
+ *
+ * In every list a deny entry wins, and a non-empty allow list blocks whatever
+ * it doesn't match. Model patterns use * wildcards and are matched against
+ * the model name (deepseek/deepseek-chat) and provider@model. A policy file
+ * that can't be read blocks every route rather than silently allowing them.
+ *
+ * resolveModelProvider() reports violations, the CLI refuses to start with a
+ * blocked model and the proxy rejects blocked routes with a 403.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { findCustomProvider } from "./custom-providers.js";
+import { PROVIDER_SHORTCUTS } from "./model-parser.js";
+
+/**
+ * Where a provider sends prompts:
+ * - local: your machine or network (Ollama, LM Studio, vLLM, MLX, custom URLs)
+ * - vendor: the model vendor's own API (Anthropic, OpenAI, Gemini, Vertex AI, ...)
+ * - aggregator: a router that forwards to other hosts (OpenRouter, Poe, OpenCode Zen)
+ * - hosted: a third party hosting open models (OllamaCloud)
+ * - unclassified: custom providers that don't declare a class
+ */
+export type DataHandlingClass = "local" | "vendor" | "aggregator" | "hosted" | "unclassified";
+
+export const DATA_HANDLING_CLASSES: DataHandlingClass[] = [
+  "local",
+  "vendor",
+  "aggregator",
+  "hosted",
+  "unclassified",
+];
+
+const PROVIDER_DATA_HANDLING: Record<string, DataHandlingClass> = {
+  ollama: "local",
+  lmstudio: "local",
+  vllm: "local",
+  mlx: "local",
+  "custom-url": "local",
+  anthropic: "vendor",
+  gemini: "vendor",
+  "gemini-codeassist": "vendor",
+  vertex: "vendor",
+  openai: "vendor",
+  minimax: "vendor",
+  kimi: "vendor",
+  "kimi-coding": "vendor",
+  glm: "vendor",
+  zai: "vendor",
+  openrouter: "aggregator",
+  poe: "aggregator",
+  "opencode-zen": "aggregator",
+  ollamacloud: "hosted",
+};
+
+/**
+ * Allowed and denied entries of one policy dimension
+ */
+export interface PolicyList {
+  allow?: string[];
+  deny?: string[];
+}
+
+/**
+ * Contents of a policy file
+ */
+export interface ProviderPolicyConfig {
+  /** Shown in error messages (e.g. "Acme AI usage policy") */
+  name?: string;
+  /** Who to ask for an exception (shown in error messages) */
+  contact?: string;
+  /** Provider names as used in model specs (openrouter, gemini, ollama, custom names) */
+  providers?: PolicyList;
+  /** Model patterns with * wildcards */
+  models?: PolicyList;
+  /** Data-handling classes */
+  dataHandling?: PolicyList;
+}
+
+/**
+ * A policy and the file it came from
+ */
+export interface ProviderPolicy extends ProviderPolicyConfig {
+  source: string;
+  /** Why the file couldn't be used (every route is blocked) */
+  invalid?: string;
+}
+
+const POLICY_ENV_VAR = "CLAUDISH_POLICY";
+const POLICY_FILE = join(".claudish", "policy.json");
+
+// Active policy (undefined = not loaded yet, null = none)
+let activePolicy: ProviderPolicy | null | undefined;
+
+/**
+ * Canonical provider name (shortcuts resolved, "google" is "gemini")
+ */
+export function normalizePolicyProvider(name: string): string {
+  const key = name.toLowerCase();
+  const canonical = PROVIDER_SHORTCUTS[key] || findCustomProvider(key)?.name || key;
+  if (canonical === "google") return "gemini";
+  if (canonical === "native-anthropic") return "anthropic";
+  return canonical;
+}
+
+/**
+ * Data-handling class of a provider
+ */
+export function getDataHandlingClass(provider: string): DataHandlingClass {
+  const name = normalizePolicyProvider(provider);
+  return PROVIDER_DATA_HANDLING[name] || findCustomProvider(name)?.dataHandling || "unclassified";
+}
+
+/**
+ * Check one allow/deny list of a policy
+ */
+function validatePolicyList(key: keyof ProviderPolicyConfig, list: any): string | null {
+  if (!list || typeof list !== "object") return `"${key}" must be an object`;
+  for (const mode of ["allow", "deny"] as const) {
+    const entries = list[mode];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries) || !entries.every((e) => typeof e === "string")) {
+      return `"${key}.${mode}" must be an array of strings`;
+    }
+    const unknown = key === "dataHandling" && entries.find((e) => !isDataHandlingClass(e));
+    if (unknown) {
+      return `unknown data-handling class "${unknown}" (use ${DATA_HANDLING_CLASSES.join(", ")})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a policy file's contents
+ * Returns error message if the policy is invalid, null if OK
+ */
+export function validateProviderPolicy(policy: any): string | null {
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+    return "policy must be a JSON object";
+  }
+  for (const key of ["providers", "models", "dataHandling"] as const) {
+    const error = policy[key] === undefined ? null : validatePolicyList(key, policy[key]);
+    if (error) return error;
+  }
+  return null;
+}
+
+function isDataHandlingClass(value: string): value is DataHandlingClass {
+  return (DATA_HANDLING_CLASSES as string[]).includes(value);
+}
+
+/**
+ * Path of the policy file that applies in a directory, if any
+ */
+export function findPolicyFile(cwd: string = process.cwd()): string | null {
+  const fromEnv = process.env[POLICY_ENV_VAR];
+  if (fromEnv) return resolve(fromEnv);
+  let dir = resolve(cwd);
+  for (;;) {
+    const candidate = join(dir, POLICY_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Read a policy file (a broken file yields a policy that blocks everything)
+ */
+export function loadPolicyFile(path: string): ProviderPolicy {
+  let config: any;
+  try {
+    config = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e) {
+    return { source: path, invalid: e instanceof Error ? e.message : String(e) };
+  }
+  const error = validateProviderPolicy(config);
+  return error ? { source: path, invalid: error } : { ...config, source: path };
+}
+
+/**
+ * The policy in effect, or null when there is none
+ */
+export function getProviderPolicy(): ProviderPolicy | null {
+  if (activePolicy === undefined) {
+    const path = findPolicyFile();
+    activePolicy = path ? loadPolicyFile(path) : null;
+  }
+  return activePolicy;
+}
+
+/**
+ * Replace the policy (null reloads it from disk on next use)
+ */
+export function setProviderPolicy(policy: ProviderPolicy | null): void {
+  activePolicy = policy === null ? undefined : policy;
+}
+
+/**
+ * Match a name against a pattern with * wildcards (case-insensitive)
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`, "i").test(value);
+}
+
+/**
+ * Why a list blocks a value (matched a deny entry, or missed every allow entry)
+ */
+function checkList(
+  list: PolicyList | undefined,
+  matches: (entry: string) => boolean
+): "denied" | "not allowed" | null {
+  if (list?.deny?.some(matches)) return "denied";
+  if (list?.allow?.length && !list.allow.some(matches)) return "not allowed";
+  return null;
+}
+
+/**
+ * Reason the policy blocks sending a model's requests to a provider, or null
+ * when the route is allowed
+ *
+ * @param provider - Provider the requests go to (e.g. "openrouter", "ollama")
+ * @param model - Model name at that provider (e.g. "deepseek/deepseek-chat")
+ */
+export function getPolicyViolation(provider: string, model: string): string | null {
+  const policy = getProviderPolicy();
+  if (!policy) return null;
+  if (policy.invalid) {
+    return `Policy file ${policy.source} is invalid (${policy.invalid}); every model is blocked until it is fixed`;
+  }
+
+  const name = normalizePolicyProvider(provider);
+  const dataHandling = getDataHandlingClass(name);
+  const modelIds = [model, `${name}@${model}`];
+
+  let reason: string | null = null;
+  const providerCheck = checkList(policy.providers, (e) => normalizePolicyProvider(e) === name);
+  const modelCheck = checkList(policy.models, (e) => modelIds.some((id) => matchesPattern(id, e)));
+  const dataCheck = checkList(policy.dataHandling, (e) => e === dataHandling);
+  if (providerCheck) reason = `provider "${name}" is ${providerCheck}`;
+  else if (modelCheck) reason = `model "${model}" is ${modelCheck}`;
+  else if (dataCheck) reason = `${dataHandling} providers (${name}) are ${dataCheck}`;
+  if (!reason) return null;
+
+  const label = policy.name ? `"${policy.name}"` : `in ${policy.source}`;
+  const contact = policy.contact ? ` Ask ${policy.contact} for an exception.` : "";
+  return `Blocked by policy ${label}: ${reason}.${contact}`;
+}
+
+/**
+ * Error for a request whose route the policy blocks
+ */
+export class PolicyViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PolicyViolationError";
+  }
+}
@@ -17,20 +17,27 @@
  * Provider Categories:
  * - local: ollama@, lmstudio@, vllm@, mlx@, http://... - No API key needed
  * - direct-api: google@, openai@, minimax@, kimi@, glm@, zai@, zen@ - Provider-specific key
+ *   (plus custom providers declared in ~/.claudish/config.json)
  * - openrouter: openrouter@ or unspecified provider for models with "/" - OPENROUTER_API_KEY
  * - native-anthropic: No "/" in model ID (e.g., claude-3-opus-20240229) - Claude Code native auth
  *
  * Legacy syntax (deprecated but supported):
  * - g/, gemini/, oai/, mmax/, etc. prefixes still work with deprecation warnings
+ *
+ * Resolutions also report routes an organisation policy blocks (see provider-policy.ts).
  */
 
 import { resolveProvider, parseUrlModel } from "./provider-registry.js";
 import { resolveRemoteProvider } from "./remote-provider-registry.js";
+import { findCustomProvider, getCustomProviders } from "./custom-providers.js";
+import { getApiKey } from "../auth/credential-store.js";
+import { getPolicyViolation } from "./provider-policy.js";
 import {
   parseModelSpec,
   isLocalProviderName,
   isDirectApiProvider,
   getLegacySyntaxWarning,
+  parseFallbackChain,
   type ParsedModel,
 } from "./model-parser.js";
 
@@ -47,6 +54,8 @@ export interface ProviderResolution {
   category: ProviderCategory;
   /** Human-readable provider name (e.g., "Gemini", "OpenRouter", "Ollama") */
   providerName: string;
+  /** Provider the requests are sent to (e.g., "gemini", "openrouter", "ollama") */
+  provider?: string;
   /** The model name after stripping the prefix */
   modelName: string;
   /** Full original model ID */
@@ -67,6 +76,8 @@ export interface ProviderResolution {
   deprecationWarning?: string;
   /** Parsed model specification */
   parsed?: ParsedModel;
+  /** Why the organisation policy blocks this route (unset when allowed) */
+  policyViolation?: string;
 }
 
 /**
@@ -147,6 +158,11 @@ const API_KEY_INFO: Record<string, ApiKeyInfo> = {
     description: "Z.AI API Key",
     url: "https://z.ai/",
   },
+  poe: {
+    envVar: "POE_API_KEY",
+    description: "Poe API Key",
+    url: "https://poe.com/api_key",
+  },
 };
 
 /**
@@ -183,24 +199,26 @@ const PROVIDER_DISPLAY_NAMES: Record<string, string> = {
   zai: "Z.AI",
   ollamacloud: "OllamaCloud",
   "opencode-zen": "OpenCode Zen",
+  poe: "Poe",
 };
 
 /**
- * Check if any of the API keys (including aliases) are available
+ * Check if any of the API keys (including aliases) are available, either in
+ * the environment or in the credential store
  */
 function isApiKeyAvailable(info: ApiKeyInfo): boolean {
   if (!info.envVar) {
     return true; // No key required (OAuth or free tier)
   }
 
-  if (process.env[info.envVar]) {
+  if (getApiKey(info.envVar)) {
     return true;
   }
 
   // Check aliases
   if (info.aliases) {
     for (const alias of info.aliases) {
-      if (process.env[alias]) {
+      if (getApiKey(alias)) {
         return true;
       }
     }
@@ -209,6 +227,49 @@ function isApiKeyAvailable(info: ApiKeyInfo): boolean {
   return false;
 }
 
+/**
+ * A provider that authenticates with an API key
+ */
+export interface ApiKeyProvider {
+  /** Provider name (e.g. "openai") */
+  name: string;
+  displayName: string;
+  /** Environment variable (and credential store name) holding the key */
+  envVar: string;
+  aliases: string[];
+  description: string;
+  url: string;
+}
+
+/**
+ * All providers that take an API key: built-in ones and custom providers from
+ * ~/.claudish/config.json
+ */
+export function getApiKeyProviders(): ApiKeyProvider[] {
+  const providers: ApiKeyProvider[] = Object.entries(API_KEY_INFO)
+    .filter(([, info]) => info.envVar)
+    .map(([name, info]) => ({
+      name,
+      displayName: PROVIDER_DISPLAY_NAMES[name] || name,
+      envVar: info.envVar,
+      aliases: info.aliases || [],
+      description: info.description,
+      url: info.url,
+    }));
+  for (const custom of getCustomProviders()) {
+    if (!custom.apiKeyEnvVar) continue;
+    providers.push({
+      name: custom.name,
+      displayName: custom.displayName || custom.name,
+      envVar: custom.apiKeyEnvVar,
+      aliases: [],
+      description: `${custom.displayName || custom.name} API Key`,
+      url: custom.apiKeyUrl || "",
+    });
+  }
+  return providers;
+}
+
 /**
  * Resolve a model ID to its provider information
  *
@@ -235,6 +296,7 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     return {
       category: "openrouter",
       providerName: "OpenRouter",
+      provider: "openrouter",
       modelName: "",
       fullModelId: "",
       requiredApiKeyEnvVar: info.envVar,
@@ -255,6 +317,9 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     isLegacySyntax: parsed.isLegacySyntax,
     deprecationWarning: deprecationWarning || undefined,
     concurrency: parsed.concurrency,
+    policyViolation: resolution.provider
+      ? getPolicyViolation(resolution.provider, parsed.model) || undefined
+      : undefined,
   });
 
   // 1. Check for local providers (no API key needed)
@@ -276,6 +341,7 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     return addCommonFields({
       category: "local",
       providerName,
+      provider: parsed.provider,
       modelName,
       fullModelId: modelId,
       requiredApiKeyEnvVar: null,
@@ -291,6 +357,7 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     return addCommonFields({
       category: "local",
       providerName: "Custom URL",
+      provider: "custom-url",
       modelName: urlParsed?.modelName || modelId,
       fullModelId: modelId,
       requiredApiKeyEnvVar: null,
@@ -305,6 +372,7 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     return addCommonFields({
       category: "native-anthropic",
       providerName: "Anthropic (Native)",
+      provider: "anthropic",
       modelName: parsed.model,
       fullModelId: modelId,
       requiredApiKeyEnvVar: null, // Claude Code handles its own auth
@@ -320,6 +388,7 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     return addCommonFields({
       category: "openrouter",
       providerName: "OpenRouter",
+      provider: "openrouter",
       modelName: parsed.model,
       fullModelId: modelId,
       requiredApiKeyEnvVar: info.envVar,
@@ -335,20 +404,23 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     const provider = remoteResolved.provider;
 
     // Provider-specific prefix found - check if provider's API key is available
+    const custom = findCustomProvider(provider.name);
     const info = API_KEY_INFO[provider.name] || {
       envVar: provider.apiKeyEnvVar,
-      description: `${provider.name} API Key`,
-      url: "",
+      description: `${custom?.displayName || provider.name} API Key`,
+      url: custom?.apiKeyUrl || "",
     };
 
     // If provider's key is available, use it directly
     if (isApiKeyAvailable(info)) {
       const providerDisplayName =
         PROVIDER_DISPLAY_NAMES[provider.name] ||
+        custom?.displayName ||
         provider.name.charAt(0).toUpperCase() + provider.name.slice(1);
       return addCommonFields({
         category: "direct-api",
         providerName: providerDisplayName,
+        provider: provider.name,
         modelName: remoteResolved.modelName,
         fullModelId: modelId,
         requiredApiKeyEnvVar: info.envVar || null,
@@ -358,12 +430,13 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
       });
     }
 
-    // Provider key NOT available - fall back to OpenRouter if available
-    if (isApiKeyAvailable(API_KEY_INFO.openrouter)) {
+    // Provider key NOT available - fall back to OpenRouter if available (and allowed)
+    if (isApiKeyAvailable(API_KEY_INFO.openrouter) && !getPolicyViolation("openrouter", modelId)) {
       const orInfo = API_KEY_INFO.openrouter;
       return addCommonFields({
         category: "openrouter",
         providerName: "OpenRouter (fallback)",
+        provider: "openrouter",
         modelName: modelId,
         fullModelId: modelId,
         requiredApiKeyEnvVar: orInfo.envVar,
@@ -374,11 +447,12 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     }
 
     // Neither provider key nor OpenRouter available - fall back to Vertex if available
-    if (isApiKeyAvailable(API_KEY_INFO.vertex)) {
+    if (isApiKeyAvailable(API_KEY_INFO.vertex) && !getPolicyViolation("vertex", modelId)) {
       const vertexInfo = API_KEY_INFO.vertex;
       return addCommonFields({
         category: "direct-api",
         providerName: "Vertex AI (fallback)",
+        provider: "vertex",
         modelName: modelId,
         fullModelId: modelId,
         requiredApiKeyEnvVar: vertexInfo.envVar,
@@ -391,10 +465,12 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
     // No fallback available - require the provider's key
     const providerDisplayName =
       PROVIDER_DISPLAY_NAMES[provider.name] ||
+      custom?.displayName ||
       provider.name.charAt(0).toUpperCase() + provider.name.slice(1);
     return addCommonFields({
       category: "direct-api",
       providerName: providerDisplayName,
+      provider: provider.name,
       modelName: remoteResolved.modelName,
       fullModelId: modelId,
       requiredApiKeyEnvVar: info.envVar || null,
@@ -432,10 +508,42 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
   });
 }
 
+/**
+ * Resolve every link of a fallback chain (e.g. "g@gemini-3-pro|or@google/gemini-3-pro")
+ *
+ * A plain model ID resolves to a single-element array.
+ *
+ * @param modelId - Model ID or fallback chain
+ * @returns One resolution per chain link, in chain order
+ */
+export function resolveFallbackChain(modelId: string): ProviderResolution[] {
+  const links = parseFallbackChain(modelId);
+  if (links.length === 0) {
+    return [resolveModelProvider(modelId)];
+  }
+  return links.map((link) => resolveModelProvider(link));
+}
+
+/**
+ * Pick the resolution that represents a fallback chain for key validation
+ *
+ * A chain is usable as long as one of its links is usable, so this returns
+ * the first link whose API key is available, or the first link otherwise
+ * (so error messages point at the primary target).
+ */
+export function selectChainResolution(resolutions: ProviderResolution[]): ProviderResolution {
+  return (
+    resolutions.find((r) => r.apiKeyAvailable && !r.policyViolation) ||
+    resolutions.find((r) => !r.policyViolation) ||
+    resolutions[0]
+  );
+}
+
 /**
  * Validate API keys for multiple models at once
  *
  * Useful for checking all model slots (model, modelOpus, modelSonnet, modelHaiku, modelSubagent)
+ * Fallback chains count as valid when at least one link has its key available.
  *
  * @param models - Array of model IDs to validate (undefined entries are skipped)
  * @returns Array of resolutions for models that are defined
@@ -443,7 +551,7 @@ export function resolveModelProvider(modelId: string | undefined): ProviderResol
 export function validateApiKeysForModels(models: (string | undefined)[]): ProviderResolution[] {
   return models
     .filter((m): m is string => m !== undefined)
-    .map((m) => resolveModelProvider(m));
+    .map((m) => selectChainResolution(resolveFallbackChain(m)));
 }
 
 /**
@@ -495,6 +603,8 @@ export function getMissingKeyError(resolution: ProviderResolution): string {
   // How to fix
   lines.push("Set it with:");
   lines.push(`  export ${resolution.requiredApiKeyEnvVar}='your-key-here'`);
+  lines.push("or save it with:");
+  lines.push(`  claudish auth login ${resolution.requiredApiKeyEnvVar}`);
 
   // Where to get it
   if (resolution.apiKeyUrl) {
@@ -557,6 +667,7 @@ export function getMissingKeysError(resolutions: ProviderResolution[]): string {
   for (const [envVar, resolution] of byEnvVar) {
     lines.push(`  ${resolution.apiKeyDescription}:`);
     lines.push(`    export ${envVar}='your-key-here'`);
+    lines.push(`    or: claudish auth login ${envVar}`);
     if (resolution.apiKeyUrl) {
       lines.push(`    Get from: ${resolution.apiKeyUrl}`);
     }
@@ -566,6 +677,28 @@ export function getMissingKeysError(resolutions: ProviderResolution[]): string {
   return lines.join("\n");
 }
 
+/**
+ * Generate an error message for models the organisation policy blocks
+ *
+ * @param resolutions - Array of provider resolutions
+ * @returns Formatted error message, or "" if every route is allowed
+ */
+export function getPolicyError(resolutions: ProviderResolution[]): string {
+  const blocked = resolutions.filter((r) => r.policyViolation);
+  if (blocked.length === 0) {
+    return "";
+  }
+
+  const lines = ["Error: The organisation policy blocks the configured models:", ""];
+  for (const resolution of blocked) {
+    lines.push(`  ${resolution.fullModelId} (${resolution.providerName})`);
+    lines.push(`    ${resolution.policyViolation}`);
+  }
+  lines.push("");
+  lines.push("Run 'claudish --models' to see which models are allowed.");
+  return lines.join("\n");
+}
+
 /**
  * Check if any of the given models requires OpenRouter API key
  *
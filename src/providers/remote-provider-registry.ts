@@ -21,18 +21,33 @@
  * - oc/ -> OllamaCloud API (OpenAI-compatible)
  * - zen/ -> OpenCode Zen API (OpenAI-compatible + Anthropic for MiniMax)
  * - or/, no prefix with "/" -> OpenRouter (existing handler)
+ *
+ * Custom providers declared in ~/.claudish/config.json are appended to the
+ * built-in list and resolve with their name or shortcuts (name@model).
  */
 
 import type {
   RemoteProvider,
   ResolvedRemoteProvider,
 } from "../handlers/shared/remote-provider-types.js";
-import { parseModelSpec, isLocalProviderName } from "./model-parser.js";
+import { parseModelSpec, isLocalProviderName, isBuiltinProviderName } from "./model-parser.js";
+import { findCustomProvider, getCustomProviders, toRemoteProvider } from "./custom-providers.js";
+import { getApiKey } from "../auth/credential-store.js";
 
 /**
- * Remote provider configurations
+ * Remote provider configurations: built-in providers followed by custom ones
  */
 const getRemoteProviders = (): RemoteProvider[] => [
+  ...getBuiltinRemoteProviders(),
+  ...getCustomProviders()
+    .filter((p) => !isBuiltinProviderName(p.name))
+    .map(toRemoteProvider),
+];
+
+/**
+ * Built-in remote provider configurations
+ */
+const getBuiltinRemoteProviders = (): RemoteProvider[] => [
   {
     name: "gemini",
     baseUrl: process.env.GEMINI_BASE_URL || "https://generativelanguage.googleapis.com",
@@ -77,7 +92,7 @@ const getRemoteProviders = (): RemoteProvider[] => [
   },
   {
     name: "openrouter",
-    baseUrl: "https://openrouter.ai",
+    baseUrl: process.env.OPENROUTER_BASE_URL || "https://openrouter.ai",
     apiPath: "/api/v1/chat/completions",
     apiKeyEnvVar: "OPENROUTER_API_KEY",
     prefixes: ["or/"],
@@ -231,7 +246,10 @@ export function resolveRemoteProvider(modelId: string): ResolvedRemoteProvider |
     "gemini-codeassist": "gemini-codeassist",
   };
 
-  const mappedProviderName = providerNameMap[parsed.provider];
+  // Custom providers use their own name
+  const mappedProviderName =
+    providerNameMap[parsed.provider] ||
+    providers.find((p) => p.protocol && p.name === parsed.provider)?.name;
   if (mappedProviderName) {
     const provider = providers.find((p) => p.name === mappedProviderName);
     if (provider) {
@@ -285,7 +303,7 @@ export function validateRemoteProviderApiKey(provider: RemoteProvider): string |
     return null;
   }
 
-  const apiKey = process.env[provider.apiKeyEnvVar];
+  const apiKey = getApiKey(provider.apiKeyEnvVar);
 
   if (!apiKey) {
     const examples: Record<string, string> = {
@@ -305,7 +323,10 @@ export function validateRemoteProviderApiKey(provider: RemoteProvider): string |
         "export OPENCODE_API_KEY='your-key' (get from https://opencode.ai/)",
     };
 
-    const example = examples[provider.apiKeyEnvVar] || `export ${provider.apiKeyEnvVar}='your-key'`;
+    const keyUrl = findCustomProvider(provider.name)?.apiKeyUrl;
+    const example =
+      examples[provider.apiKeyEnvVar] ||
+      `export ${provider.apiKeyEnvVar}='your-key'${keyUrl ? ` (get from ${keyUrl})` : ""}`;
     return `Missing ${provider.apiKeyEnvVar} environment variable.\n\nSet it with:\n  ${example}`;
   }
 
@@ -1,4 +1,4 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
 import { serve } from "@hono/node-server";
 import { log, isLoggingEnabled } from "./logger.js";
@@ -16,13 +16,19 @@ import { AnthropicCompatHandler } from "./handlers/anthropic-compat-handler.js";
 import { VertexOAuthHandler } from "./handlers/vertex-oauth-handler.js";
 import { PoeHandler } from "./handlers/poe-handler.js";
 import { OllamaCloudHandler } from "./handlers/ollamacloud-handler.js";
+import { FallbackChainHandler } from "./handlers/fallback-handler.js";
 import type { ModelHandler } from "./handlers/types.js";
+import type { RemoteProvider } from "./handlers/shared/remote-provider-types.js";
 import {
   resolveProvider,
   parseUrlModel,
   createUrlProvider,
 } from "./providers/provider-registry.js";
-import { parseModelSpec } from "./providers/model-parser.js";
+import {
+  parseModelSpec,
+  parseFallbackChain,
+  formatFallbackChain,
+} from "./providers/model-parser.js";
 import {
   resolveRemoteProvider,
   validateRemoteProviderApiKey,
@@ -32,27 +38,124 @@ import {
   validateVertexOAuthConfig,
 } from "./auth/vertex-auth.js";
 import { resolveModelProvider } from "./providers/provider-resolver.js";
+import { PolicyViolationError, getPolicyViolation } from "./providers/provider-policy.js";
+import { getApiKey } from "./auth/credential-store.js";
 import { warmPricingCache } from "./services/pricing-cache.js";
+import { onCostRecorded, runWithCostContext } from "./services/cost-ledger.js";
+import { BudgetGuard, getBudgetFilePath, type BudgetConfig } from "./services/budget-guard.js";
+import { countRequestTokens, getTokenCounterForSpec } from "./services/token-counter.js";
+import { SessionRecorder, SessionReplayer } from "./services/session-recorder.js";
+import { type RoutingRule, findMatchingRule, getClaudeRole } from "./services/routing-rules.js";
+import {
+  type CompactionOptions,
+  compactRequest,
+  createModelSummarizer,
+} from "./services/request-compactor.js";
+import { VisionHelper, targetSupportsVision } from "./services/vision-helper.js";
+import { HELPER_REQUEST_HEADER } from "./services/proxy-completion.js";
+import { type ReasoningMode, setReasoningMode } from "./handlers/shared/reasoning.js";
+import {
+  type RedactionConfig,
+  RequestBlockedError,
+  redactRequestBody,
+  setRedactionConfig,
+} from "./middleware/index.js";
+import { type StreamCheckMode, withStreamCheck } from "./services/stream-checker.js";
+import { toAnthropicRequest, toChatCompletionResponse } from "./services/chat-completions.js";
+import { TrafficTracker, getTrafficSnapshot } from "./services/traffic-stats.js";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "./services/metrics.js";
+import { type TraceExporter, startTraceExport } from "./services/trace-export.js";
 
 export interface ProxyServerOptions {
   summarizeTools?: boolean; // Summarize tool descriptions for local models
+  fallbackModels?: string[]; // Appended to every target as a fallback chain (from profile)
+  routingRules?: RoutingRule[]; // Route on request features before the role mappings (from profile)
+  budget?: BudgetConfig; // Session spend limit (reject or downgrade once exceeded)
+  record?: string; // Directory to record requests and upstream streams into
+  replay?: string; // Directory of a recording to serve instead of calling upstreams
+  compaction?: CompactionOptions; // Compact requests that exceed the target's context window
+  visionModel?: string; // Describes images for targets without vision support
+  reasoning?: ReasoningMode; // How upstream reasoning is shown to Claude Code
+  redaction?: RedactionConfig; // Mask, block or warn about secrets in outbound requests
+  checkStream?: StreamCheckMode; // Check handler SSE output against the Anthropic grammar
+  otlpEndpoint?: string; // OpenTelemetry collector to export request spans to (OTLP/HTTP)
 }
 
-export async function createProxyServer(
-  port: number,
+/**
+ * Create the handler for a custom provider based on its wire protocol
+ */
+function createCustomProviderHandler(
+  provider: RemoteProvider,
+  modelName: string,
+  apiKey: string,
+  port: number | string
+): ModelHandler {
+  switch (provider.protocol) {
+    case "anthropic":
+      return new AnthropicCompatHandler(provider, modelName, apiKey, port);
+    case "gemini":
+      return new GeminiHandler(provider, modelName, apiKey, port);
+    case "ollama":
+      return new OllamaCloudHandler(provider, modelName, apiKey, port);
+    default:
+      return new OpenAIHandler(provider, modelName, apiKey, port);
+  }
+}
+
+/**
+ * Where a proxy app is reached - a standalone proxy or one session of the serve daemon
+ */
+export interface ProxyEndpoint {
+  url: string; // Base URL of the app (helper requests loop back through it)
+  statusKey: number | string; // Names the status line files (tokens-<key>.json, budget-<key>.json)
+  session?: string; // Daemon session id - tags cost ledger entries and log lines
+  project?: string; // Working directory of the session (cost ledger project)
+}
+
+/**
+ * The proxy routes, not yet bound to a listening server
+ */
+export interface ProxyApp {
+  app: Hono;
+  reload: () => void; // Drop cached handlers - in-flight requests finish on the ones they started with
+  dispose: () => void;
+}
+
+type ModelMap = { opus?: string; sonnet?: string; haiku?: string; subagent?: string };
+
+export function createProxyApp(
+  endpoint: ProxyEndpoint,
   openrouterApiKey?: string,
   model?: string,
-  monitorMode: boolean = false,
+  monitorMode = false,
   anthropicApiKey?: string,
-  modelMap?: { opus?: string; sonnet?: string; haiku?: string; subagent?: string },
+  modelMap?: ModelMap,
   options: ProxyServerOptions = {}
-): Promise<ProxyServer> {
+): ProxyApp {
+  const port = endpoint.statusKey; // Handlers name their token file after it
   // Define handlers for different roles
   const nativeHandler = new NativeHandler(anthropicApiKey);
   const openRouterHandlers = new Map<string, ModelHandler>(); // Map from Target Model ID -> OpenRouter Handler
   const localProviderHandlers = new Map<string, ModelHandler>(); // Map from Target Model ID -> Local Provider Handler
   const remoteProviderHandlers = new Map<string, ModelHandler>(); // Map from Target Model ID -> Gemini/OpenAI Handler
   const poeHandlers = new Map<string, ModelHandler>(); // Map from Target Model ID -> Poe Handler
+  const fallbackHandlers = new Map<string, ModelHandler>(); // Map from Chain spec -> Fallback Handler
+  const recorder = options.record ? new SessionRecorder(options.record) : null;
+  const replayer = options.replay ? new SessionReplayer(options.replay) : null;
+  if (options.reasoning) setReasoningMode(options.reasoning);
+  if (options.redaction) setRedactionConfig(options.redaction);
+
+  // Session budget - fed by every cost this proxy (or daemon session) records
+  let budgetGuard: BudgetGuard | null = null;
+  let stopBudgetTracking = () => {};
+  if (options.budget && !monitorMode) {
+    const guard = new BudgetGuard(options.budget, getBudgetFilePath(endpoint.statusKey));
+    stopBudgetTracking = onCostRecorded((entry) => {
+      if (entry.session === endpoint.session) guard.addCost(entry.cost);
+    });
+    budgetGuard = guard;
+    log(`[Proxy] Session budget: $${options.budget.limit.toFixed(2)}`);
+  }
 
   // Helper to get or create OpenRouter handler for a target model
   const getOpenRouterHandler = (targetModel: string): ModelHandler => {
@@ -71,7 +174,7 @@ export async function createProxyServer(
 
   // Helper to get or create Poe handler for a target model
   const getPoeHandler = (targetModel: string): ModelHandler | null => {
-    const poeApiKey = process.env.POE_API_KEY;
+    const poeApiKey = getApiKey("POE_API_KEY");
     if (!poeApiKey) {
       log(`[Proxy] POE_API_KEY not set, cannot use Poe model: ${targetModel}`);
       return null;
@@ -165,7 +268,9 @@ export async function createProxyServer(
       }
 
       // Get API key - empty string for providers that don't require auth (like zen/ free models)
-      const apiKey = resolved.provider.apiKeyEnvVar ? process.env[resolved.provider.apiKeyEnvVar] || "" : "";
+      const apiKey = resolved.provider.apiKeyEnvVar
+        ? getApiKey(resolved.provider.apiKeyEnvVar) || ""
+        : "";
 
       let handler: ModelHandler;
       if (resolved.provider.name === "gemini") {
@@ -223,6 +328,12 @@ export async function createProxyServer(
           log(`[Proxy] Vertex AI requires either VERTEX_API_KEY or VERTEX_PROJECT`);
           return null;
         }
+      } else if (resolved.provider.protocol) {
+        // Custom provider from ~/.claudish/config.json - handler picked by wire protocol
+        handler = createCustomProviderHandler(resolved.provider, resolved.modelName, apiKey, port);
+        log(
+          `[Proxy] Created ${resolved.provider.name} (${resolved.provider.protocol}) handler: ${resolved.modelName}`
+        );
       } else {
         return null; // Unknown provider
       }
@@ -238,26 +349,19 @@ export async function createProxyServer(
 
   // Handlers are created lazily on first request - no pre-warming needed
 
-  const getHandlerForRequest = (requestedModel: string): ModelHandler => {
-    // 1. Monitor Mode Override
-    if (monitorMode) return nativeHandler;
+  // Why the organisation policy blocks a target (undefined when allowed)
+  const getTargetPolicyViolation = (target: string): string | undefined =>
+    isPoeModel(target)
+      ? getPolicyViolation("poe", target.slice("poe:".length)) || undefined
+      : resolveModelProvider(target).policyViolation;
 
-    // 2. Resolve target model based on mappings or defaults
-    // Priority: role mappings > requested model > default model
-    let target = requestedModel || model; // Respect request, fallback to default
+  // Resolve a single (non-chain) target to a handler
+  const getHandlerForTarget = (target: string): ModelHandler => {
+    // 0. Organisation policy - blocked targets never reach a handler
+    const violation = getTargetPolicyViolation(target);
+    if (violation) throw new PolicyViolationError(violation);
 
-    const req = requestedModel.toLowerCase();
-    if (modelMap) {
-      // Role mappings take highest priority
-      if (req.includes("opus") && modelMap.opus) target = modelMap.opus;
-      else if (req.includes("sonnet") && modelMap.sonnet) target = modelMap.sonnet;
-      else if (req.includes("haiku") && modelMap.haiku) target = modelMap.haiku;
-      // Note: We don't verify "subagent" string because we don't know what Claude sends for subagents
-      // unless it's "claude-3-haiku" (which is covered above) or specific.
-      // Assuming Haiku mapping covers subagent unless custom logic added.
-    }
-
-    // 3. Check for Poe Model (poe: prefix)
+    // 1. Check for Poe Model (poe: prefix)
     if (isPoeModel(target)) {
       const poeHandler = getPoeHandler(target);
       if (poeHandler) {
@@ -266,27 +370,183 @@ export async function createProxyServer(
       }
     }
 
-    // 4. Check for Remote Provider (g/, gemini/, oai/, openai/, mmax/, mm/, kimi/, moonshot/, glm/, zhipu/)
+    // 2. Check for Remote Provider (g/, gemini/, oai/, openai/, mmax/, mm/, kimi/, moonshot/, glm/, zhipu/)
     const remoteHandler = getRemoteProviderHandler(target);
     if (remoteHandler) return remoteHandler;
 
-    // 5. Check for Local Provider (ollama/, lmstudio/, vllm/, or URL)
+    // 3. Check for Local Provider (ollama/, lmstudio/, vllm/, or URL)
     const localHandler = getLocalProviderHandler(target);
     if (localHandler) return localHandler;
 
-    // 6. Native vs OpenRouter Decision
+    // 4. Native vs OpenRouter
+    return getDefaultHandler(target);
+  };
+
+  // Handler for targets no other provider took
+  const getDefaultHandler = (target: string): ModelHandler => {
     // Heuristic: OpenRouter models have "/", Native ones don't.
     const isNative = !target.includes("/");
 
+    // Targets resolved to another provider (e.g. g/ without GEMINI_API_KEY) end
+    // up here too - check the policy for the provider that actually gets them
+    const violation = getPolicyViolation(isNative ? "anthropic" : "openrouter", target);
+    if (violation) throw new PolicyViolationError(violation);
+
     if (isNative) {
       // If we mapped to a native string (unlikely) or passed through
       return nativeHandler;
     }
 
-    // 6. OpenRouter Handler (default for any model with "/" not matched above)
+    // OpenRouter Handler (default for any model with "/" not matched above)
     return getOpenRouterHandler(target);
   };
 
+  // Resolve a chain link - links whose provider can't be used are skipped by the chain
+  const getHandlerForChainLink = (target: string): ModelHandler | null => {
+    const violation = getTargetPolicyViolation(target);
+    if (violation) {
+      log(`[Proxy] Fallback link ${target} skipped: ${violation}`);
+      return null;
+    }
+    const resolution = resolveModelProvider(target);
+    if (!resolution.apiKeyAvailable) {
+      log(`[Proxy] Fallback link ${target} unavailable: ${resolution.providerName} key not set`);
+      return null;
+    }
+    return getHandlerForTarget(target);
+  };
+
+  // Helper to get or create a fallback chain handler
+  const getFallbackHandler = (links: string[]): ModelHandler => {
+    const chainSpec = formatFallbackChain(links);
+    if (!fallbackHandlers.has(chainSpec)) {
+      fallbackHandlers.set(chainSpec, new FallbackChainHandler(links, getHandlerForChainLink));
+      log(`[Proxy] Created fallback chain: ${links.join(" -> ")}`);
+    }
+    return fallbackHandlers.get(chainSpec)!;
+  };
+
+  // Resolve a target that may be a fallback chain ("a|b|c") plus extra fallback links
+  const getHandlerForSpec = (spec: string, fallbackModels: string[] = []): ModelHandler => {
+    const links = parseFallbackChain([spec, ...fallbackModels].filter(Boolean).join("|"));
+    if (links.length > 1) {
+      // A chain the policy blocks entirely fails with the policy's explanation
+      const violations = links.map(getTargetPolicyViolation);
+      if (violations[0] && violations.every(Boolean)) throw new PolicyViolationError(violations[0]);
+      return getFallbackHandler(links);
+    }
+    return getHandlerForTarget(links[0] ?? spec);
+  };
+
+  // Resolve target model based on mappings or defaults
+  // Priority: role mappings > requested model > default model
+  const resolveTargetModel = (requestedModel: string): string => {
+    let target = requestedModel || model || ""; // Respect request, fallback to default
+
+    const req = requestedModel.toLowerCase();
+    if (modelMap) {
+      // Role mappings take highest priority
+      if (req.includes("opus") && modelMap.opus) target = modelMap.opus;
+      else if (req.includes("sonnet") && modelMap.sonnet) target = modelMap.sonnet;
+      else if (req.includes("haiku") && modelMap.haiku) target = modelMap.haiku;
+      // Note: We don't verify "subagent" string because we don't know what Claude sends for subagents
+      // unless it's "claude-3-haiku" (which is covered above) or specific.
+      // Assuming Haiku mapping covers subagent unless custom logic added.
+    }
+    return target;
+  };
+
+  // Resolve the target of a request - a matching routing rule wins over the role mappings
+  const resolveRequestTarget = (requestedModel: string, body: any): string => {
+    const rule = findMatchingRule(options.routingRules || [], body);
+    if (!rule) return resolveTargetModel(requestedModel);
+    log(`[Proxy] Routing rule ${rule.name ? `"${rule.name}" ` : ""}matched: ${rule.model}`);
+    return rule.model;
+  };
+
+  // Full target spec of a request, including profile fallback links
+  const resolveTargetSpec = (requestedModel: string, body: any): string =>
+    formatFallbackChain(
+      parseFallbackChain(
+        [resolveRequestTarget(requestedModel, body), ...(options.fallbackModels || [])]
+          .filter(Boolean)
+          .join("|")
+      )
+    );
+
+  const getHandlerForRequest = (requestedModel: string, body: any): ModelHandler => {
+    // 1. Monitor Mode Override
+    if (monitorMode) return nativeHandler;
+
+    // 2. Resolve target model, 3. Fallback chains (target "a|b|c" and/or profile fallback list)
+    return getHandlerForSpec(resolveRequestTarget(requestedModel, body), options.fallbackModels);
+  };
+
+  // Compaction - shrink requests that don't fit the context window of the target
+  const compactForHandler = async (handler: ModelHandler, target: string, body: any) => {
+    const compaction = options.compaction;
+    if (!compaction) return body;
+    const contextWindow = await handler.getContextWindow?.().catch(() => undefined);
+    if (!contextWindow) {
+      log(`[Compaction] Skipped for ${target}: its context window is unknown`);
+      return body;
+    }
+    const counter = getTokenCounterForSpec(target);
+    await counter.ready?.();
+    const result = await compactRequest(body, contextWindow, {
+      ...compaction,
+      counter,
+      summarize: compaction.summaryModel
+        ? createModelSummarizer(endpoint.url, compaction.summaryModel)
+        : undefined,
+    });
+    return result.body;
+  };
+
+  // Vision helper - describe images for targets that can't read them
+  let visionHelper: VisionHelper | undefined;
+  const needsImageDescriptions = (target: string): boolean =>
+    !parseFallbackChain([target, ...(options.fallbackModels || [])].join("|")).every(
+      targetSupportsVision
+    );
+
+  // Adapt a request to the limits of its target before the handler sees it
+  const prepareRequest = async (handler: ModelHandler, target: string, body: any) => {
+    let request = body;
+    if (options.visionModel && needsImageDescriptions(target)) {
+      visionHelper ??= VisionHelper.forModel(endpoint.url, options.visionModel);
+      request = await visionHelper.describeImages(request);
+    }
+    return options.compaction ? compactForHandler(handler, target, request) : request;
+  };
+
+  // Request-scoped details attached to cost ledger entries
+  const getCostContext = (requestedModel?: string) => ({
+    role: getClaudeRole(requestedModel),
+    requestedModel,
+    session: endpoint.session,
+    project: endpoint.project,
+  });
+
+  // Replay - route to the recorded model and serve its recorded upstream streams
+  const replayRequest = (c: Context, body: any, replayer: SessionReplayer): Promise<Response> => {
+    const exchange = replayer.match(body);
+    if (!exchange) {
+      return Promise.resolve(
+        c.json(
+          { error: { type: "api_error", message: "No recorded exchanges left to replay" } },
+          500
+        )
+      );
+    }
+    log(`[Proxy] Replaying exchange ${exchange.id} (${exchange.target})`);
+    const costContext = getCostContext(body.model);
+    return replayer.replay(exchange, () => {
+      const handler = monitorMode ? nativeHandler : getHandlerForSpec(exchange.target);
+      return runWithCostContext(costContext, () => handler.handle(c, body));
+    });
+  };
+
   const app = new Hono();
   app.use("*", cors());
 
@@ -299,12 +559,20 @@ export async function createProxyServer(
   );
   app.get("/health", (c) => c.json({ status: "ok" }));
 
+  // Live traffic, queues and cost for `claudish top`
+  app.get("/_claudish/stats", (c) => c.json(getTrafficSnapshot(endpoint.session)));
+
+  // Prometheus scrape endpoint (process-wide)
+  app.get("/metrics", (c) =>
+    c.body(renderMetrics(), 200, { "Content-Type": METRICS_CONTENT_TYPE })
+  );
+
   // Token counting
   app.post("/v1/messages/count_tokens", async (c) => {
     try {
       const body = await c.req.json();
       const reqModel = body.model || "claude-3-opus-20240229";
-      const handler = getHandlerForRequest(reqModel);
+      const handler = getHandlerForRequest(reqModel, body);
 
       // If native, we just forward. OpenRouter needs estimation.
       if (handler instanceof NativeHandler) {
@@ -314,48 +582,235 @@ export async function createProxyServer(
         const res = await fetch("https://api.anthropic.com/v1/messages/count_tokens", {
           method: "POST",
           headers,
-          body: JSON.stringify(body),
+          body: JSON.stringify(redactRequestBody(body)),
         });
         return c.json(await res.json());
       } else {
-        // OpenRouter handler logic (estimation)
-        const txt = JSON.stringify(body);
-        return c.json({ input_tokens: Math.ceil(txt.length / 4) });
+        // Count with the tokenizer of the model the request is routed to
+        const counter = getTokenCounterForSpec(resolveRequestTarget(reqModel, body));
+        await counter.ready?.();
+        return c.json({ input_tokens: countRequestTokens(body, counter) });
       }
     } catch (e) {
+      if (e instanceof PolicyViolationError) {
+        return c.json(
+          { type: "error", error: { type: "permission_error", message: e.message } },
+          403
+        );
+      }
       return c.json({ error: String(e) }, 500);
     }
   });
 
-  app.post("/v1/messages", async (c) => {
+  // Stream conformance - log or repair malformed handler output (--check-stream)
+  const checkStream = async (body: any, response: Promise<Response>): Promise<Response> =>
+    options.checkStream
+      ? withStreamCheck(await response, options.checkStream, String(body.model))
+      : response;
+
+  // Anthropic Messages request through budget, routing, recording and stream checks
+  const routeMessages = async (c: Context, body: any): Promise<Response> => {
+    if (replayer) return checkStream(body, replayRequest(c, body, replayer));
+
+    // Budget enforcement - reject or reroute once the session limit is hit
+    let downgradeModel: string | undefined;
+    if (budgetGuard?.isExceeded()) {
+      downgradeModel = budgetGuard.getDowngradeModel();
+      if (!downgradeModel) {
+        log("[Proxy] Rejecting request: session budget exceeded");
+        return c.json(budgetGuard.createExceededError(), 402);
+      }
+      log(`[Proxy] Budget exceeded, rerouting ${body.model} to ${downgradeModel}`);
+    }
+
+    // Route - the cost context tags ledger entries with the Claude role of this request.
+    // Handlers are resolved inside route() so a recording also captures their setup calls.
+    const costContext = getCostContext(body.model);
+    const route = async () => {
+      const target = downgradeModel || resolveRequestTarget(body.model, body);
+      const handler = monitorMode
+        ? nativeHandler
+        : getHandlerForSpec(target, downgradeModel ? undefined : options.fallbackModels);
+      // Helper requests (summaries, image descriptions) are forwarded as they are
+      const request =
+        monitorMode || c.req.header(HELPER_REQUEST_HEADER)
+          ? body
+          : await prepareRequest(handler, target, body);
+      return runWithCostContext(costContext, () => handler.handle(c, request));
+    };
+    if (!recorder) return checkStream(body, route());
+
+    const target = downgradeModel || (monitorMode ? "native" : resolveTargetSpec(body.model, body));
+    return checkStream(body, recorder.record(body, target, route));
+  };
+
+  // Messages request tracked for /_claudish/stats (claudish top)
+  const handleMessages = async (c: Context, body: any): Promise<Response> => {
+    const target = replayer
+      ? "replay"
+      : monitorMode
+        ? "native"
+        : resolveTargetSpec(body.model, body);
+    const tracker = new TrafficTracker(target, endpoint.session);
     try {
-      const body = await c.req.json();
-      const handler = getHandlerForRequest(body.model);
+      return tracker.watch(await tracker.run(() => routeMessages(c, body)));
+    } catch (e) {
+      tracker.finish(String(e));
+      throw e;
+    }
+  };
 
-      // Route
-      return handler.handle(c, body);
+  app.post("/v1/messages", async (c) => {
+    try {
+      return await handleMessages(c, await c.req.json());
     } catch (e) {
       log(`[Proxy] Error: ${e}`);
+      if (e instanceof PolicyViolationError) {
+        return c.json(
+          { type: "error", error: { type: "permission_error", message: e.message } },
+          403
+        );
+      }
+      if (e instanceof RequestBlockedError) {
+        return c.json(
+          { type: "error", error: { type: "invalid_request_error", message: e.message } },
+          400
+        );
+      }
       return c.json({ error: { type: "server_error", message: String(e) } }, 500);
     }
   });
 
-  const server = serve({ fetch: app.fetch, port, hostname: "127.0.0.1" });
+  // OpenAI Chat Completions - translated to and from the Messages pipeline
+  app.post("/v1/chat/completions", async (c) => {
+    try {
+      const body = await c.req.json();
+      const response = await handleMessages(c, toAnthropicRequest(body));
+      return toChatCompletionResponse(response, body);
+    } catch (e) {
+      log(`[Proxy] Error: ${e}`);
+      if (e instanceof PolicyViolationError) {
+        return c.json(
+          {
+            error: {
+              message: e.message,
+              type: "permission_error",
+              param: null,
+              code: "policy_violation",
+            },
+          },
+          403
+        );
+      }
+      if (e instanceof RequestBlockedError) {
+        return c.json(
+          {
+            error: {
+              message: e.message,
+              type: "invalid_request_error",
+              param: null,
+              code: "redacted_content",
+            },
+          },
+          400
+        );
+      }
+      return c.json(
+        { error: { message: String(e), type: "server_error", param: null, code: null } },
+        500
+      );
+    }
+  });
+
+  // Models OpenAI clients can pick - the configured targets (any model spec is accepted)
+  app.get("/v1/models", (c) => {
+    const targets = [
+      model,
+      modelMap?.opus,
+      modelMap?.sonnet,
+      modelMap?.haiku,
+      modelMap?.subagent,
+      ...(options.routingRules || []).map((rule) => rule.model),
+    ];
+    const ids = [...new Set(targets.filter((id): id is string => !!id))];
+    return c.json({
+      object: "list",
+      data: ids.map((id) => ({
+        id,
+        object: "model",
+        created: 0,
+        owned_by: parseModelSpec(id).provider,
+      })),
+    });
+  });
+
+  return {
+    app,
+    reload: () => {
+      for (const handlers of [
+        openRouterHandlers,
+        localProviderHandlers,
+        remoteProviderHandlers,
+        poeHandlers,
+        fallbackHandlers,
+      ]) {
+        handlers.clear();
+      }
+      visionHelper = undefined;
+    },
+    dispose: () => {
+      stopBudgetTracking();
+      budgetGuard?.dispose();
+    },
+  };
+}
+
+export async function createProxyServer(
+  port: number,
+  openrouterApiKey?: string,
+  model?: string,
+  monitorMode = false,
+  anthropicApiKey?: string,
+  modelMap?: ModelMap,
+  options: ProxyServerOptions = {}
+): Promise<ProxyServer> {
+  // Bind first - the app needs the actual port for its status files and helper
+  // requests. No request can arrive before the app below is created.
+  const server = serve({
+    fetch: (request, env) => proxyApp.app.fetch(request, env),
+    port,
+    hostname: "127.0.0.1",
+  });
 
   // Port resolution
   const addr = server.address();
   const actualPort = typeof addr === "object" && addr?.port ? addr.port : port;
-  if (actualPort !== port) port = actualPort;
 
-  log(`[Proxy] Server started on port ${port}`);
+  const url = `http://127.0.0.1:${actualPort}`;
+  const proxyApp = createProxyApp(
+    { url, statusKey: actualPort },
+    openrouterApiKey,
+    model,
+    monitorMode,
+    anthropicApiKey,
+    modelMap,
+    options
+  );
+  log(`[Proxy] Server started on port ${actualPort}`);
+
+  // Warm pricing cache in background (non-blocking). Replay stays offline.
+  if (!options.replay) warmPricingCache().catch(() => {});
 
-  // Warm pricing cache in background (non-blocking)
-  warmPricingCache().catch(() => {});
+  const traceExporter: TraceExporter | null = options.otlpEndpoint
+    ? startTraceExport(options.otlpEndpoint)
+    : null;
 
   return {
-    port,
-    url: `http://127.0.0.1:${port}`,
+    port: actualPort,
+    url,
     shutdown: async () => {
+      proxyApp.dispose();
+      await traceExporter?.stop();
       return new Promise<void>((resolve) => server.close((e) => resolve()));
     },
   };
@@ -0,0 +1,287 @@
+/**
+ * Serve Command
+ *
+ * Implements `claudish serve`, one long-running proxy shared by every claudish
+ * session on the machine (see src/services/proxy-daemon.ts):
+ * - claudish serve [--port 3456] [--reasoning show|hide|text] [--otlp-endpoint <url>] [--detach] [--debug]
+ * - claudish serve status: Show the daemon and its attached sessions
+ * - claudish serve reload: Reload .env and custom providers (same as SIGHUP)
+ * - claudish serve stop: Stop after in-flight requests finish (same as SIGTERM)
+ *
+ * While the daemon runs, `claudish` attaches to it instead of starting its own
+ * proxy (unless --port or --no-daemon is given).
+ */
+
+import { spawn } from "node:child_process";
+import { mkdirSync, openSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { applyStoredApiKeys } from "./auth/credential-store.js";
+import { DEFAULT_SERVE_PORT, ENV } from "./config.js";
+import {
+  REASONING_MODES,
+  type ReasoningMode,
+  isReasoningMode,
+} from "./handlers/shared/reasoning.js";
+import { initLogger } from "./logger.js";
+import {
+  type DaemonSessionInfo,
+  type DaemonState,
+  createProxyDaemon,
+  getDaemonStatePath,
+  readDaemonState,
+} from "./services/proxy-daemon.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const GREEN = "\x1b[32m";
+const CYAN = "\x1b[36m";
+
+interface ServeOptions {
+  port: number;
+  reasoning?: ReasoningMode;
+  otlpEndpoint?: string;
+  detach: boolean;
+  debug: boolean;
+}
+
+function parsePort(value: string | undefined): number {
+  const port = Number.parseInt(value || "", 10);
+  if (Number.isNaN(port) || port < 0 || port > 65535) {
+    console.error("--port requires a port number");
+    process.exit(1);
+  }
+  return port;
+}
+
+function parseReasoning(value: string | undefined): ReasoningMode {
+  if (!value || !isReasoningMode(value)) {
+    console.error(`--reasoning requires one of: ${REASONING_MODES.join(", ")}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseOtlpEndpoint(value: string | undefined): string {
+  if (!value) {
+    console.error("--otlp-endpoint requires a collector URL (e.g. http://localhost:4318)");
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Parse `claudish serve` options
+ */
+function parseServeArgs(args: string[]): ServeOptions {
+  const options: ServeOptions = {
+    port: DEFAULT_SERVE_PORT,
+    otlpEndpoint: process.env[ENV.OTEL_EXPORTER_OTLP_ENDPOINT],
+    detach: false,
+    debug: false,
+  };
+  if (args.includes("--help") || args.includes("-h")) {
+    printServeHelp();
+    process.exit(0);
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--port") {
+      options.port = parsePort(args[++i]);
+    } else if (arg === "--reasoning") {
+      options.reasoning = parseReasoning(args[++i]);
+    } else if (arg === "--otlp-endpoint") {
+      options.otlpEndpoint = parseOtlpEndpoint(args[++i]);
+    } else if (arg === "--detach") {
+      options.detach = true;
+    } else if (arg === "--debug" || arg === "-d") {
+      options.debug = true;
+    } else {
+      console.error(`Unknown option for claudish serve: ${arg}`);
+      printServeHelp();
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Get the running daemon or exit with a message
+ */
+function requireDaemon(): DaemonState {
+  const state = readDaemonState();
+  if (!state) {
+    console.error("claudish serve is not running");
+    process.exit(1);
+  }
+  return state;
+}
+
+/**
+ * Wait until the pidfile reports a running daemon (started) or none (stopped)
+ */
+async function waitForDaemon(running: boolean, timeoutMs: number): Promise<DaemonState | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const state = readDaemonState();
+    if (!!state === running) return state;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  return readDaemonState();
+}
+
+/**
+ * Format a USD amount for display
+ */
+function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+async function statusCommand(): Promise<void> {
+  const state = requireDaemon();
+  const res = await fetch(`${state.url}/_claudish/status`, { signal: AbortSignal.timeout(2000) });
+  const status = (await res.json()) as { sessions: DaemonSessionInfo[] };
+
+  console.log(`\n${BOLD}claudish serve${RESET} ${DIM}pid ${state.pid}${RESET}  ${state.url}`);
+  console.log(`${DIM}Started ${state.startedAt}${RESET}\n`);
+  if (status.sessions.length === 0) {
+    console.log(`${DIM}No sessions attached.${RESET}\n`);
+    return;
+  }
+  console.log(
+    `${BOLD}${"SESSION".padEnd(10)}${"MODEL".padEnd(32)}${"REQS".padStart(6)}${"COST".padStart(10)}  PROJECT${RESET}`
+  );
+  for (const session of status.sessions) {
+    console.log(
+      `${CYAN}${session.id.padEnd(10)}${RESET}${(session.model || "-").padEnd(32)}${String(session.requests).padStart(6)}${formatCost(session.cost).padStart(10)}  ${DIM}${session.project || "-"}${RESET}`
+    );
+  }
+  console.log();
+}
+
+async function stopCommand(): Promise<void> {
+  const state = requireDaemon();
+  process.kill(state.pid, "SIGTERM");
+  if (await waitForDaemon(false, 35_000)) {
+    console.error(`claudish serve (pid ${state.pid}) did not stop`);
+    process.exit(1);
+  }
+  console.log(`${GREEN}✓${RESET} Stopped claudish serve (pid ${state.pid})`);
+}
+
+async function reloadCommand(): Promise<void> {
+  const state = requireDaemon();
+  await fetch(`${state.url}/_claudish/reload`, {
+    method: "POST",
+    signal: AbortSignal.timeout(2000),
+  });
+  console.log(`${GREEN}✓${RESET} Reloaded claudish serve (pid ${state.pid})`);
+}
+
+/**
+ * Restart this command in the background, logging to ~/.claudish/serve.log
+ */
+async function detach(args: string[]): Promise<void> {
+  const logDir = join(homedir(), ".claudish");
+  mkdirSync(logDir, { recursive: true });
+  const logPath = join(logDir, "serve.log");
+  const out = openSync(logPath, "a");
+  const child = spawn(
+    process.execPath,
+    [...process.execArgv, process.argv[1], "serve", ...args.filter((a) => a !== "--detach")],
+    { detached: true, stdio: ["ignore", out, out] }
+  );
+  child.unref();
+
+  const state = await waitForDaemon(true, 10_000);
+  if (!state) {
+    console.error(`claudish serve failed to start (see ${logPath})`);
+    process.exit(1);
+  }
+  console.log(`${GREEN}✓${RESET} claudish serve running on ${state.url} (pid ${state.pid})`);
+  console.log(`${DIM}Log: ${logPath}${RESET}`);
+}
+
+/**
+ * Main serve command
+ */
+export async function serveCommand(args: string[]): Promise<void> {
+  const subcommand = args[0];
+  if (subcommand === "status") return statusCommand();
+  if (subcommand === "stop") return stopCommand();
+  if (subcommand === "reload") return reloadCommand();
+
+  const options = parseServeArgs(args);
+  if (options.detach) return detach(args);
+
+  initLogger(options.debug);
+  applyStoredApiKeys();
+  let daemon: Awaited<ReturnType<typeof createProxyDaemon>>;
+  try {
+    daemon = await createProxyDaemon({
+      port: options.port,
+      reasoning: options.reasoning,
+      otlpEndpoint: options.otlpEndpoint,
+      openrouterApiKey: process.env.OPENROUTER_API_KEY,
+      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : String(e));
+    process.exit(1);
+  }
+
+  console.log(
+    `\n${BOLD}claudish serve listening on ${daemon.url}${RESET} ${DIM}(pid ${process.pid})${RESET}`
+  );
+  console.log(`${DIM}Pidfile: ${getDaemonStatePath()}${RESET}`);
+  console.log(`${DIM}Metrics: ${daemon.url}/metrics${RESET}`);
+  console.log(
+    `${DIM}claudish sessions started now attach to this proxy. Press Ctrl+C to stop.${RESET}\n`
+  );
+
+  let stopping = false;
+  const shutdown = async () => {
+    if (stopping) return;
+    stopping = true;
+    console.log(`${DIM}Waiting for in-flight requests...${RESET}`);
+    await daemon.shutdown();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+  if (process.platform !== "win32") process.on("SIGHUP", () => daemon.reload());
+}
+
+function printServeHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish serve [options]
+       claudish serve status|reload|stop
+
+Runs one proxy that every claudish session attaches to. Each session keeps its
+own models, status line, budget and cost ledger entries; provider keys come from
+the daemon's environment.
+
+${BOLD}Options:${RESET}
+  ${CYAN}--port${RESET} ${DIM}<port>${RESET}         Port to listen on (default: ${DEFAULT_SERVE_PORT})
+  ${CYAN}--reasoning${RESET} ${DIM}<mode>${RESET}    How reasoning is shown for all sessions: ${REASONING_MODES.join(", ")}
+  ${CYAN}--otlp-endpoint${RESET} ${DIM}<url>${RESET} Export request spans to an OpenTelemetry collector (OTLP/HTTP)
+  ${CYAN}--detach${RESET}              Run in the background (log: ~/.claudish/serve.log)
+  ${CYAN}--debug${RESET}               Write a debug log (logs/claudish_*.log), tagged per session
+
+${BOLD}Commands:${RESET}
+  ${CYAN}status${RESET}                Show the daemon and its sessions
+  ${CYAN}reload${RESET}                Reload .env and custom providers (also: kill -HUP <pid>)
+  ${CYAN}stop${RESET}                  Stop after in-flight requests finish
+
+${BOLD}Examples:${RESET}
+  claudish serve --detach
+  claudish --model g@gemini-2.5-flash        ${DIM}# attaches to the daemon${RESET}
+  claudish --no-daemon --model oai@gpt-4o    ${DIM}# starts its own proxy${RESET}
+`);
+}
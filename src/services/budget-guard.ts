@@ -0,0 +1,163 @@
+/**
+ * Session budget enforcement
+ *
+ * Tracks spend for one proxy session (fed from the cost ledger, so it uses the
+ * same cost data the handlers compute for the status line) and decides what
+ * happens to new /v1/messages requests:
+ * - below the soft threshold: nothing
+ * - at the soft threshold (default 80%): warn through the status line
+ * - at the hard limit: reject with an Anthropic-format error, or reroute to
+ *   a configured cheaper model
+ *
+ * The status line reads ~/.claudish/budget-<port>.json written by this guard.
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { log } from "../logger.js";
+
+/** Fraction of the budget at which the status line starts warning */
+export const DEFAULT_BUDGET_WARN_AT = 0.8;
+
+/**
+ * Budget settings (from --budget flags or a profile's "budget" entry)
+ */
+export interface BudgetConfig {
+  /** Hard limit in USD for the session */
+  limit: number;
+  /** Soft threshold as a fraction of the limit (0-1, default 0.8) */
+  warnAt?: number;
+  /** Model to reroute to once the limit is reached (rejects requests if unset) */
+  downgradeModel?: string;
+}
+
+export type BudgetState = "ok" | "warning" | "exceeded";
+
+/**
+ * Get the budget status file path for a proxy port
+ */
+export function getBudgetFilePath(port: number | string): string {
+  return join(homedir(), ".claudish", `budget-${port}.json`);
+}
+
+/**
+ * Format a USD amount for budget messages
+ */
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+export class BudgetGuard {
+  private config: BudgetConfig;
+  private statusFile: string | null;
+  private spent = 0;
+  private state: BudgetState = "ok";
+
+  /**
+   * @param config - Budget settings
+   * @param statusFile - Where to write status line data (null to disable)
+   */
+  constructor(config: BudgetConfig, statusFile: string | null) {
+    this.config = config;
+    this.statusFile = statusFile;
+    this.writeStatusFile();
+  }
+
+  /**
+   * Add the cost of a completed request to the session spend
+   */
+  addCost(cost: number): void {
+    if (!(cost > 0)) return;
+    this.spent += cost;
+
+    const previous = this.state;
+    const warnAt = this.config.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+    if (this.spent >= this.config.limit) {
+      this.state = "exceeded";
+    } else if (this.spent >= this.config.limit * warnAt) {
+      this.state = "warning";
+    }
+
+    if (this.state !== previous) {
+      log(`[Budget] ${this.getStatusText()}`);
+    }
+    this.writeStatusFile();
+  }
+
+  getSpent(): number {
+    return this.spent;
+  }
+
+  getState(): BudgetState {
+    return this.state;
+  }
+
+  /**
+   * Whether new requests must be rejected or rerouted
+   */
+  isExceeded(): boolean {
+    return this.state === "exceeded";
+  }
+
+  /**
+   * Model that requests are rerouted to once the budget is exceeded
+   */
+  getDowngradeModel(): string | undefined {
+    return this.config.downgradeModel;
+  }
+
+  /**
+   * Short status line text, empty while spend is below the soft threshold
+   */
+  getStatusText(): string {
+    const usage = `${formatUsd(this.spent)}/${formatUsd(this.config.limit)}`;
+    if (this.state === "exceeded") {
+      return this.config.downgradeModel
+        ? `BUDGET HIT ${usage} -> ${this.config.downgradeModel}`
+        : `BUDGET HIT ${usage}`;
+    }
+    if (this.state === "warning") {
+      return `BUDGET ${Math.floor((this.spent / this.config.limit) * 100)}% ${usage}`;
+    }
+    return "";
+  }
+
+  /**
+   * Anthropic-format error body for requests rejected over budget
+   */
+  createExceededError(): { type: "error"; error: { type: string; message: string } } {
+    return {
+      type: "error",
+      error: {
+        type: "billing_error",
+        message: `Claudish session budget exceeded: spent ${formatUsd(this.spent)} of ${formatUsd(this.config.limit)}. Restart with a higher --budget or set a downgrade model to continue.`,
+      },
+    };
+  }
+
+  /**
+   * Remove the status file (on proxy shutdown)
+   */
+  dispose(): void {
+    if (!this.statusFile) return;
+    rmSync(this.statusFile, { force: true });
+  }
+
+  private writeStatusFile(): void {
+    if (!this.statusFile) return;
+    try {
+      const data = {
+        spent: this.spent,
+        limit: this.config.limit,
+        state: this.state,
+        status_text: this.getStatusText(),
+        updated_at: Date.now(),
+      };
+      mkdirSync(dirname(this.statusFile), { recursive: true });
+      writeFileSync(this.statusFile, JSON.stringify(data), "utf-8");
+    } catch (e) {
+      log(`[Budget] Error writing budget file: ${e}`);
+    }
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * OpenAI Chat Completions front door
+ *
+ * /v1/chat/completions lets OpenAI-format clients (Aider, Continue, the
+ * OpenAI SDKs) use claudish routing, logins, profiles and cost tracking.
+ * Requests are translated to the Anthropic Messages format, sent through the
+ * same pipeline as /v1/messages, and the handler's Anthropic SSE output is
+ * translated back into chat.completion.chunk events (or one chat.completion
+ * object for non-streaming requests).
+ */
+
+import { log } from "../logger.js";
+import { parseSseEvents } from "./stream-checker.js";
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** Anthropic stop_reason -> OpenAI finish_reason */
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+  refusal: "content_filter",
+};
+
+const mapFinishReason = (stopReason: string | null | undefined) =>
+  stopReason ? FINISH_REASONS[stopReason] || "stop" : null;
+
+function messageText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((part) => part?.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * OpenAI content parts -> Anthropic content blocks
+ */
+function convertContent(content: any): any[] {
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+  if (!Array.isArray(content)) return [];
+  return content.flatMap((part) => {
+    if (part?.type === "text") return [{ type: "text", text: part.text }];
+    if (part?.type === "image_url") return [convertImage(part.image_url?.url || "")];
+    return [];
+  });
+}
+
+function convertImage(url: string): any {
+  const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+  if (dataUrl) {
+    return { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+function parseArguments(args: string | undefined): any {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
+
+function convertMessage(msg: any): { role: "user" | "assistant"; content: any[] } | null {
+  if (msg.role === "tool") {
+    return {
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: msg.tool_call_id, content: messageText(msg.content) },
+      ],
+    };
+  }
+  if (msg.role === "assistant") {
+    const toolUses = (msg.tool_calls || []).map((call: any) => ({
+      type: "tool_use",
+      id: call.id,
+      name: call.function?.name,
+      input: parseArguments(call.function?.arguments),
+    }));
+    return { role: "assistant", content: [...convertContent(msg.content), ...toolUses] };
+  }
+  if (msg.role === "user") return { role: "user", content: convertContent(msg.content) };
+  return null;
+}
+
+function convertToolChoice(choice: any): any {
+  if (choice === "auto") return { type: "auto" };
+  if (choice === "none") return { type: "none" };
+  if (choice === "required") return { type: "any" };
+  if (choice?.type === "function") return { type: "tool", name: choice.function?.name };
+  return undefined;
+}
+
+/**
+ * Anthropic requires alternating roles, so consecutive turns (e.g. several
+ * tool results) are merged
+ */
+function convertMessages(list: any[]): Array<{ role: "user" | "assistant"; content: any[] }> {
+  const messages: Array<{ role: "user" | "assistant"; content: any[] }> = [];
+  for (const msg of list) {
+    const converted = convertMessage(msg);
+    if (!converted || converted.content.length === 0) continue;
+    const last = messages.at(-1);
+    if (last?.role === converted.role) last.content.push(...converted.content);
+    else messages.push(converted);
+  }
+  return messages;
+}
+
+function convertTools(tools: any[]): any[] {
+  return tools
+    .filter((tool) => tool.type === "function")
+    .map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description || "",
+      input_schema: tool.function.parameters || { type: "object", properties: {} },
+    }));
+}
+
+/**
+ * Translate a Chat Completions request into an Anthropic Messages request.
+ * The Anthropic request always streams; non-streaming clients get the
+ * stream collected into one response.
+ */
+export function toAnthropicRequest(body: any): any {
+  const list: any[] = body.messages || [];
+  const system = list
+    .filter((msg) => msg.role === "system" || msg.role === "developer")
+    .map((msg) => messageText(msg.content))
+    .join("\n\n");
+
+  const request: any = {
+    model: body.model || "",
+    max_tokens: body.max_completion_tokens || body.max_tokens || DEFAULT_MAX_TOKENS,
+    stream: true,
+    messages: convertMessages(list),
+  };
+  if (system) request.system = system;
+  if (typeof body.temperature === "number") request.temperature = body.temperature;
+  if (typeof body.top_p === "number") request.top_p = body.top_p;
+  if (body.stop) request.stop_sequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    request.tools = convertTools(body.tools);
+    const toolChoice = convertToolChoice(body.tool_choice);
+    if (toolChoice) request.tool_choice = toolChoice;
+  }
+  return request;
+}
+
+/**
+ * Builds OpenAI chunks from the events of one Anthropic stream
+ */
+class ChunkTranslator {
+  readonly id = `chatcmpl-${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+  readonly created = Math.floor(Date.now() / 1000);
+  /** Tool call position (OpenAI index) of each Anthropic tool_use block */
+  private toolCalls = new Map<number, number>();
+  inputTokens = 0;
+  outputTokens = 0;
+  finishReason: string | null = null;
+
+  constructor(readonly model: string) {}
+
+  /**
+   * OpenAI chunks for one Anthropic event (none for most bookkeeping events)
+   */
+  translate(event: any): any[] {
+    switch (event.type) {
+      case "message_start":
+        this.readUsage(event.message?.usage);
+        return [this.chunk({ role: "assistant", content: "" })];
+      case "content_block_start":
+        return this.blockStart(event);
+      case "content_block_delta":
+        return this.blockDelta(event);
+      case "message_delta":
+        this.readUsage(event.usage);
+        this.finishReason = mapFinishReason(event.delta?.stop_reason);
+        return [];
+      case "message_stop":
+        return [this.chunk({}, this.finishReason || "stop")];
+      default:
+        return [];
+    }
+  }
+
+  get usage() {
+    return {
+      prompt_tokens: this.inputTokens,
+      completion_tokens: this.outputTokens,
+      total_tokens: this.inputTokens + this.outputTokens,
+    };
+  }
+
+  /** Final chunk carrying usage (stream_options.include_usage) */
+  usageChunk(): any {
+    return { ...this.chunk({}), choices: [], usage: this.usage };
+  }
+
+  private blockStart(event: any): any[] {
+    const block = event.content_block;
+    if (block?.type !== "tool_use") return [];
+    const position = this.toolCalls.size;
+    this.toolCalls.set(event.index, position);
+    return [
+      this.chunk({
+        tool_calls: [
+          {
+            index: position,
+            id: block.id,
+            type: "function",
+            function: { name: block.name, arguments: "" },
+          },
+        ],
+      }),
+    ];
+  }
+
+  private blockDelta(event: any): any[] {
+    const delta = event.delta;
+    if (delta?.type === "text_delta") return [this.chunk({ content: delta.text })];
+    // Reasoning in the field DeepSeek and vLLM use
+    if (delta?.type === "thinking_delta") {
+      return [this.chunk({ reasoning_content: delta.thinking })];
+    }
+    const position = this.toolCalls.get(event.index);
+    if (delta?.type === "input_json_delta" && position !== undefined) {
+      return [
+        this.chunk({
+          tool_calls: [{ index: position, function: { arguments: delta.partial_json } }],
+        }),
+      ];
+    }
+    return [];
+  }
+
+  // Handlers report input tokens in message_start or message_delta, whichever they know first
+  private readUsage(usage: any): void {
+    if (usage?.input_tokens) this.inputTokens = usage.input_tokens;
+    if (usage?.output_tokens) this.outputTokens = usage.output_tokens;
+  }
+
+  private chunk(delta: any, finishReason: string | null = null): any {
+    return {
+      id: this.id,
+      object: "chat.completion.chunk",
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    };
+  }
+}
+
+/**
+ * Collect streamed chunks into one chat.completion object
+ */
+function collectCompletion(translator: ChunkTranslator, chunks: any[]): any {
+  let content = "";
+  let reasoning = "";
+  const toolCalls: any[] = [];
+  for (const delta of chunks.map((chunk) => chunk.choices[0]?.delta || {})) {
+    content += delta.content || "";
+    reasoning += delta.reasoning_content || "";
+    for (const call of delta.tool_calls || []) {
+      if (call.id)
+        toolCalls[call.index] = { id: call.id, type: "function", function: call.function };
+      else toolCalls[call.index].function.arguments += call.function.arguments;
+    }
+  }
+
+  const message: any = { role: "assistant", content: content || null };
+  if (reasoning) message.reasoning_content = reasoning;
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
+  return {
+    id: translator.id,
+    object: "chat.completion",
+    created: translator.created,
+    model: translator.model,
+    choices: [{ index: 0, message, finish_reason: translator.finishReason || "stop" }],
+    usage: translator.usage,
+  };
+}
+
+/**
+ * OpenAI error body from an Anthropic (or handler) error response
+ */
+async function toOpenAIError(response: Response): Promise<Response> {
+  const text = await response.text();
+  let message = text || response.statusText;
+  let type = "api_error";
+  try {
+    const data = JSON.parse(text);
+    const error = data?.error;
+    if (typeof error === "string") message = error;
+    else if (error?.message) {
+      message = error.message;
+      type = error.type || type;
+    }
+  } catch {
+    // Not JSON - keep the raw text
+  }
+  return Response.json(
+    { error: { message, type, param: null, code: null } },
+    { status: response.status }
+  );
+}
+
+const formatChunk = (chunk: any) => `data: ${JSON.stringify(chunk)}\n\n`;
+
+/**
+ * Translate a handler's Anthropic response into a Chat Completions response
+ */
+export async function toChatCompletionResponse(
+  response: Response,
+  request: { model: string; stream?: boolean; stream_options?: { include_usage?: boolean } }
+): Promise<Response> {
+  if (!response.ok) return toOpenAIError(response);
+
+  const translator = new ChunkTranslator(request.model);
+  const contentType = response.headers.get("content-type") || "";
+  if (!contentType.includes("text/event-stream")) {
+    // A handler answered with a complete Anthropic message
+    const chunks = translateMessage(translator, await response.json());
+    return Response.json(collectCompletion(translator, chunks));
+  }
+
+  if (!request.stream) {
+    const events = parseSseEvents(await response.text());
+    const chunks = events.flatMap((sse) => translator.translate(sse.data));
+    return Response.json(collectCompletion(translator, chunks));
+  }
+
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+  const forward = (text: string, controller: ReadableStreamDefaultController<Uint8Array>): void => {
+    for (const sse of parseSseEvents(text)) {
+      if (sse.data?.type === "error") {
+        controller.enqueue(encoder.encode(formatChunk({ error: sse.data.error })));
+        continue;
+      }
+      const chunks = translator.translate(sse.data);
+      if (chunks.length > 0) controller.enqueue(encoder.encode(chunks.map(formatChunk).join("")));
+    }
+  };
+
+  const reader = response.body!.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+          const end = buffer.lastIndexOf("\n\n");
+          if (end === -1) continue;
+          forward(buffer.slice(0, end), controller);
+          buffer = buffer.slice(end + 2);
+        }
+        forward(buffer + decoder.decode(), controller);
+      } catch (e) {
+        log(`[ChatCompletions] Stream error: ${e}`);
+        const error = { message: String(e), type: "api_error" };
+        controller.enqueue(encoder.encode(formatChunk({ error })));
+      }
+      if (request.stream_options?.include_usage) {
+        controller.enqueue(encoder.encode(formatChunk(translator.usageChunk())));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * Translate a complete Anthropic message as if it had been streamed
+ */
+function translateMessage(translator: ChunkTranslator, message: any): any[] {
+  const events: any[] = [{ type: "message_start", message: { usage: message.usage } }];
+  (message.content || []).forEach((block: any, index: number) => {
+    events.push({ type: "content_block_start", index, content_block: block });
+    if (block.type === "text") {
+      events.push({
+        type: "content_block_delta",
+        index,
+        delta: { type: "text_delta", text: block.text },
+      });
+    } else if (block.type === "tool_use") {
+      events.push({
+        type: "content_block_delta",
+        index,
+        delta: { type: "input_json_delta", partial_json: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  });
+  events.push({
+    type: "message_delta",
+    delta: { stop_reason: message.stop_reason },
+    usage: message.usage,
+  });
+  events.push({ type: "message_stop" });
+  return events.flatMap((event) => translator.translate(event));
+}
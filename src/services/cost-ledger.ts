@@ -0,0 +1,259 @@
+/**
+ * Persistent cost ledger
+ *
+ * Append-only JSONL log of every proxied request that reported usage, stored at
+ * ~/.claudish/cost-ledger.jsonl. Unlike the per-port tokens-<port>.json file
+ * (which only holds the running total for the status line), the ledger survives
+ * the session and backs `claudish costs`, `--audit-costs` and `--reset-costs`.
+ *
+ * Handlers call recordCost() from their token tracking code. Request-scoped
+ * details the handlers don't know about (which Claude role was mapped) are
+ * attached by the proxy via runWithCostContext().
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { log } from "../logger.js";
+
+/**
+ * One ledger line - a single request that reported usage
+ */
+export interface CostLedgerEntry {
+  /** ISO timestamp of when the usage was recorded */
+  timestamp: string;
+  /** Working directory of the claudish session (the project) */
+  project: string;
+  /** Serve daemon session that made the request (unset for a standalone proxy) */
+  session?: string;
+  /** Claude role the request came in as (opus, sonnet, haiku) */
+  role?: string;
+  /** Model name Claude Code asked for, before role mapping */
+  requestedModel?: string;
+  /** Provider that served the request (e.g. "openrouter", "gemini", "ollama") */
+  provider: string;
+  /** Model name sent to the provider */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from a provider-side prompt cache */
+  cachedTokens: number;
+  /** Cost in USD as charged by the handler for this request */
+  cost: number;
+  /** Whether the cost came from PROVIDER_DEFAULTS rather than real pricing */
+  estimated: boolean;
+}
+
+/**
+ * Usage reported by a handler - the ledger fills in the rest
+ */
+export interface CostUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens?: number;
+  cost: number;
+  estimated?: boolean;
+}
+
+/**
+ * Request-scoped context attached to ledger entries
+ */
+export interface CostContext {
+  role?: string;
+  requestedModel?: string;
+  /** Serve daemon session id */
+  session?: string;
+  /** Working directory of the session (defaults to the proxy's own) */
+  project?: string;
+}
+
+export type CostGroupBy = "project" | "model" | "provider" | "day" | "role";
+
+export const COST_GROUP_BY_VALUES: CostGroupBy[] = ["project", "model", "provider", "day", "role"];
+
+/**
+ * Aggregated ledger totals for one group
+ */
+export interface CostSummaryRow {
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cost: number;
+  /** True if any entry in the group used estimated pricing */
+  estimated: boolean;
+}
+
+export interface CostFilter {
+  /** Only include entries at or after this time */
+  since?: Date;
+  /** Only include entries for this project directory */
+  project?: string;
+}
+
+export type CostListener = (entry: CostLedgerEntry) => void;
+
+const costContext = new AsyncLocalStorage<CostContext>();
+const costListeners = new Set<CostListener>();
+
+/**
+ * Get the ledger file path
+ */
+export function getCostLedgerPath(): string {
+  return join(homedir(), ".claudish", "cost-ledger.jsonl");
+}
+
+/**
+ * Run a request handler with context that is attached to every ledger entry
+ * it records (including entries recorded later from its response stream)
+ */
+export function runWithCostContext<T>(context: CostContext, fn: () => T): T {
+  return costContext.run(context, fn);
+}
+
+/**
+ * Subscribe to every recorded cost (e.g. for session budgets)
+ * @returns Function that removes the listener
+ */
+export function onCostRecorded(listener: CostListener): () => void {
+  costListeners.add(listener);
+  return () => {
+    costListeners.delete(listener);
+  };
+}
+
+/**
+ * Append a request's usage to the ledger and notify listeners. Never throws -
+ * cost tracking must not break a request.
+ */
+export function recordCost(usage: CostUsage, ledgerPath: string = getCostLedgerPath()): void {
+  const context = costContext.getStore();
+  const entry: CostLedgerEntry = {
+    timestamp: new Date().toISOString(),
+    project: context?.project || process.cwd(),
+    session: context?.session,
+    role: context?.role,
+    requestedModel: context?.requestedModel,
+    provider: usage.provider,
+    model: usage.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cachedTokens: usage.cachedTokens || 0,
+    cost: usage.cost,
+    estimated: usage.estimated || false,
+  };
+
+  try {
+    mkdirSync(dirname(ledgerPath), { recursive: true });
+    appendFileSync(ledgerPath, `${JSON.stringify(entry)}\n`, "utf-8");
+  } catch (e) {
+    log(`[CostLedger] Error writing ledger: ${e}`);
+  }
+
+  for (const listener of costListeners) {
+    try {
+      listener(entry);
+    } catch (e) {
+      log(`[CostLedger] Listener error: ${e}`);
+    }
+  }
+}
+
+/**
+ * Read all ledger entries, skipping lines that fail to parse
+ */
+export function readCostLedger(ledgerPath: string = getCostLedgerPath()): CostLedgerEntry[] {
+  if (!existsSync(ledgerPath)) return [];
+
+  const entries: CostLedgerEntry[] = [];
+  for (const line of readFileSync(ledgerPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Partial write from a crashed session - ignore
+    }
+  }
+  return entries;
+}
+
+/**
+ * Delete the ledger
+ */
+export function resetCostLedger(ledgerPath: string = getCostLedgerPath()): void {
+  rmSync(ledgerPath, { force: true });
+}
+
+/**
+ * Filter ledger entries by time and project
+ */
+export function filterCostEntries(
+  entries: CostLedgerEntry[],
+  filter: CostFilter
+): CostLedgerEntry[] {
+  const sinceMs = filter.since?.getTime();
+  return entries.filter((entry) => {
+    if (sinceMs !== undefined && new Date(entry.timestamp).getTime() < sinceMs) return false;
+    if (filter.project && entry.project !== filter.project) return false;
+    return true;
+  });
+}
+
+/**
+ * Get the grouping key of an entry
+ */
+function getGroupKey(entry: CostLedgerEntry, groupBy: CostGroupBy): string {
+  switch (groupBy) {
+    case "project":
+      return entry.project;
+    case "model":
+      return `${entry.provider}@${entry.model}`;
+    case "provider":
+      return entry.provider;
+    case "day":
+      return entry.timestamp.slice(0, 10);
+    case "role":
+      return entry.role || "(unmapped)";
+  }
+}
+
+/**
+ * Aggregate ledger entries into per-group totals.
+ * Days are sorted chronologically, everything else by cost (highest first).
+ */
+export function aggregateCosts(entries: CostLedgerEntry[], groupBy: CostGroupBy): CostSummaryRow[] {
+  const rows = new Map<string, CostSummaryRow>();
+
+  for (const entry of entries) {
+    const key = getGroupKey(entry, groupBy);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        key,
+        requests: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cachedTokens: 0,
+        cost: 0,
+        estimated: false,
+      };
+      rows.set(key, row);
+    }
+    row.requests++;
+    row.inputTokens += entry.inputTokens || 0;
+    row.outputTokens += entry.outputTokens || 0;
+    row.cachedTokens += entry.cachedTokens || 0;
+    row.cost += entry.cost || 0;
+    row.estimated = row.estimated || entry.estimated;
+  }
+
+  const result = Array.from(rows.values());
+  if (groupBy === "day") {
+    return result.sort((a, b) => a.key.localeCompare(b.key));
+  }
+  return result.sort((a, b) => b.cost - a.cost);
+}
@@ -0,0 +1,220 @@
+/**
+ * Prometheus metrics
+ *
+ * Serves the proxy's traffic as Prometheus text exposition format on /metrics:
+ * request counts by provider/model/status, latency and time-to-first-token
+ * histograms, token counts and cost from the cost ledger, shared queue wait
+ * times and lengths, upstream retries and tool-call repairs.
+ *
+ * Metrics are process-wide (every proxy and `claudish serve` session in the
+ * process), like the shared request queues they report on.
+ */
+
+import { GeminiRequestQueue } from "../handlers/shared/gemini-queue.js";
+import { LocalModelQueue } from "../handlers/shared/local-queue.js";
+import { OpenRouterRequestQueue } from "../handlers/shared/openrouter-queue.js";
+import { onQueueWait, onUpstreamRetry } from "../handlers/shared/queue-events.js";
+import { onToolCallRecovered } from "../handlers/shared/tool-call-recovery.js";
+import { parseModelSpec } from "../providers/model-parser.js";
+import { onCostRecorded } from "./cost-ledger.js";
+import { getTrafficSnapshot, onRequestFinished } from "./traffic-stats.js";
+
+/** Content type of the Prometheus text exposition format */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels = Record<string, string>;
+
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const TTFT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+const QUEUE_WAIT_BUCKETS = [0.01, 0.05, 0.1, 0.5, 1, 2, 5, 10, 30, 60];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return "+Inf";
+  return String(value);
+}
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels, value = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    if (entry) entry.value += value;
+    else this.values.set(key, { labels, value });
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, { value }] of this.values) {
+      lines.push(`${this.name}${key} ${formatValue(value)}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram {
+  private series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) entry.counts[i]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(le) })} ${counts[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Render gauges that are read at scrape time
+ */
+function renderGauge(name: string, help: string, samples: [Labels, number][]): string[] {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} gauge`,
+    ...samples.map(([labels, value]) => `${name}${formatLabels(labels)} ${formatValue(value)}`),
+  ];
+}
+
+const requests = new Counter(
+  "claudish_requests_total",
+  "Messages requests handled by the proxy, by provider, model and HTTP status"
+);
+const requestDuration = new Histogram(
+  "claudish_request_duration_seconds",
+  "Time from receiving a request until its response stream ended",
+  LATENCY_BUCKETS
+);
+const timeToFirstToken = new Histogram(
+  "claudish_time_to_first_token_seconds",
+  "Time from receiving a request until its first streamed content",
+  TTFT_BUCKETS
+);
+const tokens = new Counter(
+  "claudish_tokens_total",
+  "Tokens recorded in the cost ledger, by provider, model and type (input, output, cached)"
+);
+const cost = new Counter("claudish_cost_usd_total", "Cost in USD recorded in the cost ledger");
+const queueWait = new Histogram(
+  "claudish_queue_wait_seconds",
+  "Time requests waited in a shared request queue before being sent upstream",
+  QUEUE_WAIT_BUCKETS
+);
+const retries = new Counter(
+  "claudish_upstream_retries_total",
+  "Upstream requests sent again after a rate limit, network error or out-of-memory error"
+);
+const toolCallRecoveries = new Counter(
+  "claudish_tool_call_recoveries_total",
+  "Malformed tool calls from models that were repaired or extracted from text"
+);
+
+/**
+ * Provider and model labels for a target spec (e.g. "oai@gpt-4o" -> openai, gpt-4o)
+ */
+export function targetLabels(target: string): { provider: string; model: string } {
+  if (target === "replay") return { provider: "replay", model: "" };
+  if (target.includes("|")) return { provider: "fallback", model: target };
+  const { provider, model } = parseModelSpec(target);
+  return { provider, model };
+}
+
+onRequestFinished((request) => {
+  const labels = targetLabels(request.target);
+  requests.inc({ ...labels, status: request.status ? String(request.status) : "error" });
+  requestDuration.observe(labels, (request.endedAt - request.startedAt) / 1000);
+  if (request.firstTokenAt) {
+    timeToFirstToken.observe(labels, (request.firstTokenAt - request.startedAt) / 1000);
+  }
+});
+
+onCostRecorded((entry) => {
+  const labels = { provider: entry.provider, model: entry.model };
+  tokens.inc({ ...labels, type: "input" }, entry.inputTokens);
+  tokens.inc({ ...labels, type: "output" }, entry.outputTokens);
+  if (entry.cachedTokens) tokens.inc({ ...labels, type: "cached" }, entry.cachedTokens);
+  cost.inc(labels, entry.cost);
+});
+
+onQueueWait((queue, waitMs) => queueWait.observe({ queue }, waitMs / 1000));
+onUpstreamRetry((queue, reason) => retries.inc({ queue, reason }));
+onToolCallRecovered((kind, toolName) => toolCallRecoveries.inc({ kind, tool: toolName }));
+
+/**
+ * Render all metrics in Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  const snapshot = getTrafficSnapshot();
+  const queues = {
+    openrouter: OpenRouterRequestQueue.getInstance().getStats().queueLength,
+    local: LocalModelQueue.getInstance().getStats().queueLength,
+    gemini: GeminiRequestQueue.getInstance().getStats().queueLength,
+  };
+
+  return `${[
+    ...requests.render(),
+    ...requestDuration.render(),
+    ...timeToFirstToken.render(),
+    ...renderGauge(
+      "claudish_requests_in_flight",
+      "Messages requests the proxy is still working on",
+      [[{}, snapshot.inFlight.length]]
+    ),
+    ...tokens.render(),
+    ...cost.render(),
+    ...queueWait.render(),
+    ...renderGauge(
+      "claudish_queue_length",
+      "Requests waiting in a shared request queue",
+      Object.entries(queues).map(([queue, length]) => [{ queue }, length])
+    ),
+    ...retries.render(),
+    ...toolCallRecoveries.render(),
+    ...renderGauge("claudish_uptime_seconds", "Seconds since the proxy started", [
+      [{}, snapshot.uptimeMs / 1000],
+    ]),
+  ].join("\n")}\n`;
+}
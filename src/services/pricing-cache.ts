@@ -48,6 +48,7 @@ const PROVIDER_TO_OR_PREFIX: Record<string, string[]> = {
   zhipu: ["zhipu/"],
   ollamacloud: ["ollamacloud/", "meta-llama/", "qwen/", "deepseek/"],
   oc: ["ollamacloud/", "meta-llama/", "qwen/", "deepseek/"],
+  anthropic: ["anthropic/"],
 };
 
 /**
@@ -186,6 +187,7 @@ function saveDiskCache(): void {
  * Populate in-memory pricing map from OpenRouter models API response.
  * OpenRouter returns pricing as per-token strings:
  *   { pricing: { prompt: "0.000003", completion: "0.000015" } }
+ * plus input_cache_read / input_cache_write for models with prompt caching.
  * We convert to per-1M format for consistency with ModelPricing.
  */
 function populateFromOpenRouterModels(models: any[]): void {
@@ -204,9 +206,16 @@ function populateFromOpenRouterModels(models: any[]): void {
 
     const isFree = inputCostPer1M === 0 && outputCostPer1M === 0;
 
+    const cacheReadPrice = Number.parseFloat(model.pricing.input_cache_read);
+    const cacheWritePrice = Number.parseFloat(model.pricing.input_cache_write);
+
     pricingMap.set(model.id, {
       inputCostPer1M,
       outputCostPer1M,
+      ...(Number.isNaN(cacheReadPrice) ? {} : { cacheReadCostPer1M: cacheReadPrice * 1_000_000 }),
+      ...(Number.isNaN(cacheWritePrice)
+        ? {}
+        : { cacheWriteCostPer1M: cacheWritePrice * 1_000_000 }),
       isEstimate: true, // Sourced from OpenRouter, may differ from direct provider pricing
       ...(isFree ? { isFree: true } : {}),
     });
@@ -0,0 +1,52 @@
+/**
+ * Proxy Completion
+ *
+ * One-shot requests to helper models (compaction summaries, image descriptions)
+ * sent through the claudish proxy itself, so they resolve, authenticate and get
+ * cost-tracked like any other target.
+ */
+
+/** Marks helper requests, which the proxy forwards without compaction or image descriptions */
+export const HELPER_REQUEST_HEADER = "x-claudish-helper";
+
+/**
+ * Send a single user turn to a model through the proxy and return its text reply
+ */
+export async function completeThroughProxy(
+  proxyUrl: string,
+  model: string,
+  content: string | any[],
+  maxTokens = 2048
+): Promise<string> {
+  const res = await fetch(`${proxyUrl}/v1/messages`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [HELPER_REQUEST_HEADER]: "1" },
+    body: JSON.stringify({
+      model,
+      max_tokens: maxTokens,
+      stream: true,
+      messages: [{ role: "user", content }],
+    }),
+  });
+  if (!res.ok) throw new Error(`${model} returned HTTP ${res.status}`);
+  return readStreamText(await res.text());
+}
+
+/**
+ * Text deltas of an Anthropic SSE stream
+ */
+function readStreamText(sse: string): string {
+  let text = "";
+  for (const line of sse.split("\n")) {
+    if (!line.startsWith("data: ")) continue;
+    try {
+      const event = JSON.parse(line.slice(6));
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        text += event.delta.text;
+      }
+    } catch {
+      // Ignore non-JSON data lines
+    }
+  }
+  return text;
+}
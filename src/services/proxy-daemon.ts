@@ -0,0 +1,388 @@
+/**
+ * Shared proxy daemon
+ *
+ * `claudish serve` runs one long-lived proxy that many claudish sessions attach
+ * to instead of starting a proxy each. Every session registers its model
+ * settings and gets a base URL of its own (http://127.0.0.1:<port>/s/<id>)
+ * backed by a separate proxy app, so handlers, the status line files, cost
+ * ledger entries and log lines stay per-session while process-wide state
+ * (OpenRouter queues, pricing cache) is shared.
+ *
+ * Control endpoints:
+ * - GET    /_claudish/status         Daemon info and attached sessions
+ * - POST   /_claudish/sessions       Register a session
+ * - DELETE /_claudish/sessions/:id   Detach a session
+ * - POST   /_claudish/reload         Same as SIGHUP
+ * - GET    /_claudish/stats          Live traffic of all sessions (claudish top)
+ * - GET    /metrics                  Prometheus metrics of all sessions
+ *
+ * The daemon writes its pid and URL to ~/.claudish/serve.json so sessions can
+ * find it. It listens on a fixed loopback TCP port rather than a Unix socket
+ * because Claude Code only reaches the proxy through ANTHROPIC_BASE_URL.
+ */
+
+import { randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { serve } from "@hono/node-server";
+import { config as loadDotenv } from "dotenv";
+import { Hono } from "hono";
+import { applyStoredApiKeys, setCredentialStore } from "../auth/credential-store.js";
+import { DEFAULT_SERVE_PORT } from "../config.js";
+import { type ReasoningMode, setReasoningMode } from "../handlers/shared/reasoning.js";
+import { log, runWithLogTag } from "../logger.js";
+import { setCustomProviders } from "../providers/custom-providers.js";
+import { getProviderPolicy, setProviderPolicy } from "../providers/provider-policy.js";
+import { type ProxyApp, type ProxyServerOptions, createProxyApp } from "../proxy-server.js";
+import type { ProxyServer } from "../types.js";
+import { onCostRecorded } from "./cost-ledger.js";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "./metrics.js";
+import { warmPricingCache } from "./pricing-cache.js";
+import { startTraceExport } from "./trace-export.js";
+import { getTrafficSnapshot } from "./traffic-stats.js";
+
+/** How long shutdown waits for in-flight streams before closing connections */
+const SHUTDOWN_GRACE_MS = 30_000;
+
+/**
+ * Contents of the daemon pidfile (~/.claudish/serve.json)
+ */
+export interface DaemonState {
+  pid: number;
+  port: number;
+  url: string;
+  startedAt: string;
+}
+
+/**
+ * What a claudish session sends when it attaches
+ */
+export interface SessionRegistration {
+  model?: string;
+  modelMap?: { opus?: string; sonnet?: string; haiku?: string; subagent?: string };
+  /**
+   * Proxy options of the session (sessions that set reasoning or redaction run
+   * a proxy of their own - see getOwnProxyReason)
+   */
+  options?: ProxyServerOptions;
+  /** Working directory of the session - the cost ledger project */
+  project?: string;
+  /** Process id of the session - sessions whose process is gone are dropped */
+  pid?: number;
+}
+
+/**
+ * An attached session as reported by /_claudish/status
+ */
+export interface DaemonSessionInfo {
+  id: string;
+  url: string;
+  statusKey: string;
+  model?: string;
+  project?: string;
+  pid?: number;
+  startedAt: string;
+  requests: number;
+  cost: number;
+}
+
+export interface ProxyDaemonOptions {
+  port?: number;
+  /** Pidfile path (default: ~/.claudish/serve.json) */
+  statePath?: string;
+  reasoning?: ReasoningMode;
+  openrouterApiKey?: string;
+  anthropicApiKey?: string;
+  /** OpenTelemetry collector to export request spans of all sessions to */
+  otlpEndpoint?: string;
+}
+
+export interface ProxyDaemon {
+  port: number;
+  url: string;
+  sessions: () => DaemonSessionInfo[];
+  reload: () => void;
+  shutdown: () => Promise<void>;
+}
+
+interface DaemonSession {
+  info: DaemonSessionInfo;
+  proxy: ProxyApp;
+}
+
+/**
+ * Get the daemon pidfile path
+ */
+export function getDaemonStatePath(): string {
+  return join(homedir(), ".claudish", "serve.json");
+}
+
+/**
+ * Check whether a process is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    return e?.code === "EPERM";
+  }
+}
+
+/**
+ * Read the pidfile of a running daemon (null if there is none or its process is gone)
+ */
+export function readDaemonState(statePath: string = getDaemonStatePath()): DaemonState | null {
+  if (!existsSync(statePath)) return null;
+  try {
+    const state = JSON.parse(readFileSync(statePath, "utf-8")) as DaemonState;
+    return state.pid && isProcessAlive(state.pid) ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Anthropic-style error body (what Claude Code expects from the session routes)
+ */
+function errorBody(type: string, message: string) {
+  return { type: "error", error: { type, message } };
+}
+
+/**
+ * Start the shared proxy daemon and write its pidfile
+ */
+export async function createProxyDaemon(options: ProxyDaemonOptions = {}): Promise<ProxyDaemon> {
+  const statePath = options.statePath || getDaemonStatePath();
+  const running = readDaemonState(statePath);
+  if (running) {
+    throw new Error(`claudish serve is already running (pid ${running.pid}, ${running.url})`);
+  }
+
+  if (options.reasoning) setReasoningMode(options.reasoning);
+  const sessions = new Map<string, DaemonSession>();
+  let draining = false;
+  let port = options.port ?? DEFAULT_SERVE_PORT;
+  let url = `http://127.0.0.1:${port}`;
+
+  // Per-session cost totals for the status endpoint
+  const stopCostTracking = onCostRecorded((entry) => {
+    const session = entry.session ? sessions.get(entry.session) : undefined;
+    if (session) session.info.cost += entry.cost;
+  });
+
+  const removeSession = (id: string) => {
+    const session = sessions.get(id);
+    if (!session) return;
+    session.proxy.dispose();
+    sessions.delete(id);
+    log(`[Daemon] Session ${id} detached`);
+  };
+
+  // Sessions whose claudish process died without detaching
+  const pruneSessions = () => {
+    for (const [id, session] of sessions) {
+      if (session.info.pid && !isProcessAlive(session.info.pid)) removeSession(id);
+    }
+  };
+
+  const addSession = (registration: SessionRegistration): DaemonSessionInfo => {
+    const id = randomBytes(4).toString("hex");
+    const info: DaemonSessionInfo = {
+      id,
+      url: `${url}/s/${id}`,
+      statusKey: `${port}-${id}`,
+      model: registration.model,
+      project: registration.project,
+      pid: registration.pid,
+      startedAt: new Date().toISOString(),
+      requests: 0,
+      cost: 0,
+    };
+    const proxy = createProxyApp(
+      { url: info.url, statusKey: info.statusKey, session: id, project: registration.project },
+      options.openrouterApiKey,
+      registration.model,
+      false,
+      options.anthropicApiKey,
+      registration.modelMap,
+      { ...registration.options, reasoning: undefined, redaction: undefined }
+    );
+    sessions.set(id, { info, proxy });
+    log(`[Daemon] Session ${id} attached (${registration.model || "default model"})`);
+    return info;
+  };
+
+  const reload = () => {
+    // Re-read stored keys, .env, config.json providers and the policy; new requests get fresh handlers
+    setCredentialStore(null);
+    applyStoredApiKeys();
+    loadDotenv({ quiet: true, override: true });
+    setCustomProviders(null);
+    setProviderPolicy(null);
+    for (const session of sessions.values()) session.proxy.reload();
+    log(`[Daemon] Reloaded configuration for ${sessions.size} session(s)`);
+  };
+
+  const app = new Hono();
+
+  app.get("/_claudish/status", (c) => {
+    pruneSessions();
+    return c.json({
+      pid: process.pid,
+      url,
+      sessions: [...sessions.values()].map((s) => s.info),
+    });
+  });
+
+  app.post("/_claudish/sessions", async (c) => {
+    if (draining) return c.json(errorBody("overloaded_error", "Daemon is shutting down"), 503);
+    pruneSessions();
+    const registration = (await c.req.json().catch(() => ({}))) as SessionRegistration;
+    return c.json(addSession(registration), 201);
+  });
+
+  app.delete("/_claudish/sessions/:id", (c) => {
+    removeSession(c.req.param("id"));
+    return c.body(null, 204);
+  });
+
+  // Traffic of all sessions (each session also serves its own at /s/<id>/_claudish/stats)
+  app.get("/_claudish/stats", (c) => c.json(getTrafficSnapshot()));
+
+  app.get("/metrics", (c) =>
+    c.body(renderMetrics(), 200, { "Content-Type": METRICS_CONTENT_TYPE })
+  );
+
+  app.post("/_claudish/reload", (c) => {
+    reload();
+    return c.json({ status: "ok" });
+  });
+
+  // Session traffic - strip the /s/<id> prefix and hand the request to the session's app
+  app.all("/s/:id/*", async (c) => {
+    const id = c.req.param("id");
+    const session = sessions.get(id);
+    if (!session) {
+      return c.json(errorBody("not_found_error", `Unknown claudish session: ${id}`), 404);
+    }
+    if (draining) return c.json(errorBody("overloaded_error", "Daemon is shutting down"), 503);
+
+    const target = new URL(c.req.url);
+    target.pathname = target.pathname.slice(`/s/${id}`.length) || "/";
+    const { method, headers } = c.req.raw;
+    const body = method === "GET" || method === "HEAD" ? undefined : await c.req.arrayBuffer();
+    const request = new Request(target.toString(), { method, headers, body });
+    session.info.requests++;
+    return runWithLogTag(id, () => session.proxy.app.fetch(request, c.env));
+  });
+
+  app.get("/health", (c) => c.json({ status: "ok" }));
+
+  const server = serve({ fetch: app.fetch, port, hostname: "127.0.0.1" });
+  await new Promise<void>((resolve, reject) => {
+    server.once("listening", () => resolve());
+    server.once("error", reject);
+    if (server.listening) resolve();
+  });
+  const addr = server.address();
+  if (typeof addr === "object" && addr?.port) port = addr.port;
+  url = `http://127.0.0.1:${port}`;
+
+  const state: DaemonState = { pid: process.pid, port, url, startedAt: new Date().toISOString() };
+  mkdirSync(dirname(statePath), { recursive: true });
+  writeFileSync(statePath, JSON.stringify(state, null, 2), "utf-8");
+  log(`[Daemon] Listening on ${url}`);
+
+  warmPricingCache().catch(() => {});
+  const traceExporter = options.otlpEndpoint ? startTraceExport(options.otlpEndpoint) : null;
+
+  return {
+    port,
+    url,
+    sessions: () => {
+      pruneSessions();
+      return [...sessions.values()].map((s) => s.info);
+    },
+    reload,
+    shutdown: async () => {
+      // Refuse new work, let running streams finish, then close what is left
+      draining = true;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          (server as any).closeAllConnections?.();
+          resolve();
+        }, SHUTDOWN_GRACE_MS);
+        server.close(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+        (server as any).closeIdleConnections?.();
+      });
+      for (const id of [...sessions.keys()]) removeSession(id);
+      stopCostTracking();
+      await traceExporter?.stop();
+      if (readDaemonState(statePath)?.pid === process.pid) rmSync(statePath, { force: true });
+      log("[Daemon] Stopped");
+    },
+  };
+}
+
+/**
+ * Why a session can't share the daemon, if it can't: reasoning display,
+ * redaction and the organisation policy apply to a whole proxy process
+ */
+export function getOwnProxyReason(options: ProxyServerOptions = {}): string | null {
+  if (options.reasoning) return `--reasoning ${options.reasoning}`;
+  if (options.redaction) return `--redact ${options.redaction.mode}`;
+  const policy = getProviderPolicy();
+  if (policy) return `policy ${policy.source}`;
+  return null;
+}
+
+/**
+ * Attach to a running daemon. Resolves to null when there is none to attach to,
+ * or the session needs a proxy of its own, so callers can start one instead.
+ */
+export async function attachToDaemon(
+  registration: SessionRegistration,
+  statePath: string = getDaemonStatePath()
+): Promise<(ProxyServer & { id: string; statusKey: string }) | null> {
+  const state = readDaemonState(statePath);
+  if (!state) return null;
+
+  const ownProxyReason = getOwnProxyReason(registration.options);
+  if (ownProxyReason) {
+    log(`[Daemon] Not attaching to ${state.url}: ${ownProxyReason} needs a proxy of its own`);
+    return null;
+  }
+
+  let session: DaemonSessionInfo;
+  try {
+    const res = await fetch(`${state.url}/_claudish/sessions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(registration),
+      signal: AbortSignal.timeout(2000),
+    });
+    if (!res.ok) return null;
+    session = (await res.json()) as DaemonSessionInfo;
+  } catch (e) {
+    log(`[Daemon] Could not attach to ${state.url}: ${e}`);
+    return null;
+  }
+
+  return {
+    id: session.id,
+    statusKey: session.statusKey,
+    port: state.port,
+    url: session.url,
+    shutdown: async () => {
+      await fetch(`${state.url}/_claudish/sessions/${session.id}`, {
+        method: "DELETE",
+        signal: AbortSignal.timeout(2000),
+      }).catch(() => {});
+    },
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Request Compactor
+ *
+ * Opt-in (--compact) stage that shrinks an Anthropic Messages API request so
+ * it fits the upstream model's context window before it is forwarded.
+ * Stages run in order until the request fits:
+ * 1. Trim tool_result bodies outside the most recent messages
+ * 2. Collapse earlier turns into a summary (from --compact-model, or an
+ *    extract of the turns when no summary model is configured)
+ * 3. Truncate oversized text and file contents, keeping head and tail
+ *
+ * Everything dropped is recorded in the debug log.
+ */
+
+import { log } from "../logger.js";
+import { completeThroughProxy } from "./proxy-completion.js";
+import { HEURISTIC_COUNTER, type TokenCounter, countRequestTokens } from "./token-counter.js";
+
+export interface CompactionOptions {
+  /** Model used to summarize collapsed turns (extractive summary when unset) */
+  summaryModel?: string;
+  /** Messages at the end of the conversation that are never trimmed or collapsed (default 4) */
+  keepRecentMessages?: number;
+}
+
+/**
+ * Produces a summary of a conversation transcript
+ */
+export type Summarizer = (transcript: string) => Promise<string>;
+
+export interface CompactRequestOptions extends CompactionOptions {
+  /** Tokenizer of the target model (default: chars/4) */
+  counter?: TokenCounter;
+  summarize?: Summarizer;
+}
+
+export interface CompactionResult {
+  body: any;
+  /** Estimated input tokens before and after compaction */
+  originalTokens: number;
+  compactedTokens: number;
+  /** Input token budget the request had to fit */
+  targetTokens: number;
+  /** What was removed, one entry per item */
+  dropped: string[];
+}
+
+const DEFAULT_KEEP_RECENT_MESSAGES = 4;
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+/** Tool results shorter than this are left alone by the trim stage */
+const MIN_TRIMMED_TOOL_RESULT_CHARS = 200;
+/** Characters of each collapsed message kept in an extractive summary */
+const EXTRACT_CHARS_PER_MESSAGE = 200;
+/** Longest transcript sent to the summary model (the most recent part is kept) */
+const MAX_TRANSCRIPT_CHARS = 100_000;
+
+/**
+ * Text of a content value (string, text blocks, tool results)
+ */
+function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block: any) => {
+      if (block?.type === "text") return block.text || "";
+      if (block?.type === "tool_result") return contentText(block.content);
+      if (block?.type === "tool_use") return `[called ${block.name}]`;
+      return "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+function hasToolResult(message: any): boolean {
+  return (
+    Array.isArray(message?.content) && message.content.some((b: any) => b?.type === "tool_result")
+  );
+}
+
+/**
+ * Stage 1: replace tool_result bodies of older messages with a short note
+ */
+function trimOldToolResults(messages: any[], keepRecent: number, dropped: string[]): any[] {
+  const cutoff = messages.length - keepRecent;
+  return messages.map((message, index) => {
+    if (index >= cutoff || !hasToolResult(message)) return message;
+    return {
+      ...message,
+      content: message.content.map((block: any) => {
+        if (block?.type !== "tool_result") return block;
+        const chars = contentText(block.content).length;
+        if (chars < MIN_TRIMMED_TOOL_RESULT_CHARS) return block;
+        dropped.push(`tool_result ${block.tool_use_id} (${chars} chars)`);
+        return { ...block, content: `[Tool result trimmed by claudish: ${chars} characters]` };
+      }),
+    };
+  });
+}
+
+/**
+ * Extractive summary: the start of every collapsed message
+ */
+function extractSummary(messages: any[]): string {
+  return messages
+    .map((message) => {
+      const text = contentText(message.content).replace(/\s+/g, " ").trim();
+      const excerpt =
+        text.length > EXTRACT_CHARS_PER_MESSAGE
+          ? `${text.slice(0, EXTRACT_CHARS_PER_MESSAGE)}...`
+          : text;
+      return excerpt ? `${message.role}: ${excerpt}` : "";
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Index where the kept part of the conversation starts: an assistant turn or
+ * a user message that doesn't answer a tool call, so no tool_result loses its tool_use
+ */
+function findCollapseIndex(messages: any[], keepRecent: number): number {
+  for (let i = messages.length - keepRecent; i > 0; i--) {
+    if (messages[i]?.role === "assistant" || !hasToolResult(messages[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Stage 2: replace the turns before the kept part with a summary, as the
+ * opening user message or prepended to the first kept one
+ */
+async function collapseEarlierTurns(
+  messages: any[],
+  keepRecent: number,
+  dropped: string[],
+  summarize?: Summarizer
+): Promise<any[]> {
+  const index = findCollapseIndex(messages, keepRecent);
+  if (index <= 0) return messages;
+
+  const collapsed = messages.slice(0, index);
+  let summary = "";
+  if (summarize) {
+    const transcript = collapsed
+      .map((m) => `${m.role}: ${contentText(m.content)}`)
+      .join("\n\n")
+      .slice(-MAX_TRANSCRIPT_CHARS);
+    try {
+      summary = (await summarize(transcript)).trim();
+    } catch (e) {
+      log(`[Compactor] Summary model failed, using an extract instead: ${e}`);
+    }
+  }
+  summary ||= extractSummary(collapsed);
+  dropped.push(`${collapsed.length} earlier messages (collapsed into a summary)`);
+
+  const summaryBlock = {
+    type: "text",
+    text: `[Summary of the earlier conversation, compacted by claudish]\n${summary}`,
+  };
+  const first = messages[index];
+  if (first.role === "assistant") {
+    return [{ role: "user", content: [summaryBlock] }, ...messages.slice(index)];
+  }
+  const firstContent =
+    typeof first.content === "string" ? [{ type: "text", text: first.content }] : first.content;
+  return [{ ...first, content: [summaryBlock, ...firstContent] }, ...messages.slice(index + 1)];
+}
+
+/**
+ * Shorten text to maxChars, keeping its head and tail
+ */
+function truncateText(text: string, maxChars: number, label: string, dropped: string[]): string {
+  if (text.length <= maxChars) return text;
+  const half = Math.floor(maxChars / 2);
+  const removed = text.length - half * 2;
+  dropped.push(`${label} (${removed} of ${text.length} chars)`);
+  return `${text.slice(0, half)}\n\n[... ${removed} characters truncated by claudish ...]\n\n${text.slice(-half)}`;
+}
+
+function truncateContent(content: unknown, maxChars: number, dropped: string[]): any {
+  if (typeof content === "string") return truncateText(content, maxChars, "text", dropped);
+  if (!Array.isArray(content)) return content;
+  return content.map((block: any) => {
+    if (block?.type === "text" && typeof block.text === "string") {
+      return { ...block, text: truncateText(block.text, maxChars, "text block", dropped) };
+    }
+    if (block?.type === "tool_result") {
+      const label = `tool_result ${block.tool_use_id}`;
+      if (typeof block.content === "string") {
+        return { ...block, content: truncateText(block.content, maxChars, label, dropped) };
+      }
+      return { ...block, content: truncateContent(block.content, maxChars, dropped) };
+    }
+    return block;
+  });
+}
+
+/**
+ * Stage 3: truncate oversized text and file contents anywhere in the conversation
+ */
+function truncateOversizedContent(messages: any[], maxChars: number, dropped: string[]): any[] {
+  return messages.map((message) => ({
+    ...message,
+    content: truncateContent(message.content, maxChars, dropped),
+  }));
+}
+
+const SUMMARY_PROMPT =
+  "Summarize this conversation between a user and a coding assistant so the assistant can " +
+  "continue the work. Keep file paths, decisions, open tasks and errors. Reply with the summary only.";
+
+/**
+ * Summarizer that asks a model through the claudish proxy (--compact-model)
+ */
+export function createModelSummarizer(proxyUrl: string, model: string): Summarizer {
+  return (transcript) =>
+    completeThroughProxy(
+      proxyUrl,
+      model,
+      `${SUMMARY_PROMPT}\n\n<conversation>\n${transcript}\n</conversation>`
+    );
+}
+
+/**
+ * Input token budget of a request: the context window minus room for the response
+ */
+export function getInputTokenBudget(body: any, contextWindow: number): number {
+  const reserved = Math.min(
+    body?.max_tokens || DEFAULT_RESERVED_OUTPUT_TOKENS,
+    Math.floor(contextWindow / 4)
+  );
+  return contextWindow - reserved;
+}
+
+/**
+ * Compact a request so it fits a context window
+ *
+ * Returns the request unchanged when it already fits.
+ */
+export async function compactRequest(
+  body: any,
+  contextWindow: number,
+  options: CompactRequestOptions = {}
+): Promise<CompactionResult> {
+  const counter = options.counter || HEURISTIC_COUNTER;
+  const keepRecent = options.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES;
+  const targetTokens = getInputTokenBudget(body, contextWindow);
+  const originalTokens = countRequestTokens(body, counter);
+  const dropped: string[] = [];
+  const result = (request: any): CompactionResult => ({
+    body: request,
+    originalTokens,
+    compactedTokens: countRequestTokens(request, counter),
+    targetTokens,
+    dropped,
+  });
+
+  if (originalTokens <= targetTokens || !Array.isArray(body?.messages)) return result(body);
+
+  const fits = (messages: any[]) =>
+    countRequestTokens({ ...body, messages }, counter) <= targetTokens;
+
+  let messages = trimOldToolResults(body.messages, keepRecent, dropped);
+  if (!fits(messages)) {
+    messages = await collapseEarlierTurns(messages, keepRecent, dropped, options.summarize);
+  }
+  if (!fits(messages)) {
+    // A quarter of the budget per item (~4 chars per token)
+    const maxChars = Math.max(2000, targetTokens);
+    messages = truncateOversizedContent(messages, maxChars, dropped);
+  }
+
+  const compacted = result({ ...body, messages });
+  log(
+    `[Compactor] ${originalTokens} -> ${compacted.compactedTokens} tokens (budget ${targetTokens}), dropped: ${dropped.join("; ") || "nothing"}`
+  );
+  if (compacted.compactedTokens > targetTokens) {
+    log("[Compactor] Request still exceeds the context window after compaction");
+  }
+  return compacted;
+}
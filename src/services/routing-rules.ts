@@ -0,0 +1,172 @@
+/**
+ * Routing Rules
+ *
+ * Per-request routing on request features, declared in a profile's "rules"
+ * list. Rules are checked in order before the opus/sonnet/haiku mappings and
+ * the first rule whose conditions all hold picks the target model:
+ *
+ *   "rules": [
+ *     { "name": "long-context", "when": { "minInputTokens": 150000 }, "model": "g@gemini-2.5-pro" },
+ *     { "name": "vision", "when": { "hasImages": true }, "model": "oai@gpt-4o" },
+ *     { "when": { "isSubagent": true, "maxInputTokens": 20000 }, "model": "mm@MiniMax-M2" }
+ *   ]
+ */
+
+import { log } from "../logger.js";
+import { HEURISTIC_COUNTER, countRequestTokens } from "./token-counter.js";
+
+/**
+ * Conditions of a routing rule (all set conditions must hold)
+ */
+export interface RoutingConditions {
+  /** Any message contains an image */
+  hasImages?: boolean;
+  /** Extended thinking is enabled for the request */
+  hasThinking?: boolean;
+  /** Estimated input tokens (system, messages and tools) at least this many */
+  minInputTokens?: number;
+  /** Estimated input tokens at most this many */
+  maxInputTokens?: number;
+  /** At least this many tools */
+  minTools?: number;
+  /** At most this many tools */
+  maxTools?: number;
+  /** The request comes from a subagent (Task tool) rather than the main session */
+  isSubagent?: boolean;
+  /** Regular expression matched against the system prompt (case-insensitive) */
+  systemPattern?: string;
+  /** Claude role of the requested model */
+  role?: "opus" | "sonnet" | "haiku";
+}
+
+/**
+ * A routing rule: send matching requests to model (a target or fallback chain)
+ */
+export interface RoutingRule {
+  name?: string;
+  when: RoutingConditions;
+  model: string;
+}
+
+/**
+ * Features of a request that rules match on
+ */
+export interface RequestFeatures {
+  hasImages: boolean;
+  hasThinking: boolean;
+  inputTokens: number;
+  toolCount: number;
+  isSubagent: boolean;
+  systemText: string;
+  role?: string;
+}
+
+// Subagents get their own system prompt instead of the main Claude Code one
+const SUBAGENT_SYSTEM_MARKER = /you are an agent for claude code/i;
+const SUBAGENT_SPAWNING_TOOLS = new Set(["Task", "Agent"]);
+
+/**
+ * Whether content (a string or block list, including tool results) contains an image
+ */
+function containsImage(content: unknown): boolean {
+  if (!Array.isArray(content)) return false;
+  return content.some(
+    (block: any) =>
+      block?.type === "image" || (block?.type === "tool_result" && containsImage(block.content))
+  );
+}
+
+/**
+ * Text of the system prompt (string or text blocks)
+ */
+function getSystemText(system: unknown): string {
+  if (typeof system === "string") return system;
+  if (!Array.isArray(system)) return "";
+  return system.map((block: any) => (typeof block?.text === "string" ? block.text : "")).join("\n");
+}
+
+/**
+ * Claude role (opus, sonnet or haiku) of a requested model name
+ */
+export function getClaudeRole(model: unknown): string | undefined {
+  const name = typeof model === "string" ? model.toLowerCase() : "";
+  return ["opus", "sonnet", "haiku"].find((role) => name.includes(role));
+}
+
+/**
+ * Extract the features rules match on from an Anthropic Messages API request
+ */
+export function getRequestFeatures(body: any): RequestFeatures {
+  const systemText = getSystemText(body?.system);
+  const tools: any[] = Array.isArray(body?.tools) ? body.tools : [];
+  const messages: any[] = Array.isArray(body?.messages) ? body.messages : [];
+
+  // Main sessions can spawn subagents, subagents themselves can't
+  const isSubagent =
+    SUBAGENT_SYSTEM_MARKER.test(systemText) ||
+    (/claude code/i.test(systemText) &&
+      tools.length > 0 &&
+      !tools.some((tool) => SUBAGENT_SPAWNING_TOOLS.has(tool?.name)));
+
+  return {
+    hasImages: messages.some((message) => containsImage(message?.content)),
+    hasThinking: body?.thinking?.type === "enabled",
+    inputTokens: countRequestTokens(body || {}, HEURISTIC_COUNTER),
+    toolCount: tools.length,
+    isSubagent,
+    systemText,
+    role: getClaudeRole(body?.model),
+  };
+}
+
+/**
+ * Check whether a system prompt matches a rule pattern (invalid patterns never match)
+ */
+function matchesSystemPattern(pattern: string, systemText: string): boolean {
+  try {
+    return new RegExp(pattern, "i").test(systemText);
+  } catch {
+    log(`[RoutingRules] Invalid systemPattern: ${pattern}`);
+    return false;
+  }
+}
+
+/**
+ * Check a value against optional inclusive bounds
+ */
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Check an optional boolean condition
+ */
+function flagMatches(expected: boolean | undefined, actual: boolean): boolean {
+  return expected === undefined || expected === actual;
+}
+
+/**
+ * Check whether request features satisfy every condition of a rule
+ */
+export function matchesRule(rule: RoutingRule, features: RequestFeatures): boolean {
+  const when = rule.when || {};
+  return (
+    flagMatches(when.hasImages, features.hasImages) &&
+    flagMatches(when.hasThinking, features.hasThinking) &&
+    flagMatches(when.isSubagent, features.isSubagent) &&
+    inRange(features.inputTokens, when.minInputTokens, when.maxInputTokens) &&
+    inRange(features.toolCount, when.minTools, when.maxTools) &&
+    (when.role === undefined || when.role === features.role) &&
+    (when.systemPattern === undefined ||
+      matchesSystemPattern(when.systemPattern, features.systemText))
+  );
+}
+
+/**
+ * Find the first rule matching a request
+ */
+export function findMatchingRule(rules: RoutingRule[], body: any): RoutingRule | undefined {
+  if (rules.length === 0) return undefined;
+  const features = getRequestFeatures(body);
+  return rules.find((rule) => rule.model && matchesRule(rule, features));
+}
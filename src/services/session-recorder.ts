@@ -0,0 +1,457 @@
+/**
+ * Session recording and replay
+ *
+ * --record <dir> captures every /v1/messages exchange:
+ *   0001-request.json       Anthropic request body and the model it was routed to
+ *   0001-upstream-1.json    Request the handler sent upstream (credentials masked) and response status
+ *   0001-upstream-1.sse     Upstream response stream (token fields masked)
+ *   0001-response.sse       Anthropic SSE stream claudish returned
+ *
+ * --replay <dir> routes each request to its recorded model and serves the
+ * recorded upstream streams to the real handlers with no network access, so a
+ * bad tool call from a user's session can be reproduced locally or in tests.
+ *
+ * Credentials never reach the disk in plaintext: secret headers, token fields
+ * of JSON and form-encoded bodies (OAuth refreshes made during an exchange)
+ * and key query parameters are masked. With --redact, so are the secrets the
+ * redaction filter finds in the saved requests.
+ *
+ * Upstream traffic is captured by wrapping global fetch. Fetches are tied to
+ * their exchange through AsyncLocalStorage, so concurrent requests (and the
+ * provider request queues, which bind the caller's context) don't mix.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { log, maskCredential } from "../logger.js";
+import { redactRequestBody } from "../middleware/index.js";
+import { getRegisteredRemoteProviders } from "../providers/remote-provider-registry.js";
+
+/**
+ * One upstream call made while handling an exchange
+ */
+export interface RecordedUpstream {
+  url: string;
+  method: string;
+  /** Request headers with credentials masked */
+  headers: Record<string, string>;
+  /** Request body (parsed JSON when possible, token fields masked) */
+  body: any;
+  status: number;
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  /** Response body (token fields masked) */
+  stream: string;
+}
+
+/**
+ * One recorded /v1/messages request and everything it sent upstream
+ */
+export interface RecordedExchange {
+  id: string;
+  timestamp: string;
+  /** Model name Claude Code asked for */
+  requestedModel?: string;
+  /** Model spec the request was routed to */
+  target: string;
+  /** Anthropic request body */
+  body: any;
+  upstream: RecordedUpstream[];
+  /** Anthropic SSE stream returned to Claude Code, if recorded */
+  response?: string;
+}
+
+type ExchangeContext =
+  | { mode: "record"; dir: string; id: string; upstreamCount: number }
+  | { mode: "replay"; exchange: RecordedExchange; used: Set<number> };
+
+/** Headers whose values are masked in recordings */
+const SECRET_HEADERS = new Set([
+  "authorization",
+  "x-api-key",
+  "x-goog-api-key",
+  "api-key",
+  "cookie",
+]);
+
+/** Body fields and query parameters whose values are masked in recordings */
+const SECRET_FIELD = /^(?:\w*_token|client_secret|api_key|key|password)$/i;
+
+/** Placeholder credential used in replay mode (requests never leave the process) */
+const REPLAY_API_KEY = "claudish-replay";
+
+const exchangeContext = new AsyncLocalStorage<ExchangeContext>();
+const originalFetch = globalThis.fetch;
+let fetchInstalled = false;
+
+/**
+ * Wrap global fetch so upstream calls made inside an exchange are recorded or
+ * served from a recording. Calls outside an exchange pass through.
+ */
+function installFetchInterceptor(): void {
+  if (fetchInstalled) return;
+  fetchInstalled = true;
+
+  const interceptor = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const context = exchangeContext.getStore();
+    if (context?.mode === "record") return recordFetch(context, input, init);
+    if (context?.mode === "replay") return replayFetch(context, input, init);
+    return originalFetch(input, init);
+  };
+  globalThis.fetch = Object.assign(interceptor, originalFetch);
+}
+
+function getUrl(input: string | URL | Request): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+function getMethod(input: string | URL | Request, init?: RequestInit): string {
+  return (init?.method || (input instanceof Request ? input.method : "GET")).toUpperCase();
+}
+
+function headersToObject(headers: ConstructorParameters<typeof Headers>[0], mask: boolean) {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = mask && SECRET_HEADERS.has(key) ? maskCredential(value) : value;
+  });
+  return result;
+}
+
+/**
+ * Copy of a JSON value with secret fields masked
+ */
+function maskSecretFields(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(maskSecretFields);
+  if (!value || typeof value !== "object") return value;
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] =
+      SECRET_FIELD.test(key) && typeof field === "string"
+        ? maskCredential(field)
+        : maskSecretFields(field);
+  }
+  return result;
+}
+
+/**
+ * Mask secret parameters of a form-encoded body or a query string
+ */
+function maskSecretParams(params: URLSearchParams | URL["searchParams"]): boolean {
+  let masked = false;
+  for (const key of new Set(params.keys())) {
+    if (!SECRET_FIELD.test(key)) continue;
+    params.set(key, maskCredential(params.get(key) || ""));
+    masked = true;
+  }
+  return masked;
+}
+
+/**
+ * Body text with token fields masked (JSON and form-encoded bodies; other
+ * text such as SSE streams is returned as is)
+ */
+function maskBodyText(text: string): string {
+  try {
+    const parsed = JSON.parse(text);
+    const masked = maskSecretFields(parsed);
+    return JSON.stringify(masked) === JSON.stringify(parsed) ? text : JSON.stringify(masked);
+  } catch {
+    if (!/^[^\s=&]+=\S*$/.test(text)) return text;
+    const params = new URLSearchParams(text);
+    return maskSecretParams(params) ? params.toString() : text;
+  }
+}
+
+/**
+ * URL with secret query parameters (e.g. Gemini's ?key=) masked
+ */
+function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return maskSecretParams(parsed.searchParams) ? parsed.href : url;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * URL without its secret query parameters
+ */
+function stripSecretParams(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of new Set(parsed.searchParams.keys())) {
+      if (SECRET_FIELD.test(key)) parsed.searchParams.delete(key);
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+function parseBody(body: unknown): any {
+  if (body == null) return undefined;
+  const text = String(body);
+  try {
+    return maskSecretFields(JSON.parse(text));
+  } catch {
+    return maskBodyText(text);
+  }
+}
+
+/**
+ * Read a stream to the end and hand its text to a callback (recording side of a tee)
+ */
+async function drainStream(stream: NonNullable<Response["body"]>, onDone: (text: string) => void) {
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  let text = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch (e) {
+    log(`[Recorder] Stream ended with error: ${e}`);
+  }
+  onDone(text + decoder.decode());
+}
+
+/**
+ * Copy a response, sending a second copy of its body to a callback
+ */
+function teeResponse(response: Response, onBody: (text: string) => void): Response {
+  if (!response.body) {
+    onBody("");
+    return response;
+  }
+  const [forCaller, forRecording] = response.body.tee();
+  void drainStream(forRecording, onBody);
+  return new Response(forCaller, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+async function recordFetch(
+  context: Extract<ExchangeContext, { mode: "record" }>,
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const index = ++context.upstreamCount;
+  const prefix = join(context.dir, `${context.id}-upstream-${index}`);
+  const meta: Omit<RecordedUpstream, "stream"> = {
+    url: maskUrl(getUrl(input)),
+    method: getMethod(input, init),
+    headers: headersToObject(
+      init?.headers ?? (input instanceof Request ? input.headers : {}),
+      true
+    ),
+    body: parseBody(init?.body),
+    status: 0,
+    statusText: "",
+    responseHeaders: {},
+  };
+
+  let response: Response;
+  try {
+    response = await originalFetch(input, init);
+  } catch (e) {
+    writeFileSync(`${prefix}.json`, JSON.stringify({ ...meta, error: String(e) }, null, 2));
+    throw e;
+  }
+
+  meta.status = response.status;
+  meta.statusText = response.statusText;
+  meta.responseHeaders = headersToObject(response.headers, false);
+  writeFileSync(`${prefix}.json`, JSON.stringify(meta, null, 2));
+
+  return teeResponse(response, (text) => writeFileSync(`${prefix}.sse`, maskBodyText(text)));
+}
+
+/**
+ * Serve the first unused recorded call with the same method and URL (setup
+ * calls such as model info lookups may interleave with the main request)
+ */
+async function replayFetch(
+  context: Extract<ExchangeContext, { mode: "replay" }>,
+  input: string | URL | Request,
+  init?: RequestInit
+): Promise<Response> {
+  const url = getUrl(input);
+  const method = getMethod(input, init);
+  // Recorded URLs have their key parameters masked (and replay uses a placeholder key)
+  const key = stripSecretParams(url);
+  const index = context.exchange.upstream.findIndex(
+    (u, i) => !context.used.has(i) && stripSecretParams(u.url) === key && u.method === method
+  );
+  if (index === -1) {
+    throw new TypeError(
+      `fetch failed: exchange ${context.exchange.id} has no recorded call for ${method} ${url}`
+    );
+  }
+  context.used.add(index);
+
+  const upstream = context.exchange.upstream[index];
+  return new Response(upstream.stream, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: upstream.responseHeaders,
+  });
+}
+
+/**
+ * Hash of an Anthropic request body, used to match replayed requests
+ */
+function hashBody(body: any): string {
+  return createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
+
+function readJson(path: string): any {
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Load all exchanges recorded in a directory, in recording order
+ */
+export function loadRecording(dir: string): RecordedExchange[] {
+  if (!existsSync(dir)) return [];
+
+  const files = readdirSync(dir);
+  return files
+    .filter((f) => /^\d+-request\.json$/.test(f))
+    .sort()
+    .map((file) => {
+      const id = file.slice(0, file.indexOf("-"));
+      const request = readJson(join(dir, file));
+
+      const upstream: RecordedUpstream[] = [];
+      for (let i = 1; files.includes(`${id}-upstream-${i}.json`); i++) {
+        const streamFile = join(dir, `${id}-upstream-${i}.sse`);
+        upstream.push({
+          ...readJson(join(dir, `${id}-upstream-${i}.json`)),
+          stream: existsSync(streamFile) ? readFileSync(streamFile, "utf-8") : "",
+        });
+      }
+
+      const responseFile = join(dir, `${id}-response.sse`);
+      return {
+        id,
+        timestamp: request.timestamp,
+        requestedModel: request.requestedModel,
+        target: request.target,
+        body: request.body,
+        upstream,
+        response: existsSync(responseFile) ? readFileSync(responseFile, "utf-8") : undefined,
+      };
+    });
+}
+
+/**
+ * Records /v1/messages exchanges into a directory (--record)
+ */
+export class SessionRecorder {
+  private dir: string;
+  private nextId: number;
+
+  constructor(dir: string) {
+    this.dir = dir;
+    mkdirSync(dir, { recursive: true });
+    // Append to an existing recording rather than overwrite it
+    const ids = readdirSync(dir)
+      .filter((f) => /^\d+-request\.json$/.test(f))
+      .map((f) => Number.parseInt(f, 10));
+    this.nextId = ids.length > 0 ? Math.max(...ids) + 1 : 1;
+    installFetchInterceptor();
+  }
+
+  /**
+   * Run a request handler, recording the request, its upstream calls and its response
+   */
+  async record(body: any, target: string, handle: () => Promise<Response>): Promise<Response> {
+    const id = String(this.nextId++).padStart(4, "0");
+    writeFileSync(
+      join(this.dir, `${id}-request.json`),
+      JSON.stringify(
+        {
+          timestamp: new Date().toISOString(),
+          requestedModel: body?.model,
+          target,
+          body: redactRequestBody(body),
+        },
+        null,
+        2
+      )
+    );
+
+    const context: ExchangeContext = { mode: "record", dir: this.dir, id, upstreamCount: 0 };
+    const response = await exchangeContext.run(context, handle);
+    return teeResponse(response, (text) =>
+      writeFileSync(join(this.dir, `${id}-response.sse`), text)
+    );
+  }
+}
+
+/**
+ * Serves recorded upstream streams to the real handlers (--replay)
+ */
+export class SessionReplayer {
+  private exchanges: RecordedExchange[];
+  private used = new Set<string>();
+
+  constructor(dir: string) {
+    this.exchanges = loadRecording(dir);
+    if (this.exchanges.length === 0) {
+      throw new Error(`No recorded exchanges found in ${dir}`);
+    }
+    installFetchInterceptor();
+  }
+
+  /**
+   * Find the recorded exchange for a request: an unused exchange with the same
+   * body, otherwise the next unused one in recording order
+   */
+  match(body: any): RecordedExchange | null {
+    const hash = hashBody(body);
+    const unused = this.exchanges.filter((e) => !this.used.has(e.id));
+    const exchange = unused.find((e) => hashBody(e.body) === hash) ?? unused[0] ?? null;
+    if (exchange) this.used.add(exchange.id);
+    return exchange;
+  }
+
+  /**
+   * Run a request handler with its upstream calls served from an exchange
+   */
+  replay(exchange: RecordedExchange, handle: () => Promise<Response>): Promise<Response> {
+    return exchangeContext.run({ mode: "replay", exchange, used: new Set() }, handle);
+  }
+}
+
+/**
+ * Model spec of the first recorded exchange (default model for replay sessions)
+ */
+export function getFirstRecordedTarget(dir: string): string | undefined {
+  return loadRecording(dir)[0]?.target;
+}
+
+/**
+ * Fill unset provider API keys with a placeholder so handlers can be created in
+ * replay mode. Replayed requests never reach the network, so no real key is needed.
+ */
+export function applyReplayCredentials(): void {
+  const envVars = getRegisteredRemoteProviders()
+    .map((provider) => provider.apiKeyEnvVar)
+    .concat(["OPENROUTER_API_KEY", "POE_API_KEY"]);
+  for (const envVar of envVars) {
+    if (envVar && !process.env[envVar]) process.env[envVar] = REPLAY_API_KEY;
+  }
+}
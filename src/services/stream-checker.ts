@@ -0,0 +1,445 @@
+/**
+ * Anthropic streaming conformance checker
+ *
+ * Claude Code expects a strict event grammar on /v1/messages streams:
+ *
+ *   message_start
+ *   (content_block_start content_block_delta* content_block_stop)*
+ *   message_delta
+ *   message_stop
+ *
+ * with `ping` allowed anywhere and `error` ending the stream. Handler bugs
+ * usually show up as violations of it: deltas before their block starts,
+ * blocks that never stop, a second message_stop, or tool input JSON that
+ * doesn't parse.
+ *
+ * --check-stream <mode> wraps every handler response:
+ * - log: pass the stream through unchanged and log each violation
+ * - repair: also rewrite the stream so Claude Code gets a valid one (drop
+ *   stray events, close open blocks, add the missing message_delta and
+ *   message_stop, replace unparseable tool input with {})
+ *
+ * Overlapping blocks are reported but never repaired, since closing the
+ * earlier block would drop the rest of its content.
+ */
+
+import { log } from "../logger.js";
+
+export type StreamCheckMode = "log" | "repair";
+
+export const STREAM_CHECK_MODES: StreamCheckMode[] = ["log", "repair"];
+
+export function isStreamCheckMode(value: string): value is StreamCheckMode {
+  return (STREAM_CHECK_MODES as string[]).includes(value);
+}
+
+export type StreamRule =
+  | "invalid_event"
+  | "missing_message_start"
+  | "duplicate_message_start"
+  | "duplicate_block_start"
+  | "overlapping_block"
+  | "delta_before_start"
+  | "delta_after_stop"
+  | "delta_type_mismatch"
+  | "stop_without_start"
+  | "duplicate_block_stop"
+  | "unclosed_block"
+  | "invalid_tool_input"
+  | "missing_message_delta"
+  | "missing_message_stop"
+  | "duplicate_message_stop"
+  | "event_after_message_stop";
+
+export interface StreamViolation {
+  rule: StreamRule;
+  message: string;
+  /** Content block index the violation concerns */
+  index?: number;
+}
+
+export interface SseEvent {
+  event: string;
+  data: any;
+}
+
+interface BlockState {
+  type: string;
+  open: boolean;
+  /** Accumulated input_json_delta text (tool blocks) */
+  json: string;
+}
+
+/** Delta types each content block type accepts */
+const BLOCK_DELTAS: Record<string, string[]> = {
+  text: ["text_delta", "citations_delta"],
+  thinking: ["thinking_delta", "signature_delta"],
+  redacted_thinking: [],
+  tool_use: ["input_json_delta"],
+  server_tool_use: ["input_json_delta"],
+};
+
+/** Block types that can be started for an orphan delta when repairing */
+const ORPHAN_DELTA_BLOCKS: Record<string, any> = {
+  text_delta: { type: "text", text: "" },
+  thinking_delta: { type: "thinking", thinking: "" },
+};
+
+const isToolBlock = (type: string) => type === "tool_use" || type === "server_tool_use";
+
+const event = (type: string, data: Record<string, any> = {}): SseEvent => ({
+  event: type,
+  data: { type, ...data },
+});
+
+/**
+ * Checks one Anthropic event stream against the streaming grammar.
+ * push() each event in order, then end() once the stream is over. Both
+ * return the events to forward: the event itself, or the repaired sequence
+ * in repair mode.
+ */
+export class StreamChecker {
+  readonly violations: StreamViolation[] = [];
+  private blocks = new Map<number, BlockState>();
+  private started = false;
+  private deltaSent = false;
+  private stopped = false;
+  private errored = false;
+
+  constructor(
+    readonly repair = false,
+    private onViolation?: (violation: StreamViolation) => void
+  ) {}
+
+  push(sse: SseEvent): SseEvent[] {
+    const type = sse.data?.type;
+    if (typeof type !== "string" || (sse.event && sse.event !== type)) {
+      return this.reject("invalid_event", `Event "${sse.event}" has data of type "${type}"`);
+    }
+    if (type === "ping") return [sse];
+    if (type === "error") {
+      this.errored = true;
+      return [sse];
+    }
+    if (this.stopped) {
+      return type === "message_stop"
+        ? this.reject("duplicate_message_stop", "Second message_stop")
+        : this.reject("event_after_message_stop", `${type} after message_stop`);
+    }
+    if (type === "message_start") return this.messageStart(sse);
+
+    const prefix = this.started ? [] : this.startMissing(type);
+    switch (type) {
+      case "content_block_start":
+        return [...prefix, ...this.blockStart(sse)];
+      case "content_block_delta":
+        return [...prefix, ...this.blockDelta(sse)];
+      case "content_block_stop":
+        return [...prefix, ...this.blockStop(sse)];
+      case "message_delta":
+        this.deltaSent = true;
+        return [...prefix, ...this.closeOpenBlocks("message_delta"), sse];
+      case "message_stop":
+        return [...prefix, ...this.messageStop(sse)];
+      default:
+        // Event types added to the API later pass through unchecked
+        return [...prefix, sse];
+    }
+  }
+
+  /**
+   * Finish the stream. A stream that ends without message_stop (and without
+   * an error event) was cut off.
+   */
+  end(): SseEvent[] {
+    if (this.stopped || this.errored) return [];
+    this.report("missing_message_stop", "Stream ended without message_stop");
+    if (!this.repair) return [];
+    const prefix = this.started ? [] : this.startMissing("end of stream");
+    return [...prefix, ...this.messageStop(event("message_stop"))];
+  }
+
+  private messageStart(sse: SseEvent): SseEvent[] {
+    if (this.started) return this.reject("duplicate_message_start", "Second message_start");
+    this.started = true;
+    return [sse];
+  }
+
+  private startMissing(type: string): SseEvent[] {
+    this.started = true;
+    this.report("missing_message_start", `${type} before message_start`);
+    if (!this.repair) return [];
+    return [
+      event("message_start", {
+        message: {
+          id: `msg_${Date.now()}`,
+          type: "message",
+          role: "assistant",
+          content: [],
+          model: "unknown",
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      }),
+    ];
+  }
+
+  private blockStart(sse: SseEvent): SseEvent[] {
+    const { index, content_block: block } = sse.data;
+    if (this.blocks.has(index)) {
+      return this.reject("duplicate_block_start", `Block ${index} started twice`, index);
+    }
+    const open = [...this.blocks.entries()].filter(([, state]) => state.open);
+    if (open.length > 0) {
+      this.report(
+        "overlapping_block",
+        `Block ${index} started while block ${open[0][0]} is open`,
+        index
+      );
+    }
+    this.blocks.set(index, { type: block?.type, open: true, json: "" });
+    return [sse];
+  }
+
+  private blockDelta(sse: SseEvent): SseEvent[] {
+    const { index, delta } = sse.data;
+    const block = this.blocks.get(index);
+    if (!block) return this.orphanDelta(sse);
+    if (!block.open) {
+      return this.reject("delta_after_stop", `${delta?.type} for stopped block ${index}`, index);
+    }
+
+    const accepted = BLOCK_DELTAS[block.type];
+    if (accepted && !accepted.includes(delta?.type)) {
+      return this.reject(
+        "delta_type_mismatch",
+        `${delta?.type} for ${block.type} block ${index}`,
+        index
+      );
+    }
+
+    if (delta?.type === "input_json_delta") {
+      block.json += delta.partial_json ?? "";
+      // Tool input is held until the block stops so it can be checked first
+      if (this.repair) return [];
+    }
+    return [sse];
+  }
+
+  private orphanDelta(sse: SseEvent): SseEvent[] {
+    const { index, delta } = sse.data;
+    this.report("delta_before_start", `${delta?.type} before block ${index} started`, index);
+    const block = ORPHAN_DELTA_BLOCKS[delta?.type];
+    if (!this.repair || !block) return [];
+    this.blocks.set(index, { type: block.type, open: true, json: "" });
+    return [event("content_block_start", { index, content_block: { ...block } }), sse];
+  }
+
+  private blockStop(sse: SseEvent): SseEvent[] {
+    const { index } = sse.data;
+    const block = this.blocks.get(index);
+    if (!block) {
+      return this.reject("stop_without_start", `Stop for block ${index} that never started`, index);
+    }
+    if (!block.open)
+      return this.reject("duplicate_block_stop", `Block ${index} stopped twice`, index);
+    return [...this.finishBlock(index, block), sse];
+  }
+
+  /**
+   * Mark a block stopped, checking (and in repair mode releasing) its tool input
+   */
+  private finishBlock(index: number, block: BlockState): SseEvent[] {
+    block.open = false;
+    if (!isToolBlock(block.type)) return [];
+
+    let json = block.json;
+    if (json) {
+      try {
+        JSON.parse(json);
+      } catch {
+        this.report(
+          "invalid_tool_input",
+          `Tool input of block ${index} is not valid JSON: ${json.slice(0, 100)}`,
+          index
+        );
+        json = "{}";
+      }
+    }
+    if (!this.repair || !json) return [];
+    return [
+      event("content_block_delta", {
+        index,
+        delta: { type: "input_json_delta", partial_json: json },
+      }),
+    ];
+  }
+
+  private closeOpenBlocks(before: string): SseEvent[] {
+    const repaired: SseEvent[] = [];
+    for (const [index, block] of this.blocks) {
+      if (!block.open) continue;
+      this.report("unclosed_block", `Block ${index} still open at ${before}`, index);
+      const finished = this.finishBlock(index, block);
+      if (this.repair) repaired.push(...finished, event("content_block_stop", { index }));
+    }
+    return repaired;
+  }
+
+  private messageStop(sse: SseEvent): SseEvent[] {
+    const repaired = this.closeOpenBlocks("message_stop");
+    if (!this.deltaSent) {
+      this.deltaSent = true;
+      this.report("missing_message_delta", "message_stop without a message_delta (stop_reason)");
+      if (this.repair) {
+        repaired.push(
+          event("message_delta", {
+            delta: { stop_reason: "end_turn", stop_sequence: null },
+            usage: { output_tokens: 0 },
+          })
+        );
+      }
+    }
+    this.stopped = true;
+    return [...repaired, sse];
+  }
+
+  /**
+   * Report a violation for an event that repair mode drops
+   */
+  private reject(rule: StreamRule, message: string, index?: number): SseEvent[] {
+    this.report(rule, message, index);
+    return [];
+  }
+
+  private report(rule: StreamRule, message: string, index?: number): void {
+    const violation: StreamViolation = { rule, message, index };
+    this.violations.push(violation);
+    this.onViolation?.(violation);
+  }
+}
+
+/**
+ * Parse one SSE frame (the text between blank lines). Frames without data,
+ * such as comments, return null, as does the OpenAI `data: [DONE]`
+ * terminator several handlers append after message_stop (Claude Code
+ * ignores it).
+ */
+function parseFrame(frame: string): { event: string; data: string } | null {
+  let name = "";
+  const data: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) name = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  const text = data.join("\n");
+  return data.length > 0 && text !== "[DONE]" ? { event: name, data: text } : null;
+}
+
+function parseData(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+const formatEvent = (sse: SseEvent) => `event: ${sse.event}\ndata: ${JSON.stringify(sse.data)}\n\n`;
+
+/**
+ * Split SSE text into events. Data that isn't JSON is kept as undefined so
+ * the checker reports it.
+ */
+export function parseSseEvents(text: string): SseEvent[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split("\n\n")
+    .map(parseFrame)
+    .filter((frame) => frame !== null)
+    .map((frame) => ({ event: frame.event, data: parseData(frame.data) }));
+}
+
+/**
+ * Check a complete Anthropic SSE stream (e.g. a recorded response)
+ */
+export function checkAnthropicStream(text: string): StreamViolation[] {
+  const checker = new StreamChecker();
+  for (const sse of parseSseEvents(text)) checker.push(sse);
+  checker.end();
+  return checker.violations;
+}
+
+/**
+ * Wrap a handler's streaming response with a StreamChecker. Non-streaming
+ * responses are returned unchanged.
+ */
+export function withStreamCheck(
+  response: Response,
+  mode: StreamCheckMode,
+  label: string
+): Response {
+  const contentType = response.headers.get("content-type") || "";
+  if (!response.body || !contentType.includes("text/event-stream")) return response;
+
+  const checker = new StreamChecker(mode === "repair", (violation) =>
+    log(`[StreamCheck] ${label}: ${violation.rule}: ${violation.message}`)
+  );
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+
+  // In log mode the original bytes are forwarded and only parsed on the side
+  const forward = (events: SseEvent[], controller: ReadableStreamDefaultController<Uint8Array>) => {
+    if (mode === "repair" && events.length > 0) {
+      controller.enqueue(encoder.encode(events.map(formatEvent).join("")));
+    }
+  };
+  const processFrames = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+    const frames = buffer.replace(/\r\n/g, "\n").split("\n\n");
+    buffer = frames.pop() || "";
+    for (const frame of frames) {
+      const parsed = parseFrame(frame);
+      if (parsed) {
+        forward(checker.push({ event: parsed.event, data: parseData(parsed.data) }), controller);
+      } else if (mode === "repair" && frame.trim()) {
+        controller.enqueue(encoder.encode(`${frame}\n\n`));
+      }
+    }
+  };
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (mode === "log") controller.enqueue(value);
+          buffer += decoder.decode(value, { stream: true });
+          processFrames(controller);
+        }
+      } catch (e) {
+        log(`[StreamCheck] ${label}: stream error: ${e}`);
+        // Repair mode still ends the message properly below
+        if (mode === "log") {
+          controller.error(e);
+          return;
+        }
+      }
+      buffer += `${decoder.decode()}\n\n`;
+      processFrames(controller);
+      forward(checker.end(), controller);
+      if (checker.violations.length > 0) {
+        log(`[StreamCheck] ${label}: ${checker.violations.length} violation(s)`);
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,289 @@
+/**
+ * Thought signature store
+ *
+ * Gemini 3 rejects conversation history whose function calls lack the thought
+ * signatures it returned with them. Handlers used to keep signatures in memory
+ * only, so `claude --resume` / `--continue` after claudish restarted replayed
+ * unsigned history and got 400 errors. This store persists them to
+ * ~/.claudish/thought-signatures.json, keyed by tool_use id and tagged with the
+ * conversation the call belongs to.
+ *
+ * The store is bounded by entry count and size. When it is full, the least
+ * recently used conversation is evicted as a whole: a resumed conversation
+ * missing some of its signatures has to be degraded anyway.
+ *
+ * Several claudish processes can share the file, so a flush merges with what
+ * is on disk (newest record of each tool call wins) before applying the bounds.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { log } from "../logger.js";
+
+export const DEFAULT_MAX_SIGNATURE_ENTRIES = 5000;
+export const DEFAULT_MAX_SIGNATURE_BYTES = 16 * 1024 * 1024;
+
+// Writes are batched - a response usually stores several tool calls at once
+const FLUSH_DELAY_MS = 250;
+
+export interface ThoughtSignatureRecord {
+  /** Conversation key (see getConversationKey) */
+  conversation?: string;
+  toolName?: string;
+  /** Direct Gemini API: thoughtSignature of the functionCall part */
+  thoughtSignature?: string;
+  /** OpenRouter: reasoning_details of the assistant message that made the call */
+  reasoningDetails?: any[];
+  updatedAt: number;
+}
+
+export interface ThoughtSignatureStoreOptions {
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+interface StoreFile {
+  version: 1;
+  /** [tool_use id, record] pairs, least recently used first */
+  entries: Array<[string, ThoughtSignatureRecord]>;
+}
+
+/**
+ * Get the store file path
+ */
+export function getThoughtSignatureStorePath(): string {
+  return join(homedir(), ".claudish", "thought-signatures.json");
+}
+
+/**
+ * Whether a model rejects function calls in history that carry no thought signature
+ */
+export function requiresThoughtSignatures(modelId: string): boolean {
+  return /gemini-3/i.test(modelId);
+}
+
+/**
+ * Stable key for a conversation: a hash of its first user message, which
+ * Claude Code replays unchanged when a session is resumed
+ */
+export function getConversationKey(messages: any[] | undefined): string | undefined {
+  const first = messages?.find((msg) => msg.role === "user");
+  if (!first) return undefined;
+  const text =
+    typeof first.content === "string"
+      ? first.content
+      : Array.isArray(first.content)
+        ? first.content
+            .filter((block: any) => block.type === "text")
+            .map((block: any) => block.text)
+            .join("\n")
+        : "";
+  return createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+export class ThoughtSignatureStore {
+  private filePath: string;
+  private maxEntries: number;
+  private maxBytes: number;
+  // Map order is recency order: least recently used first
+  private entries = new Map<string, ThoughtSignatureRecord>();
+  private bytes = 0;
+  private loaded = false;
+  private dirty = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    filePath: string = getThoughtSignatureStorePath(),
+    options: ThoughtSignatureStoreOptions = {}
+  ) {
+    this.filePath = filePath;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_SIGNATURE_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_SIGNATURE_BYTES;
+  }
+
+  get size(): number {
+    this.load();
+    return this.entries.size;
+  }
+
+  /**
+   * Look up the signature stored for a tool call (marks it recently used)
+   */
+  get(toolUseId: string): ThoughtSignatureRecord | undefined {
+    this.load();
+    const record = this.entries.get(toolUseId);
+    if (!record) return undefined;
+    this.entries.delete(toolUseId);
+    this.entries.set(toolUseId, record);
+    record.updatedAt = Date.now();
+    return record;
+  }
+
+  /**
+   * Store (or update) the signature of a tool call
+   */
+  set(toolUseId: string, data: Omit<ThoughtSignatureRecord, "updatedAt">): void {
+    this.load();
+    const previous = this.entries.get(toolUseId);
+    if (previous) this.remove(toolUseId);
+    const record: ThoughtSignatureRecord = { ...previous, ...data, updatedAt: Date.now() };
+    this.entries.set(toolUseId, record);
+    this.bytes += recordSize(toolUseId, record);
+    this.evict(toolUseId);
+    this.dirty = true;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Attach stored tool calls to a conversation. Calls saved from a response
+   * stream are not tagged until a later request shows which history they are in.
+   */
+  tagConversation(toolUseIds: string[], conversation: string): void {
+    this.load();
+    let changed = false;
+    for (const id of toolUseIds) {
+      const record = this.entries.get(id);
+      if (record && !record.conversation) {
+        this.bytes -= recordSize(id, record);
+        record.conversation = conversation;
+        this.bytes += recordSize(id, record);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.dirty = true;
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Write pending changes to disk now, merged with what other processes wrote
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.loaded || !this.dirty) return;
+    this.dirty = false;
+    this.merge(this.readFile());
+    const data: StoreFile = { version: 1, entries: [...this.entries] };
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(data), "utf-8");
+      renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      log(`[ThoughtSignatures] Failed to write ${this.filePath}: ${e}`);
+    }
+  }
+
+  private load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+    for (const [id, record] of this.readFile()) {
+      this.entries.set(id, record);
+      this.bytes += recordSize(id, record);
+    }
+    if (this.entries.size > 0) {
+      log(`[ThoughtSignatures] Loaded ${this.entries.size} signature(s) from ${this.filePath}`);
+    }
+  }
+
+  private readFile(): StoreFile["entries"] {
+    if (!existsSync(this.filePath)) return [];
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, "utf-8")) as StoreFile;
+      return data.entries || [];
+    } catch (e) {
+      log(`[ThoughtSignatures] Ignoring unreadable ${this.filePath}: ${e}`);
+      return [];
+    }
+  }
+
+  /**
+   * Union stored entries with ours (the newer record of a tool call wins),
+   * restore recency order and re-apply the bounds
+   */
+  private merge(stored: StoreFile["entries"]): void {
+    const merged = new Map(this.entries);
+    for (const [id, record] of stored) {
+      const current = merged.get(id);
+      if (!current || record.updatedAt > current.updatedAt) merged.set(id, record);
+    }
+    const ordered = [...merged].sort((a, b) => a[1].updatedAt - b[1].updatedAt);
+    this.entries = new Map(ordered);
+    this.bytes = ordered.reduce((sum, [id, record]) => sum + recordSize(id, record), 0);
+    const newest = ordered.at(-1)?.[0];
+    if (newest) this.evict(newest);
+  }
+
+  private remove(toolUseId: string): void {
+    const record = this.entries.get(toolUseId);
+    if (!record) return;
+    this.bytes -= recordSize(toolUseId, record);
+    this.entries.delete(toolUseId);
+  }
+
+  /**
+   * Drop least recently used conversations until the store fits its bounds
+   * @param keep - Tool call that was just stored (never evicted)
+   */
+  private evict(keep: string): void {
+    const keepConversation = this.entries.get(keep)?.conversation;
+    while (this.entries.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const victim = [...this.entries.keys()].find((id) => id !== keep);
+      if (!victim) return;
+      const conversation = this.entries.get(victim)?.conversation;
+      if (!conversation || conversation === keepConversation) {
+        this.remove(victim);
+        continue;
+      }
+      let dropped = 0;
+      for (const [id, record] of this.entries) {
+        if (record.conversation === conversation) {
+          this.remove(id);
+          dropped++;
+        }
+      }
+      log(`[ThoughtSignatures] Evicted conversation ${conversation} (${dropped} signature(s))`);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.flushTimer.unref?.();
+  }
+}
+
+function recordSize(toolUseId: string, record: ThoughtSignatureRecord): number {
+  return toolUseId.length + JSON.stringify(record).length;
+}
+
+let sharedStore: ThoughtSignatureStore | null = null;
+let exitFlushRegistered = false;
+
+/**
+ * The store shared by all Gemini handlers and middleware of this process
+ */
+export function getThoughtSignatureStore(): ThoughtSignatureStore {
+  if (!sharedStore) {
+    sharedStore = new ThoughtSignatureStore();
+  }
+  if (!exitFlushRegistered) {
+    exitFlushRegistered = true;
+    process.once("exit", () => sharedStore?.flush());
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store (tests use a temporary file)
+ */
+export function setThoughtSignatureStore(store: ThoughtSignatureStore | null): void {
+  sharedStore?.flush();
+  sharedStore = store;
+}
@@ -0,0 +1,284 @@
+/**
+ * Token counting for non-Anthropic models
+ *
+ * Backs /v1/messages/count_tokens (which Claude Code uses to decide when to
+ * auto-compact) and estimateTokens(). A counter is picked per resolved
+ * provider/model:
+ * - o200k_base: GPT-4o, GPT-4.1, GPT-5, o-series, Codex, gpt-oss
+ * - cl100k_base: GPT-4/3.5 and other tiktoken-style vocabularies (Grok, DeepSeek, Kimi, GLM, MiniMax)
+ * - SentencePiece-style approximations: Gemini/Gemma, Llama, Qwen, Mistral
+ * - chars/4 heuristic when nothing matches
+ *
+ * BPE vocabularies take about a second to load, so they are loaded on first use.
+ * Until a vocabulary is ready its counter answers with an approximation; call
+ * ready() first when an exact count matters.
+ */
+
+import { log } from "../logger.js";
+import { parseFallbackChain, parseModelSpec } from "../providers/model-parser.js";
+
+export interface TokenCounter {
+  /** Tokenizer name (approximations end with "~") */
+  name: string;
+  /** Count tokens in a text */
+  count(text: string): number;
+  /** Resolves once the counter gives exact counts (BPE vocabulary loaded) */
+  ready?(): Promise<void>;
+}
+
+/**
+ * Resolved provider/model a counter is selected for
+ */
+export interface TokenCountTarget {
+  provider?: string;
+  model: string;
+}
+
+type TokenCounterMatcher = (target: TokenCountTarget) => boolean;
+
+/** Tokens charged per message for role markers and separators */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Tokens charged per tool definition on top of its name, description and schema */
+const TOOL_OVERHEAD_TOKENS = 8;
+/** Tokens charged for an image or document block (Anthropic's ~1600 token ceiling for images) */
+const ATTACHMENT_TOKENS = 1600;
+
+/**
+ * Original estimate: ~4 characters per token
+ */
+export const HEURISTIC_COUNTER: TokenCounter = {
+  name: "chars/4~",
+  count: (text) => Math.ceil(text.length / 4),
+};
+
+interface ApproximationParams {
+  /** Average letters per token within words */
+  charsPerToken: number;
+  /** Digits per token (1 for tokenizers that split numbers into single digits) */
+  digitsPerToken: number;
+  /** CJK characters per token (below 1 for byte-fallback vocabularies) */
+  cjkCharsPerToken: number;
+}
+
+const CJK_PATTERN = "[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}]+";
+const PIECE_PATTERN = new RegExp(
+  `(${CJK_PATTERN})|(\\p{L}+)|(\\p{N}+)|(\\n)|([^\\s\\p{L}\\p{N}]+)`,
+  "gu"
+);
+
+/**
+ * Approximate a SentencePiece-style tokenizer: words are split into pieces of
+ * a typical length (a leading space is part of the piece), digits and CJK
+ * characters use their own ratios, symbol runs merge in pairs and each
+ * newline is a token.
+ */
+export function createApproximateCounter(name: string, params: ApproximationParams): TokenCounter {
+  return {
+    name: `${name}~`,
+    count(text: string): number {
+      let tokens = 0;
+      for (const match of text.matchAll(PIECE_PATTERN)) {
+        const [piece, cjk, word, digits, newline] = match;
+        if (cjk) tokens += Math.ceil(cjk.length / params.cjkCharsPerToken);
+        else if (word) tokens += Math.max(1, Math.round(word.length / params.charsPerToken));
+        else if (digits) tokens += Math.ceil(digits.length / params.digitsPerToken);
+        else if (newline) tokens += 1;
+        else tokens += Math.ceil(piece.length / 2);
+      }
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Counter backed by a gpt-tokenizer BPE vocabulary, loaded on first use
+ */
+function createBpeCounter(
+  name: string,
+  load: () => Promise<(text: string) => number>,
+  approximation: TokenCounter
+): TokenCounter {
+  let encode: ((text: string) => number) | null = null;
+  let loading: Promise<void> | null = null;
+
+  const ready = (): Promise<void> => {
+    if (!loading) {
+      loading = load()
+        .then((fn) => {
+          encode = fn;
+        })
+        .catch((e) => {
+          log(`[TokenCounter] Failed to load ${name}, using approximation: ${e}`);
+        });
+    }
+    return loading;
+  };
+
+  return {
+    name,
+    count(text: string): number {
+      if (encode) return encode(text);
+      void ready();
+      return approximation.count(text);
+    },
+    ready,
+  };
+}
+
+const CL100K_APPROXIMATION = createApproximateCounter("cl100k", {
+  charsPerToken: 4.5,
+  digitsPerToken: 3,
+  cjkCharsPerToken: 1,
+});
+
+export const O200K_COUNTER = createBpeCounter(
+  "o200k_base",
+  async () => (await import("gpt-tokenizer/encoding/o200k_base")).countTokens,
+  CL100K_APPROXIMATION
+);
+
+export const CL100K_COUNTER = createBpeCounter(
+  "cl100k_base",
+  async () => (await import("gpt-tokenizer/encoding/cl100k_base")).countTokens,
+  CL100K_APPROXIMATION
+);
+
+export const GEMINI_COUNTER = createApproximateCounter("gemini", {
+  charsPerToken: 4,
+  digitsPerToken: 1,
+  cjkCharsPerToken: 1,
+});
+
+export const LLAMA_COUNTER = createApproximateCounter("llama", {
+  charsPerToken: 3.7,
+  digitsPerToken: 1,
+  cjkCharsPerToken: 0.7,
+});
+
+export const QWEN_COUNTER = createApproximateCounter("qwen", {
+  charsPerToken: 3.9,
+  digitsPerToken: 1,
+  cjkCharsPerToken: 1.4,
+});
+
+export const MISTRAL_COUNTER = createApproximateCounter("mistral", {
+  charsPerToken: 3.6,
+  digitsPerToken: 1,
+  cjkCharsPerToken: 0.8,
+});
+
+const modelMatches =
+  (pattern: RegExp): TokenCounterMatcher =>
+  ({ model }) =>
+    pattern.test(model.toLowerCase());
+
+const providerIs =
+  (...providers: string[]): TokenCounterMatcher =>
+  ({ provider }) =>
+    !!provider && providers.includes(provider.toLowerCase());
+
+/**
+ * Selection rules, checked in order. Model name rules come before provider
+ * defaults so e.g. OpenRouter's "google/gemini-2.5-pro" gets the Gemini counter.
+ */
+const counterRules: Array<{ matches: TokenCounterMatcher; counter: TokenCounter }> = [
+  {
+    matches: modelMatches(/gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|chatgpt|codex|(^|\/)o\d/),
+    counter: O200K_COUNTER,
+  },
+  {
+    matches: modelMatches(/gpt-4|gpt-3\.5|grok|deepseek|kimi|moonshot|glm|minimax/),
+    counter: CL100K_COUNTER,
+  },
+  { matches: modelMatches(/gemini|gemma/), counter: GEMINI_COUNTER },
+  { matches: modelMatches(/qwen|qwq/), counter: QWEN_COUNTER },
+  { matches: modelMatches(/llama/), counter: LLAMA_COUNTER },
+  {
+    matches: modelMatches(/mistral|mixtral|codestral|devstral|magistral/),
+    counter: MISTRAL_COUNTER,
+  },
+  { matches: providerIs("openai"), counter: O200K_COUNTER },
+  { matches: providerIs("google", "vertex", "gemini-codeassist"), counter: GEMINI_COUNTER },
+  { matches: providerIs("minimax", "kimi", "kimi-coding", "glm", "zai"), counter: CL100K_COUNTER },
+];
+
+/**
+ * Register a counter for matching models. Registered counters take precedence
+ * over the built-in rules.
+ */
+export function registerTokenCounter(matches: TokenCounterMatcher, counter: TokenCounter): void {
+  counterRules.unshift({ matches, counter });
+}
+
+/**
+ * Get the counter for a provider/model, or the chars/4 heuristic if nothing matches
+ */
+export function getTokenCounter(target: TokenCountTarget): TokenCounter {
+  return counterRules.find((rule) => rule.matches(target))?.counter ?? HEURISTIC_COUNTER;
+}
+
+/**
+ * Get the counter for a model spec as routed by the proxy (e.g. "g@gemini-2.5-pro",
+ * "openai/gpt-5" or a fallback chain, which is counted with its first model)
+ */
+export function getTokenCounterForSpec(modelSpec: string): TokenCounter {
+  const first = parseFallbackChain(modelSpec)[0] ?? modelSpec;
+  const parsed = parseModelSpec(first);
+  return getTokenCounter({ provider: parsed.provider, model: parsed.model });
+}
+
+/**
+ * Collect the countable text of a content block (or string content)
+ */
+function collectContent(content: any, texts: string[]): number {
+  if (typeof content === "string") {
+    texts.push(content);
+    return 0;
+  }
+  if (!Array.isArray(content)) return 0;
+
+  let fixedTokens = 0;
+  for (const block of content) {
+    switch (block?.type) {
+      case "text":
+        texts.push(block.text || "");
+        break;
+      case "thinking":
+        texts.push(block.thinking || "");
+        break;
+      case "tool_use":
+        texts.push(block.name || "", JSON.stringify(block.input ?? {}));
+        break;
+      case "tool_result":
+        fixedTokens += collectContent(block.content, texts);
+        break;
+      case "image":
+      case "document":
+        fixedTokens += ATTACHMENT_TOKENS;
+        break;
+    }
+  }
+  return fixedTokens;
+}
+
+/**
+ * Count the input tokens of an Anthropic Messages API request (system, messages and tools)
+ */
+export function countRequestTokens(body: any, counter: TokenCounter): number {
+  const texts: string[] = [];
+  let tokens = collectContent(body.system, texts);
+
+  for (const message of body.messages || []) {
+    tokens += MESSAGE_OVERHEAD_TOKENS + collectContent(message.content, texts);
+  }
+
+  for (const tool of body.tools || []) {
+    tokens += TOOL_OVERHEAD_TOKENS;
+    texts.push(tool.name || "", tool.description || "", JSON.stringify(tool.input_schema ?? {}));
+  }
+
+  for (const text of texts) {
+    if (text) tokens += counter.count(text);
+  }
+  return tokens;
+}
@@ -0,0 +1,149 @@
+/**
+ * OTLP trace export
+ *
+ * Sends one span per messages request to an OpenTelemetry collector over
+ * OTLP/HTTP (JSON encoding), e.g. a local collector on http://localhost:4318.
+ * Spans carry the provider, model, HTTP status, time to first token, token
+ * counts and cost, and are sent in batches so tracing never slows a request.
+ */
+
+import { randomBytes } from "node:crypto";
+import { log } from "../logger.js";
+import { targetLabels } from "./metrics.js";
+import { type FinishedRequest, onRequestFinished } from "./traffic-stats.js";
+
+/** Spans buffered before an early flush */
+const MAX_BATCH_SIZE = 100;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+// OTLP enum values
+const SPAN_KIND_SERVER = 2;
+const STATUS_CODE_ERROR = 2;
+
+export interface TraceExportOptions {
+  flushIntervalMs?: number;
+  serviceName?: string;
+}
+
+export interface TraceExporter {
+  /** Collector URL spans are posted to */
+  url: string;
+  flush(): Promise<void>;
+  /** Flush remaining spans and stop listening */
+  stop(): Promise<void>;
+}
+
+type AttributeValue = { stringValue: string } | { intValue: string } | { doubleValue: number };
+
+/**
+ * Traces URL for a collector endpoint: a base URL gets the standard
+ * /v1/traces path, a URL that already names it is used as is
+ */
+export function getTracesUrl(endpoint: string): string {
+  const base = endpoint.replace(/\/+$/, "");
+  return base.endsWith("/v1/traces") ? base : `${base}/v1/traces`;
+}
+
+function toNanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function attributes(values: Record<string, string | number | undefined>) {
+  const result: { key: string; value: AttributeValue }[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === "") continue;
+    if (typeof value === "string") result.push({ key, value: { stringValue: value } });
+    else if (Number.isInteger(value)) result.push({ key, value: { intValue: String(value) } });
+    else result.push({ key, value: { doubleValue: value } });
+  }
+  return result;
+}
+
+/**
+ * Build the OTLP span for a finished request
+ */
+export function toSpan(request: FinishedRequest) {
+  const { provider, model } = targetLabels(request.target);
+  const { usage } = request;
+  return {
+    traceId: randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+    name: `messages ${request.target}`,
+    kind: SPAN_KIND_SERVER,
+    startTimeUnixNano: toNanos(request.startedAt),
+    endTimeUnixNano: toNanos(request.endedAt),
+    attributes: attributes({
+      "claudish.target": request.target,
+      "claudish.session": request.session,
+      "gen_ai.system": usage?.provider || provider,
+      "gen_ai.request.model": model,
+      "gen_ai.response.model": usage?.model,
+      "http.response.status_code": request.status,
+      "claudish.ttft_ms": request.firstTokenAt
+        ? request.firstTokenAt - request.startedAt
+        : undefined,
+      "gen_ai.usage.input_tokens": usage?.inputTokens,
+      "gen_ai.usage.output_tokens": usage?.outputTokens ?? request.outputTokens,
+      "claudish.usage.cached_tokens": usage?.cachedTokens,
+      "claudish.cost_usd": usage?.cost,
+    }),
+    events: request.firstTokenAt
+      ? [{ name: "first_token", timeUnixNano: toNanos(request.firstTokenAt) }]
+      : [],
+    status: request.error ? { code: STATUS_CODE_ERROR, message: request.error } : {},
+  };
+}
+
+/**
+ * Start exporting a span for every messages request the proxy finishes
+ */
+export function startTraceExport(
+  endpoint: string,
+  options: TraceExportOptions = {}
+): TraceExporter {
+  const url = getTracesUrl(endpoint);
+  const resource = {
+    attributes: attributes({
+      "service.name": options.serviceName || "claudish",
+      "process.pid": process.pid,
+    }),
+  };
+  let pending: ReturnType<typeof toSpan>[] = [];
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const spans = pending;
+    pending = [];
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          resourceSpans: [{ resource, scopeSpans: [{ scope: { name: "claudish" }, spans }] }],
+        }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!res.ok) log(`[Traces] Collector rejected ${spans.length} spans: HTTP ${res.status}`);
+    } catch (e) {
+      log(`[Traces] Failed to export ${spans.length} spans to ${url}: ${e}`);
+    }
+  };
+
+  const stopListening = onRequestFinished((request) => {
+    pending.push(toSpan(request));
+    if (pending.length >= MAX_BATCH_SIZE) flush();
+  });
+  const timer = setInterval(flush, options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS);
+  timer.unref();
+  log(`[Traces] Exporting request spans to ${url}`);
+
+  return {
+    url,
+    flush,
+    stop: async () => {
+      stopListening();
+      clearInterval(timer);
+      await flush();
+    },
+  };
+}
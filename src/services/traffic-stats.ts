@@ -0,0 +1,399 @@
+/**
+ * Live proxy traffic stats
+ *
+ * Tracks the requests going through the proxy - in-flight requests, time to
+ * first token, tokens per second and errors per target - alongside the shared
+ * rate-limit queues and the running cost. Served as /_claudish/stats and shown
+ * by `claudish top`.
+ *
+ * Requests are tracked from the moment the proxy receives them, so time spent
+ * queued behind a 429 backoff or a busy local model counts as waiting. Finished
+ * requests are also published to listeners (metrics and trace export).
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  type QueueStats as GeminiQueueStats,
+  GeminiRequestQueue,
+} from "../handlers/shared/gemini-queue.js";
+import {
+  LocalModelQueue,
+  type QueueStats as LocalQueueStats,
+} from "../handlers/shared/local-queue.js";
+import {
+  type QueueStats as OpenRouterQueueStats,
+  OpenRouterRequestQueue,
+} from "../handlers/shared/openrouter-queue.js";
+import { log } from "../logger.js";
+import { onCostRecorded } from "./cost-ledger.js";
+import { type SseEvent, parseSseEvents } from "./stream-checker.js";
+
+/** Characters per token when estimating output from streamed text */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * A request the proxy is still working on
+ */
+export interface InFlightRequest {
+  id: number;
+  target: string;
+  session?: string;
+  /** waiting: no output yet (queued, backing off or prompt processing) */
+  state: "waiting" | "streaming";
+  elapsedMs: number;
+  ttftMs?: number;
+  outputTokens: number;
+  tokensPerSec?: number;
+}
+
+/**
+ * Totals for one target (the handler requests are routed to)
+ */
+export interface TargetTraffic {
+  target: string;
+  inFlight: number;
+  requests: number;
+  errors: number;
+  avgTtftMs?: number;
+  tokensPerSec?: number;
+  lastError?: string;
+}
+
+export interface TrafficSnapshot {
+  uptimeMs: number;
+  inFlight: InFlightRequest[];
+  targets: TargetTraffic[];
+  queues: {
+    openrouter: OpenRouterQueueStats;
+    local: LocalQueueStats;
+    gemini: GeminiQueueStats;
+  };
+  totals: { requests: number; errors: number; cost: number };
+}
+
+/**
+ * Usage the handlers recorded in the cost ledger while serving a request
+ */
+export interface RequestUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cost: number;
+}
+
+/**
+ * A request the proxy has finished, as published to onRequestFinished listeners
+ */
+export interface FinishedRequest {
+  target: string;
+  session?: string;
+  /** HTTP status of the handler response (unset if the handler threw) */
+  status?: number;
+  error?: string;
+  startedAt: number;
+  firstTokenAt?: number;
+  endedAt: number;
+  outputTokens: number;
+  usage?: RequestUsage;
+}
+
+export type RequestFinishedListener = (request: FinishedRequest) => void;
+
+interface ActiveRequest {
+  id: number;
+  target: string;
+  session?: string;
+  startedAt: number;
+  firstTokenAt?: number;
+  outputTokens: number;
+  status?: number;
+  usage?: RequestUsage;
+}
+
+interface TargetTotals {
+  target: string;
+  session?: string;
+  requests: number;
+  errors: number;
+  ttftSumMs: number;
+  ttftCount: number;
+  streamedTokens: number;
+  streamingMs: number;
+  lastError?: string;
+}
+
+const startedAt = Date.now();
+const active = new Map<number, ActiveRequest>();
+const totals = new Map<string, TargetTotals>();
+const costBySession = new Map<string, number>();
+const finishedListeners = new Set<RequestFinishedListener>();
+// The request whose handler is running, so recorded costs can be attributed to it
+const currentRequest = new AsyncLocalStorage<ActiveRequest>();
+let nextId = 1;
+
+onCostRecorded((entry) => {
+  const key = entry.session || "";
+  costBySession.set(key, (costBySession.get(key) || 0) + entry.cost);
+
+  const request = currentRequest.getStore();
+  if (!request) return;
+  request.usage ??= {
+    provider: entry.provider,
+    model: entry.model,
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    cost: 0,
+  };
+  const { usage } = request;
+  usage.inputTokens += entry.inputTokens;
+  usage.outputTokens += entry.outputTokens;
+  usage.cachedTokens += entry.cachedTokens;
+  usage.cost += entry.cost;
+});
+
+/**
+ * Subscribe to finished requests (e.g. for /metrics and OTLP trace export)
+ * @returns Function that removes the listener
+ */
+export function onRequestFinished(listener: RequestFinishedListener): () => void {
+  finishedListeners.add(listener);
+  return () => {
+    finishedListeners.delete(listener);
+  };
+}
+
+function notifyRequestFinished(request: FinishedRequest): void {
+  for (const listener of finishedListeners) {
+    try {
+      listener(request);
+    } catch (e) {
+      log(`[Traffic] Listener error: ${e}`);
+    }
+  }
+}
+
+const getTotals = (target: string, session?: string): TargetTotals => {
+  const key = `${session || ""}\u0000${target}`;
+  let entry = totals.get(key);
+  if (!entry) {
+    entry = {
+      target,
+      session,
+      requests: 0,
+      errors: 0,
+      ttftSumMs: 0,
+      ttftCount: 0,
+      streamedTokens: 0,
+      streamingMs: 0,
+    };
+    totals.set(key, entry);
+  }
+  return entry;
+};
+
+/**
+ * Update a request from one Anthropic SSE event (output tokens are estimated
+ * from the deltas until usage arrives). Returns the message of error events.
+ */
+function applyEvent(request: ActiveRequest, sse: SseEvent, now: number): string | undefined {
+  const data = sse.data || {};
+  if (data.type === "content_block_delta") {
+    request.firstTokenAt ??= now;
+    const delta = data.delta || {};
+    const text = delta.text ?? delta.thinking ?? delta.partial_json ?? "";
+    request.outputTokens += String(text).length / CHARS_PER_TOKEN;
+  } else if (data.type === "message_delta" && data.usage?.output_tokens) {
+    request.outputTokens = data.usage.output_tokens;
+  } else if (data.type === "error") {
+    return data.error?.message || "stream error";
+  }
+  return undefined;
+}
+
+/**
+ * Tracks one proxied request until its response stream ends
+ */
+export class TrafficTracker {
+  private request: ActiveRequest;
+  private finished = false;
+
+  constructor(target: string, session?: string) {
+    this.request = { id: nextId++, target, session, startedAt: Date.now(), outputTokens: 0 };
+    active.set(this.request.id, this.request);
+    getTotals(target, session).requests++;
+  }
+
+  /**
+   * Run the handler for this request, attributing the costs it records to it
+   */
+  run<T>(fn: () => T): T {
+    return currentRequest.run(this.request, fn);
+  }
+
+  /**
+   * Record the end of the request (with the error if it failed)
+   */
+  finish(error?: string): void {
+    if (this.finished) return;
+    this.finished = true;
+    active.delete(this.request.id);
+
+    const { request } = this;
+    const entry = getTotals(request.target, request.session);
+    if (error) {
+      entry.errors++;
+      entry.lastError = error;
+    }
+    if (request.firstTokenAt) {
+      entry.ttftSumMs += request.firstTokenAt - request.startedAt;
+      entry.ttftCount++;
+      entry.streamedTokens += request.outputTokens;
+      entry.streamingMs += Date.now() - request.firstTokenAt;
+    }
+
+    notifyRequestFinished({
+      target: request.target,
+      session: request.session,
+      status: request.status,
+      error,
+      startedAt: request.startedAt,
+      firstTokenAt: request.firstTokenAt,
+      endedAt: Date.now(),
+      outputTokens: Math.round(request.outputTokens),
+      usage: request.usage,
+    });
+  }
+
+  /**
+   * Follow a handler response: error statuses end the request, streams are
+   * watched for first token, output tokens and error events
+   */
+  watch(response: Response): Response {
+    const contentType = response.headers.get("content-type") || "";
+    this.request.status = response.status;
+    if (response.status >= 400) {
+      this.finish(`HTTP ${response.status}`);
+      return response;
+    }
+    if (!response.body || !contentType.includes("text/event-stream")) {
+      this.finish();
+      return response;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let error: string | undefined;
+    const processFrames = (text: string) => {
+      buffer += text;
+      const end = buffer.lastIndexOf("\n\n");
+      if (end === -1) return;
+      const now = Date.now();
+      for (const sse of parseSseEvents(buffer.slice(0, end))) {
+        error = applyEvent(this.request, sse, now) || error;
+      }
+      buffer = buffer.slice(end + 2);
+    };
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      start: async (controller) => {
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            controller.enqueue(value);
+            processFrames(decoder.decode(value, { stream: true }));
+          }
+          processFrames(`${decoder.decode()}\n\n`);
+          this.finish(error);
+          controller.close();
+        } catch (e) {
+          this.finish(String(e));
+          controller.error(e);
+        }
+      },
+      cancel: (reason) => {
+        this.finish();
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+}
+
+/**
+ * Current traffic, optionally limited to one serve daemon session
+ */
+export function getTrafficSnapshot(session?: string): TrafficSnapshot {
+  const now = Date.now();
+  const inSession = (entry: { session?: string }) => !session || entry.session === session;
+
+  const inFlight: InFlightRequest[] = [...active.values()].filter(inSession).map((request) => {
+    const streamingMs = request.firstTokenAt ? now - request.firstTokenAt : 0;
+    return {
+      id: request.id,
+      target: request.target,
+      session: request.session,
+      state: request.firstTokenAt ? "streaming" : "waiting",
+      elapsedMs: now - request.startedAt,
+      ttftMs: request.firstTokenAt ? request.firstTokenAt - request.startedAt : undefined,
+      outputTokens: Math.round(request.outputTokens),
+      tokensPerSec: streamingMs > 0 ? (request.outputTokens * 1000) / streamingMs : undefined,
+    };
+  });
+
+  // Merge per-session totals by target
+  const byTarget = new Map<string, TargetTotals>();
+  for (const entry of [...totals.values()].filter(inSession)) {
+    const merged = byTarget.get(entry.target);
+    if (!merged) {
+      byTarget.set(entry.target, { ...entry });
+      continue;
+    }
+    merged.requests += entry.requests;
+    merged.errors += entry.errors;
+    merged.ttftSumMs += entry.ttftSumMs;
+    merged.ttftCount += entry.ttftCount;
+    merged.streamedTokens += entry.streamedTokens;
+    merged.streamingMs += entry.streamingMs;
+    merged.lastError = entry.lastError || merged.lastError;
+  }
+  const targets: TargetTraffic[] = [...byTarget.values()].map((entry) => ({
+    target: entry.target,
+    inFlight: inFlight.filter((r) => r.target === entry.target).length,
+    requests: entry.requests,
+    errors: entry.errors,
+    avgTtftMs: entry.ttftCount > 0 ? entry.ttftSumMs / entry.ttftCount : undefined,
+    tokensPerSec:
+      entry.streamingMs > 0 ? (entry.streamedTokens * 1000) / entry.streamingMs : undefined,
+    lastError: entry.lastError,
+  }));
+
+  const cost = session
+    ? costBySession.get(session) || 0
+    : [...costBySession.values()].reduce((sum, value) => sum + value, 0);
+
+  return {
+    uptimeMs: now - startedAt,
+    inFlight,
+    targets,
+    queues: {
+      openrouter: OpenRouterRequestQueue.getInstance().getStats(),
+      local: LocalModelQueue.getInstance().getStats(),
+      gemini: GeminiRequestQueue.getInstance().getStats(),
+    },
+    totals: {
+      requests: targets.reduce((sum, t) => sum + t.requests, 0),
+      errors: targets.reduce((sum, t) => sum + t.errors, 0),
+      cost,
+    },
+  };
+}
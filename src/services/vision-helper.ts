@@ -0,0 +1,125 @@
+/**
+ * Vision Helper
+ *
+ * Text-only targets (LM Studio, vLLM, MLX, ...) reject or ignore the screenshots
+ * and image blocks Claude Code sends. With a vision helper model configured
+ * (--vision-model or a profile's "visionModel"), every image in a request for
+ * such a target is described by the helper and replaced with the description.
+ * Descriptions are cached by image hash because each turn resends the history.
+ */
+
+import { createHash } from "node:crypto";
+import { log } from "../logger.js";
+import { parseUrlModel, resolveProvider } from "../providers/provider-registry.js";
+import { resolveRemoteProvider } from "../providers/remote-provider-registry.js";
+import { completeThroughProxy } from "./proxy-completion.js";
+
+/**
+ * Produces a text description of an Anthropic image block
+ */
+export type ImageDescriber = (image: any) => Promise<string>;
+
+const DESCRIBE_PROMPT =
+  "Describe this image for a coding assistant that can't see it. Transcribe any text, code, " +
+  "error messages and UI labels exactly, then describe the layout and anything else relevant. " +
+  "Reply with the description only.";
+
+/**
+ * Whether a target model accepts image input
+ *
+ * Local and remote providers declare it in their capabilities, URL-based
+ * models are assumed to be text-only and everything else (OpenRouter,
+ * native Claude) is assumed to support images.
+ */
+export function targetSupportsVision(target: string): boolean {
+  const local = resolveProvider(target);
+  if (local) return local.provider.capabilities.supportsVision;
+  if (parseUrlModel(target)) return false;
+  const remote = resolveRemoteProvider(target);
+  if (remote) return remote.provider.capabilities?.supportsVision !== false;
+  return true;
+}
+
+/**
+ * Replaces images with descriptions from a helper model
+ */
+export class VisionHelper {
+  private describe: ImageDescriber;
+  private descriptions = new Map<string, Promise<string>>();
+
+  /**
+   * @param describe - Describes a single image block
+   */
+  constructor(describe: ImageDescriber) {
+    this.describe = describe;
+  }
+
+  /**
+   * Vision helper that asks a model through the claudish proxy
+   */
+  static forModel(proxyUrl: string, model: string): VisionHelper {
+    return new VisionHelper((image) =>
+      completeThroughProxy(proxyUrl, model, [image, { type: "text", text: DESCRIBE_PROMPT }], 1024)
+    );
+  }
+
+  /**
+   * Return the request with every image (including those in tool results)
+   * replaced by a text description. Requests without images are returned as is.
+   */
+  async describeImages(body: any): Promise<any> {
+    if (!Array.isArray(body?.messages)) return body;
+    let replaced = 0;
+    const replaceBlocks = async (content: unknown): Promise<unknown> => {
+      if (!Array.isArray(content)) return content;
+      return Promise.all(
+        content.map(async (block: any) => {
+          if (block?.type === "image") {
+            replaced++;
+            return { type: "text", text: await this.getDescription(block) };
+          }
+          if (block?.type === "tool_result" && Array.isArray(block.content)) {
+            return { ...block, content: await replaceBlocks(block.content) };
+          }
+          return block;
+        })
+      );
+    };
+
+    const messages = await Promise.all(
+      body.messages.map(async (message: any) => ({
+        ...message,
+        content: await replaceBlocks(message?.content),
+      }))
+    );
+    if (replaced === 0) return body;
+    log(`[VisionHelper] Replaced ${replaced} image(s) with descriptions`);
+    return { ...body, messages };
+  }
+
+  /**
+   * Description text of an image, from the cache when it was described before
+   */
+  private async getDescription(image: any): Promise<string> {
+    const hash = createHash("sha256")
+      .update(JSON.stringify(image.source ?? {}))
+      .digest("hex");
+    let description = this.descriptions.get(hash);
+    if (!description) {
+      log(`[VisionHelper] Describing image ${hash.slice(0, 12)}`);
+      description = this.describe(image).then((text) => {
+        if (!text.trim()) throw new Error("empty description");
+        return text.trim();
+      });
+      this.descriptions.set(hash, description);
+    }
+    try {
+      return `[Image described by the claudish vision helper]\n${await description}`;
+    } catch (e) {
+      // Don't cache failures, the next turn tries again
+      this.descriptions.delete(hash);
+      log(`[VisionHelper] Failed to describe image ${hash.slice(0, 12)}: ${e}`);
+      return "[Image omitted: the vision helper could not describe it]";
+    }
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Top Command
+ *
+ * Implements `claudish top`, a live view of a running proxy's traffic (served
+ * by its /_claudish/stats endpoint, see src/services/traffic-stats.ts):
+ * - claudish top: Attach to `claudish serve`, or the most recently active claudish proxy
+ * - claudish top --port 3000 | --url http://127.0.0.1:3456/s/<session>
+ * - claudish top --once [--json]: Print one snapshot and exit
+ */
+
+import { readdirSync, statSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { readDaemonState } from "./services/proxy-daemon.js";
+import type { TrafficSnapshot } from "./services/traffic-stats.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const CYAN = "\x1b[36m";
+
+// Terminal control
+const ALT_SCREEN_ON = "\x1b[?1049h";
+const ALT_SCREEN_OFF = "\x1b[?1049l";
+const CURSOR_HIDE = "\x1b[?25l";
+const CURSOR_SHOW = "\x1b[?25h";
+const CLEAR = "\x1b[H\x1b[2J";
+
+interface TopOptions {
+  url?: string;
+  port?: number;
+  intervalMs: number;
+  once: boolean;
+  json: boolean;
+}
+
+/**
+ * Parse a positive number option value or exit with a message
+ */
+function parsePositive(value: string | undefined, message: string): number {
+  const number = Number.parseFloat(value || "");
+  if (Number.isNaN(number) || number <= 0) {
+    console.error(message);
+    process.exit(1);
+  }
+  return number;
+}
+
+/**
+ * Parse `claudish top` options
+ */
+function parseTopArgs(args: string[]): TopOptions {
+  const options: TopOptions = { intervalMs: 1000, once: false, json: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--port") {
+      options.port = parsePositive(args[++i], "--port requires a port number");
+    } else if (arg === "--url") {
+      options.url = (args[++i] || "").replace(/\/+$/, "");
+    } else if (arg === "--interval") {
+      options.intervalMs =
+        parsePositive(args[++i], "--interval requires a number of seconds") * 1000;
+    } else if (arg === "--once") {
+      options.once = true;
+    } else if (arg === "--json") {
+      options.json = true;
+      options.once = true;
+    } else if (arg === "--help" || arg === "-h") {
+      printTopHelp();
+      process.exit(0);
+    } else {
+      console.error(`Unknown option for claudish top: ${arg}`);
+      printTopHelp();
+      process.exit(1);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Fetch a stats snapshot (null if the proxy doesn't answer)
+ */
+async function fetchSnapshot(url: string): Promise<TrafficSnapshot | null> {
+  try {
+    const res = await fetch(`${url}/_claudish/stats`, { signal: AbortSignal.timeout(2000) });
+    return res.ok ? ((await res.json()) as TrafficSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a proxy to attach to: the serve daemon, else the standalone proxy whose
+ * status line file (~/.claudish/tokens-<port>.json) was updated most recently
+ */
+async function findProxyUrl(): Promise<string | null> {
+  const daemon = readDaemonState();
+  if (daemon) return daemon.url;
+
+  const dir = join(homedir(), ".claudish");
+  let ports: { port: string; mtime: number }[] = [];
+  try {
+    ports = readdirSync(dir)
+      .map((file) => file.match(/^tokens-(\d+)\.json$/)?.[1])
+      .filter((port): port is string => !!port)
+      .map((port) => ({ port, mtime: statSync(join(dir, `tokens-${port}.json`)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime);
+  } catch {
+    return null;
+  }
+  for (const { port } of ports) {
+    const url = `http://127.0.0.1:${port}`;
+    if (await fetchSnapshot(url)) return url;
+  }
+  return null;
+}
+
+function formatDuration(ms: number | undefined): string {
+  if (ms === undefined) return "-";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) {
+    return `${minutes}m${String(Math.floor((ms % 60_000) / 1000)).padStart(2, "0")}s`;
+  }
+  return `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+function formatRate(tokensPerSec: number | undefined): string {
+  return tokensPerSec === undefined ? "-" : tokensPerSec.toFixed(1);
+}
+
+function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+function fit(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text.padEnd(width);
+}
+
+function renderQueues(queues: TrafficSnapshot["queues"]): string[] {
+  const { openrouter, local, gemini } = queues;
+  const remaining =
+    openrouter.remainingRequests === null ? "" : `  remaining ${openrouter.remainingRequests} req`;
+  const highlight = (count: number) => (count > 0 ? `${YELLOW}${count}${RESET}` : String(count));
+  return [
+    `${BOLD}QUEUES${RESET}`,
+    `  ${fit("OpenRouter", 12)}queued ${highlight(openrouter.queueLength)}  delay ${formatDuration(openrouter.currentDelayMs)}  429s ${openrouter.total429Errors} (retries ${openrouter.total429Retries})${remaining}`,
+    `  ${fit("Local", 12)}queued ${highlight(local.queueLength)}  active ${local.activeRequests}/${local.maxParallel}  errors ${local.totalErrors} (OOM ${local.totalOOMErrors})`,
+    `  ${fit("Gemini", 12)}queued ${highlight(gemini.queueLength)}  delay ${formatDuration(gemini.currentDelayMs)}  errors ${gemini.totalErrors}`,
+  ];
+}
+
+function renderInFlight(snapshot: TrafficSnapshot, targetWidth: number): string[] {
+  const lines = [`${BOLD}IN FLIGHT (${snapshot.inFlight.length})${RESET}`];
+  if (snapshot.inFlight.length === 0) return [...lines, `  ${DIM}idle${RESET}`];
+  lines.push(
+    `  ${DIM}${fit("TARGET", targetWidth)} ${fit("SESSION", 9)}${fit("STATE", 11)}${"ELAPSED".padStart(8)}${"TTFT".padStart(8)}${"TOKENS".padStart(8)}${"TOK/S".padStart(8)}${RESET}`
+  );
+  for (const request of snapshot.inFlight) {
+    const state =
+      request.state === "streaming"
+        ? `${GREEN}${fit("streaming", 11)}${RESET}`
+        : `${YELLOW}${fit("waiting", 11)}${RESET}`;
+    lines.push(
+      `  ${fit(request.target, targetWidth)} ${fit(request.session || "-", 9)}${state}${formatDuration(request.elapsedMs).padStart(8)}${formatDuration(request.ttftMs).padStart(8)}${String(request.outputTokens).padStart(8)}${formatRate(request.tokensPerSec).padStart(8)}`
+    );
+  }
+  return lines;
+}
+
+function renderTargets(snapshot: TrafficSnapshot, targetWidth: number): string[] {
+  const lines = [`${BOLD}TARGETS${RESET}`];
+  if (snapshot.targets.length === 0) return [...lines, `  ${DIM}no requests yet${RESET}`];
+  lines.push(
+    `  ${DIM}${fit("TARGET", targetWidth)} ${"ACTIVE".padStart(6)}${"REQS".padStart(6)}${"ERRS".padStart(6)}${"AVG TTFT".padStart(10)}${"TOK/S".padStart(8)}  LAST ERROR${RESET}`
+  );
+  for (const target of snapshot.targets) {
+    const errors =
+      target.errors > 0
+        ? `${RED}${String(target.errors).padStart(6)}${RESET}`
+        : String(0).padStart(6);
+    lines.push(
+      `  ${fit(target.target, targetWidth)} ${String(target.inFlight).padStart(6)}${String(target.requests).padStart(6)}${errors}${formatDuration(target.avgTtftMs).padStart(10)}${formatRate(target.tokensPerSec).padStart(8)}  ${DIM}${target.lastError || ""}${RESET}`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Render one dashboard frame
+ */
+export function renderTop(snapshot: TrafficSnapshot, url: string, width = 100): string {
+  const targetWidth = Math.max(16, Math.min(40, width - 60));
+  const { totals } = snapshot;
+  const errors = totals.errors > 0 ? `${RED}${totals.errors}${RESET}` : "0";
+  return [
+    `${BOLD}${CYAN}claudish top${RESET} ${url}  ${DIM}up ${formatDuration(snapshot.uptimeMs)}${RESET}  requests ${totals.requests}  errors ${errors}  cost ${GREEN}${formatCost(totals.cost)}${RESET}`,
+    "",
+    ...renderQueues(snapshot.queues),
+    "",
+    ...renderInFlight(snapshot, targetWidth),
+    "",
+    ...renderTargets(snapshot, targetWidth),
+  ].join("\n");
+}
+
+/**
+ * Redraw the dashboard until q or Ctrl+C
+ */
+async function runLive(url: string, intervalMs: number): Promise<void> {
+  const restore = () => process.stdout.write(CURSOR_SHOW + ALT_SCREEN_OFF);
+  const quit = () => {
+    restore();
+    process.exit(0);
+  };
+  process.stdout.write(ALT_SCREEN_ON + CURSOR_HIDE);
+  process.on("SIGINT", quit);
+  process.on("SIGTERM", quit);
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on("data", (key) => {
+      const char = key.toString();
+      if (char === "q" || char === "\u0003") quit();
+    });
+  }
+
+  while (true) {
+    const snapshot = await fetchSnapshot(url);
+    const frame = snapshot
+      ? renderTop(snapshot, url, process.stdout.columns || 100)
+      : `${BOLD}${CYAN}claudish top${RESET} ${url}\n\n${RED}Proxy not reachable - retrying...${RESET}`;
+    process.stdout.write(`${CLEAR}${frame}\n\n${DIM}q to quit${RESET}\n`);
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Main top command
+ */
+export async function topCommand(args: string[]): Promise<void> {
+  const options = parseTopArgs(args);
+  const url =
+    options.url || (options.port ? `http://127.0.0.1:${options.port}` : await findProxyUrl());
+  if (!url) {
+    console.error(
+      "No running claudish proxy found. Start one (claudish serve, or a claudish session) or pass --port."
+    );
+    process.exit(1);
+  }
+
+  if (!options.once) return runLive(url, options.intervalMs);
+
+  const snapshot = await fetchSnapshot(url);
+  if (!snapshot) {
+    console.error(`No stats from ${url} - is a claudish proxy running there?`);
+    process.exit(1);
+  }
+  console.log(options.json ? JSON.stringify(snapshot, null, 2) : renderTop(snapshot, url));
+}
+
+function printTopHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish top [options]
+
+Live view of a running proxy: in-flight requests and what they are waiting on,
+rate-limit queues, time to first token, tokens/sec, errors and running cost.
+
+${BOLD}Options:${RESET}
+  ${CYAN}--port${RESET} ${DIM}<port>${RESET}         Proxy port (default: claudish serve, else the latest claudish session)
+  ${CYAN}--url${RESET} ${DIM}<url>${RESET}           Proxy URL (e.g. a serve session: http://127.0.0.1:3456/s/<id>)
+  ${CYAN}--interval${RESET} ${DIM}<s>${RESET}        Refresh interval in seconds (default: 1)
+  ${CYAN}--once${RESET}                Print one snapshot and exit
+  ${CYAN}--json${RESET}                Print one snapshot as JSON (implies --once)
+`);
+}
@@ -1,5 +1,10 @@
 // Claudish type definitions
 
+import type { ReasoningMode } from "./handlers/shared/reasoning.js";
+import type { RedactionConfig } from "./middleware/redaction.js";
+import type { RoutingRule } from "./services/routing-rules.js";
+import type { StreamCheckMode } from "./services/stream-checker.js";
+
 // Model ID type - any valid OpenRouter model string
 export type OpenRouterModel = string;
 
@@ -7,6 +12,7 @@ export type OpenRouterModel = string;
 export interface ClaudishConfig {
   model?: OpenRouterModel | string; // Optional - will prompt if not provided
   port?: number;
+  noDaemon?: boolean; // Don't attach to a running `claudish serve` daemon
   autoApprove: boolean;
   dangerous: boolean;
   interactive: boolean;
@@ -28,14 +34,34 @@ export interface ClaudishConfig {
   modelSonnet?: string;
   modelHaiku?: string;
   modelSubagent?: string;
+  fallbackModels?: string[]; // Fallback chain appended to every target (from profile)
+  routingRules?: RoutingRule[]; // Per-request routing rules (from profile)
 
   // Cost tracking
   costTracking?: boolean;
   auditCosts?: boolean;
   resetCosts?: boolean;
+  budget?: number; // Session spend limit in USD
+  budgetWarnAt?: number; // Fraction of the budget that triggers the status line warning
+  budgetDowngradeModel?: string; // Model to reroute to once the budget is exceeded
+
+  // Recording and replay
+  recordDir?: string; // Record requests and upstream streams into this directory
+  replayDir?: string; // Serve upstream streams from this recording instead of the network
 
   // Local model optimizations
   summarizeTools?: boolean; // Summarize tool descriptions to reduce prompt size for local models
+  compact?: boolean; // Compact requests that exceed the target's context window
+  compactModel?: string; // Model that summarizes collapsed turns during compaction
+  visionModel?: string; // Model that describes images for targets without vision support
+  reasoning?: ReasoningMode; // How upstream reasoning is shown (show/hide/text, default: show)
+  redaction?: RedactionConfig; // Mask, block or warn about secrets and emails in outbound requests
+
+  // Debugging
+  checkStream?: StreamCheckMode; // Log or repair streams that break the Anthropic SSE grammar
+
+  // Observability
+  otlpEndpoint?: string; // OpenTelemetry collector to export request spans to (OTLP/HTTP)
 }
 
 // Anthropic API Types
@@ -0,0 +1,99 @@
+/**
+ * Validate Command
+ *
+ * Implements `claudish validate`, which checks a project's Claude Code setup
+ * (see src/validation/):
+ * - claudish validate [path] [--json]
+ *
+ * Checks agent, command and skill frontmatter, the tools they reference, that
+ * their models resolve to a provider, and broken file links in CLAUDE.md.
+ * Exits with code 1 when there are critical issues, so it can run in pre-commit.
+ */
+
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { ValidationOrchestrator, hasCriticalIssues } from "./validation/orchestrator.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const RED = "\x1b[31m";
+const CYAN = "\x1b[36m";
+
+interface ValidateOptions {
+  path: string;
+  json: boolean;
+}
+
+/**
+ * Parse `claudish validate` options
+ */
+function parseValidateArgs(args: string[]): ValidateOptions {
+  const options: ValidateOptions = { path: ".", json: false };
+  let pathSet = false;
+
+  for (const arg of args) {
+    if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--help" || arg === "-h") {
+      printValidateHelp();
+      process.exit(0);
+    } else if (arg.startsWith("-") || pathSet) {
+      console.error(`Unknown argument for claudish validate: ${arg}`);
+      printValidateHelp();
+      process.exit(1);
+    } else {
+      options.path = arg;
+      pathSet = true;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Main validate command
+ */
+export async function validateCommand(args: string[]): Promise<void> {
+  const options = parseValidateArgs(args);
+  const projectPath = resolve(options.path);
+  if (!existsSync(projectPath)) {
+    console.error(`${RED}Path not found: ${projectPath}${RESET}`);
+    process.exit(1);
+  }
+
+  const orchestrator = new ValidationOrchestrator({ projectPath });
+  const result = await orchestrator.run();
+  const plan = orchestrator.generateImprovementPlan(result);
+  const critical = hasCriticalIssues(result);
+
+  if (options.json) {
+    console.log(JSON.stringify({ projectPath, critical, result, plan }, null, 2));
+  } else {
+    console.log(`\n${BOLD}Validating ${projectPath}${RESET}\n`);
+    console.log(orchestrator.generateReport(result, plan));
+    console.log("");
+  }
+
+  if (critical) process.exit(1);
+}
+
+function printValidateHelp(): void {
+  console.log(`
+${BOLD}Usage:${RESET} claudish validate [path] [options]
+
+Checks the Claude Code setup of a project (default: current directory):
+.claude/agents, .claude/commands, .claude/skills, .claude/settings.json and CLAUDE.md.
+Exits with code 1 when there are critical issues.
+
+${BOLD}Options:${RESET}
+  ${CYAN}--json${RESET}                Print the results as JSON
+
+${BOLD}Examples:${RESET}
+  claudish validate
+  claudish validate ../my-plugin --json
+  ${DIM}# .git/hooks/pre-commit${RESET}
+  claudish validate || exit 1
+`);
+}
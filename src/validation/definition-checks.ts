@@ -0,0 +1,178 @@
+/**
+ * Checks shared by the agent, command and skill validators
+ */
+
+import { readdirSync, statSync } from "node:fs";
+import { join, relative } from "node:path";
+import { resolveModelProvider } from "../providers/provider-resolver.js";
+import { type Frontmatter, asList } from "./frontmatter.js";
+import type { IssueSeverity, ValidationIssue } from "./types.js";
+
+/**
+ * Claude Code's built-in tools
+ */
+export const CLAUDE_CODE_TOOLS = new Set([
+  "Agent",
+  "AskUserQuestion",
+  "Bash",
+  "BashOutput",
+  "Edit",
+  "ExitPlanMode",
+  "Glob",
+  "Grep",
+  "KillShell",
+  "LS",
+  "MultiEdit",
+  "NotebookEdit",
+  "NotebookRead",
+  "Read",
+  "SlashCommand",
+  "Skill",
+  "Task",
+  "TodoWrite",
+  "WebFetch",
+  "WebSearch",
+  "Write",
+]);
+
+/**
+ * Model values Claude Code understands without a provider
+ */
+export const MODEL_ALIASES = new Set(["inherit", "sonnet", "opus", "haiku", "opusplan"]);
+
+/**
+ * Names of agents and skills: lowercase letters, digits and hyphens
+ */
+export const DEFINITION_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Recursively list markdown files under a directory
+ */
+export function listMarkdownFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const name of readdirSync(dir).sort()) {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) files.push(...listMarkdownFiles(path));
+    else if (name.endsWith(".md")) files.push(path);
+  }
+  return files;
+}
+
+/**
+ * Helper for building issues with paths relative to the project
+ */
+export function createIssueFactory(projectPath: string) {
+  return (
+    file: string,
+    severity: IssueSeverity,
+    message: string,
+    extra: Partial<ValidationIssue> = {}
+  ): ValidationIssue => ({
+    path: relative(projectPath, file) || file,
+    severity,
+    category: severity === "critical" || severity === "high" ? "mandatory" : "recommended",
+    message,
+    ...extra,
+  });
+}
+
+export type IssueFactory = ReturnType<typeof createIssueFactory>;
+
+/**
+ * Report frontmatter syntax errors
+ */
+export function checkFrontmatterSyntax(
+  file: string,
+  frontmatter: Frontmatter,
+  issue: IssueFactory
+): ValidationIssue[] {
+  return frontmatter.errors.map((error) =>
+    issue(file, "critical", error.message, {
+      line: error.line,
+      improvement: "Fix the YAML frontmatter between the --- lines",
+    })
+  );
+}
+
+/**
+ * Report required frontmatter keys that are missing or empty
+ */
+export function checkRequiredKeys(
+  file: string,
+  frontmatter: Frontmatter,
+  keys: string[],
+  issue: IssueFactory
+): ValidationIssue[] {
+  return keys
+    .filter((key) => asList(frontmatter.data?.[key]).join("").trim() === "")
+    .map((key) =>
+      issue(file, "critical", `Missing required frontmatter field: ${key}`, {
+        line: 1,
+        improvement: `Add "${key}:" to the frontmatter`,
+      })
+    );
+}
+
+/**
+ * Report tools that Claude Code does not provide. MCP tools (mcp__server__tool)
+ * cannot be checked offline and are accepted.
+ */
+export function checkTools(
+  file: string,
+  frontmatter: Frontmatter,
+  key: string,
+  issue: IssueFactory
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const entry of asList(frontmatter.data?.[key])) {
+    // Permission patterns like Bash(git add:*) name the tool before the parenthesis
+    const tool = entry.replace(/\(.*\)$/s, "").trim();
+    if (tool === "*" || tool.startsWith("mcp__") || CLAUDE_CODE_TOOLS.has(tool)) continue;
+    issues.push(
+      issue(file, "high", `Unknown tool in ${key}: ${tool}`, {
+        line: frontmatter.lines[key],
+        improvement: `Use one of: ${[...CLAUDE_CODE_TOOLS].join(", ")}`,
+      })
+    );
+  }
+  return issues;
+}
+
+/**
+ * Report a model that claudish cannot route
+ */
+export function checkModel(
+  file: string,
+  frontmatter: Frontmatter,
+  issue: IssueFactory
+): ValidationIssue[] {
+  const value = frontmatter.data?.model;
+  if (value === undefined) return [];
+  const model = Array.isArray(value) ? value.join(",") : value;
+  const line = frontmatter.lines.model;
+  if (MODEL_ALIASES.has(model)) return [];
+  if (!model) {
+    return [
+      issue(file, "medium", "Empty model field", { line, improvement: "Remove it or set a model" }),
+    ];
+  }
+
+  const resolution = resolveModelProvider(model);
+  if (resolution.category === "unknown") {
+    return [
+      issue(file, "critical", `Model does not resolve to a provider: ${model}`, {
+        line,
+        improvement: `Use provider@model (e.g. openrouter@${model}) or one of: ${[...MODEL_ALIASES].join(", ")}`,
+      }),
+    ];
+  }
+  if (resolution.deprecationWarning) {
+    return [
+      issue(file, "low", `Legacy model syntax: ${model}`, {
+        line,
+        details: resolution.deprecationWarning,
+      }),
+    ];
+  }
+  return [];
+}
@@ -0,0 +1,79 @@
+/**
+ * Human-readable output for `claudish validate`
+ */
+
+import type { ImprovementPlan, IssueSeverity, ValidationIssue, ValidationResult } from "./types.js";
+
+// ANSI colors
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const DIM = "\x1b[2m";
+const RED = "\x1b[31m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const CYAN = "\x1b[36m";
+
+const SEVERITIES: IssueSeverity[] = ["critical", "high", "medium", "low"];
+
+const SEVERITY_STYLE: Record<IssueSeverity, string> = {
+  critical: `${BOLD}${RED}`,
+  high: RED,
+  medium: YELLOW,
+  low: DIM,
+};
+
+const AREAS: Array<[keyof ValidationResult, string]> = [
+  ["project", "Project"],
+  ["agents", "Agents (.claude/agents)"],
+  ["commands", "Commands (.claude/commands)"],
+  ["skills", "Skills (.claude/skills)"],
+  ["documentation", "Documentation (CLAUDE.md)"],
+];
+
+/**
+ * Formats validation results the way a reviewer reads them: grouped by area,
+ * most severe first, each issue with its location and fix
+ */
+export class SeniorCodeReviewerValidationFormatter {
+  format(result: ValidationResult, plan: ImprovementPlan): string {
+    const all = AREAS.flatMap(([key]) => result[key].issues);
+    const lines: string[] = [];
+
+    for (const [key, title] of AREAS) {
+      const issues = [...result[key].issues].sort(
+        (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+      );
+      if (issues.length === 0) continue;
+      lines.push(`${BOLD}${title}${RESET}`);
+      for (const issue of issues) lines.push(...this.formatIssue(issue));
+      lines.push("");
+    }
+
+    if (all.length === 0) {
+      return `${GREEN}✓ No issues found${RESET}`;
+    }
+
+    const counts = SEVERITIES.map((severity) => {
+      const count = all.filter((issue) => issue.severity === severity).length;
+      return count > 0 ? `${SEVERITY_STYLE[severity]}${count} ${severity}${RESET}` : null;
+    }).filter(Boolean);
+    lines.push(`${BOLD}${all.length} issue(s):${RESET} ${counts.join(", ")}`);
+
+    if (plan.priorityIssues.length > 0) {
+      lines.push(`${BOLD}Fix first:${RESET}`);
+      for (const todo of plan.priorityIssues) lines.push(`  - ${todo}`);
+      lines.push(`${DIM}Estimated effort: ${plan.effort} (${plan.estimatedTime})${RESET}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  private formatIssue(issue: ValidationIssue): string[] {
+    const location = issue.line ? `${issue.path}:${issue.line}` : issue.path;
+    const label = `${SEVERITY_STYLE[issue.severity]}${issue.severity.toUpperCase().padEnd(8)}${RESET}`;
+    const lines = [`  ${label} ${CYAN}${location}${RESET} ${issue.message}`];
+    if (issue.details) lines.push(`           ${DIM}${issue.details}${RESET}`);
+    if (issue.improvement) lines.push(`           ${DIM}→ ${issue.improvement}${RESET}`);
+    return lines;
+  }
+}
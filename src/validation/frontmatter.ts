@@ -0,0 +1,158 @@
+/**
+ * Frontmatter parsing for Claude Code markdown definitions (agents, commands, skills)
+ *
+ * Supports the YAML subset these files use: `key: value` scalars (optionally
+ * quoted), inline lists (`[a, b]`) and block lists (`- item`).
+ */
+
+export type FrontmatterValue = string | string[];
+
+export interface Frontmatter {
+  /** Parsed keys, or null when the file has no frontmatter */
+  data: Record<string, FrontmatterValue> | null;
+  /** Line (1-based) of each key */
+  lines: Record<string, number>;
+  /** Markdown after the frontmatter */
+  body: string;
+  /** Line (1-based) where the body starts */
+  bodyLine: number;
+  /** Syntax problems, with their line */
+  errors: Array<{ line: number; message: string }>;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    ((trimmed.startsWith('"') && trimmed.endsWith('"')) ||
+      (trimmed.startsWith("'") && trimmed.endsWith("'")))
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function parseValue(raw: string): FrontmatterValue {
+  const value = raw.trim();
+  if (value.startsWith("[") && value.endsWith("]")) {
+    return value.slice(1, -1).split(",").map(unquote).filter(Boolean);
+  }
+  return unquote(value);
+}
+
+interface ParseState {
+  data: Record<string, FrontmatterValue>;
+  keyLines: Record<string, number>;
+  errors: Frontmatter["errors"];
+  /** Key whose block list (- item) is being read */
+  listKey: string | null;
+}
+
+/**
+ * Parse one line between the --- markers
+ */
+function parseLine(state: ParseState, line: string, lineNumber: number): void {
+  const { data, errors } = state;
+  if (!line.trim() || line.trim().startsWith("#")) return;
+
+  const item = line.match(/^\s*-\s+(.*)$/);
+  if (item && state.listKey) {
+    (data[state.listKey] as string[]).push(unquote(item[1]));
+    return;
+  }
+
+  const entry = line.match(/^([A-Za-z0-9_-]+):(.*)$/);
+  if (!entry) {
+    // Indented continuation of a multi-line scalar
+    const last = Object.keys(data).at(-1);
+    if (last && /^\s/.test(line) && typeof data[last] === "string") {
+      data[last] = `${data[last]} ${line.trim()}`.trim();
+    } else {
+      errors.push({ line: lineNumber, message: `Cannot parse frontmatter line: ${line.trim()}` });
+    }
+    return;
+  }
+
+  const [, key, rawValue] = entry;
+  const value = rawValue.trim();
+  if (key in data) {
+    errors.push({ line: lineNumber, message: `Duplicate frontmatter key: ${key}` });
+  }
+  state.keyLines[key] = lineNumber;
+  // "key:" alone starts a block list (or is empty), "key: |" / "key: >" a block scalar
+  state.listKey = value === "" ? key : null;
+  data[key] = value === "" ? [] : value === "|" || value === ">" ? "" : parseValue(value);
+}
+
+/**
+ * Split a markdown file into frontmatter and body
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const lines = content.split(/\r?\n/);
+  if (lines[0]?.trim() !== "---") {
+    return { data: null, lines: {}, body: content, bodyLine: 1, errors: [] };
+  }
+
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+  if (end === -1) {
+    return {
+      data: null,
+      lines: {},
+      body: content,
+      bodyLine: 1,
+      errors: [{ line: 1, message: "Frontmatter is not closed with ---" }],
+    };
+  }
+
+  const state: ParseState = { data: {}, keyLines: {}, errors: [], listKey: null };
+  for (let i = 1; i < end; i++) parseLine(state, lines[i], i + 1);
+
+  // "key:" followed by no items is an empty value, not an empty list
+  for (const [key, value] of Object.entries(state.data)) {
+    if (
+      Array.isArray(value) &&
+      value.length === 0 &&
+      !lines[state.keyLines[key] - 1].includes("[")
+    ) {
+      state.data[key] = "";
+    }
+  }
+
+  return {
+    data: state.data,
+    lines: state.keyLines,
+    body: lines.slice(end + 1).join("\n"),
+    bodyLine: end + 2,
+    errors: state.errors,
+  };
+}
+
+/**
+ * A frontmatter value as a list (tools may be written "Read, Grep" or as a YAML list)
+ */
+export function asList(value: FrontmatterValue | undefined): string[] {
+  if (value === undefined) return [];
+  if (Array.isArray(value)) return value.map((v) => v.trim()).filter(Boolean);
+  return splitToolList(value);
+}
+
+/**
+ * Split a comma-separated tool list, keeping commas inside Bash(...) patterns
+ */
+function splitToolList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of value) {
+    if (char === "(") depth++;
+    if (char === ")") depth = Math.max(0, depth - 1);
+    if (char === "," && depth === 0) {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map((item) => item.trim()).filter(Boolean);
+}
@@ -0,0 +1,72 @@
+/**
+ * Broken file reference detection for markdown (CLAUDE.md, skills)
+ */
+
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+
+export interface BrokenLink {
+  target: string;
+  line: number;
+  /** Markdown link or CLAUDE.md @import */
+  kind: "link" | "import";
+}
+
+const LINK_PATTERN = /!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'][^)]*["'])?\s*\)/g;
+// @path imports: explicit paths, or paths whose last segment has an extension
+// (so npm scopes like @types/bun and @mentions are not treated as imports)
+const IMPORT_PATTERN = /(?:^|\s)@((?:~\/|\.{1,2}\/|\/)[^\s`)]+|[\w.-][\w./-]*\.\w+)/g;
+
+function resolvePath(target: string, baseDir: string): string {
+  if (target.startsWith("~/")) return join(homedir(), target.slice(2));
+  return isAbsolute(target) ? target : resolve(baseDir, target);
+}
+
+function isExternal(target: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("#");
+}
+
+/**
+ * Find links (and optionally @imports) to files that do not exist. Fenced code
+ * blocks and inline code are skipped.
+ */
+export function findBrokenLinks(
+  content: string,
+  baseDir: string,
+  options: { imports?: boolean } = {}
+): BrokenLink[] {
+  const broken: BrokenLink[] = [];
+  let inFence = false;
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) return;
+    const line = rawLine.replace(/`[^`]*`/g, "");
+
+    const check = (target: string, kind: BrokenLink["kind"]) => {
+      if (isExternal(target)) return;
+      let path = target.replace(/[#?].*$/, "");
+      try {
+        path = decodeURIComponent(path);
+      } catch {
+        // Keep malformed escapes as written
+      }
+      if (path && !existsSync(resolvePath(path, baseDir))) {
+        broken.push({ target, line: index + 1, kind });
+      }
+    };
+
+    for (const match of line.matchAll(LINK_PATTERN)) check(match[1], "link");
+    if (options.imports) {
+      for (const match of line.matchAll(IMPORT_PATTERN)) {
+        check(match[1].replace(/[.,;:]+$/, ""), "import");
+      }
+    }
+  });
+
+  return broken;
+}
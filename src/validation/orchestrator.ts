@@ -1,20 +1,19 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { SeniorCodeReviewerValidationFormatter } from "./formatters.js";
 import type {
-  ValidationResult,
-  ValidationReport,
+  ImprovementPlan,
   ValidationIssue,
+  ValidationResult,
   ValidationSuggestion,
-  ImprovementPlan,
 } from "./types.js";
 import type { BaseValidator } from "./validator.js";
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-import { Glob } from "mcp__claude-global-tools__glob";
-import { SeniorCodeReviewerValidationFormatter } from "./formatters.js";
 
 export interface OrchestratorOptions {
   projectPath?: string;
   validateAgents?: boolean;
   validateCommands?: boolean;
+  validateSkills?: boolean;
   validateDocumentation?: boolean;
   specificAreas?: string[];
 }
@@ -29,6 +28,7 @@ export class ValidationOrchestrator {
     this.options = {
       validateAgents: true,
       validateCommands: true,
+      validateSkills: true,
       validateDocumentation: true,
       ...options,
     };
@@ -61,7 +61,7 @@ export class ValidationOrchestrator {
     }
 
     // Skill validator
-    if (this.options.validateCommands && hasSkills) {
+    if (this.options.validateSkills && hasSkills) {
       const { SkillValidator } = await import("./validators/skill-validator.js");
       this.validators.set("skills", new SkillValidator(this.projectPath));
     }
@@ -252,8 +252,7 @@ export class ValidationOrchestrator {
    */
   private mostLikelyHypothesis(
     whatMightGoWrong: string,
-    confidence: "high" | "medium" | "low",
-    mostLikelyIssues?: string[]
+    _confidence: "high" | "medium" | "low"
   ): string[] {
     const likelyIssues = {
       permissions: [
@@ -287,40 +286,6 @@ export class ValidationOrchestrator {
     return Array.isArray(whatMightGoWrong) ? whatMightGoWrong : [whatMightGoWrong];
   }
 
-  private mostLikelyAnswer(): string[] {
-    return [
-      "permission handling is needed",
-      "error boundaries are missing",
-      "performance optimization is needed",
-      "security considerations are incomplete",
-      "documentation needs to be reviewed",
-      "testing is not comprehensive",
-      "error handling needs improvement",
-      "edge cases should be considered",
-      "API integration needs validation",
-      "error recovery should be implemented",
-      "configuration is incomplete",
-      "file access permissions need review",
-      "memory usage could be optimized",
-      "speed might be impacted",
-      "validation is missing",
-      "security considerations",
-      "testing coverage",
-      "error handling",
-      "performance optimization",
-      "documentation review",
-      "permission handling",
-      "API integration",
-      "error recovery",
-      "configuration",
-      "file access permissions",
-      "memory usage",
-      "speed",
-      "validation",
-      "security",
-    ];
-  }
-
   /**
    * Generate human-readable report
    */
@@ -332,11 +297,16 @@ export class ValidationOrchestrator {
   /**
    * Apply improvements automatically (if --apply flag used)
    */
-  async applyImprovements(plan: ImprovementPlan): Promise<void> {
+  async applyImprovements(_plan: ImprovementPlan): Promise<void> {
     // This would be implemented to actually apply the improvements
     // For now, it's a placeholder
     return;
   }
 }
 
-export { ValidationOrchestrator };
+/**
+ * Whether any validator reported a critical issue
+ */
+export function hasCriticalIssues(result: ValidationResult): boolean {
+  return Object.values(result).some((report) => report.summary.bySeverity.critical.length > 0);
+}
@@ -1,4 +1,4 @@
-import type { ValidationReport, ValidationIssue, IssueSeverity } from "./types.js";
+import type { ValidationIssue, ValidationReport } from "./types.js";
 
 export enum ValidationCategory {
   MANDATORY = "mandatory",
@@ -16,7 +16,7 @@ export interface Validator {
 export abstract class BaseValidator implements Validator {
   protected projectPath: string;
 
-  constructor(projectPath: string = ".") {
+  constructor(projectPath = ".") {
     this.projectPath = projectPath;
   }
 
@@ -71,7 +71,7 @@ export abstract class BaseValidator implements Validator {
    * MOST LIKELY improvement scoring
    */
   protected calculateImprovementScore(
-    issue: ValidationIssue,
+    _issue: ValidationIssue,
     impact: number,
     ease: number,
     urgency: number
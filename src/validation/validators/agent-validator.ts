@@ -0,0 +1,77 @@
+import { readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import {
+  DEFINITION_NAME_PATTERN,
+  checkFrontmatterSyntax,
+  checkModel,
+  checkRequiredKeys,
+  checkTools,
+  createIssueFactory,
+  listMarkdownFiles,
+} from "../definition-checks.js";
+import { parseFrontmatter } from "../frontmatter.js";
+import type { ValidationIssue } from "../types.js";
+import { BaseValidator } from "../validator.js";
+
+/**
+ * Checks sub-agent definitions in .claude/agents
+ */
+export class AgentValidator extends BaseValidator {
+  validate(): ValidationIssue[] {
+    const issue = createIssueFactory(this.projectPath);
+    const issues: ValidationIssue[] = [];
+    const names = new Map<string, string>(); // agent name -> file
+
+    for (const file of listMarkdownFiles(join(this.projectPath, ".claude", "agents"))) {
+      const frontmatter = parseFrontmatter(readFileSync(file, "utf-8"));
+      if (!frontmatter.data) {
+        issues.push(
+          ...checkFrontmatterSyntax(file, frontmatter, issue),
+          issue(file, "critical", "Agent has no frontmatter", {
+            line: 1,
+            improvement: "Start the file with --- name/description --- frontmatter",
+          })
+        );
+        continue;
+      }
+
+      issues.push(
+        ...checkFrontmatterSyntax(file, frontmatter, issue),
+        ...checkRequiredKeys(file, frontmatter, ["name", "description"], issue),
+        ...checkTools(file, frontmatter, "tools", issue),
+        ...checkModel(file, frontmatter, issue)
+      );
+
+      const name = frontmatter.data.name;
+      if (typeof name === "string" && name) {
+        if (!DEFINITION_NAME_PATTERN.test(name)) {
+          issues.push(
+            issue(file, "medium", `Agent name should be lowercase-hyphenated: ${name}`, {
+              line: frontmatter.lines.name,
+            })
+          );
+        }
+        const duplicate = names.get(name);
+        if (duplicate) {
+          issues.push(
+            issue(file, "high", `Duplicate agent name "${name}" (also in ${basename(duplicate)})`, {
+              line: frontmatter.lines.name,
+            })
+          );
+        }
+        names.set(name, file);
+      }
+
+      if (!frontmatter.body.trim()) {
+        issues.push(
+          issue(file, "high", "Agent has no system prompt", {
+            line: frontmatter.bodyLine,
+            improvement: "Describe the agent's role and process below the frontmatter",
+          })
+        );
+      }
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,45 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  checkFrontmatterSyntax,
+  checkModel,
+  checkTools,
+  createIssueFactory,
+  listMarkdownFiles,
+} from "../definition-checks.js";
+import { parseFrontmatter } from "../frontmatter.js";
+import type { ValidationIssue } from "../types.js";
+import { BaseValidator } from "../validator.js";
+
+/**
+ * Checks slash commands in .claude/commands (frontmatter is optional)
+ */
+export class CommandValidator extends BaseValidator {
+  validate(): ValidationIssue[] {
+    const issue = createIssueFactory(this.projectPath);
+    const issues: ValidationIssue[] = [];
+
+    for (const file of listMarkdownFiles(join(this.projectPath, ".claude", "commands"))) {
+      const frontmatter = parseFrontmatter(readFileSync(file, "utf-8"));
+      issues.push(
+        ...checkFrontmatterSyntax(file, frontmatter, issue),
+        ...checkTools(file, frontmatter, "allowed-tools", issue),
+        ...checkModel(file, frontmatter, issue)
+      );
+
+      if (!frontmatter.data?.description) {
+        issues.push(
+          issue(file, "low", "Command has no description (shown in the / menu)", {
+            line: 1,
+            improvement: 'Add "description:" to the frontmatter',
+          })
+        );
+      }
+      if (!frontmatter.body.trim()) {
+        issues.push(issue(file, "high", "Command has no prompt", { line: frontmatter.bodyLine }));
+      }
+    }
+
+    return issues;
+  }
+}
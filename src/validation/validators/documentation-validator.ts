@@ -0,0 +1,33 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createIssueFactory } from "../definition-checks.js";
+import { findBrokenLinks } from "../links.js";
+import type { ValidationIssue } from "../types.js";
+import { BaseValidator } from "../validator.js";
+
+/**
+ * Checks CLAUDE.md for links and @imports to files that do not exist
+ */
+export class DocumentationValidator extends BaseValidator {
+  validate(): ValidationIssue[] {
+    const issue = createIssueFactory(this.projectPath);
+    const file = join(this.projectPath, "CLAUDE.md");
+    const content = readFileSync(file, "utf-8");
+    const issues: ValidationIssue[] = [];
+
+    for (const link of findBrokenLinks(content, this.projectPath, { imports: true })) {
+      issues.push(
+        issue(file, "high", `Broken ${link.kind}: ${link.target}`, {
+          line: link.line,
+          improvement:
+            "Claude Code cannot load files that do not exist - fix or remove the reference",
+        })
+      );
+    }
+    if (!content.trim()) {
+      issues.push(issue(file, "medium", "CLAUDE.md is empty"));
+    }
+
+    return issues;
+  }
+}
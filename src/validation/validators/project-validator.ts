@@ -0,0 +1,58 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { createIssueFactory } from "../definition-checks.js";
+import type { ValidationIssue } from "../types.js";
+import { BaseValidator } from "../validator.js";
+
+/**
+ * Checks the project layout and .claude/settings files
+ */
+export class ProjectValidator extends BaseValidator {
+  validate(): ValidationIssue[] {
+    const issue = createIssueFactory(this.projectPath);
+    const issues: ValidationIssue[] = [];
+    const claudeDir = join(this.projectPath, ".claude");
+
+    if (!existsSync(claudeDir)) {
+      issues.push(
+        issue(
+          claudeDir,
+          "low",
+          "No .claude directory (no agents, commands or skills to validate)",
+          {
+            category: "optional",
+          }
+        )
+      );
+    }
+    if (!existsSync(join(this.projectPath, "CLAUDE.md"))) {
+      issues.push(
+        issue(
+          join(this.projectPath, "CLAUDE.md"),
+          "low",
+          "No CLAUDE.md with project instructions",
+          {
+            category: "optional",
+            improvement: "Run /init in Claude Code to create one",
+          }
+        )
+      );
+    }
+
+    for (const name of ["settings.json", "settings.local.json"]) {
+      const file = join(claudeDir, name);
+      if (!existsSync(file)) continue;
+      try {
+        JSON.parse(readFileSync(file, "utf-8"));
+      } catch (e) {
+        issues.push(
+          issue(file, "critical", `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`, {
+            improvement: "Claude Code ignores settings it cannot parse",
+          })
+        );
+      }
+    }
+
+    return issues;
+  }
+}
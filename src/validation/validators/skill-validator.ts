@@ -0,0 +1,107 @@
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import {
+  DEFINITION_NAME_PATTERN,
+  type IssueFactory,
+  checkFrontmatterSyntax,
+  checkModel,
+  checkRequiredKeys,
+  checkTools,
+  createIssueFactory,
+} from "../definition-checks.js";
+import { parseFrontmatter } from "../frontmatter.js";
+import { findBrokenLinks } from "../links.js";
+import type { ValidationIssue } from "../types.js";
+import { BaseValidator } from "../validator.js";
+
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 1024;
+
+/**
+ * Checks skills in .claude/skills/<name>/SKILL.md
+ */
+export class SkillValidator extends BaseValidator {
+  validate(): ValidationIssue[] {
+    const issue = createIssueFactory(this.projectPath);
+    const issues: ValidationIssue[] = [];
+    const skillsDir = join(this.projectPath, ".claude", "skills");
+
+    for (const name of readdirSync(skillsDir).sort()) {
+      const dir = join(skillsDir, name);
+      if (!statSync(dir).isDirectory()) continue;
+      const file = join(dir, "SKILL.md");
+      if (!existsSync(file)) {
+        issues.push(
+          issue(dir, "critical", "Skill directory has no SKILL.md", {
+            improvement: "Add SKILL.md with name/description frontmatter",
+          })
+        );
+        continue;
+      }
+
+      issues.push(...this.validateSkill(dir, file, issue));
+    }
+
+    return issues;
+  }
+
+  /**
+   * Check one skill's SKILL.md
+   */
+  private validateSkill(dir: string, file: string, issue: IssueFactory): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const content = readFileSync(file, "utf-8");
+    const frontmatter = parseFrontmatter(content);
+    if (!frontmatter.data) {
+      issues.push(
+        ...checkFrontmatterSyntax(file, frontmatter, issue),
+        issue(file, "critical", "Skill has no frontmatter", { line: 1 })
+      );
+      return issues;
+    }
+
+    issues.push(
+      ...checkFrontmatterSyntax(file, frontmatter, issue),
+      ...checkRequiredKeys(file, frontmatter, ["name", "description"], issue),
+      ...checkTools(file, frontmatter, "allowed-tools", issue),
+      ...checkModel(file, frontmatter, issue)
+    );
+
+    const { name: skillName, description } = frontmatter.data;
+    if (
+      typeof skillName === "string" &&
+      skillName &&
+      (!DEFINITION_NAME_PATTERN.test(skillName) || skillName.length > MAX_NAME_LENGTH)
+    ) {
+      issues.push(
+        issue(
+          file,
+          "medium",
+          `Skill name should be lowercase-hyphenated and at most ${MAX_NAME_LENGTH} characters: ${skillName}`,
+          { line: frontmatter.lines.name }
+        )
+      );
+    }
+    if (typeof description === "string" && description.length > MAX_DESCRIPTION_LENGTH) {
+      issues.push(
+        issue(
+          file,
+          "medium",
+          `Skill description is longer than ${MAX_DESCRIPTION_LENGTH} characters`,
+          { line: frontmatter.lines.description }
+        )
+      );
+    }
+
+    for (const link of findBrokenLinks(content, dir)) {
+      issues.push(
+        issue(file, "high", `Broken link: ${link.target}`, {
+          line: link.line,
+          improvement: "Fix the path or add the missing file to the skill directory",
+        })
+      );
+    }
+
+    return issues;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Tests for multiple accounts per provider and how one is picked
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  AccountSelector,
+  type ProviderAccountsConfig,
+  getAccountApiKey,
+  isValidAccountName,
+  listAccounts,
+} from "../src/auth/accounts";
+import { createCredentialStore, setCredentialStore } from "../src/auth/credential-store";
+import { isOpenRouterQuotaExhausted } from "../src/handlers/openrouter-handler";
+
+function selector(accounts: string[], settings: ProviderAccountsConfig): AccountSelector {
+  return new AccountSelector(
+    "test",
+    () => accounts,
+    () => settings
+  );
+}
+
+describe("AccountSelector", () => {
+  test("should stay on one account until its quota runs out by default", () => {
+    const accounts = selector(["default", "work", "alt"], {});
+    expect([accounts.select(), accounts.select()]).toEqual(["default", "default"]);
+
+    expect(accounts.markExhausted("default")).toBe(true);
+    expect([accounts.select(), accounts.select()]).toEqual(["work", "work"]);
+  });
+
+  test("should rotate round-robin and skip exhausted accounts", () => {
+    const accounts = selector(["default", "work", "alt"], { strategy: "round-robin" });
+    expect([accounts.select(), accounts.select(), accounts.select(), accounts.select()]).toEqual([
+      "default",
+      "work",
+      "alt",
+      "default",
+    ]);
+
+    accounts.markExhausted("alt");
+    expect([accounts.select(), accounts.select(), accounts.select()]).toEqual([
+      "work",
+      "default",
+      "default",
+    ]);
+  });
+
+  test("should keep a pinned account even when it runs out of quota", () => {
+    const accounts = selector(["default", "work"], { strategy: "pinned", pinned: "work" });
+    expect(accounts.select()).toBe("work");
+    expect(accounts.markExhausted("work")).toBe(false);
+    expect(accounts.select()).toBe("work");
+  });
+
+  test("should report when every account is exhausted", () => {
+    const accounts = selector(["default", "work"], {});
+    expect(accounts.markExhausted("default")).toBe(true);
+    expect(accounts.select()).toBe("work");
+    expect(accounts.markExhausted("work")).toBe(false);
+    expect(accounts.select()).toBe("work");
+  });
+
+  test("should fall back to the default account when none are set up", () => {
+    expect(selector([], {}).select()).toBe("default");
+  });
+});
+
+describe("stored accounts", () => {
+  let dir: string;
+  const savedKey = process.env.OPENROUTER_API_KEY;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "claudish-accounts-"));
+    Reflect.deleteProperty(process.env, "OPENROUTER_API_KEY");
+  });
+
+  afterAll(() => {
+    setCredentialStore(null);
+    rmSync(dir, { recursive: true, force: true });
+    if (savedKey !== undefined) process.env.OPENROUTER_API_KEY = savedKey;
+  });
+
+  test("should list named accounts stored next to the default key", () => {
+    const store = createCredentialStore("file", { dir });
+    setCredentialStore(store);
+    store.set("OPENROUTER_API_KEY:work", "sk-or-work");
+    store.set("OPENROUTER_API_KEY_OTHER", "unrelated");
+
+    expect(listAccounts("OPENROUTER_API_KEY", false)).toEqual(["work"]);
+    expect(listAccounts("OPENROUTER_API_KEY", true)).toEqual(["default", "work"]);
+    expect(getAccountApiKey("OPENROUTER_API_KEY", "work")).toBe("sk-or-work");
+
+    process.env.OPENROUTER_API_KEY = "sk-or-env";
+    expect(getAccountApiKey("OPENROUTER_API_KEY", "default")).toBe("sk-or-env");
+    Reflect.deleteProperty(process.env, "OPENROUTER_API_KEY");
+  });
+
+  test("should only accept simple account names", () => {
+    expect(isValidAccountName("work-2")).toBe(true);
+    expect(isValidAccountName("")).toBe(false);
+    expect(isValidAccountName("a:b")).toBe(false);
+  });
+});
+
+describe("isOpenRouterQuotaExhausted", () => {
+  test("should tell daily limits and empty credit from rate limits", () => {
+    expect(isOpenRouterQuotaExhausted(402, "Insufficient credits")).toBe(true);
+    expect(isOpenRouterQuotaExhausted(429, "Rate limit exceeded: free-models-per-day")).toBe(true);
+    expect(isOpenRouterQuotaExhausted(429, "Rate limit exceeded, retry shortly")).toBe(false);
+    expect(isOpenRouterQuotaExhausted(500, "daily")).toBe(false);
+  });
+});
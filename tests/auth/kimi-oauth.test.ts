@@ -4,16 +4,24 @@
  * NO implementation details - tests validate behavior only
  */
 
-import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
-import { existsSync, readFileSync, unlinkSync, writeFileSync, mkdirSync } from "node:fs";
+import { describe, test, expect, beforeEach, afterEach, afterAll, mock } from "bun:test";
+import { existsSync, readFileSync, unlinkSync, mkdirSync, mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
-import { homedir } from "node:os";
+import { homedir, tmpdir } from "node:os";
+import { createCredentialStore, setCredentialStore } from "../../src/auth/credential-store.js";
 
 // Test setup - File paths for credential storage
 const CLAUDISH_DIR = join(homedir(), ".claudish");
-const CRED_PATH = join(CLAUDISH_DIR, "kimi-oauth.json");
 const DEVICE_ID_PATH = join(CLAUDISH_DIR, "kimi-device-id");
 
+// Credentials go to a throwaway credential store
+const CRED_NAME = "kimi-oauth";
+const STORE_DIR = mkdtempSync(join(tmpdir(), "claudish-kimi-test-"));
+const store = createCredentialStore("file", { dir: STORE_DIR });
+const hasStoredCredentials = () => store.get(CRED_NAME) !== undefined;
+const writeStoredCredentials = (creds: object) => store.set(CRED_NAME, JSON.stringify(creds));
+const readStoredCredentials = () => JSON.parse(store.get(CRED_NAME) ?? "null");
+
 // Ensure test directory exists
 if (!existsSync(CLAUDISH_DIR)) {
   mkdirSync(CLAUDISH_DIR, { recursive: true });
@@ -25,7 +33,8 @@ const originalFetch = globalThis.fetch;
 
 beforeEach(() => {
   // Clean up any existing test files
-  if (existsSync(CRED_PATH)) unlinkSync(CRED_PATH);
+  setCredentialStore(store);
+  store.delete(CRED_NAME);
   if (existsSync(DEVICE_ID_PATH)) unlinkSync(DEVICE_ID_PATH);
 
   // Reset environment variables
@@ -40,9 +49,14 @@ beforeEach(() => {
   (KimiOAuth as any)['instance'] = null;
 });
 
+afterAll(() => {
+  rmSync(STORE_DIR, { recursive: true, force: true });
+});
+
 afterEach(() => {
   // Cleanup test files
-  if (existsSync(CRED_PATH)) unlinkSync(CRED_PATH);
+  store.delete(CRED_NAME);
+  setCredentialStore(null);
   if (existsSync(DEVICE_ID_PATH)) unlinkSync(DEVICE_ID_PATH);
 
   // Restore original fetch
@@ -315,6 +329,49 @@ describe("KimiOAuth - Device Authorization Login Flow", () => {
     expect(result.token_type).toBe("Bearer");
   });
 
+  test("TEST-11b: Headless login prints the code without opening a browser", async () => {
+    mockFetch = mock(async (url: string) => {
+      if (url.includes("/device_authorization")) {
+        return new Response(JSON.stringify({
+          user_code: "V0L5-RAWT",
+          device_code: "test-device-code-12345",
+          verification_uri: "https://www.kimi.com/code/authorize_device",
+          verification_uri_complete: "https://www.kimi.com/code/authorize_device?user_code=V0L5-RAWT",
+          expires_in: 300,
+          interval: 0.001
+        }), { status: 200 });
+      }
+      if (url.includes("/token")) {
+        return new Response(JSON.stringify({
+          access_token: "headless-access",
+          refresh_token: "headless-refresh",
+          expires_in: 3600,
+          scope: "api",
+          token_type: "Bearer"
+        }), { status: 200 });
+      }
+      return new Response("Not found", { status: 404 });
+    });
+    globalThis.fetch = mockFetch;
+
+    const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
+    const oauth = KimiOAuth.getInstance();
+    const openBrowser = mock(async () => {});
+    (oauth as any).openBrowser = openBrowser;
+    const originalLog = console.log;
+    const printed: string[] = [];
+    console.log = (...args: any[]) => printed.push(args.join(" "));
+    try {
+      await oauth.login({ noBrowser: true });
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(openBrowser).not.toHaveBeenCalled();
+    expect(printed.join("\n")).toContain("V0L5-RAWT");
+    expect(readStoredCredentials().access_token).toBe("headless-access");
+  });
+
   test("TEST-12: Polling timeout after 300 seconds", async () => {
     mockFetch = mock(async (url: string, options: any) => {
       if (url.includes("/token")) {
@@ -390,12 +447,12 @@ describe("KimiOAuth - Token Storage", () => {
 
     await (oauth as any).saveCredentials(testCreds);
 
-    expect(existsSync(CRED_PATH)).toBe(true);
+    expect(hasStoredCredentials()).toBe(true);
 
     // Check file permissions (Unix-like systems)
     if (process.platform !== "win32") {
       const { statSync } = await import("node:fs");
-      const stats = statSync(CRED_PATH);
+      const stats = statSync(store.location);
       const mode = stats.mode & 0o777;
       expect(mode).toBe(0o600); // rw-------
     }
@@ -416,7 +473,7 @@ describe("KimiOAuth - Token Storage", () => {
 
     await (oauth as any).saveCredentials(testCreds);
 
-    const saved = JSON.parse(readFileSync(CRED_PATH, "utf-8"));
+    const saved = readStoredCredentials();
 
     expect(saved).toHaveProperty("access_token");
     expect(saved).toHaveProperty("refresh_token");
@@ -453,7 +510,7 @@ describe("KimiOAuth - Token Storage", () => {
     };
     await (oauth as any).saveCredentials(creds2);
 
-    const saved = JSON.parse(readFileSync(CRED_PATH, "utf-8"));
+    const saved = readStoredCredentials();
     expect(saved.access_token).toBe("token2");
     expect(saved.refresh_token).toBe("refresh2");
   });
@@ -477,7 +534,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(validCreds), { mode: 0o600 });
+    writeStoredCredentials(validCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -495,7 +552,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(invalidCreds), { mode: 0o600 });
+    writeStoredCredentials(invalidCreds);
 
     const oauth2 = KimiOAuth.getInstance();
     expect((oauth2 as any).isTokenValid()).toBe(false);
@@ -526,7 +583,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(expiringCreds), { mode: 0o600 });
+    writeStoredCredentials(expiringCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -537,7 +594,7 @@ describe("KimiOAuth - Token Refresh", () => {
     expect(token).toBe("new-access-token");
 
     // Verify credentials updated
-    const saved = JSON.parse(readFileSync(CRED_PATH, "utf-8"));
+    const saved = readStoredCredentials();
     expect(saved.access_token).toBe("new-access-token");
     expect(saved.refresh_token).toBe("new-refresh-token");
   });
@@ -570,7 +627,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(expiringCreds), { mode: 0o600 });
+    writeStoredCredentials(expiringCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -614,7 +671,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(expiringCreds), { mode: 0o600 });
+    writeStoredCredentials(expiringCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -646,7 +703,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(invalidCreds), { mode: 0o600 });
+    writeStoredCredentials(invalidCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -687,7 +744,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(expiringCreds), { mode: 0o600 });
+    writeStoredCredentials(expiringCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -722,7 +779,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(oldCreds), { mode: 0o600 });
+    writeStoredCredentials(oldCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -730,7 +787,7 @@ describe("KimiOAuth - Token Refresh", () => {
     await oauth.getAccessToken();
 
     // Read updated credentials
-    const saved = JSON.parse(readFileSync(CRED_PATH, "utf-8"));
+    const saved = readStoredCredentials();
 
     expect(saved.access_token).toBe("refreshed-access-token");
     expect(saved.refresh_token).toBe("refreshed-refresh-token");
@@ -758,7 +815,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(invalidCreds), { mode: 0o600 });
+    writeStoredCredentials(invalidCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -768,7 +825,7 @@ describe("KimiOAuth - Token Refresh", () => {
       .rejects.toThrow(/OAuth_FALLBACK_TO_API_KEY/);
 
     // Credentials file should be deleted
-    expect(existsSync(CRED_PATH)).toBe(false);
+    expect(hasStoredCredentials()).toBe(false);
   });
 
   test("TEST-25: Token refresh failure without API key", async () => {
@@ -793,7 +850,7 @@ describe("KimiOAuth - Token Refresh", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(invalidCreds), { mode: 0o600 });
+    writeStoredCredentials(invalidCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -803,7 +860,7 @@ describe("KimiOAuth - Token Refresh", () => {
       .rejects.toThrow(/kimi-login|MOONSHOT_API_KEY/i);
 
     // Credentials file should be deleted
-    expect(existsSync(CRED_PATH)).toBe(false);
+    expect(hasStoredCredentials()).toBe(false);
   });
 });
 
@@ -825,13 +882,13 @@ describe("KimiOAuth - Logout", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(testCreds), { mode: 0o600 });
+    writeStoredCredentials(testCreds);
 
-    expect(existsSync(CRED_PATH)).toBe(true);
+    expect(hasStoredCredentials()).toBe(true);
 
     await oauth.logout();
 
-    expect(existsSync(CRED_PATH)).toBe(false);
+    expect(hasStoredCredentials()).toBe(false);
   });
 
   test("TEST-27: Logout clears in-memory state", async () => {
@@ -843,7 +900,7 @@ describe("KimiOAuth - Logout", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(testCreds), { mode: 0o600 });
+    writeStoredCredentials(testCreds);
 
     const { KimiOAuth } = await import("../../src/auth/kimi-oauth.js");
     const oauth = KimiOAuth.getInstance();
@@ -875,7 +932,7 @@ describe("KimiOAuth - API Key Priority", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(validCreds), { mode: 0o600 });
+    writeStoredCredentials(validCreds);
 
     // Import provider resolver function to test priority
     const { default: providerResolver } = await import("../../src/providers/provider-resolver.js");
@@ -898,7 +955,7 @@ describe("KimiOAuth - API Key Priority", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(validCreds), { mode: 0o600 });
+    writeStoredCredentials(validCreds);
 
     // API key alias should be detected
     expect(process.env.KIMI_API_KEY).toBeDefined();
@@ -917,11 +974,11 @@ describe("KimiOAuth - API Key Priority", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(validCreds), { mode: 0o600 });
+    writeStoredCredentials(validCreds);
 
     // OAuth token should be available
-    expect(existsSync(CRED_PATH)).toBe(true);
-    const saved = JSON.parse(readFileSync(CRED_PATH, "utf-8"));
+    expect(hasStoredCredentials()).toBe(true);
+    const saved = readStoredCredentials();
     expect(saved.access_token).toBe("oauth-token");
   });
 
@@ -937,9 +994,9 @@ describe("KimiOAuth - API Key Priority", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(expiringCreds), { mode: 0o600 });
+    writeStoredCredentials(expiringCreds);
 
-    const saved = JSON.parse(readFileSync(CRED_PATH, "utf-8"));
+    const saved = readStoredCredentials();
     const isValid = saved.expires_at > now + bufferMs;
 
     expect(isValid).toBe(false); // Should be invalid due to buffer
@@ -963,14 +1020,14 @@ describe("KimiOAuth - Base URL Selection", () => {
       scope: "api",
       token_type: "Bearer"
     };
-    writeFileSync(CRED_PATH, JSON.stringify(validCreds), { mode: 0o600 });
+    writeStoredCredentials(validCreds);
 
     // Expected behavior: OAuth mode uses fixed endpoint
     // This is architecture requirement FR6 - OAuth uses api.kimi.com/coding/v1
     const expectedOAuthUrl = "https://api.kimi.com/coding/v1";
 
     // Validation: When OAuth token exists, custom URL should be ignored
-    expect(existsSync(CRED_PATH)).toBe(true);
+    expect(hasStoredCredentials()).toBe(true);
     // Implementation should check token validity and use OAuth endpoint
   });
 
@@ -980,7 +1037,7 @@ describe("KimiOAuth - Base URL Selection", () => {
     process.env.MOONSHOT_BASE_URL = "https://custom.api.example.com";
 
     // No OAuth token
-    if (existsSync(CRED_PATH)) unlinkSync(CRED_PATH);
+    store.delete(CRED_NAME);
 
     // Expected behavior: API key mode should use custom URL
     expect(process.env.MOONSHOT_BASE_URL).toBe("https://custom.api.example.com");
@@ -993,7 +1050,7 @@ describe("KimiOAuth - Base URL Selection", () => {
     delete process.env.KIMI_BASE_URL;
 
     // No OAuth token
-    if (existsSync(CRED_PATH)) unlinkSync(CRED_PATH);
+    store.delete(CRED_NAME);
 
     // Expected behavior: Should default to api.moonshot.ai
     const expectedDefault = "https://api.moonshot.ai";
@@ -0,0 +1,50 @@
+/**
+ * Tests for the headless OAuth login helpers
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+  isHeadlessEnvironment,
+  parseAuthorizationResponse,
+  shouldOpenBrowser,
+} from "../../src/auth/oauth-login";
+
+describe("parseAuthorizationResponse", () => {
+  test("should take a bare code as is", () => {
+    expect(parseAuthorizationResponse("  4/0AanRRrt-code  \n")).toEqual({
+      code: "4/0AanRRrt-code",
+    });
+  });
+
+  test("should read the code and state from a pasted redirect URL", () => {
+    expect(
+      parseAuthorizationResponse(
+        "http://localhost:8085/callback?state=abc&code=4%2F0Aan&scope=email"
+      )
+    ).toEqual({ code: "4/0Aan", state: "abc", error: undefined });
+    expect(parseAuthorizationResponse("code=xyz&state=s1")).toMatchObject({
+      code: "xyz",
+      state: "s1",
+    });
+  });
+
+  test("should surface an OAuth error", () => {
+    expect(
+      parseAuthorizationResponse("https://codeassist.google.com/authcode?error=access_denied")
+    ).toMatchObject({ code: undefined, error: "access_denied" });
+    expect(parseAuthorizationResponse("   ")).toEqual({});
+  });
+});
+
+describe("headless detection", () => {
+  test("should treat SSH sessions as headless", () => {
+    expect(
+      isHeadlessEnvironment({ SSH_CONNECTION: "10.0.0.1 22 10.0.0.2 22", DISPLAY: ":0" })
+    ).toBe(true);
+  });
+
+  test("should let the flag override detection", () => {
+    expect(shouldOpenBrowser({ noBrowser: true })).toBe(false);
+    expect(shouldOpenBrowser({ noBrowser: false })).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for the tool-call reliability bench (claudish bench)
+ */
+
+import { describe, expect, test } from "bun:test";
+import { formatBenchTable } from "../src/bench-command";
+import { checkToolInput, parseMessageStream, runBench } from "../src/bench/runner";
+import { BENCH_CASES, BENCH_TOOLS } from "../src/bench/suite";
+
+const tool = (name: string) => BENCH_TOOLS.find((t) => t.name === name)!;
+
+describe("checkToolInput", () => {
+  test("should accept schema-correct arguments", () => {
+    expect(checkToolInput(tool("Read"), { file_path: "/repo/a.ts", limit: 20 })).toEqual([]);
+  });
+
+  test("should report missing, unknown and mistyped arguments", () => {
+    expect(checkToolInput(tool("Edit"), { file_path: "/repo/a.ts", old_string: "a" })).toEqual([
+      "missing new_string",
+    ]);
+    expect(checkToolInput(tool("Read"), { path: "/repo/a.ts", limit: "20" })).toEqual([
+      "missing file_path",
+      "unknown path",
+      "limit should be number, got string",
+    ]);
+  });
+});
+
+describe("parseMessageStream", () => {
+  test("should collect text, tool calls and the stop reason", () => {
+    const events = [
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "On it." } },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "t1", name: "Read" },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '{"file_path":' },
+      },
+      {
+        type: "content_block_delta",
+        index: 1,
+        delta: { type: "input_json_delta", partial_json: '"/repo/a.ts"}' },
+      },
+      { type: "message_delta", delta: { stop_reason: "tool_use" } },
+    ];
+    const sse = events.map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n`).join("\n");
+    expect(parseMessageStream(sse)).toEqual({
+      text: "On it.",
+      toolUses: [{ name: "Read", input: { file_path: "/repo/a.ts" } }],
+      stopReason: "tool_use",
+    });
+  });
+});
+
+describe("runBench offline", () => {
+  test("should score structured, repaired and extracted tool calls", async () => {
+    const report = await runBench({
+      models: ["oai@gpt-4o", "oai@mock-renamed-args", "oai@mock-text-tools"],
+      cases: BENCH_CASES.filter((c) => ["read-file", "edit-after-read"].includes(c.name)),
+      offline: true,
+    });
+    const summary = Object.fromEntries(report.models.map((s) => [s.model, s]));
+
+    expect(report.offline).toBe(true);
+    expect(report.results).toHaveLength(6);
+    expect(summary["oai@gpt-4o"]).toMatchObject({ cases: 2, correct: 2, schemaValid: 2 });
+    expect(summary["oai@gpt-4o"].repaired + summary["oai@gpt-4o"].extracted).toBe(0);
+
+    // "path" is repaired to file_path for Read, Edit has no alias to repair from
+    expect(summary["oai@mock-renamed-args"]).toMatchObject({ correct: 1, repaired: 1 });
+    expect(summary["oai@mock-text-tools"]).toMatchObject({ correct: 2, extracted: 2 });
+
+    const table = formatBenchTable(report.models);
+    // Best models first
+    expect(table.split("\n").at(-1)).toStartWith("oai@mock-renamed-args");
+    expect(table).toContain("CORRECT");
+  });
+});
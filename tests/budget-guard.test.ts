@@ -0,0 +1,110 @@
+/**
+ * Tests for session budget enforcement (--budget / profile budget)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createProxyServer } from "../src/proxy-server";
+import { BudgetGuard } from "../src/services/budget-guard";
+import { recordCost } from "../src/services/cost-ledger";
+
+describe("BudgetGuard", () => {
+  let dir: string;
+  let statusFile: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claudish-budget-"));
+    statusFile = join(dir, "budget-1234.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should move from ok to warning to exceeded", () => {
+    const guard = new BudgetGuard({ limit: 5 }, statusFile);
+    expect(guard.getState()).toBe("ok");
+    expect(guard.getStatusText()).toBe("");
+
+    guard.addCost(3.9);
+    expect(guard.getState()).toBe("ok");
+
+    guard.addCost(0.2);
+    expect(guard.getState()).toBe("warning");
+    expect(guard.getStatusText()).toBe("BUDGET 82% $4.10/$5.00");
+    expect(guard.isExceeded()).toBe(false);
+
+    guard.addCost(1);
+    expect(guard.getState()).toBe("exceeded");
+    expect(guard.isExceeded()).toBe(true);
+  });
+
+  test("should honor a custom warning threshold and ignore free requests", () => {
+    const guard = new BudgetGuard({ limit: 10, warnAt: 0.5 }, null);
+    guard.addCost(0);
+    guard.addCost(Number.NaN);
+    expect(guard.getSpent()).toBe(0);
+
+    guard.addCost(5);
+    expect(guard.getState()).toBe("warning");
+  });
+
+  test("should write status line data and remove it on dispose", () => {
+    const guard = new BudgetGuard({ limit: 1, downgradeModel: "ollama@qwen3" }, statusFile);
+    guard.addCost(1.5);
+
+    const status = JSON.parse(readFileSync(statusFile, "utf-8"));
+    expect(status.state).toBe("exceeded");
+    expect(status.status_text).toBe("BUDGET HIT $1.50/$1.00 -> ollama@qwen3");
+
+    guard.dispose();
+    expect(existsSync(statusFile)).toBe(false);
+  });
+
+  test("should build an Anthropic-format error", () => {
+    const guard = new BudgetGuard({ limit: 2 }, null);
+    guard.addCost(2.5);
+    const error = guard.createExceededError();
+    expect(error.type).toBe("error");
+    expect(error.error.type).toBe("billing_error");
+    expect(error.error.message).toContain("$2.50 of $2.00");
+  });
+});
+
+describe("Proxy budget enforcement", () => {
+  test("should reject /v1/messages once the session budget is exceeded", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "claudish-budget-proxy-"));
+    const proxy = await createProxyServer(
+      38765,
+      undefined,
+      "claude-3-haiku",
+      false,
+      undefined,
+      undefined,
+      { budget: { limit: 0.5 } }
+    );
+
+    try {
+      recordCost(
+        { provider: "openrouter", model: "x-ai/grok-4", inputTokens: 1, outputTokens: 1, cost: 1 },
+        join(dir, "cost-ledger.jsonl")
+      );
+
+      const response = await fetch(`${proxy.url}/v1/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "claude-3-haiku", messages: [], max_tokens: 10 }),
+      });
+
+      expect(response.status).toBe(402);
+      const body = await response.json();
+      expect(body.type).toBe("error");
+      expect(body.error.type).toBe("billing_error");
+    } finally {
+      await proxy.shutdown();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the OpenAI Chat Completions front door (/v1/chat/completions, /v1/models)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import { toAnthropicRequest } from "../src/services/chat-completions";
+import type { ProxyServer } from "../src/types";
+
+const READ_TOOL = {
+  type: "function",
+  function: {
+    name: "Read",
+    description: "Read a file",
+    parameters: {
+      type: "object",
+      properties: { file_path: { type: "string" } },
+      required: ["file_path"],
+    },
+  },
+};
+
+describe("toAnthropicRequest", () => {
+  test("should translate messages, tool calls and options", () => {
+    const request = toAnthropicRequest({
+      model: "g@gemini-2.5-flash",
+      max_tokens: 100,
+      temperature: 0.2,
+      stop: "END",
+      tools: [READ_TOOL],
+      tool_choice: "required",
+      messages: [
+        { role: "system", content: "Be brief." },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "What is in this file?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+          ],
+        },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            {
+              id: "call_1",
+              type: "function",
+              function: { name: "Read", arguments: '{"file_path":"/tmp/a"}' },
+            },
+            {
+              id: "call_2",
+              type: "function",
+              function: { name: "Read", arguments: '{"file_path":"/tmp/b"}' },
+            },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_1", content: "alpha" },
+        { role: "tool", tool_call_id: "call_2", content: "beta" },
+      ],
+    });
+
+    expect(request).toMatchObject({
+      model: "g@gemini-2.5-flash",
+      max_tokens: 100,
+      stream: true,
+      system: "Be brief.",
+      temperature: 0.2,
+      stop_sequences: ["END"],
+      tool_choice: { type: "any" },
+      tools: [{ name: "Read", input_schema: READ_TOOL.function.parameters }],
+    });
+    expect(request.messages.map((m: any) => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(request.messages[0].content[1]).toEqual({
+      type: "image",
+      source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" },
+    });
+    expect(request.messages[1].content[0]).toEqual({
+      type: "tool_use",
+      id: "call_1",
+      name: "Read",
+      input: { file_path: "/tmp/a" },
+    });
+    expect(request.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "call_1", content: "alpha" },
+      { type: "tool_result", tool_use_id: "call_2", content: "beta" },
+    ]);
+  });
+});
+
+describe("Chat Completions through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "OPENAI_API_KEY", "GEMINI_BASE_URL", "GEMINI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    process.env.GEMINI_BASE_URL = mock.url;
+    process.env.GEMINI_API_KEY = "mock-key";
+    proxy = await createProxyServer(0, undefined, "oai@gpt-4o", false, undefined, {
+      sonnet: "g@gemini-2.5-flash-tool_call",
+    });
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const complete = (body: Record<string, unknown>) =>
+    fetch(`${proxy.url}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        messages: [{ role: "user", content: "Read /tmp/example.txt" }],
+        ...body,
+      }),
+    });
+
+  test("should stream chat.completion.chunk events", async () => {
+    const res = await complete({
+      model: "oai@gpt-4o",
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+    const lines = (await res.text()).split("\n").filter((line) => line.startsWith("data: "));
+    expect(lines.at(-1)).toBe("data: [DONE]");
+    const chunks = lines.slice(0, -1).map((line) => JSON.parse(line.slice(6)));
+
+    expect(chunks.every((chunk) => chunk.object === "chat.completion.chunk")).toBe(true);
+    const text = chunks.map((chunk) => chunk.choices[0]?.delta.content || "").join("");
+    expect(text).toBe("Hello from the mock upstream.");
+    expect(chunks.at(-2).choices[0].finish_reason).toBe("stop");
+    expect(chunks.at(-1).usage.completion_tokens).toBeGreaterThan(0);
+  });
+
+  test("should return tool calls as one chat.completion", async () => {
+    const res = await complete({ model: "claude-sonnet-4-5", tools: [READ_TOOL] });
+    const completion = await res.json();
+
+    expect(mock.requests.at(-1)?.format).toBe("gemini");
+    expect(completion.object).toBe("chat.completion");
+    expect(completion.choices[0].finish_reason).toBe("tool_calls");
+    const message = completion.choices[0].message;
+    expect(message.content).toBe("Let me read that file.");
+    expect(message.tool_calls).toHaveLength(1);
+    expect(message.tool_calls[0].function.name).toBe("Read");
+    expect(JSON.parse(message.tool_calls[0].function.arguments)).toEqual({
+      file_path: "/tmp/example.txt",
+    });
+  });
+
+  test("should answer upstream errors in the OpenAI error format", async () => {
+    const res = await complete({ model: "oai@gpt-4o-server_error" });
+    expect(res.status).toBeGreaterThanOrEqual(400);
+    const body = await res.json();
+    expect(typeof body.error.message).toBe("string");
+    expect(body.error).toHaveProperty("type");
+  });
+
+  test("should list the configured models", async () => {
+    const res = await fetch(`${proxy.url}/v1/models`);
+    const body = await res.json();
+    expect(body.object).toBe("list");
+    expect(body.data.map((m: any) => m.id)).toEqual(["oai@gpt-4o", "g@gemini-2.5-flash-tool_call"]);
+    expect(body.data[1].owned_by).toBe("google");
+  });
+});
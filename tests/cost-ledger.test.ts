@@ -0,0 +1,204 @@
+/**
+ * Tests for the persistent cost ledger and `claudish costs` aggregation
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Hono } from "hono";
+import { formatCostTable, parseSince } from "../src/costs-command";
+import { NativeHandler } from "../src/handlers/native-handler";
+import { createMockUpstream } from "../src/mock-upstream/server";
+import {
+  type CostLedgerEntry,
+  aggregateCosts,
+  filterCostEntries,
+  onCostRecorded,
+  readCostLedger,
+  recordCost,
+  resetCostLedger,
+  runWithCostContext,
+} from "../src/services/cost-ledger";
+
+function entry(overrides: Partial<CostLedgerEntry>): CostLedgerEntry {
+  return {
+    timestamp: "2025-06-01T10:00:00.000Z",
+    project: "/work/app",
+    provider: "openrouter",
+    model: "x-ai/grok-code-fast-1",
+    inputTokens: 1000,
+    outputTokens: 100,
+    cachedTokens: 0,
+    cost: 0.01,
+    estimated: false,
+    ...overrides,
+  };
+}
+
+describe("cost ledger storage", () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "claudish-ledger-"));
+    ledgerPath = join(dir, "nested", "cost-ledger.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should append entries with project and defaults filled in", () => {
+    recordCost(
+      {
+        provider: "gemini",
+        model: "gemini-2.5-flash",
+        inputTokens: 10,
+        outputTokens: 5,
+        cost: 0.1,
+      },
+      ledgerPath
+    );
+    recordCost(
+      {
+        provider: "openai",
+        model: "gpt-5",
+        inputTokens: 20,
+        outputTokens: 8,
+        cachedTokens: 4,
+        cost: 0.2,
+        estimated: true,
+      },
+      ledgerPath
+    );
+
+    const entries = readCostLedger(ledgerPath);
+    expect(entries).toHaveLength(2);
+    expect(entries[0].project).toBe(process.cwd());
+    expect(entries[0].cachedTokens).toBe(0);
+    expect(entries[0].estimated).toBe(false);
+    expect(entries[1].cachedTokens).toBe(4);
+    expect(entries[1].estimated).toBe(true);
+  });
+
+  test("should tag entries with the request's cost context, including async work", async () => {
+    await runWithCostContext({ role: "opus", requestedModel: "claude-opus-4" }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      recordCost(
+        { provider: "ollama", model: "qwen3", inputTokens: 1, outputTokens: 1, cost: 0 },
+        ledgerPath
+      );
+    });
+    recordCost(
+      { provider: "ollama", model: "qwen3", inputTokens: 1, outputTokens: 1, cost: 0 },
+      ledgerPath
+    );
+
+    const [inside, outside] = readCostLedger(ledgerPath);
+    expect(inside.role).toBe("opus");
+    expect(inside.requestedModel).toBe("claude-opus-4");
+    expect(outside.role).toBeUndefined();
+  });
+
+  test("should skip malformed lines and reset the ledger", () => {
+    const path = join(dir, "cost-ledger.jsonl");
+    writeFileSync(path, `${JSON.stringify(entry({}))}\n{"trunc`);
+    expect(readCostLedger(path)).toHaveLength(1);
+
+    resetCostLedger(path);
+    expect(readCostLedger(path)).toEqual([]);
+  });
+});
+
+describe("cost aggregation", () => {
+  const entries = [
+    entry({ timestamp: "2025-06-02T09:00:00.000Z", cost: 0.5, role: "opus" }),
+    entry({ timestamp: "2025-06-01T09:00:00.000Z", cost: 0.25, project: "/work/lib" }),
+    entry({
+      timestamp: "2025-06-02T12:00:00.000Z",
+      provider: "gemini",
+      model: "gemini-2.5-pro",
+      cost: 1,
+      estimated: true,
+    }),
+  ];
+
+  test("should group by project and sort by cost", () => {
+    const rows = aggregateCosts(entries, "project");
+    expect(rows.map((r) => r.key)).toEqual(["/work/app", "/work/lib"]);
+    expect(rows[0].requests).toBe(2);
+    expect(rows[0].cost).toBeCloseTo(1.5, 6);
+    expect(rows[0].estimated).toBe(true);
+    expect(rows[1].estimated).toBe(false);
+  });
+
+  test("should group by model, provider, role and day", () => {
+    expect(aggregateCosts(entries, "model").map((r) => r.key)).toEqual([
+      "gemini@gemini-2.5-pro",
+      "openrouter@x-ai/grok-code-fast-1",
+    ]);
+    expect(aggregateCosts(entries, "provider")[0].key).toBe("gemini");
+    expect(aggregateCosts(entries, "role").map((r) => r.key)).toEqual(["(unmapped)", "opus"]);
+    expect(aggregateCosts(entries, "day").map((r) => r.key)).toEqual(["2025-06-01", "2025-06-02"]);
+  });
+
+  test("should filter by time and project", () => {
+    const since = new Date("2025-06-02T00:00:00.000Z");
+    expect(filterCostEntries(entries, { since })).toHaveLength(2);
+    expect(filterCostEntries(entries, { project: "/work/lib" })).toHaveLength(1);
+  });
+
+  test("should render a table with a total row and estimate markers", () => {
+    const table = formatCostTable(aggregateCosts(entries, "provider"), "provider");
+    const lines = table.split("\n");
+    expect(lines[0]).toContain("PROVIDER");
+    expect(table).toContain("~$1.00");
+    expect(lines[lines.length - 1]).toMatch(/^TOTAL\s+3\s/);
+    expect(lines[lines.length - 1]).toContain("~$1.75");
+  });
+});
+
+describe("parseSince", () => {
+  const now = new Date("2025-06-10T00:00:00.000Z");
+
+  test("should parse relative durations", () => {
+    expect(parseSince("7d", now)?.toISOString()).toBe("2025-06-03T00:00:00.000Z");
+    expect(parseSince("12h", now)?.toISOString()).toBe("2025-06-09T12:00:00.000Z");
+  });
+
+  test("should parse dates and reject garbage", () => {
+    expect(parseSince("2025-06-01", now)?.toISOString()).toBe("2025-06-01T00:00:00.000Z");
+    expect(parseSince("soon", now)).toBeNull();
+  });
+});
+
+describe("native Anthropic passthrough", () => {
+  test("should record spend from message_start and message_delta usage", async () => {
+    const mock = await createMockUpstream();
+    const costs: CostLedgerEntry[] = [];
+    const stopCosts = onCostRecorded((e) => costs.push(e));
+    try {
+      const handler = new NativeHandler();
+      (handler as any).baseUrl = mock.url;
+      const app = new Hono();
+      app.post("/v1/messages", async (c) =>
+        runWithCostContext({ session: "native-test" }, () =>
+          handler.handle(c, { model: "claude-sonnet-4-5", stream: true, messages: [] })
+        )
+      );
+      const response = await app.request("/v1/messages", { method: "POST", body: "{}" });
+      await response.text();
+
+      const recorded = costs.filter((e) => e.session === "native-test");
+      expect(recorded).toHaveLength(1);
+      expect(recorded[0]).toMatchObject({ provider: "anthropic", model: "claude-sonnet-4-5" });
+      expect(recorded[0].inputTokens).toBeGreaterThan(0);
+      expect(recorded[0].outputTokens).toBeGreaterThan(1);
+      expect(recorded[0].cost).toBeGreaterThan(0);
+    } finally {
+      stopCosts();
+      await mock.stop();
+    }
+  });
+});
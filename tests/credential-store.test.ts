@@ -0,0 +1,160 @@
+/**
+ * Tests for the credential store backends and stored API keys
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  applyStoredApiKeys,
+  createCredentialStore,
+  getApiKey,
+  setCredentialStore,
+} from "../src/auth/credential-store";
+import { runClaudeWithProxy } from "../src/claude-runner";
+import { resolveModelProvider } from "../src/providers/provider-resolver";
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "claudish-credentials-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("file store", () => {
+  test("should save, list and delete credentials in a private file", () => {
+    const store = createCredentialStore("file", { dir });
+    store.set("OPENAI_API_KEY", "sk-test-1234");
+    store.set("gemini-oauth", '{"refresh_token":"r"}');
+
+    expect(store.get("OPENAI_API_KEY")).toBe("sk-test-1234");
+    expect(store.list()).toEqual(["OPENAI_API_KEY", "gemini-oauth"]);
+    if (process.platform !== "win32") {
+      expect(statSync(store.location).mode & 0o777).toBe(0o600);
+    }
+
+    expect(store.delete("OPENAI_API_KEY")).toBe(true);
+    expect(store.delete("OPENAI_API_KEY")).toBe(false);
+    expect(createCredentialStore("file", { dir }).list()).toEqual(["gemini-oauth"]);
+  });
+
+  test("should refuse to overwrite a file it cannot read", () => {
+    const store = createCredentialStore("file", { dir: join(dir, "corrupt") });
+    store.set("OPENAI_API_KEY", "sk-test-1234");
+    writeFileSync(store.location, "{ not json");
+
+    expect(() => store.set("ZAI_API_KEY", "zai-key")).toThrow("Fix or remove the file");
+    expect(readFileSync(store.location, "utf-8")).toBe("{ not json");
+
+    rmSync(store.location);
+    writeFileSync(store.location, "{}", { mode: 0o644 });
+    store.set("ZAI_API_KEY", "zai-key");
+    if (process.platform !== "win32") {
+      expect(statSync(store.location).mode & 0o777).toBe(0o600);
+    }
+  });
+});
+
+describe("encrypted store", () => {
+  test("should round-trip credentials without writing them in plaintext", () => {
+    const store = createCredentialStore("encrypted", { dir, passphrase: "correct horse" });
+    store.set("ZAI_API_KEY", "zai-secret-value");
+
+    expect(readFileSync(store.location, "utf-8")).not.toContain("zai-secret-value");
+    const reopened = createCredentialStore("encrypted", { dir, passphrase: "correct horse" });
+    expect(reopened.get("ZAI_API_KEY")).toBe("zai-secret-value");
+  });
+
+  test("should refuse a wrong or missing passphrase", () => {
+    expect(() =>
+      createCredentialStore("encrypted", { dir, passphrase: "wrong" }).get("ZAI_API_KEY")
+    ).toThrow("Wrong passphrase");
+    expect(() => createCredentialStore("encrypted", { dir }).list()).toThrow("is encrypted");
+  });
+});
+
+describe("stored API keys", () => {
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = [
+    "MINIMAX_API_KEY",
+    "OPENROUTER_API_KEY",
+    "VERTEX_API_KEY",
+    "VERTEX_PROJECT",
+    "CLAUDE_PATH",
+  ];
+
+  beforeAll(() => {
+    for (const name of ENV) {
+      savedEnv[name] = process.env[name];
+      Reflect.deleteProperty(process.env, name);
+    }
+  });
+
+  afterEach(() => {
+    setCredentialStore(null);
+  });
+
+  afterAll(() => {
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  test("should treat a stored key as available, with the environment taking precedence", () => {
+    const store = createCredentialStore("file", { dir: join(dir, "resolver") });
+    setCredentialStore(store);
+    expect(resolveModelProvider("mm@MiniMax-M2").apiKeyAvailable).toBe(false);
+
+    store.set("MINIMAX_API_KEY", "stored-key");
+    const resolution = resolveModelProvider("mm@MiniMax-M2");
+    expect(resolution.category).toBe("direct-api");
+    expect(resolution.apiKeyAvailable).toBe(true);
+    expect(getApiKey("MINIMAX_API_KEY")).toBe("stored-key");
+
+    process.env.MINIMAX_API_KEY = "env-key";
+    expect(getApiKey("MINIMAX_API_KEY")).toBe("env-key");
+    Reflect.deleteProperty(process.env, "MINIMAX_API_KEY");
+  });
+
+  test("should export stored keys to the environment and drop them once removed", () => {
+    const store = createCredentialStore("file", { dir: join(dir, "apply") });
+    setCredentialStore(store);
+    store.set("MINIMAX_API_KEY", "stored-key");
+    store.set("minimax-oauth", "{}");
+
+    expect(applyStoredApiKeys()).toEqual(["MINIMAX_API_KEY"]);
+    expect(process.env.MINIMAX_API_KEY).toBe("stored-key");
+
+    store.delete("MINIMAX_API_KEY");
+    applyStoredApiKeys();
+    expect(process.env.MINIMAX_API_KEY).toBeUndefined();
+  });
+
+  test("should keep stored keys out of the Claude Code environment", async () => {
+    if (process.platform === "win32") return;
+    const store = createCredentialStore("file", { dir: join(dir, "spawn") });
+    setCredentialStore(store);
+    store.set("MINIMAX_API_KEY", "stored-key");
+    applyStoredApiKeys();
+    process.env.OPENROUTER_API_KEY = "user-key";
+
+    // A fake `claude` that dumps the environment it was given
+    const envFile = join(dir, "spawn", "env.txt");
+    const fakeClaude = join(dir, "spawn", "claude");
+    writeFileSync(fakeClaude, `#!/bin/sh\nenv > "${envFile}"\n`, { mode: 0o755 });
+    process.env.CLAUDE_PATH = fakeClaude;
+
+    const config = { model: "mm@MiniMax-M2", quiet: true, claudeArgs: [] } as any;
+    expect(await runClaudeWithProxy(config, "http://127.0.0.1:3456")).toBe(0);
+
+    const env = readFileSync(envFile, "utf-8");
+    expect(env).not.toContain("stored-key");
+    expect(env).toContain("OPENROUTER_API_KEY=user-key");
+    expect(env).toContain("ANTHROPIC_BASE_URL=http://127.0.0.1:3456");
+  });
+});
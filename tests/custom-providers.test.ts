@@ -0,0 +1,164 @@
+/**
+ * Tests for custom providers declared in ~/.claudish/config.json
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { getModelPricing } from "../src/handlers/shared/remote-provider-types";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import {
+  type CustomProviderConfig,
+  parseCustomProviders,
+  setCustomProviders,
+} from "../src/providers/custom-providers";
+import { parseModelSpec } from "../src/providers/model-parser";
+import { resolveModelProvider } from "../src/providers/provider-resolver";
+import { resolveRemoteProvider } from "../src/providers/remote-provider-registry";
+import { createProxyServer } from "../src/proxy-server";
+import type { ProxyServer } from "../src/types";
+
+const KEY_ENV = ["ACME_API_KEY", "OPENROUTER_API_KEY", "VERTEX_API_KEY", "VERTEX_PROJECT"];
+
+const ACME: CustomProviderConfig = {
+  name: "Acme",
+  displayName: "Acme AI",
+  shortcuts: ["ac"],
+  baseUrl: "https://api.acme.test/",
+  protocol: "openai",
+  apiKeyEnvVar: "ACME_API_KEY",
+  apiKeyUrl: "https://acme.test/keys",
+  pricing: { inputCostPer1M: 0.5, outputCostPer1M: 1.5 },
+  models: ["acme-coder"],
+};
+
+describe("custom providers", () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeAll(() => {
+    for (const name of KEY_ENV) {
+      savedEnv[name] = process.env[name];
+      Reflect.deleteProperty(process.env, name);
+    }
+    setCustomProviders([ACME]);
+  });
+
+  afterAll(() => {
+    setCustomProviders(null);
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  test("should skip invalid entries", () => {
+    const providers = parseCustomProviders([
+      ACME,
+      { name: "bad", baseUrl: "api.example.com", protocol: "openai" },
+      { name: "worse", baseUrl: "https://api.example.com", protocol: "grpc" },
+    ]);
+    expect(providers.map((p) => p.name)).toEqual(["acme"]);
+    expect(providers[0].baseUrl).toBe("https://api.acme.test");
+  });
+
+  test("should resolve name and shortcuts", () => {
+    expect(parseModelSpec("ac@acme-coder").provider).toBe("acme");
+    expect(parseModelSpec("ACME@acme-coder").provider).toBe("acme");
+
+    const resolved = resolveRemoteProvider("ac@acme-coder");
+    expect(resolved?.provider.name).toBe("acme");
+    expect(resolved?.provider.protocol).toBe("openai");
+    expect(resolved?.provider.apiPath).toBe("/v1/chat/completions");
+    expect(resolved?.modelName).toBe("acme-coder");
+  });
+
+  test("should not let custom providers shadow built-in ones", () => {
+    setCustomProviders([{ ...ACME, name: "openai", shortcuts: ["g"] }]);
+    try {
+      expect(parseModelSpec("g@gemini-2.5-flash").provider).toBe("google");
+      expect(resolveRemoteProvider("openai@gpt-4o")?.provider.protocol).toBeUndefined();
+    } finally {
+      setCustomProviders([ACME]);
+    }
+  });
+
+  test("should report the missing API key", () => {
+    const resolution = resolveModelProvider("acme@acme-coder");
+    expect(resolution.category).toBe("direct-api");
+    expect(resolution.providerName).toBe("Acme AI");
+    expect(resolution.apiKeyAvailable).toBe(false);
+    expect(resolution.requiredApiKeyEnvVar).toBe("ACME_API_KEY");
+    expect(resolution.apiKeyUrl).toBe("https://acme.test/keys");
+  });
+
+  test("should use declared pricing", () => {
+    expect(getModelPricing("acme", "acme-coder")).toEqual({
+      inputCostPer1M: 0.5,
+      outputCostPer1M: 1.5,
+    });
+  });
+});
+
+describe("custom providers through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedKey = process.env.ACME_API_KEY;
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    process.env.ACME_API_KEY = "acme-key";
+    setCustomProviders([
+      { ...ACME, baseUrl: mock.url, headers: { "X-Acme-Team": "claudish" } },
+      {
+        name: "acme-anthropic",
+        baseUrl: mock.url,
+        protocol: "anthropic",
+        apiKeyEnvVar: "ACME_API_KEY",
+      },
+      { name: "acme-ollama", baseUrl: mock.url, protocol: "ollama" },
+    ]);
+    proxy = await createProxyServer(0);
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    setCustomProviders(null);
+    if (savedKey === undefined) Reflect.deleteProperty(process.env, "ACME_API_KEY");
+    else process.env.ACME_API_KEY = savedKey;
+  });
+
+  const send = async (model: string): Promise<string> => {
+    const res = await fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    });
+    expect(res.status).toBe(200);
+    return res.text();
+  };
+
+  test("should route openai providers with key and extra headers", async () => {
+    expect(await send("ac@acme-coder")).toContain("end_turn");
+    const request = mock.requests.at(-1);
+    expect(request?.format).toBe("openai");
+    expect(request?.model).toBe("acme-coder");
+    expect(request?.headers.authorization).toBe("Bearer acme-key");
+    expect(request?.headers["x-acme-team"]).toBe("claudish");
+  });
+
+  test("should route anthropic providers", async () => {
+    expect(await send("acme-anthropic@acme-claude")).toContain("message_stop");
+    expect(mock.requests.at(-1)?.format).toBe("anthropic");
+    expect(mock.requests.at(-1)?.headers["x-api-key"]).toBe("acme-key");
+  });
+
+  test("should route ollama providers without a key", async () => {
+    expect(await send("acme-ollama@qwen3")).toContain("end_turn");
+    expect(mock.requests.at(-1)?.format).toBe("ollama");
+    expect(mock.requests.at(-1)?.headers.authorization).toBeUndefined();
+  });
+});
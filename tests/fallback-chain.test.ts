@@ -0,0 +1,179 @@
+/**
+ * Tests for cross-provider fallback chains (target|target|...)
+ */
+
+import { describe, expect, test } from "bun:test";
+import { Hono } from "hono";
+import {
+  FallbackChainHandler,
+  SERVED_BY_HEADER,
+  UPSTREAM_STATUS_HEADER,
+  getUpstreamStatus,
+  isRetryableStatus,
+} from "../src/handlers/fallback-handler";
+import type { ModelHandler } from "../src/handlers/types";
+import {
+  formatFallbackChain,
+  isFallbackChain,
+  parseFallbackChain,
+} from "../src/providers/model-parser";
+import { resolveFallbackChain, validateApiKeysForModels } from "../src/providers/provider-resolver";
+
+function fakeHandler(respond: () => Response, calls: string[], name: string): ModelHandler {
+  return {
+    async handle() {
+      calls.push(name);
+      return respond();
+    },
+    async shutdown() {},
+  };
+}
+
+function runChain(handler: ModelHandler): Promise<Response> {
+  const app = new Hono();
+  app.post("/v1/messages", async (c) => handler.handle(c, await c.req.json()));
+  return app.request("/v1/messages", {
+    method: "POST",
+    body: JSON.stringify({ model: "claude-sonnet-4", messages: [] }),
+  }) as Promise<Response>;
+}
+
+describe("parseFallbackChain", () => {
+  test("should split a chain into links in order", () => {
+    expect(parseFallbackChain("g@gemini-3-pro|or@google/gemini-3-pro|ollama@qwen3")).toEqual([
+      "g@gemini-3-pro",
+      "or@google/gemini-3-pro",
+      "ollama@qwen3",
+    ]);
+  });
+
+  test("should trim whitespace and drop empty and duplicate links", () => {
+    expect(parseFallbackChain(" a@x | |b@y|a@x ")).toEqual(["a@x", "b@y"]);
+  });
+
+  test("should treat a plain model as a single link", () => {
+    expect(parseFallbackChain("ollama@llama3.2:3")).toEqual(["ollama@llama3.2:3"]);
+    expect(isFallbackChain("ollama@llama3.2:3")).toBe(false);
+    expect(isFallbackChain("ollama@llama3.2|g@gemini-2.5-flash")).toBe(true);
+  });
+
+  test("should format links back into a chain", () => {
+    expect(formatFallbackChain(["a@x", "b@y", "a@x"])).toBe("a@x|b@y");
+  });
+});
+
+describe("resolveFallbackChain", () => {
+  test("should resolve each link independently", () => {
+    const resolutions = resolveFallbackChain("ollama@qwen3|claude-3-haiku");
+    expect(resolutions.map((r) => r.category)).toEqual(["local", "native-anthropic"]);
+  });
+
+  test("should validate a chain as usable when any link is usable", () => {
+    const saved = process.env.OPENROUTER_API_KEY;
+    Reflect.deleteProperty(process.env, "OPENROUTER_API_KEY");
+    try {
+      const [resolution] = validateApiKeysForModels(["or@google/gemini-3-pro|ollama@qwen3"]);
+      expect(resolution.category).toBe("local");
+      expect(resolution.apiKeyAvailable).toBe(true);
+    } finally {
+      if (saved !== undefined) process.env.OPENROUTER_API_KEY = saved;
+    }
+  });
+});
+
+describe("FallbackChainHandler", () => {
+  test("should classify retryable statuses", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(200)).toBe(false);
+  });
+
+  test("should prefer the upstream status header over the response status", () => {
+    const response = new Response("", { headers: { [UPSTREAM_STATUS_HEADER]: "429" } });
+    expect(getUpstreamStatus(response)).toBe(429);
+    expect(getUpstreamStatus(new Response("", { status: 502 }))).toBe(502);
+  });
+
+  test("should move to the next link on a retryable failure", async () => {
+    const calls: string[] = [];
+    const handlers: Record<string, ModelHandler> = {
+      first: fakeHandler(() => new Response("rate limited", { status: 429 }), calls, "first"),
+      second: fakeHandler(() => new Response("ok", { status: 200 }), calls, "second"),
+    };
+    const chain = new FallbackChainHandler(["first", "second"], (t) => handlers[t]);
+
+    const response = await runChain(chain);
+    expect(calls).toEqual(["first", "second"]);
+    expect(await response.text()).toBe("ok");
+    expect(response.headers.get(SERVED_BY_HEADER)).toBe("second");
+  });
+
+  test("should not retry on non-retryable errors", async () => {
+    const calls: string[] = [];
+    const handlers: Record<string, ModelHandler> = {
+      first: fakeHandler(() => new Response("bad request", { status: 400 }), calls, "first"),
+      second: fakeHandler(() => new Response("ok", { status: 200 }), calls, "second"),
+    };
+    const chain = new FallbackChainHandler(["first", "second"], (t) => handlers[t]);
+
+    const response = await runChain(chain);
+    expect(calls).toEqual(["first"]);
+    expect(response.status).toBe(400);
+  });
+
+  test("should skip unavailable links and survive thrown errors", async () => {
+    const calls: string[] = [];
+    const handlers: Record<string, ModelHandler> = {
+      throws: {
+        async handle() {
+          calls.push("throws");
+          throw new Error("ECONNREFUSED");
+        },
+        async shutdown() {},
+      },
+      last: fakeHandler(() => new Response("ok"), calls, "last"),
+    };
+    const chain = new FallbackChainHandler(
+      ["missing", "throws", "last"],
+      (t) => handlers[t] || null
+    );
+
+    const response = await runChain(chain);
+    expect(calls).toEqual(["throws", "last"]);
+    expect(response.status).toBe(200);
+  });
+
+  test("should return the last link's response when every link fails", async () => {
+    const calls: string[] = [];
+    const handlers: Record<string, ModelHandler> = {
+      a: fakeHandler(() => new Response("down", { status: 503 }), calls, "a"),
+      b: fakeHandler(() => new Response("still down", { status: 502 }), calls, "b"),
+    };
+    const chain = new FallbackChainHandler(["a", "b"], (t) => handlers[t]);
+
+    const response = await runChain(chain);
+    expect(calls).toEqual(["a", "b"]);
+    expect(response.status).toBe(502);
+  });
+
+  test("should return an Anthropic-format error when no link is usable", async () => {
+    const chain = new FallbackChainHandler(["x", "y"], () => null);
+    const response = await runChain(chain);
+    expect(response.status).toBe(503);
+    const body = await response.json();
+    expect(body.type).toBe("error");
+    expect(body.error.message).toContain("All fallback targets failed");
+  });
+
+  test("should report the context window of the first usable link", async () => {
+    const handlers: Record<string, ModelHandler> = {
+      second: {
+        ...fakeHandler(() => new Response("ok"), [], "second"),
+        getContextWindow: async () => 128000,
+      },
+    };
+    const chain = new FallbackChainHandler(["gone", "second"], (t) => handlers[t] || null);
+    expect(await chain.getContextWindow()).toBe(128000);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for Prometheus metrics (/metrics) and OTLP trace export
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { AddressInfo } from "node:net";
+import { serve } from "@hono/node-server";
+import { Hono } from "hono";
+import { notifyQueueWait, notifyUpstreamRetry } from "../src/handlers/shared/queue-events";
+import { notifyToolCallRecovered } from "../src/handlers/shared/tool-call-recovery";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import { renderMetrics } from "../src/services/metrics";
+import { getTracesUrl } from "../src/services/trace-export";
+import type { ProxyServer } from "../src/types";
+
+/**
+ * Value of one sample line (0 if absent) - metrics are process-wide, so tests
+ * compare against a value read before they act
+ */
+function sample(text: string, series: string): number {
+  const line = text.split("\n").find((l) => l.startsWith(`${series} `));
+  return line ? Number(line.slice(series.length + 1)) : 0;
+}
+
+describe("metrics and traces through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  let collector: ReturnType<typeof serve>;
+  const exported: any[] = [];
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "OPENAI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream({
+      scenarios: { metrics: { name: "metrics", text: "Counting tokens for the metrics test." } },
+    });
+    // Stand-in OpenTelemetry collector
+    const app = new Hono();
+    app.post("*", async (c) => {
+      exported.push({ path: c.req.path, body: await c.req.json() });
+      return c.json({});
+    });
+    collector = serve({ fetch: app.fetch, port: 0, hostname: "127.0.0.1" });
+    await new Promise<void>((resolve) => {
+      if (collector.listening) resolve();
+      else collector.once("listening", () => resolve());
+    });
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    proxy = await createProxyServer(
+      0,
+      undefined,
+      undefined,
+      false,
+      undefined,
+      {},
+      {
+        otlpEndpoint: `http://127.0.0.1:${(collector.address() as AddressInfo).port}`,
+      }
+    );
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+    collector.close();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = (model: string) =>
+    fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        max_tokens: 64,
+        stream: true,
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    });
+
+  test("should count requests, latency, tokens and cost per provider and model", async () => {
+    expect(await (await send("oai@gpt-4o-metrics")).text()).toContain("message_stop");
+    await (await send("oai@gpt-4o-server_error")).text();
+
+    const res = await fetch(`${proxy.url}/metrics`);
+    expect(res.headers.get("content-type")).toContain("text/plain; version=0.0.4");
+    const text = await res.text();
+    const labels = 'provider="openai",model="gpt-4o-metrics"';
+    expect(sample(text, `claudish_requests_total{${labels},status="200"}`)).toBe(1);
+    expect(sample(text, `claudish_request_duration_seconds_count{${labels}}`)).toBe(1);
+    expect(sample(text, `claudish_request_duration_seconds_bucket{${labels},le="+Inf"}`)).toBe(1);
+    expect(sample(text, `claudish_time_to_first_token_seconds_count{${labels}}`)).toBe(1);
+    expect(sample(text, `claudish_tokens_total{${labels},type="output"}`)).toBeGreaterThan(0);
+    expect(text).toContain(`claudish_cost_usd_total{${labels}}`);
+    expect(
+      sample(
+        text,
+        'claudish_requests_total{provider="openai",model="gpt-4o-server_error",status="500"}'
+      )
+    ).toBeGreaterThanOrEqual(1);
+    expect(text).toContain('claudish_queue_length{queue="openrouter"} 0');
+  });
+
+  test("should export a span per request to the OTLP collector", async () => {
+    await proxy.shutdown();
+    const spans = exported
+      .filter((e) => e.path === "/v1/traces")
+      .flatMap((e) => e.body.resourceSpans.flatMap((r: any) => r.scopeSpans[0].spans));
+    const attrs = (span: any) =>
+      Object.fromEntries(span.attributes.map((a: any) => [a.key, Object.values(a.value)[0]]));
+
+    const span = spans.find((s) => attrs(s)["claudish.target"] === "oai@gpt-4o-metrics");
+    expect(span).toBeDefined();
+    expect(attrs(span)).toMatchObject({
+      "gen_ai.request.model": "gpt-4o-metrics",
+      "http.response.status_code": "200",
+    });
+    expect(Number(attrs(span)["gen_ai.usage.input_tokens"])).toBeGreaterThan(0);
+    expect(span.events.map((e: any) => e.name)).toEqual(["first_token"]);
+    expect(BigInt(span.endTimeUnixNano)).toBeGreaterThan(BigInt(span.startTimeUnixNano));
+
+    const failed = spans.find((s) => attrs(s)["claudish.target"] === "oai@gpt-4o-server_error");
+    expect(failed.status.code).toBe(2);
+  });
+});
+
+describe("queue, retry and tool-call metrics", () => {
+  test("should count retries, queue waits and tool-call repairs", () => {
+    const retries = 'claudish_upstream_retries_total{queue="gemini",reason="rate_limit"}';
+    const waits = 'claudish_queue_wait_seconds_count{queue="local"}';
+    const repairs = 'claudish_tool_call_recoveries_total{kind="repaired",tool="Read"}';
+    const before = renderMetrics();
+
+    notifyUpstreamRetry("gemini", "rate_limit");
+    notifyQueueWait("local", Date.now() - 1500);
+    notifyToolCallRecovered("repaired", "Read");
+
+    const after = renderMetrics();
+    expect(sample(after, retries)).toBe(sample(before, retries) + 1);
+    expect(sample(after, waits)).toBe(sample(before, waits) + 1);
+    expect(sample(after, 'claudish_queue_wait_seconds_bucket{queue="local",le="1"}')).toBe(
+      sample(before, 'claudish_queue_wait_seconds_bucket{queue="local",le="1"}')
+    );
+    expect(sample(after, repairs)).toBe(sample(before, repairs) + 1);
+  });
+
+  test("should add the OTLP traces path to a collector base URL", () => {
+    expect(getTracesUrl("http://localhost:4318")).toBe("http://localhost:4318/v1/traces");
+    expect(getTracesUrl("http://localhost:4318/")).toBe("http://localhost:4318/v1/traces");
+    expect(getTracesUrl("http://otel:4318/v1/traces")).toBe("http://otel:4318/v1/traces");
+  });
+});
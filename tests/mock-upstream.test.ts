@@ -0,0 +1,194 @@
+/**
+ * End-to-end handler tests against the mock upstream (claudish mock-upstream)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { BUILTIN_SCENARIOS, findScenarioInModel } from "../src/mock-upstream/scenarios";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import type { ProxyServer } from "../src/types";
+
+const PROVIDER_ENV = [
+  "OPENAI_BASE_URL",
+  "GEMINI_BASE_URL",
+  "OLLAMACLOUD_BASE_URL",
+  "MINIMAX_BASE_URL",
+  "POE_BASE_URL",
+];
+const KEY_ENV = [
+  "OPENAI_API_KEY",
+  "GEMINI_API_KEY",
+  "OLLAMA_API_KEY",
+  "MINIMAX_API_KEY",
+  "POE_API_KEY",
+];
+
+interface ClaudeResult {
+  text: string;
+  toolUses: Array<{ name: string; input: any }>;
+  stopReason?: string;
+}
+
+// Collect text, tool calls and the stop reason from a Claude SSE stream
+function parseClaudeStream(sse: string): ClaudeResult {
+  const result: ClaudeResult = { text: "", toolUses: [] };
+  const toolJson = new Map<number, string>();
+  for (const line of sse.split("\n")) {
+    if (!line.startsWith("data: {")) continue;
+    const event = JSON.parse(line.slice(6));
+    if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+      result.toolUses.push({ name: event.content_block.name, input: {} });
+      toolJson.set(event.index, "");
+    } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+      result.text += event.delta.text;
+    } else if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
+      toolJson.set(event.index, (toolJson.get(event.index) || "") + event.delta.partial_json);
+    } else if (event.type === "message_delta") {
+      result.stopReason = event.delta.stop_reason;
+    }
+  }
+  const inputs = [...toolJson.values()];
+  result.toolUses.forEach((tool, i) => {
+    tool.input = inputs[i] ? JSON.parse(inputs[i]) : {};
+  });
+  return result;
+}
+
+describe("mock upstream through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of [...PROVIDER_ENV, ...KEY_ENV]) savedEnv[name] = process.env[name];
+    for (const name of PROVIDER_ENV) process.env[name] = mock.url;
+    for (const name of KEY_ENV) process.env[name] = "mock-key";
+    proxy = await createProxyServer(0);
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = async (model: string): Promise<ClaudeResult> => {
+    const res = await fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: "user", content: "Read /tmp/example.txt" }],
+        tools: [
+          {
+            name: "Read",
+            description: "Read a file",
+            input_schema: {
+              type: "object",
+              properties: { file_path: { type: "string" } },
+              required: ["file_path"],
+            },
+          },
+        ],
+      }),
+    });
+    expect(res.status).toBe(200);
+    return parseClaudeStream(await res.text());
+  };
+
+  test("should stream text from OpenAI Chat Completions", async () => {
+    const result = await send("oai@gpt-4o");
+    expect(result.text).toBe("Hello from the mock upstream.");
+    expect(result.stopReason).toBe("end_turn");
+    expect(mock.requests.at(-1)?.format).toBe("openai");
+  });
+
+  test("should stream text from the OpenAI Responses API", async () => {
+    const result = await send("oai@gpt-5-codex");
+    expect(result.text).toBe("Hello from the mock upstream.");
+    expect(mock.requests.at(-1)?.format).toBe("responses");
+  });
+
+  test("should convert Gemini function calls to tool_use", async () => {
+    const result = await send("g@gemini-2.5-flash-tool_call");
+    expect(result.text).toBe("Let me read that file.");
+    expect(result.toolUses).toEqual([{ name: "Read", input: { file_path: "/tmp/example.txt" } }]);
+    expect(mock.requests.at(-1)?.format).toBe("gemini");
+    expect(mock.requests.at(-1)?.model).toBe("gemini-2.5-flash-tool_call");
+  });
+
+  test("should stream Ollama /api/chat NDJSON", async () => {
+    const result = await send("oc@gpt-oss-20b");
+    expect(result.text).toBe("Hello from the mock upstream.");
+    expect(mock.requests.at(-1)?.format).toBe("ollama");
+  });
+
+  test("should pass Anthropic-compatible tool calls through", async () => {
+    const result = await send("mm@MiniMax-M2-tool_call");
+    expect(result.toolUses).toEqual([{ name: "Read", input: { file_path: "/tmp/example.txt" } }]);
+    expect(result.stopReason).toBe("tool_use");
+    expect(mock.requests.at(-1)?.format).toBe("anthropic");
+  });
+
+  test("should recover Poe XML tool calls", async () => {
+    const result = await send("poe:mock-bot-xml_tool_call");
+    expect(result.toolUses.map((t) => t.name)).toEqual(["Read"]);
+    expect(result.text).not.toContain("<function_calls>");
+  });
+});
+
+describe("mock upstream scenarios", () => {
+  let mock: MockUpstream;
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+  });
+
+  const post = (path: string, model = "mock-model") =>
+    fetch(`${mock.url}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, stream: true, messages: [] }),
+    });
+
+  test("should pick scenarios named in the model, longest name first", () => {
+    expect(findScenarioInModel("gpt-4o-xml_tool_call", BUILTIN_SCENARIOS)?.name).toBe(
+      "xml_tool_call"
+    );
+    expect(findScenarioInModel("gpt-4o", BUILTIN_SCENARIOS)).toBeUndefined();
+  });
+
+  test("should answer 429 with Retry-After", async () => {
+    const res = await post("/v1/chat/completions", "gpt-4o-rate_limit");
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("1");
+    expect((await res.json()).error.code).toBe(429);
+  });
+
+  test("should drop the connection mid-stream", async () => {
+    const res = await post("/v1/chat/completions", "gpt-4o-disconnect");
+    expect(res.status).toBe(200);
+    const text = await res.text().catch(() => null);
+    // Either the read fails or the stream ends before [DONE]
+    if (text !== null) expect(text).not.toContain("[DONE]");
+  });
+
+  test("should play scripted scenarios in order", async () => {
+    mock.setScript(["server_error", "text"]);
+    expect((await post("/v1/messages")).status).toBe(500);
+    const res = await post("/v1/messages");
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("message_stop");
+    expect(mock.requests.slice(-2).map((r) => r.scenario)).toEqual(["server_error", "text"]);
+  });
+});
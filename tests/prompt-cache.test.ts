@@ -0,0 +1,172 @@
+/**
+ * Tests for prompt caching (cache_control mapping and cache usage reporting)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { GeminiContextCache } from "../src/handlers/shared/gemini-context-cache";
+import {
+  fromAnthropicUsage,
+  getGeminiCacheUsage,
+  getOpenAICacheUsage,
+  hasCacheablePrefix,
+  supportsCacheControlPassthrough,
+  toAnthropicUsage,
+  withCacheControl,
+} from "../src/handlers/shared/prompt-cache";
+import {
+  calculateCostFromPricing,
+  getModelPricing,
+} from "../src/handlers/shared/remote-provider-types";
+
+describe("cache_control mapping", () => {
+  test("should pass breakpoints through only for OpenRouter models that honor them", () => {
+    expect(supportsCacheControlPassthrough("anthropic/claude-sonnet-4")).toBe(true);
+    expect(supportsCacheControlPassthrough("google/gemini-2.5-pro")).toBe(true);
+    expect(supportsCacheControlPassthrough("openai/gpt-5")).toBe(false);
+    expect(supportsCacheControlPassthrough("x-ai/grok-code-fast-1")).toBe(false);
+  });
+
+  test("should detect cacheable system prompts and tools", () => {
+    const breakpoint = { type: "ephemeral" };
+    expect(hasCacheablePrefix({ system: "plain string" })).toBe(false);
+    expect(
+      hasCacheablePrefix({ system: [{ type: "text", text: "a", cache_control: breakpoint }] })
+    ).toBe(true);
+    expect(hasCacheablePrefix({ tools: [{ name: "Read", cache_control: breakpoint }] })).toBe(true);
+  });
+
+  test("should copy breakpoints onto converted parts", () => {
+    const part = { type: "text", text: "hello" };
+    expect(withCacheControl(part, { cache_control: { type: "ephemeral" } })).toEqual({
+      type: "text",
+      text: "hello",
+      cache_control: { type: "ephemeral" },
+    });
+    expect(withCacheControl(part, {})).toBe(part);
+  });
+});
+
+describe("cache usage", () => {
+  test("should read OpenAI and OpenRouter cache usage", () => {
+    expect(
+      getOpenAICacheUsage({
+        prompt_tokens: 5000,
+        prompt_tokens_details: { cached_tokens: 4096, cache_write_tokens: 100 },
+      })
+    ).toEqual({ cacheReadTokens: 4096, cacheCreationTokens: 100 });
+    expect(getOpenAICacheUsage({ input_tokens_details: { cached_tokens: 2048 } })).toEqual({
+      cacheReadTokens: 2048,
+      cacheCreationTokens: 0,
+    });
+    expect(getOpenAICacheUsage(null)).toEqual({ cacheReadTokens: 0, cacheCreationTokens: 0 });
+  });
+
+  test("should split Gemini cached tokens into reads and writes", () => {
+    const usage = { promptTokenCount: 9000, cachedContentTokenCount: 8000 };
+    expect(getGeminiCacheUsage(usage)).toEqual({ cacheReadTokens: 8000, cacheCreationTokens: 0 });
+    expect(getGeminiCacheUsage(usage, 8000)).toEqual({
+      cacheReadTokens: 0,
+      cacheCreationTokens: 8000,
+    });
+  });
+
+  test("should convert to and from Anthropic usage", () => {
+    const usage = toAnthropicUsage(5000, 200, { cacheReadTokens: 4000, cacheCreationTokens: 0 });
+    expect(usage).toEqual({
+      input_tokens: 1000,
+      output_tokens: 200,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 4000,
+    });
+
+    const { inputTokens, cache } = fromAnthropicUsage(usage);
+    expect(inputTokens).toBe(5000);
+    expect(cache.cacheReadTokens).toBe(4000);
+  });
+
+  test("should charge cached tokens at cache prices", () => {
+    const pricing = { inputCostPer1M: 10, outputCostPer1M: 0, cacheReadCostPer1M: 1 };
+    expect(calculateCostFromPricing(pricing, 1_000_000, 0)).toBeCloseTo(10);
+    expect(calculateCostFromPricing(pricing, 1_000_000, 0, 500_000)).toBeCloseTo(5.5);
+    // Without a cache price, cached tokens cost the same as regular input
+    expect(
+      calculateCostFromPricing({ inputCostPer1M: 10, outputCostPer1M: 0 }, 1_000_000, 0, 500_000)
+    ).toBeCloseTo(10);
+  });
+
+  test("should price cache reads of direct OpenAI and Gemini below regular input", () => {
+    for (const provider of ["openai", "gemini"]) {
+      const pricing = getModelPricing(provider, "claudish-test-unknown-model");
+      expect(pricing.cacheReadCostPer1M).toBeLessThan(pricing.inputCostPer1M);
+    }
+  });
+});
+
+describe("GeminiContextCache", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let createRequests: any[];
+  let rejectCreates: boolean;
+
+  beforeEach(() => {
+    createRequests = [];
+    rejectCreates = false;
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (req.method === "POST" && url.pathname === "/v1beta/cachedContents") {
+          createRequests.push(await req.json());
+          if (rejectCreates) return new Response("too small", { status: 400 });
+          return Response.json({
+            name: `cachedContents/test-${createRequests.length}`,
+            expireTime: new Date(Date.now() + 300_000).toISOString(),
+            usageMetadata: { totalTokenCount: 1500 },
+          });
+        }
+        return new Response("not found", { status: 404 });
+      },
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  const makePayload = () => ({
+    contents: [{ role: "user", parts: [{ text: "hi" }] }],
+    systemInstruction: { parts: [{ text: "x".repeat(8000) }] },
+    tools: [{ functionDeclarations: [{ name: "Read" }] }],
+  });
+
+  test("should create a cache once and reuse it for the same prefix", async () => {
+    const cache = new GeminiContextCache(`http://localhost:${server.port}`, "gemini-2.5-pro");
+
+    const first: any = makePayload();
+    expect(await cache.apply(first, {})).toBe(1500);
+    expect(first.cachedContent).toBe("cachedContents/test-1");
+    expect(first.systemInstruction).toBeUndefined();
+    expect(first.tools).toBeUndefined();
+    expect(createRequests[0].model).toBe("models/gemini-2.5-pro");
+
+    const second: any = makePayload();
+    expect(await cache.apply(second, {})).toBe(0);
+    expect(second.cachedContent).toBe("cachedContents/test-1");
+    expect(createRequests).toHaveLength(1);
+  });
+
+  test("should leave small or refused prefixes uncached", async () => {
+    const cache = new GeminiContextCache(`http://localhost:${server.port}`, "gemini-2.5-flash");
+
+    const small: any = { contents: [], systemInstruction: { parts: [{ text: "short" }] } };
+    expect(await cache.apply(small, {})).toBe(0);
+    expect(small.systemInstruction).toBeDefined();
+    expect(createRequests).toHaveLength(0);
+
+    rejectCreates = true;
+    const refused: any = makePayload();
+    expect(await cache.apply(refused, {})).toBe(0);
+    expect(refused.cachedContent).toBeUndefined();
+    expect(await cache.apply(makePayload(), {})).toBe(0);
+    expect(createRequests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for the organisation policy on providers, models and data handling
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import {
+  type ProviderPolicy,
+  findPolicyFile,
+  getDataHandlingClass,
+  getPolicyViolation,
+  loadPolicyFile,
+  setProviderPolicy,
+} from "../src/providers/provider-policy";
+import {
+  getPolicyError,
+  resolveModelProvider,
+  validateApiKeysForModels,
+} from "../src/providers/provider-resolver";
+import { createProxyServer } from "../src/proxy-server";
+import type { ProxyServer } from "../src/types";
+
+const POLICY: ProviderPolicy = {
+  source: "test",
+  name: "Acme AI policy",
+  contact: "legal@acme.example",
+  providers: { deny: ["poe"] },
+  models: { deny: ["*:free", "deepseek/*"] },
+  dataHandling: { allow: ["local", "vendor", "aggregator"] },
+};
+
+afterEach(() => {
+  setProviderPolicy(null);
+});
+
+describe("getPolicyViolation", () => {
+  test("should allow everything without a policy", () => {
+    setProviderPolicy({ source: "test" });
+    expect(getPolicyViolation("poe", "claude-sonnet")).toBeNull();
+  });
+
+  test("should explain denied providers, models and data-handling classes", () => {
+    setProviderPolicy(POLICY);
+    expect(getPolicyViolation("poe", "gpt-4o")).toBe(
+      'Blocked by policy "Acme AI policy": provider "poe" is denied. Ask legal@acme.example for an exception.'
+    );
+    expect(getPolicyViolation("openrouter", "deepseek/deepseek-chat")).toContain(
+      'model "deepseek/deepseek-chat" is denied'
+    );
+    expect(getPolicyViolation("openrouter", "meta-llama/llama-3.3-70b:free")).toContain("denied");
+    expect(getPolicyViolation("oc", "llama3.3")).toContain(
+      "hosted providers (ollamacloud) are not allowed"
+    );
+    expect(getPolicyViolation("openrouter", "anthropic/claude-sonnet-4.5")).toBeNull();
+    expect(getPolicyViolation("ollama", "qwen3")).toBeNull();
+  });
+
+  test("should match allow lists against provider@model and provider aliases", () => {
+    setProviderPolicy({
+      source: "test",
+      providers: { allow: ["google", "ollama"] },
+      models: { allow: ["gemini@gemini-2.5-*", "ollama@*"] },
+    });
+    expect(getPolicyViolation("gemini", "gemini-2.5-pro")).toBeNull();
+    expect(getPolicyViolation("gemini", "gemini-2.0-flash")).toContain("is not allowed");
+    expect(getPolicyViolation("openai", "gpt-4o")).toContain('provider "openai" is not allowed');
+  });
+
+  test("should classify providers by where prompts go", () => {
+    expect(getDataHandlingClass("lmstudio")).toBe("local");
+    expect(getDataHandlingClass("g")).toBe("vendor");
+    expect(getDataHandlingClass("or")).toBe("aggregator");
+    expect(getDataHandlingClass("some-gateway")).toBe("unclassified");
+  });
+});
+
+describe("policy files", () => {
+  let dir: string;
+  const savedEnv = process.env.CLAUDISH_POLICY;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "claudish-policy-"));
+    Reflect.deleteProperty(process.env, "CLAUDISH_POLICY");
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+    if (savedEnv !== undefined) process.env.CLAUDISH_POLICY = savedEnv;
+  });
+
+  test("should find the nearest .claudish/policy.json, or the file in CLAUDISH_POLICY", () => {
+    const nested = join(dir, "repo", "src", "deep");
+    mkdirSync(nested, { recursive: true });
+    mkdirSync(join(dir, "repo", ".claudish"));
+    const repoPolicy = join(dir, "repo", ".claudish", "policy.json");
+    writeFileSync(repoPolicy, JSON.stringify({ providers: { deny: ["poe"] } }));
+
+    expect(findPolicyFile(nested)).toBe(repoPolicy);
+
+    process.env.CLAUDISH_POLICY = join(dir, "org-policy.json");
+    expect(findPolicyFile(nested)).toBe(join(dir, "org-policy.json"));
+    Reflect.deleteProperty(process.env, "CLAUDISH_POLICY");
+  });
+
+  test("should block everything when the policy file is broken", () => {
+    const path = join(dir, "broken.json");
+    writeFileSync(path, JSON.stringify({ dataHandling: { allow: ["on-prem"] } }));
+    const policy = loadPolicyFile(path);
+    expect(policy.invalid).toContain('unknown data-handling class "on-prem"');
+
+    setProviderPolicy(policy);
+    expect(getPolicyViolation("ollama", "qwen3")).toContain("is invalid");
+  });
+});
+
+describe("policy in provider resolution", () => {
+  const savedKey = process.env.OPENROUTER_API_KEY;
+
+  beforeAll(() => {
+    process.env.OPENROUTER_API_KEY = "sk-or-test";
+  });
+
+  afterAll(() => {
+    if (savedKey === undefined) Reflect.deleteProperty(process.env, "OPENROUTER_API_KEY");
+    else process.env.OPENROUTER_API_KEY = savedKey;
+  });
+
+  test("should report blocked routes and explain them", () => {
+    setProviderPolicy(POLICY);
+    const blocked = resolveModelProvider("openrouter@deepseek/deepseek-chat");
+    expect(blocked.provider).toBe("openrouter");
+    expect(blocked.policyViolation).toContain("is denied");
+    expect(resolveModelProvider("ollama@qwen3").policyViolation).toBeUndefined();
+
+    const error = getPolicyError(validateApiKeysForModels(["or@deepseek/deepseek-chat"]));
+    expect(error).toContain("or@deepseek/deepseek-chat (OpenRouter)");
+    expect(getPolicyError(validateApiKeysForModels(["ollama@qwen3"]))).toBe("");
+  });
+
+  test("should accept a fallback chain with one allowed link", () => {
+    setProviderPolicy(POLICY);
+    expect(
+      getPolicyError(validateApiKeysForModels(["or@deepseek/deepseek-chat|ollama@qwen3"]))
+    ).toBe("");
+  });
+});
+
+describe("policy through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "OPENAI_API_KEY", "OPENROUTER_API_KEY", "GEMINI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    process.env.OPENROUTER_API_KEY = "sk-or-test";
+    Reflect.deleteProperty(process.env, "GEMINI_API_KEY");
+    const modelMap = { sonnet: "oai@gpt-4o", haiku: "oai@o3|oai@gpt-4o" };
+    proxy = await createProxyServer(0, undefined, undefined, false, undefined, modelMap);
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = (model: string, path = "/v1/messages") =>
+    fetch(`${proxy.url}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    });
+
+  test("should reject blocked targets with a permission error", async () => {
+    setProviderPolicy({ source: "test", models: { deny: ["gpt-4o"] } });
+    const res = await send("claude-sonnet-4-5");
+    expect(res.status).toBe(403);
+    const body = (await res.json()) as any;
+    expect(body.error.type).toBe("permission_error");
+    expect(body.error.message).toContain('model "gpt-4o" is denied');
+
+    const count = await send("claude-sonnet-4-5", "/v1/messages/count_tokens");
+    expect(count.status).toBe(403);
+    expect(((await count.json()) as any).error.type).toBe("permission_error");
+  });
+
+  test("should check the provider a target falls through to", async () => {
+    // Without GEMINI_API_KEY, g/ models fall through to OpenRouter
+    setProviderPolicy({ source: "test", providers: { deny: ["openrouter"] } });
+    expect(resolveModelProvider("g/gemini-2.5-pro").policyViolation).toBeUndefined();
+    const res = await send("g/gemini-2.5-pro");
+    expect(res.status).toBe(403);
+    const body = (await res.json()) as any;
+    expect(body.error.message).toContain('provider "openrouter" is denied');
+  });
+
+  test("should skip blocked fallback links", async () => {
+    setProviderPolicy({ source: "test", models: { deny: ["o3"] } });
+    const before = mock.requests.length;
+    const res = await send("claude-haiku-4-5");
+    expect(res.status).toBe(200);
+    await res.text();
+    expect(mock.requests.length).toBe(before + 1);
+    expect(mock.requests.at(-1)?.model).toBe("gpt-4o");
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests for the shared proxy daemon (claudish serve)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { type CostLedgerEntry, onCostRecorded } from "../src/services/cost-ledger";
+import {
+  type ProxyDaemon,
+  attachToDaemon,
+  createProxyDaemon,
+  readDaemonState,
+} from "../src/services/proxy-daemon";
+
+describe("claudish serve daemon", () => {
+  let mock: MockUpstream;
+  let daemon: ProxyDaemon;
+  let dir: string;
+  let statePath: string;
+  const costs: CostLedgerEntry[] = [];
+  let stopCosts = () => {};
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "OPENAI_API_KEY", "GEMINI_BASE_URL", "GEMINI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    process.env.GEMINI_BASE_URL = mock.url;
+    process.env.GEMINI_API_KEY = "mock-key";
+    dir = mkdtempSync(join(tmpdir(), "claudish-serve-"));
+    statePath = join(dir, "serve.json");
+    daemon = await createProxyDaemon({ port: 0, statePath });
+    stopCosts = onCostRecorded((entry) => costs.push(entry));
+  });
+
+  afterAll(async () => {
+    stopCosts();
+    await daemon.shutdown();
+    await mock.stop();
+    rmSync(dir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = (url: string) =>
+    fetch(`${url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "claude-sonnet-4-5",
+        max_tokens: 64,
+        stream: true,
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    });
+
+  test("should publish its pidfile", () => {
+    expect(readDaemonState(statePath)).toMatchObject({ pid: process.pid, url: daemon.url });
+  });
+
+  test("should route each session with its own models and tag its costs", async () => {
+    const first = await attachToDaemon(
+      { modelMap: { sonnet: "oai@gpt-4o" }, project: "/work/api", pid: process.pid },
+      statePath
+    );
+    const second = await attachToDaemon(
+      { modelMap: { sonnet: "g@gemini-2.5-flash" }, project: "/work/web", pid: process.pid },
+      statePath
+    );
+    if (!first || !second) throw new Error("sessions did not attach");
+    expect(first.url).toBe(`${daemon.url}/s/${first.id}`);
+    expect(first.statusKey).not.toBe(second.statusKey);
+
+    const firstText = await (await send(first.url)).text();
+    expect(mock.requests.at(-1)?.format).toBe("openai");
+    const secondText = await (await send(second.url)).text();
+    expect(mock.requests.at(-1)?.format).toBe("gemini");
+    expect(firstText).toContain("message_stop");
+    expect(secondText).toContain("message_stop");
+
+    expect(costs.find((e) => e.session === first.id)?.project).toBe("/work/api");
+    expect(costs.find((e) => e.session === second.id)?.project).toBe("/work/web");
+    const sessions = daemon.sessions();
+    expect(sessions.map((s) => [s.id, s.requests])).toEqual([
+      [first.id, 1],
+      [second.id, 1],
+    ]);
+
+    await first.shutdown();
+    expect(daemon.sessions().map((s) => s.id)).toEqual([second.id]);
+    const detached = await send(first.url);
+    expect(detached.status).toBe(404);
+    expect((await detached.json()).error.type).toBe("not_found_error");
+    await second.shutdown();
+  });
+
+  test("should keep serving sessions across a reload", async () => {
+    const session = await attachToDaemon({ modelMap: { sonnet: "oai@gpt-4o" } }, statePath);
+    if (!session) throw new Error("session did not attach");
+    await (await send(session.url)).text();
+
+    const res = await fetch(`${daemon.url}/_claudish/reload`, { method: "POST" });
+    expect(res.status).toBe(200);
+    const before = mock.requests.length;
+    const after = await send(session.url);
+    expect(after.status).toBe(200);
+    expect(await after.text()).toContain("message_stop");
+    expect(mock.requests.length).toBe(before + 1);
+    await session.shutdown();
+  });
+
+  test("should leave sessions with their own reasoning or redaction to a proxy of their own", async () => {
+    const before = daemon.sessions().length;
+    expect(await attachToDaemon({ options: { reasoning: "text" } }, statePath)).toBeNull();
+    expect(
+      await attachToDaemon({ options: { redaction: { mode: "mask" } } }, statePath)
+    ).toBeNull();
+    expect(daemon.sessions().length).toBe(before);
+  });
+
+  test("should not attach without a running daemon", async () => {
+    expect(await attachToDaemon({}, join(dir, "missing.json"))).toBeNull();
+  });
+});
+
+describe("daemon pidfile", () => {
+  test("should refuse a second daemon and be removed on shutdown", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "claudish-serve-"));
+    const statePath = join(dir, "serve.json");
+    try {
+      const daemon = await createProxyDaemon({ port: 0, statePath });
+      await expect(createProxyDaemon({ port: 0, statePath })).rejects.toThrow("already running");
+      await daemon.shutdown();
+      expect(existsSync(statePath)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
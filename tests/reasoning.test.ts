@@ -0,0 +1,199 @@
+/**
+ * Tests for reasoning translation (thinking blocks from upstream reasoning)
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import {
+  ThinkTagParser,
+  createReasoningSignature,
+  parseReasoningSignature,
+  setReasoningMode,
+  stripClaudishThinking,
+  verifyReasoningSignature,
+} from "../src/handlers/shared/reasoning";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { type ProxyServerOptions, createProxyServer } from "../src/proxy-server";
+
+interface Block {
+  type: string;
+  text?: string;
+  thinking?: string;
+  signature?: string;
+}
+
+/** Block field each delta type appends to */
+const DELTA_FIELDS: Record<string, "text" | "thinking" | "signature"> = {
+  text_delta: "text",
+  thinking_delta: "thinking",
+  signature_delta: "signature",
+};
+
+/**
+ * Rebuild content blocks from a proxy SSE stream
+ */
+function collectBlocks(sse: string): Block[] {
+  const blocks: Block[] = [];
+  const events = sse
+    .split("\n")
+    .filter((line) => line.startsWith("data: {"))
+    .map((line) => JSON.parse(line.slice(6)));
+  for (const event of events) {
+    if (event.type === "content_block_start") blocks[event.index] = { ...event.content_block };
+    const field = event.type === "content_block_delta" && DELTA_FIELDS[event.delta.type];
+    if (field) {
+      const block = blocks[event.index];
+      block[field] = (block[field] || "") + event.delta[field];
+    }
+  }
+  return blocks;
+}
+
+const parse = (parser: ThinkTagParser, chunks: string[]) => [
+  ...chunks.flatMap((chunk) => parser.push(chunk)),
+  ...parser.flush(),
+];
+
+describe("ThinkTagParser", () => {
+  test("should split <think> reasoning from the answer across deltas", () => {
+    const segments = parse(new ThinkTagParser(), [
+      "\n<thi",
+      "nk>Plan the ",
+      "answer.</th",
+      "ink>\n\n",
+      "Done.",
+    ]);
+    expect(segments).toEqual([
+      { reasoning: true, text: "Plan the " },
+      { reasoning: true, text: "answer." },
+      { reasoning: false, text: "Done." },
+    ]);
+  });
+
+  test("should leave answers that mention <think> alone", () => {
+    const segments = parse(new ThinkTagParser(), ["Use <think> tags", " like <think>x</think>"]);
+    expect(segments).toEqual([
+      { reasoning: false, text: "Use <think> tags" },
+      { reasoning: false, text: " like <think>x</think>" },
+    ]);
+  });
+});
+
+describe("reasoning signatures", () => {
+  test("should sign thinking so edits are detected", () => {
+    const signature = createReasoningSignature("gemini/gemini-2.5-pro", "Let me check.");
+    expect(parseReasoningSignature(signature)?.model).toBe("gemini/gemini-2.5-pro");
+    expect(verifyReasoningSignature({ thinking: "Let me check.", signature })).toBe(true);
+    expect(verifyReasoningSignature({ thinking: "Edited.", signature })).toBe(false);
+    expect(parseReasoningSignature("EqoBCkgIARABGAIiQL...")).toBeNull();
+  });
+
+  test("should strip only thinking blocks claudish signed", () => {
+    const ours = {
+      type: "thinking",
+      thinking: "a",
+      signature: createReasoningSignature("x", "a"),
+    };
+    const anthropic = { type: "thinking", thinking: "b", signature: "EqoBCkgIARABGAIiQL" };
+    const payload = {
+      model: "claude-sonnet-4-5",
+      messages: [
+        { role: "user", content: "hi" },
+        { role: "assistant", content: [ours, anthropic, { type: "text", text: "hello" }] },
+      ],
+    };
+    expect(stripClaudishThinking(payload).messages[1].content).toEqual([
+      anthropic,
+      { type: "text", text: "hello" },
+    ]);
+    const clean = { messages: [{ role: "user", content: "hi" }] };
+    expect(stripClaudishThinking(clean)).toBe(clean);
+  });
+});
+
+describe("reasoning through createProxyServer", () => {
+  let mock: MockUpstream;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "OPENAI_API_KEY", "GEMINI_BASE_URL", "GEMINI_API_KEY"];
+  const reasoning = "The user wants a greeting, so I will say hello.";
+  const answer = "Hello from the mock upstream.";
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    process.env.GEMINI_BASE_URL = mock.url;
+    process.env.GEMINI_API_KEY = "mock-key";
+  });
+
+  afterEach(() => {
+    mock.reset();
+    setReasoningMode("show");
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = async (model: string, options: ProxyServerOptions = {}) => {
+    const proxy = await createProxyServer(0, undefined, undefined, false, undefined, {}, options);
+    try {
+      const res = await fetch(`${proxy.url}/v1/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model,
+          max_tokens: 256,
+          stream: true,
+          thinking: { type: "enabled", budget_tokens: 8000 },
+          messages: [{ role: "user", content: "Say hello" }],
+        }),
+      });
+      expect(res.status).toBe(200);
+      return collectBlocks(await res.text());
+    } finally {
+      await proxy.shutdown();
+    }
+  };
+
+  const expectSignedThinking = (blocks: Block[]) => {
+    expect(blocks.map((b) => b.type)).toEqual(["thinking", "text"]);
+    expect(blocks[0].thinking).toBe(reasoning);
+    expect(verifyReasoningSignature(blocks[0])).toBe(true);
+    expect(blocks[1].text).toBe(answer);
+  };
+
+  test("should translate reasoning_content from Chat Completions", async () => {
+    expectSignedThinking(await send("oai@gpt-4o-reasoning"));
+  });
+
+  test("should translate Responses API reasoning summaries", async () => {
+    expectSignedThinking(await send("oai@gpt-5-codex-reasoning"));
+    expect((mock.requests[0].body as any).reasoning).toEqual({ summary: "auto", effort: "low" });
+  });
+
+  test("should translate Gemini thought parts", async () => {
+    expectSignedThinking(await send("g@gemini-2.5-flash-reasoning"));
+    const { thinkingConfig } = (mock.requests[0].body as any).generationConfig;
+    expect(thinkingConfig.includeThoughts).toBe(true);
+  });
+
+  test("should translate <think> tags in the text", async () => {
+    mock.setScript([{ name: "think", text: `<think>${reasoning}</think>\n\n${answer}` }]);
+    expectSignedThinking(await send("oai@gpt-4o"));
+  });
+
+  test("should hide reasoning or inline it as text", async () => {
+    expect(await send("oai@gpt-4o-reasoning", { reasoning: "hide" })).toEqual([
+      { type: "text", text: answer },
+    ]);
+    expect(await send("oai@gpt-4o-reasoning", { reasoning: "text" })).toEqual([
+      { type: "text", text: `<thinking>\n${reasoning}\n</thinking>` },
+      { type: "text", text: answer },
+    ]);
+  });
+});
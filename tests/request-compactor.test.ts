@@ -0,0 +1,150 @@
+/**
+ * Tests for context-window-aware request compaction (--compact)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import { compactRequest } from "../src/services/request-compactor";
+import type { ProxyServer } from "../src/types";
+
+const toolUse = (id: string) => ({
+  role: "assistant",
+  content: [{ type: "tool_use", id, name: "Read", input: { file_path: `/src/${id}.ts` } }],
+});
+
+const toolResult = (id: string, size: number) => ({
+  role: "user",
+  content: [{ type: "tool_result", tool_use_id: id, content: "x".repeat(size) }],
+});
+
+/**
+ * A session with two large file reads and notes, followed by a new question
+ */
+function session(resultSize: number, notesSize = 0) {
+  return {
+    model: "claude-sonnet-4-5",
+    max_tokens: 1024,
+    messages: [
+      { role: "user", content: "Refactor the parser" },
+      toolUse("t1"),
+      toolResult("t1", resultSize),
+      toolUse("t2"),
+      toolResult("t2", resultSize),
+      { role: "assistant", content: `Done refactoring. ${"n".repeat(notesSize)}` },
+      { role: "user", content: "Now add tests" },
+      toolUse("t3"),
+      toolResult("t3", 400),
+    ],
+  };
+}
+
+describe("compactRequest", () => {
+  test("should leave requests that fit unchanged", async () => {
+    const body = session(1000);
+    const result = await compactRequest(body, 32768);
+    expect(result.body).toBe(body);
+    expect(result.dropped).toEqual([]);
+  });
+
+  test("should trim old tool results first", async () => {
+    const result = await compactRequest(session(20000), 8192);
+    expect(result.dropped).toEqual([
+      "tool_result t1 (20000 chars)",
+      "tool_result t2 (20000 chars)",
+    ]);
+    expect(result.compactedTokens).toBeLessThanOrEqual(result.targetTokens);
+    expect(result.body.messages).toHaveLength(9);
+    // Recent tool results stay intact
+    expect(result.body.messages[8].content[0].content).toBe("x".repeat(400));
+  });
+
+  test("should collapse earlier turns into a summary", async () => {
+    const transcripts: string[] = [];
+    const result = await compactRequest(session(20000, 12000), 4096, {
+      keepRecentMessages: 3,
+      summarize: async (transcript) => {
+        transcripts.push(transcript);
+        return "The parser was refactored.";
+      },
+    });
+    expect(transcripts[0]).toContain("Refactor the parser");
+    // The kept part starts at a user turn, so no tool_result loses its tool_use
+    const [first, ...rest] = result.body.messages;
+    expect(first.role).toBe("user");
+    expect(first.content[0].text).toContain("The parser was refactored.");
+    expect(rest.map((m: any) => m.role)).toEqual(["assistant", "user"]);
+    expect(result.dropped).toContain("6 earlier messages (collapsed into a summary)");
+  });
+
+  test("should fall back to an extract when the summary model fails", async () => {
+    const result = await compactRequest(session(20000, 12000), 4096, {
+      summarize: () => Promise.reject(new Error("offline")),
+    });
+    // The kept part starts at an assistant turn, so the summary becomes its own user message
+    const [summary, next] = result.body.messages;
+    expect(summary.content[0].text).toContain("user: Refactor the parser");
+    expect([summary.role, next.role]).toEqual(["user", "assistant"]);
+    expect(result.body.messages).toHaveLength(5);
+  });
+
+  test("should truncate oversized file contents", async () => {
+    const body = {
+      messages: [
+        { role: "user", content: "Explain this file" },
+        toolUse("t1"),
+        toolResult("t1", 60000),
+      ],
+    };
+    const result = await compactRequest(body, 8192);
+    const content = result.body.messages[2].content[0].content;
+    expect(content).toContain("characters truncated by claudish");
+    expect(content.length).toBeLessThan(10000);
+    expect(result.compactedTokens).toBeLessThanOrEqual(result.targetTokens);
+  });
+});
+
+describe("compaction through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["CLAUDISH_CONTEXT_WINDOW", "OPENAI_BASE_URL", "OPENAI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.CLAUDISH_CONTEXT_WINDOW = "4096";
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    const modelMap = { sonnet: `${mock.url}/mock-model` };
+    proxy = await createProxyServer(0, undefined, undefined, false, undefined, modelMap, {
+      compaction: { summaryModel: "oai@gpt-4o-mini" },
+    });
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  test("should compact requests that exceed the local context window", async () => {
+    const res = await fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...session(20000, 12000), stream: true }),
+    });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain("end_turn");
+
+    // The summary model is asked first, then the local model gets the compacted request
+    const [summary, request] = mock.requests.slice(-2);
+    expect(summary.model).toBe("gpt-4o-mini");
+    expect(request.model).toBe("mock-model");
+    expect(JSON.stringify(request.body)).toContain("Hello from the mock upstream.");
+    expect(JSON.stringify(request.body).length).toBeLessThan(20000);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for per-request routing rules (profile "rules")
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import {
+  type RoutingRule,
+  findMatchingRule,
+  getRequestFeatures,
+} from "../src/services/routing-rules";
+import type { ProxyServer } from "../src/types";
+
+const IMAGE_BLOCK = {
+  type: "image",
+  source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" },
+};
+
+const RULES: RoutingRule[] = [
+  { name: "long-context", when: { minInputTokens: 5000 }, model: "g@gemini-2.5-pro" },
+  { name: "vision", when: { hasImages: true }, model: "oai@gpt-4o" },
+  { name: "thinking", when: { hasThinking: true, role: "opus" }, model: "oai@o3" },
+  { name: "subagent", when: { isSubagent: true, maxTools: 5 }, model: "mm@MiniMax-M2" },
+  { name: "reviewer", when: { systemPattern: "code review(er)?" }, model: "kimi@kimi-k2" },
+];
+
+describe("getRequestFeatures", () => {
+  test("should detect images, including inside tool results", () => {
+    const features = getRequestFeatures({
+      messages: [
+        {
+          role: "user",
+          content: [{ type: "tool_result", tool_use_id: "t1", content: [IMAGE_BLOCK] }],
+        },
+      ],
+    });
+    expect(features.hasImages).toBe(true);
+  });
+
+  test("should detect thinking, tools and role", () => {
+    const features = getRequestFeatures({
+      model: "claude-opus-4-1",
+      thinking: { type: "enabled", budget_tokens: 4000 },
+      tools: [{ name: "Read" }, { name: "Task" }],
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(features.hasThinking).toBe(true);
+    expect(features.toolCount).toBe(2);
+    expect(features.role).toBe("opus");
+    expect(features.isSubagent).toBe(false);
+    expect(features.hasImages).toBe(false);
+  });
+
+  test("should recognize subagent requests", () => {
+    const main = "You are Claude Code, Anthropic's official CLI for Claude.";
+    expect(
+      getRequestFeatures({ system: main, tools: [{ name: "Read" }], messages: [] }).isSubagent
+    ).toBe(true);
+    expect(
+      getRequestFeatures({
+        system: main,
+        tools: [{ name: "Read" }, { name: "Task" }],
+        messages: [],
+      }).isSubagent
+    ).toBe(false);
+    expect(
+      getRequestFeatures({
+        system: [{ type: "text", text: "You are an agent for Claude Code, Anthropic's CLI." }],
+        messages: [],
+      }).isSubagent
+    ).toBe(true);
+  });
+});
+
+describe("findMatchingRule", () => {
+  const match = (body: any) => findMatchingRule(RULES, body)?.name;
+
+  test("should return the first matching rule", () => {
+    const longImage = {
+      messages: [
+        { role: "user", content: [IMAGE_BLOCK, { type: "text", text: "x".repeat(20000) }] },
+      ],
+    };
+    expect(match(longImage)).toBe("long-context");
+    expect(match({ messages: [{ role: "user", content: [IMAGE_BLOCK] }] })).toBe("vision");
+  });
+
+  test("should require every condition", () => {
+    const thinking = { thinking: { type: "enabled" }, messages: [] };
+    expect(match({ ...thinking, model: "claude-opus-4-1" })).toBe("thinking");
+    expect(match({ ...thinking, model: "claude-sonnet-4-5" })).toBeUndefined();
+  });
+
+  test("should match system prompt patterns", () => {
+    expect(match({ system: "You are a Code Reviewer.", messages: [] })).toBe("reviewer");
+    expect(findMatchingRule([{ when: { systemPattern: "(" }, model: "x" }], {})).toBeUndefined();
+  });
+
+  test("should return nothing without a match", () => {
+    expect(match({ messages: [{ role: "user", content: "hello" }] })).toBeUndefined();
+  });
+});
+
+describe("routing rules through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "GEMINI_BASE_URL", "OPENAI_API_KEY", "GEMINI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.GEMINI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    process.env.GEMINI_API_KEY = "mock-key";
+    const routingRules: RoutingRule[] = [
+      { name: "vision", when: { hasImages: true }, model: "oai@gpt-4o" },
+    ];
+    const modelMap = { sonnet: "g@gemini-2.5-flash" };
+    proxy = await createProxyServer(0, undefined, undefined, false, undefined, modelMap, {
+      routingRules,
+    });
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = async (content: unknown) => {
+    const res = await fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "claude-sonnet-4-5",
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: "user", content }],
+      }),
+    });
+    expect(res.status).toBe(200);
+    await res.text();
+    return mock.requests.at(-1);
+  };
+
+  test("should route vision turns by rule and others by role mapping", async () => {
+    expect((await send([IMAGE_BLOCK, { type: "text", text: "What is this?" }]))?.model).toBe(
+      "gpt-4o"
+    );
+    expect((await send("Hello"))?.model).toBe("gemini-2.5-flash");
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Tests for the Anthropic streaming conformance checker (--check-stream)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { setCustomProviders } from "../src/providers/custom-providers";
+import { createProxyServer } from "../src/proxy-server";
+import { loadRecording } from "../src/services/session-recorder";
+import {
+  type SseEvent,
+  StreamChecker,
+  checkAnthropicStream,
+  withStreamCheck,
+} from "../src/services/stream-checker";
+
+const sse = (type: string, data: Record<string, any> = {}): SseEvent => ({
+  event: type,
+  data: { type, ...data },
+});
+
+const MESSAGE_START = sse("message_start", { message: { id: "msg_1", content: [] } });
+const MESSAGE_DELTA = sse("message_delta", {
+  delta: { stop_reason: "end_turn" },
+  usage: { output_tokens: 1 },
+});
+const textStart = (index: number) =>
+  sse("content_block_start", { index, content_block: { type: "text", text: "" } });
+const textDelta = (index: number, text: string) =>
+  sse("content_block_delta", { index, delta: { type: "text_delta", text } });
+const toolStart = (index: number) =>
+  sse("content_block_start", {
+    index,
+    content_block: { type: "tool_use", id: "toolu_1", name: "Read", input: {} },
+  });
+const toolDelta = (index: number, partial_json: string) =>
+  sse("content_block_delta", { index, delta: { type: "input_json_delta", partial_json } });
+const blockStop = (index: number) => sse("content_block_stop", { index });
+
+const format = (events: SseEvent[]) =>
+  events.map((e) => `event: ${e.event}\ndata: ${JSON.stringify(e.data)}\n\n`).join("");
+
+function run(events: SseEvent[], repair = false) {
+  const checker = new StreamChecker(repair);
+  const output = [...events.flatMap((e) => checker.push(e)), ...checker.end()];
+  return { rules: checker.violations.map((v) => v.rule), output };
+}
+
+describe("StreamChecker", () => {
+  test("should accept a well-formed stream", () => {
+    const { rules } = run([
+      MESSAGE_START,
+      sse("ping"),
+      textStart(0),
+      textDelta(0, "Reading."),
+      blockStop(0),
+      toolStart(1),
+      toolDelta(1, '{"file_path":'),
+      toolDelta(1, '"/tmp/a"}'),
+      blockStop(1),
+      MESSAGE_DELTA,
+      sse("message_stop"),
+    ]);
+    expect(rules).toEqual([]);
+  });
+
+  test("should report each kind of malformed sequence", () => {
+    const { rules } = run([
+      textDelta(0, "early"),
+      MESSAGE_START,
+      textStart(1),
+      textStart(1),
+      blockStop(1),
+      textDelta(1, "late"),
+      blockStop(1),
+      blockStop(5),
+      toolStart(2),
+      textDelta(2, "wrong"),
+      toolDelta(2, '{"file_path": '),
+      textStart(3),
+      MESSAGE_DELTA,
+      sse("message_stop"),
+      sse("message_stop"),
+    ]);
+    expect(rules).toEqual([
+      "missing_message_start",
+      "delta_before_start",
+      "duplicate_message_start",
+      "duplicate_block_start",
+      "delta_after_stop",
+      "duplicate_block_stop",
+      "stop_without_start",
+      "delta_type_mismatch",
+      "overlapping_block",
+      "unclosed_block",
+      "invalid_tool_input",
+      "unclosed_block",
+      "duplicate_message_stop",
+    ]);
+  });
+
+  test("should report truncated streams but not ones that end in an error event", () => {
+    expect(run([MESSAGE_START, textStart(0), textDelta(0, "Hel")]).rules).toEqual([
+      "missing_message_stop",
+    ]);
+    const error = sse("error", { error: { type: "api_error", message: "boom" } });
+    expect(run([MESSAGE_START, error]).rules).toEqual([]);
+  });
+
+  test("should repair streams into a valid sequence", () => {
+    const { output } = run(
+      [
+        MESSAGE_START,
+        textDelta(0, "Hi"),
+        blockStop(0),
+        blockStop(0),
+        toolStart(1),
+        toolDelta(1, '{"file_path": "/tmp/a"'),
+        sse("message_stop"),
+        sse("message_stop"),
+      ],
+      true
+    );
+    expect(checkAnthropicStream(format(output))).toEqual([]);
+    expect(output.map((e) => e.event)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ]);
+    expect(output[5].data.delta.partial_json).toBe("{}");
+  });
+
+  test("should close a cut-off stream when repairing a Response", async () => {
+    const body = format([MESSAGE_START, textStart(0), textDelta(0, "Hel")]);
+    const response = withStreamCheck(
+      new Response(body, { headers: { "Content-Type": "text/event-stream" } }),
+      "repair",
+      "test"
+    );
+    const repaired = await response.text();
+    expect(checkAnthropicStream(repaired)).toEqual([]);
+    expect(repaired).toContain('"text":"Hel"');
+  });
+});
+
+describe("recorded fixtures", () => {
+  test("should find the captured Anthropic streams conformant", () => {
+    const dir = join(import.meta.dir, "fixtures");
+    for (const file of readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+      const fixture = JSON.parse(readFileSync(join(dir, file), "utf-8"));
+      expect({ file, violations: checkAnthropicStream(format(fixture.response.events)) }).toEqual({
+        file,
+        violations: [],
+      });
+    }
+  });
+});
+
+describe("every handler against the mock upstream", () => {
+  const PROVIDER_ENV = [
+    "OPENAI_BASE_URL",
+    "GEMINI_BASE_URL",
+    "OLLAMA_BASE_URL",
+    "OLLAMA_HOST",
+    "OLLAMACLOUD_BASE_URL",
+    "MINIMAX_BASE_URL",
+    "POE_BASE_URL",
+    "OPENROUTER_BASE_URL",
+  ];
+  const KEY_ENV = [
+    "OPENAI_API_KEY",
+    "GEMINI_API_KEY",
+    "OLLAMA_API_KEY",
+    "MINIMAX_API_KEY",
+    "POE_API_KEY",
+    "OPENROUTER_API_KEY",
+  ];
+  const MODELS = [
+    "oai@gpt-4o",
+    "oai@gpt-5-codex",
+    "g@gemini-2.5-flash",
+    "oc@gpt-oss-20b",
+    "mm@MiniMax-M2",
+    "poe:mock-bot",
+    "openrouter@mock/model",
+    "ollama@mock-model",
+    "mock-anthropic@mock-model",
+  ];
+  const SCENARIOS = ["text", "tool_call", "xml_tool_call", "reasoning"];
+
+  let mock: MockUpstream;
+  let dir: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    dir = mkdtempSync(join(tmpdir(), "claudish-stream-check-"));
+    for (const name of [...PROVIDER_ENV, ...KEY_ENV]) savedEnv[name] = process.env[name];
+    for (const name of PROVIDER_ENV) process.env[name] = mock.url;
+    for (const name of KEY_ENV) process.env[name] = "mock-key";
+    setCustomProviders([{ name: "mock-anthropic", baseUrl: mock.url, protocol: "anthropic" }]);
+  });
+
+  afterAll(async () => {
+    setCustomProviders(null);
+    await mock.stop();
+    rmSync(dir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  test("should record conformant streams for every scenario", async () => {
+    const proxy = await createProxyServer(
+      0,
+      "mock-key",
+      undefined,
+      false,
+      undefined,
+      {},
+      {
+        record: dir,
+      }
+    );
+    try {
+      for (const model of MODELS) {
+        for (const scenario of SCENARIOS) {
+          const res = await fetch(`${proxy.url}/v1/messages`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              model: `${model}-${scenario}`,
+              max_tokens: 256,
+              stream: true,
+              messages: [{ role: "user", content: "Read /tmp/example.txt" }],
+              tools: [
+                {
+                  name: "Read",
+                  description: "Read a file",
+                  input_schema: {
+                    type: "object",
+                    properties: { file_path: { type: "string" } },
+                    required: ["file_path"],
+                  },
+                },
+              ],
+            }),
+          });
+          expect(res.status).toBe(200);
+          await res.text();
+        }
+      }
+    } finally {
+      await proxy.shutdown();
+    }
+
+    const recording = loadRecording(dir);
+    expect(recording).toHaveLength(MODELS.length * SCENARIOS.length);
+    const violations = recording.flatMap((exchange) =>
+      checkAnthropicStream(exchange.response || "").map((v) => `${exchange.target}: ${v.message}`)
+    );
+    expect(violations).toEqual([]);
+  }, 60000);
+});
@@ -0,0 +1,243 @@
+/**
+ * Tests for the persistent Gemini thought signature store
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { GeminiThoughtSignatureMiddleware } from "../src/middleware/gemini-thought-signature";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import {
+  ThoughtSignatureStore,
+  getConversationKey,
+  setThoughtSignatureStore,
+} from "../src/services/thought-signature-store";
+
+let dir: string;
+let storePath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "claudish-signatures-"));
+  storePath = join(dir, "nested", "thought-signatures.json");
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ThoughtSignatureStore", () => {
+  test("should persist signatures across instances", () => {
+    const store = new ThoughtSignatureStore(storePath);
+    store.set("tool_1", { conversation: "conv-a", toolName: "Read", thoughtSignature: "sig-1" });
+    store.flush();
+
+    const reloaded = new ThoughtSignatureStore(storePath);
+    expect(reloaded.get("tool_1")).toMatchObject({
+      conversation: "conv-a",
+      toolName: "Read",
+      thoughtSignature: "sig-1",
+    });
+    expect(reloaded.get("tool_2")).toBeUndefined();
+  });
+
+  test("should keep signatures written by other processes", () => {
+    const first = new ThoughtSignatureStore(storePath);
+    const second = new ThoughtSignatureStore(storePath);
+    first.set("tool_1", { conversation: "conv-a", thoughtSignature: "sig-1" });
+    second.set("tool_2", { conversation: "conv-b", thoughtSignature: "sig-2" });
+    first.flush();
+    second.flush();
+
+    const reloaded = new ThoughtSignatureStore(storePath);
+    expect(reloaded.get("tool_1")?.thoughtSignature).toBe("sig-1");
+    expect(reloaded.get("tool_2")?.thoughtSignature).toBe("sig-2");
+  });
+
+  test("should not write the file for lookups alone", () => {
+    const store = new ThoughtSignatureStore(storePath);
+    expect(store.get("tool_1")).toBeUndefined();
+    store.flush();
+    expect(existsSync(storePath)).toBe(false);
+  });
+
+  test("should evict the least recently used conversation as a whole", () => {
+    const store = new ThoughtSignatureStore(storePath, { maxEntries: 3 });
+    store.set("a1", { conversation: "a", thoughtSignature: "s" });
+    store.set("b1", { conversation: "b", thoughtSignature: "s" });
+    store.set("a2", { conversation: "a", thoughtSignature: "s" });
+    store.get("a1"); // conversation b is now the least recently used
+    store.set("c1", { conversation: "c", thoughtSignature: "s" });
+
+    expect(store.size).toBe(3);
+    expect(store.get("b1")).toBeUndefined();
+
+    store.set("c2", { conversation: "c", thoughtSignature: "s" });
+    expect(store.get("a1")).toBeUndefined();
+    expect(store.get("a2")).toBeUndefined();
+    expect(store.size).toBe(2);
+  });
+
+  test("should stay within its size limit", () => {
+    const store = new ThoughtSignatureStore(storePath, { maxBytes: 1000 });
+    for (let i = 0; i < 10; i++) {
+      store.set(`tool_${i}`, { thoughtSignature: "x".repeat(200) });
+    }
+    expect(store.size).toBeLessThan(5);
+    expect(store.get("tool_9")?.thoughtSignature).toHaveLength(200);
+  });
+
+  test("should key conversations by their first user message", () => {
+    const first = { role: "user", content: [{ type: "text", text: "Fix the bug" }] };
+    const key = getConversationKey([first]);
+    expect(getConversationKey([first, { role: "assistant", content: "Done" }])).toBe(key);
+    expect(getConversationKey([{ role: "user", content: "Fix the bug" }])).toBe(key);
+    expect(getConversationKey([{ role: "user", content: "Other" }])).not.toBe(key);
+  });
+});
+
+describe("GeminiThoughtSignatureMiddleware", () => {
+  const history = () => [
+    { role: "user", content: "Read the config" },
+    {
+      role: "assistant",
+      content: "",
+      tool_calls: [
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "Read", arguments: '{"file_path":"/repo/a.ts"}' },
+        },
+      ],
+    },
+    { role: "tool", tool_call_id: "call_1", content: "export const a = 1;" },
+  ];
+
+  test("should restore reasoning_details saved before a restart", async () => {
+    const store = new ThoughtSignatureStore(storePath);
+    const before = new GeminiThoughtSignatureMiddleware(store);
+    const metadata = new Map<string, any>([
+      ["reasoning_details", [{ type: "reasoning.encrypted", data: "sig", id: "call_1" }]],
+      ["tool_call_ids", new Set(["call_1"])],
+    ]);
+    before.afterStreamComplete(metadata);
+    store.flush();
+
+    const after = new GeminiThoughtSignatureMiddleware(new ThoughtSignatureStore(storePath));
+    const messages = history();
+    after.beforeRequest({ modelId: "google/gemini-3-pro-preview", messages, stream: true });
+
+    expect(messages[1].reasoning_details).toEqual([
+      { type: "reasoning.encrypted", data: "sig", id: "call_1" },
+    ]);
+    expect(messages[2].role).toBe("tool");
+  });
+
+  test("should rewrite unsigned tool calls into text for Gemini 3", () => {
+    const middleware = new GeminiThoughtSignatureMiddleware(new ThoughtSignatureStore(storePath));
+    const messages = history();
+    middleware.beforeRequest({ modelId: "google/gemini-3-pro-preview", messages, stream: true });
+
+    expect(messages[1]).toEqual({
+      role: "assistant",
+      content: '[Called tool Read with input {"file_path":"/repo/a.ts"}]',
+    });
+    expect(messages[2]).toEqual({
+      role: "user",
+      content: "[Result of tool Read]\nexport const a = 1;",
+    });
+
+    const older = history();
+    middleware.beforeRequest({ modelId: "google/gemini-2.5-pro", messages: older, stream: true });
+    expect(older[1].tool_calls).toHaveLength(1);
+  });
+});
+
+describe("thought signatures through createProxyServer", () => {
+  let mock: MockUpstream;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["GEMINI_BASE_URL", "GEMINI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.GEMINI_BASE_URL = mock.url;
+    process.env.GEMINI_API_KEY = "mock-key";
+  });
+
+  afterEach(() => {
+    setThoughtSignatureStore(null);
+  });
+
+  afterAll(async () => {
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = async (messages: unknown[]) => {
+    const proxy = await createProxyServer(0);
+    try {
+      const res = await fetch(`${proxy.url}/v1/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: "g@gemini-3-pro-preview",
+          max_tokens: 256,
+          stream: true,
+          messages,
+        }),
+      });
+      expect(res.status).toBe(200);
+      return await res.text();
+    } finally {
+      await proxy.shutdown();
+    }
+  };
+
+  test("should resume a session with signatures from before the restart", async () => {
+    setThoughtSignatureStore(new ThoughtSignatureStore(storePath));
+    mock.setScript([
+      { name: "tool", toolCalls: [{ name: "Read", arguments: { file_path: "/repo/a.ts" } }] },
+    ]);
+    const ask = { role: "user", content: "Read /repo/a.ts" };
+    const sse = await send([ask]);
+    const toolId = sse.match(/"type":"tool_use","id":"([^"]+)"/)?.[1];
+    expect(toolId).toBeDefined();
+
+    // Simulate a restart: a fresh store reading the same file
+    setThoughtSignatureStore(new ThoughtSignatureStore(storePath));
+    mock.reset();
+    await send([
+      ask,
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: toolId, name: "Read", input: { file_path: "/repo/a.ts" } },
+        ],
+      },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: toolId, content: "a = 1" }] },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "toolu_lost", name: "Bash", input: { command: "ls" } }],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_lost", content: "a.ts" }],
+      },
+    ]);
+
+    const contents = (mock.requests[0].body as any).contents;
+    expect(contents[1].parts[0]).toMatchObject({
+      functionCall: { name: "Read" },
+      thoughtSignature: "mock-thought-signature",
+    });
+    expect(contents[2].parts[0].functionResponse.name).toBe("Read");
+    // The call whose signature is gone is sent as text instead
+    expect(contents[3].parts).toEqual([{ text: '[Called tool Bash with input {"command":"ls"}]' }]);
+    expect(contents[4].parts.map((p: any) => p.text)).toEqual(["[Result of tool Bash]", "a.ts"]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for tokenizer-based token counting (/v1/messages/count_tokens, estimateTokens)
+ */
+
+import { describe, expect, test } from "bun:test";
+import { estimateTokens } from "../src/handlers/shared/openai-compat";
+import {
+  CL100K_COUNTER,
+  GEMINI_COUNTER,
+  HEURISTIC_COUNTER,
+  LLAMA_COUNTER,
+  O200K_COUNTER,
+  QWEN_COUNTER,
+  countRequestTokens,
+  getTokenCounter,
+  getTokenCounterForSpec,
+  registerTokenCounter,
+} from "../src/services/token-counter";
+
+describe("getTokenCounterForSpec", () => {
+  test("should pick a tokenizer per resolved provider/model", () => {
+    expect(getTokenCounterForSpec("oai@gpt-5")).toBe(O200K_COUNTER);
+    expect(getTokenCounterForSpec("openai/gpt-4o-mini")).toBe(O200K_COUNTER);
+    expect(getTokenCounterForSpec("oai@o3-mini")).toBe(O200K_COUNTER);
+    expect(getTokenCounterForSpec("x-ai/grok-code-fast-1")).toBe(CL100K_COUNTER);
+    expect(getTokenCounterForSpec("g@gemini-2.5-pro")).toBe(GEMINI_COUNTER);
+    expect(getTokenCounterForSpec("openrouter@google/gemini-3-pro")).toBe(GEMINI_COUNTER);
+    expect(getTokenCounterForSpec("ollama@qwen3-coder:30b")).toBe(QWEN_COUNTER);
+    expect(getTokenCounterForSpec("ollama@llama3.2")).toBe(LLAMA_COUNTER);
+  });
+
+  test("should count fallback chains with the first model", () => {
+    expect(getTokenCounterForSpec("g@gemini-2.5-pro|oai@gpt-5")).toBe(GEMINI_COUNTER);
+  });
+
+  test("should fall back to the heuristic when nothing matches", () => {
+    expect(getTokenCounterForSpec("ollama@some-unknown-model")).toBe(HEURISTIC_COUNTER);
+  });
+
+  test("should let registered counters take precedence", () => {
+    const custom = { name: "custom", count: () => 42 };
+    registerTokenCounter(({ model }) => model === "my-special-model", custom);
+    expect(getTokenCounter({ provider: "ollama", model: "my-special-model" })).toBe(custom);
+    expect(getTokenCounter({ provider: "ollama", model: "qwen3" })).toBe(QWEN_COUNTER);
+  });
+});
+
+describe("TokenCounter", () => {
+  test("should count exactly with BPE vocabularies once loaded", async () => {
+    await O200K_COUNTER.ready?.();
+    await CL100K_COUNTER.ready?.();
+    expect(O200K_COUNTER.count("Hello world")).toBe(2);
+    expect(CL100K_COUNTER.count("Hello world")).toBe(2);
+  });
+
+  test("should approximate SentencePiece-style tokenizers", () => {
+    const text = "The quick brown fox jumps over the lazy dog.\n";
+    const count = GEMINI_COUNTER.count(text);
+    expect(count).toBeGreaterThanOrEqual(9);
+    expect(count).toBeLessThanOrEqual(14);
+
+    // Digits are split individually
+    expect(GEMINI_COUNTER.count("2025")).toBe(4);
+    // Byte-fallback vocabularies spend more tokens on CJK text
+    expect(LLAMA_COUNTER.count("你好世界")).toBeGreaterThan(QWEN_COUNTER.count("你好世界"));
+  });
+});
+
+describe("countRequestTokens", () => {
+  const request = {
+    model: "claude-sonnet-4",
+    system: [{ type: "text", text: "You are a helpful coding assistant." }],
+    messages: [
+      { role: "user", content: "Read the file src/index.ts" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Reading it now." },
+          { type: "tool_use", id: "t1", name: "Read", input: { file_path: "src/index.ts" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "t1", content: "export const x = 1;" }],
+      },
+    ],
+    tools: [
+      {
+        name: "Read",
+        description: "Read a file",
+        input_schema: { type: "object", properties: { file_path: { type: "string" } } },
+      },
+    ],
+  };
+
+  test("should count system, messages and tools", async () => {
+    await O200K_COUNTER.ready?.();
+    const count = countRequestTokens(request, O200K_COUNTER);
+    expect(count).toBeGreaterThan(40);
+    expect(count).toBeLessThan(120);
+  });
+
+  test("should charge a fixed amount for images", () => {
+    const withImage = {
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "image",
+              source: { type: "base64", media_type: "image/png", data: "x".repeat(50000) },
+            },
+          ],
+        },
+      ],
+    };
+    expect(countRequestTokens(withImage, HEURISTIC_COUNTER)).toBe(1604);
+  });
+});
+
+describe("estimateTokens", () => {
+  test("should use the model's tokenizer when a model is given", async () => {
+    await O200K_COUNTER.ready?.();
+    expect(estimateTokens("Hello world", "oai@gpt-5")).toBe(2);
+    expect(estimateTokens("Hello world")).toBe(3);
+  });
+});
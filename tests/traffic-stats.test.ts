@@ -0,0 +1,93 @@
+/**
+ * Tests for live proxy traffic stats (/_claudish/stats, claudish top)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import type { TrafficSnapshot } from "../src/services/traffic-stats";
+import { renderTop } from "../src/top-command";
+import type { ProxyServer } from "../src/types";
+
+describe("traffic stats through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["OPENAI_BASE_URL", "OPENAI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream({
+      scenarios: { slow: { name: "slow", text: "Streaming slowly.", chunkSize: 4, delayMs: 40 } },
+    });
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.OPENAI_BASE_URL = mock.url;
+    process.env.OPENAI_API_KEY = "mock-key";
+    proxy = await createProxyServer(0, undefined, undefined, false, undefined, {});
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = (model: string) =>
+    fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        max_tokens: 64,
+        stream: true,
+        messages: [{ role: "user", content: "Hello" }],
+      }),
+    });
+
+  const stats = async (): Promise<TrafficSnapshot> =>
+    (await fetch(`${proxy.url}/_claudish/stats`)).json();
+
+  test("should show a streaming request in flight, then its target totals", async () => {
+    const res = await send("oai@gpt-4o-slow");
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    while (!text.includes("content_block_delta")) {
+      const { value } = await reader.read();
+      text += decoder.decode(value);
+    }
+
+    const during = await stats();
+    const inFlight = during.inFlight.filter((r) => r.target === "oai@gpt-4o-slow");
+    expect(inFlight).toHaveLength(1);
+    expect(inFlight[0].state).toBe("streaming");
+    expect(inFlight[0].ttftMs).toBeGreaterThanOrEqual(0);
+    expect(renderTop(during, proxy.url)).toContain("streaming");
+
+    while (!(await reader.read()).done) {}
+    const after = await stats();
+    expect(after.inFlight.filter((r) => r.target === "oai@gpt-4o-slow")).toEqual([]);
+    const target = after.targets.find((t) => t.target === "oai@gpt-4o-slow");
+    expect(target).toMatchObject({ requests: 1, errors: 0, inFlight: 0 });
+    expect(target?.avgTtftMs).toBeGreaterThanOrEqual(0);
+    expect(target?.tokensPerSec).toBeGreaterThan(0);
+    expect(after.queues.openrouter.queueLength).toBe(0);
+  });
+
+  test("should count upstream errors per target", async () => {
+    // Stats are process-wide, so other proxies in this test run may have failed here too
+    const errorsOf = (snapshot: TrafficSnapshot) =>
+      snapshot.targets.find((t) => t.target === "oai@gpt-4o-server_error")?.errors || 0;
+    const before = await stats();
+    await (await send("oai@gpt-4o-server_error")).text();
+    const snapshot = await stats();
+    expect(errorsOf(snapshot)).toBe(errorsOf(before) + 1);
+    expect(snapshot.totals.errors).toBe(before.totals.errors + 1);
+    expect(
+      snapshot.targets.find((t) => t.target === "oai@gpt-4o-server_error")?.lastError
+    ).toBeTruthy();
+    expect(renderTop(snapshot, proxy.url)).toContain("oai@gpt-4o-server_error");
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Tests for `claudish validate` (.claude/ agents, commands, skills and CLAUDE.md)
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { asList, parseFrontmatter } from "../src/validation/frontmatter";
+import { findBrokenLinks } from "../src/validation/links";
+import { ValidationOrchestrator, hasCriticalIssues } from "../src/validation/orchestrator";
+
+let dir: string;
+
+const write = (path: string, content: string) => {
+  mkdirSync(dirname(join(dir, path)), { recursive: true });
+  writeFileSync(join(dir, path), content);
+};
+
+const validate = async () => {
+  const result = await new ValidationOrchestrator({ projectPath: dir }).run();
+  const messages = (key: keyof typeof result) =>
+    result[key].issues.map(
+      (i) => `${i.severity} ${i.path}${i.line ? `:${i.line}` : ""} ${i.message}`
+    );
+  return { result, messages };
+};
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "claudish-validate-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("parseFrontmatter", () => {
+  test("should parse scalars, quoted values and lists", () => {
+    const { data, lines, body, bodyLine } = parseFrontmatter(
+      '---\nname: reviewer\ndescription: "Reviews: code"\ntools:\n  - Read\n  - Grep\nskills: [a, b]\n---\nPrompt'
+    );
+    expect(data).toEqual({
+      name: "reviewer",
+      description: "Reviews: code",
+      tools: ["Read", "Grep"],
+      skills: ["a", "b"],
+    });
+    expect(lines.tools).toBe(4);
+    expect(body).toBe("Prompt");
+    expect(bodyLine).toBe(9);
+  });
+
+  test("should report unclosed frontmatter", () => {
+    const { data, errors } = parseFrontmatter("---\nname: x\n");
+    expect(data).toBeNull();
+    expect(errors).toEqual([{ line: 1, message: "Frontmatter is not closed with ---" }]);
+  });
+
+  test("should split tool lists without breaking permission patterns", () => {
+    expect(asList("Read, Bash(git add:*, git commit:*), Grep")).toEqual([
+      "Read",
+      "Bash(git add:*, git commit:*)",
+      "Grep",
+    ]);
+  });
+});
+
+describe("findBrokenLinks", () => {
+  test("should find missing link and import targets outside code", () => {
+    write("docs/guide.md", "");
+    const content = [
+      "See @docs/guide.md and @docs/missing.md, [arch](docs/arch.md#top).",
+      "Uses @types/bun, mail me@example.com, see [site](https://example.com) and `@x/y.md`.",
+      "```",
+      "[inside](nope.md)",
+      "```",
+    ].join("\n");
+    expect(findBrokenLinks(content, dir, { imports: true })).toEqual([
+      { target: "docs/arch.md#top", line: 1, kind: "link" },
+      { target: "docs/missing.md", line: 1, kind: "import" },
+    ]);
+  });
+});
+
+describe("ValidationOrchestrator", () => {
+  test("should accept a valid setup", async () => {
+    write("CLAUDE.md", "# Project\nSee @docs/guide.md\n");
+    write("docs/guide.md", "Guide");
+    write(
+      ".claude/agents/reviewer.md",
+      "---\nname: reviewer\ndescription: Reviews code\ntools: Read, Grep, mcp__github__get_pr\nmodel: g@gemini-2.5-pro\n---\nYou review code.\n"
+    );
+    write(
+      ".claude/commands/git/commit.md",
+      "---\ndescription: Commit\nallowed-tools: Bash(git add:*), Bash(git commit:*)\n---\nCommit $ARGUMENTS\n"
+    );
+    write(
+      ".claude/skills/pdf/SKILL.md",
+      "---\nname: pdf\ndescription: Work with PDFs\n---\nSee [forms](forms.md)\n"
+    );
+    write(".claude/skills/pdf/forms.md", "Forms");
+
+    const { result } = await validate();
+    const issues = Object.values(result).flatMap((report) => report.issues);
+    expect(issues).toEqual([]);
+    expect(hasCriticalIssues(result)).toBe(false);
+  });
+
+  test("should report broken agents, commands, skills and docs", async () => {
+    write("CLAUDE.md", "Read [the guide](docs/guide.md)\n");
+    write(".claude/settings.json", "{ invalid");
+    write(
+      ".claude/agents/reviewer.md",
+      "---\nname: Reviewer\ntools: Read, FooTool\nmodel: x-ai/grok-code-fast-1\n---\n"
+    );
+    write(".claude/agents/plain.md", "No frontmatter\n");
+    write(".claude/commands/deploy.md", "---\nallowed-tools: Deploy\n---\nDeploy it\n");
+    write(".claude/skills/empty/notes.txt", "");
+
+    const { result, messages } = await validate();
+    expect(messages("agents")).toEqual([
+      "critical .claude/agents/plain.md:1 Agent has no frontmatter",
+      "critical .claude/agents/reviewer.md:1 Missing required frontmatter field: description",
+      "high .claude/agents/reviewer.md:3 Unknown tool in tools: FooTool",
+      "critical .claude/agents/reviewer.md:4 Model does not resolve to a provider: x-ai/grok-code-fast-1",
+      "medium .claude/agents/reviewer.md:2 Agent name should be lowercase-hyphenated: Reviewer",
+      "high .claude/agents/reviewer.md:6 Agent has no system prompt",
+    ]);
+    expect(messages("commands")).toEqual([
+      "high .claude/commands/deploy.md:2 Unknown tool in allowed-tools: Deploy",
+      "low .claude/commands/deploy.md:1 Command has no description (shown in the / menu)",
+    ]);
+    expect(messages("skills")).toEqual([
+      "critical .claude/skills/empty Skill directory has no SKILL.md",
+    ]);
+    expect(messages("documentation")).toEqual(["high CLAUDE.md:1 Broken link: docs/guide.md"]);
+    expect(messages("project")[0]).toStartWith("critical .claude/settings.json Invalid JSON");
+    expect(hasCriticalIssues(result)).toBe(true);
+  });
+});
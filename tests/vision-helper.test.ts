@@ -0,0 +1,131 @@
+/**
+ * Tests for the vision helper (image descriptions for text-only targets)
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { type MockUpstream, createMockUpstream } from "../src/mock-upstream/server";
+import { createProxyServer } from "../src/proxy-server";
+import { VisionHelper, targetSupportsVision } from "../src/services/vision-helper";
+import type { ProxyServer } from "../src/types";
+
+const image = (data: string) => ({
+  type: "image",
+  source: { type: "base64", media_type: "image/png", data },
+});
+
+const request = (...content: unknown[]) => ({
+  model: "claude-sonnet-4-5",
+  max_tokens: 256,
+  messages: [{ role: "user", content }],
+});
+
+describe("targetSupportsVision", () => {
+  test("should follow provider capabilities", () => {
+    expect(targetSupportsVision("lmstudio@qwen3-coder")).toBe(false);
+    expect(targetSupportsVision("mlx@llama-3.2")).toBe(false);
+    expect(targetSupportsVision("http://localhost:8000/v1/qwen")).toBe(false);
+    expect(targetSupportsVision("g@gemini-2.5-flash")).toBe(true);
+    expect(targetSupportsVision("openai/gpt-4o")).toBe(true);
+  });
+});
+
+describe("VisionHelper", () => {
+  test("should replace images, including those in tool results", async () => {
+    const helper = new VisionHelper(async (block) => `A screenshot (${block.source.data})`);
+    const body = await helper.describeImages(
+      request(image("aaa"), { type: "tool_result", tool_use_id: "t1", content: [image("bbb")] })
+    );
+    const [first, result] = body.messages[0].content;
+    expect(first).toEqual({
+      type: "text",
+      text: "[Image described by the claudish vision helper]\nA screenshot (aaa)",
+    });
+    expect(result.content[0].text).toContain("A screenshot (bbb)");
+  });
+
+  test("should describe each image once", async () => {
+    let calls = 0;
+    const helper = new VisionHelper(async () => {
+      calls++;
+      return "An error dialog";
+    });
+    await helper.describeImages(request(image("aaa"), image("aaa")));
+    await helper.describeImages(request(image("aaa"), { type: "text", text: "And now?" }));
+    expect(calls).toBe(1);
+  });
+
+  test("should leave requests without images unchanged", async () => {
+    const helper = new VisionHelper(async () => "unused");
+    const body = request({ type: "text", text: "Hello" });
+    expect(await helper.describeImages(body)).toBe(body);
+  });
+
+  test("should retry images it failed to describe", async () => {
+    let calls = 0;
+    const helper = new VisionHelper(async () => {
+      calls++;
+      if (calls === 1) throw new Error("offline");
+      return "A chart";
+    });
+    const failed = await helper.describeImages(request(image("ccc")));
+    expect(failed.messages[0].content[0].text).toContain("could not describe");
+    const retried = await helper.describeImages(request(image("ccc")));
+    expect(retried.messages[0].content[0].text).toContain("A chart");
+  });
+});
+
+describe("vision helper through createProxyServer", () => {
+  let mock: MockUpstream;
+  let proxy: ProxyServer;
+  const savedEnv: Record<string, string | undefined> = {};
+  const ENV = ["GEMINI_BASE_URL", "GEMINI_API_KEY"];
+
+  beforeAll(async () => {
+    mock = await createMockUpstream();
+    for (const name of ENV) savedEnv[name] = process.env[name];
+    process.env.GEMINI_BASE_URL = mock.url;
+    process.env.GEMINI_API_KEY = "mock-key";
+    const modelMap = { sonnet: `${mock.url}/mock-model`, haiku: "g@gemini-2.5-pro" };
+    proxy = await createProxyServer(0, undefined, undefined, false, undefined, modelMap, {
+      visionModel: "g@gemini-2.5-flash",
+    });
+  });
+
+  afterAll(async () => {
+    await proxy.shutdown();
+    await mock.stop();
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) Reflect.deleteProperty(process.env, name);
+      else process.env[name] = value;
+    }
+  });
+
+  const send = async (body: any) => {
+    const res = await fetch(`${proxy.url}/v1/messages`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, stream: true }),
+    });
+    expect(res.status).toBe(200);
+    await res.text();
+  };
+
+  test("should describe images for text-only targets once", async () => {
+    const body = request(image("iVBORw0KGgo="), { type: "text", text: "What is this?" });
+    await send(body);
+    await send(body);
+
+    const models = mock.requests.map((r) => r.model);
+    expect(models).toEqual(["gemini-2.5-flash", "mock-model", "mock-model"]);
+    const forwarded = JSON.stringify(mock.requests.at(-1)?.body);
+    expect(forwarded).toContain("Hello from the mock upstream.");
+    expect(forwarded).not.toContain("iVBORw0KGgo=");
+  });
+
+  test("should pass images through to vision targets", async () => {
+    mock.reset();
+    await send({ ...request(image("iVBORw0KGgo=")), model: "claude-haiku-4-5" });
+    expect(mock.requests.map((r) => r.model)).toEqual(["gemini-2.5-pro"]);
+    expect(JSON.stringify(mock.requests[0].body)).toContain("iVBORw0KGgo=");
+  });
+});